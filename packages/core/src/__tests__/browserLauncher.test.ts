@@ -0,0 +1,39 @@
+import { describe, it, expect } from 'vitest';
+import { browserContextOptions } from '../browserLauncher.js';
+
+describe('browserContextOptions', () => {
+  it('leaves out every unset field', () => {
+    expect(browserContextOptions()).toEqual({});
+    expect(browserContextOptions({ engine: 'chromium', persistence: 'session' })).toEqual({});
+  });
+
+  it('grants the geolocation permission when a geolocation is set', () => {
+    const geolocation = { latitude: 52.52, longitude: 13.405, accuracy: 50 };
+    expect(browserContextOptions({ geolocation })).toEqual({
+      geolocation,
+      permissions: ['geolocation'],
+    });
+  });
+
+  it('maps every context field through', () => {
+    expect(
+      browserContextOptions({
+        locale: 'de-DE',
+        timezoneId: 'Europe/Berlin',
+        viewport: { width: 1280, height: 720 },
+        deviceScaleFactor: 2,
+        userAgent: 'Mozilla/5.0 (test)',
+        extraHTTPHeaders: { 'Accept-Language': 'de-DE' },
+        colorScheme: 'dark',
+      })
+    ).toEqual({
+      locale: 'de-DE',
+      timezoneId: 'Europe/Berlin',
+      viewport: { width: 1280, height: 720 },
+      deviceScaleFactor: 2,
+      userAgent: 'Mozilla/5.0 (test)',
+      extraHTTPHeaders: { 'Accept-Language': 'de-DE' },
+      colorScheme: 'dark',
+    });
+  });
+});
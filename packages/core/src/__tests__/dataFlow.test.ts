@@ -0,0 +1,160 @@
+import { describe, it, expect } from 'vitest';
+import { analyzeDataFlow, analyzePackDataFlow, formatDataFlowIssue } from '../dsl/dataFlow.js';
+import type { DslStep } from '../dsl/types.js';
+import type { CollectibleDefinition, InputSchema } from '../types.js';
+
+const inputs: InputSchema = { q: { type: 'string', required: true } };
+const collectibles: CollectibleDefinition[] = [{ name: 'results', type: 'array' }];
+
+function messages(steps: DslStep[], severity: 'error' | 'warning'): string[] {
+  return analyzeDataFlow(steps, { inputs, collectibles })
+    .filter((issue) => issue.severity === severity)
+    .map(formatDataFlowIssue);
+}
+
+describe('analyzeDataFlow', () => {
+  it('accepts a flow whose reads are all set earlier', () => {
+    const flow: DslStep[] = [
+      { id: 'open', type: 'navigate', params: { url: 'https://example.com/search?q={{ inputs.q | urlencode }}' } },
+      { id: 'find', type: 'network_find', params: { where: { urlIncludes: '/api/search' }, saveAs: 'req' } },
+      { id: 'replay', type: 'network_replay', params: { requestId: '{{vars.req}}', auth: 'browser_context', out: 'results', response: { as: 'json' } } },
+    ];
+    expect(analyzeDataFlow(flow, { inputs, collectibles })).toEqual([]);
+  });
+
+  it('reports undeclared inputs and vars that are never set or set later', () => {
+    const flow: DslStep[] = [
+      { id: 'open', type: 'navigate', params: { url: 'https://example.com/{{inputs.region}}/{{vars.path}}' } },
+      { id: 'early', type: 'navigate', params: { url: '{{ vars.next.url }}' } },
+      { id: 'late', type: 'set_var', params: { name: 'next', value: 'x' } },
+      { id: 'replay', type: 'network_replay', params: { requestId: '{{vars.req}}', auth: 'browser_context', out: 'results', response: { as: 'json' } } },
+    ];
+    expect(messages(flow, 'error')).toEqual([
+      'Step "open": {{inputs.region}} is not a declared input',
+      'Step "open": {{vars.path}} is never set by any step',
+      'Step "early": {{vars.next}} is used before it is set (by step "late")',
+      'Step "replay": {{vars.req}} is never set by any step',
+    ]);
+  });
+
+  it('warns about vars that skip_if, optional steps and if branches may leave unset', () => {
+    const flow: DslStep[] = [
+      { id: 'maybe_token', type: 'set_var', params: { name: 'token', value: 'abc' }, skip_if: { url_includes: '/login' } },
+      { id: 'flaky', type: 'set_var', params: { name: 'page', value: 1 }, optional: true },
+      {
+        id: 'branch',
+        type: 'if',
+        params: {
+          condition: { var_truthy: 'token' },
+          then: [
+            { id: 'both_then', type: 'set_var', params: { name: 'mode', value: 'a' } },
+            { id: 'only_then', type: 'set_var', params: { name: 'extra', value: 'b' } },
+          ],
+          else: [{ id: 'both_else', type: 'set_var', params: { name: 'mode', value: 'c' } }],
+        },
+      },
+      { id: 'use', type: 'navigate', params: { url: '/{{vars.token}}/{{vars.page}}/{{vars.mode}}/{{vars.extra}}' } },
+    ];
+    expect(messages(flow, 'error')).toEqual([]);
+    expect(messages(flow, 'warning')).toEqual([
+      'Step "use": {{vars.token}} may be unset here: step "maybe_token" has skip_if',
+      'Step "use": {{vars.page}} may be unset here: step "flaky" is optional',
+      'Step "use": {{vars.extra}} may be unset here: it is only set in one branch of if "branch"',
+      'Collectible "results" is declared but no step writes it',
+    ]);
+  });
+
+  it('treats once steps as setting their outputs', () => {
+    const flow: DslStep[] = [
+      { id: 'login', type: 'set_var', params: { name: 'session', value: 'abc' }, once: 'profile' },
+      { id: 'use', type: 'navigate', params: { url: '/{{vars.session}}' } },
+    ];
+    expect(messages(flow, 'warning')).toEqual(['Collectible "results" is declared but no step writes it']);
+  });
+
+  it('scopes for_each variables and collectibles to the loop body', () => {
+    const flow: DslStep[] = [
+      { id: 'ids', type: 'set_var', params: { name: 'ids', value: '1,2' } },
+      {
+        id: 'each',
+        type: 'for_each',
+        params: {
+          items: '{{vars.ids}}',
+          as: 'id',
+          steps: [
+            { id: 'open', type: 'navigate', params: { url: '/item/{{vars.id}}?i={{vars.index}}' } },
+            { id: 'name', type: 'extract_text', params: { target: { kind: 'css', selector: 'h1' }, out: 'name' } },
+            { id: 'last', type: 'set_var', params: { name: 'lastId', value: '{{vars.id}}' } },
+          ],
+          out: 'results',
+        },
+      },
+      { id: 'after', type: 'navigate', params: { url: '/{{vars.lastId}}/{{vars.id}}' } },
+      { id: 'names', type: 'transform', params: { sources: { n: 'name' }, expression: 'n', saveAs: 'names' } },
+    ];
+    expect(messages(flow, 'error')).toEqual([
+      'Step "after": {{vars.id}} is never set by any step',
+      'Step "names": sources.n "name" is not a var or collectible set by an earlier step',
+    ]);
+    expect(messages(flow, 'warning')).toEqual([
+      'Step "after": {{vars.lastId}} may be unset here: it is only set inside for_each "each", which may run zero times',
+      'Step "names": vars.names is set but never used',
+    ]);
+  });
+
+  it('reports outs to undeclared collectibles in if branches and unused vars', () => {
+    const flow: DslStep[] = [
+      { id: 'title', type: 'extract_title', params: { out: 'results' } },
+      { id: 'find', type: 'network_find', params: { where: { urlIncludes: '/api' }, saveAs: 'unused' } },
+      {
+        id: 'branch',
+        type: 'if',
+        params: {
+          condition: { url_includes: '/shop' },
+          then: [{ id: 'price', type: 'extract_text', params: { target: { kind: 'css', selector: '.price' }, out: 'price' } }],
+        },
+      },
+    ];
+    expect(messages(flow, 'error')).toEqual([
+      'Step "price": out "price" is not a declared collectible, so it is dropped from the output',
+    ]);
+    expect(messages(flow, 'warning')).toEqual(['Step "find": vars.unused is set but never used']);
+  });
+
+  it('checks on_failure and finally after a flow that may stop at any step', () => {
+    const issues = analyzePackDataFlow({
+      inputs,
+      collectibles,
+      flow: [
+        { id: 'login', type: 'set_var', params: { name: 'session', value: 'abc' } },
+        { id: 'title', type: 'extract_title', params: { out: 'results' } },
+      ],
+      on_failure: [
+        { id: 'why', type: 'set_var', params: { name: 'reason', value: '{{vars.__error.stepId}}: {{vars.__error.message}}' } },
+        { id: 'report', type: 'extract_title', params: { out: 'failure' } },
+      ],
+      finally: [
+        { id: 'logout', type: 'navigate', params: { url: '/logout?s={{vars.session}}&r={{vars.reason}}&t={{vars.token}}' } },
+      ],
+    });
+    expect(issues.map(formatDataFlowIssue)).toEqual([
+      'Step "report": out "failure" is not a declared collectible, so it is dropped from the output',
+      'Step "logout": {{vars.session}} may be unset here: the flow may stop before step "login" runs',
+      'Step "logout": {{vars.reason}} may be unset here: step "why" is in on_failure, which only runs when the flow fails',
+      'Step "logout": {{vars.token}} is never set by any step',
+    ]);
+  });
+
+  it('checks condition vars and secrets when secret names are given', () => {
+    const flow: DslStep[] = [
+      { id: 'login', type: 'fill', params: { target: { kind: 'css', selector: '#pw' }, value: '{{secret.PASSWORD}}' }, skip_if: { var_truthy: 'loggedIn' } },
+      { id: 'title', type: 'extract_title', params: { out: 'results' } },
+    ];
+    const issues = analyzeDataFlow(flow, { inputs, collectibles, secrets: ['API_KEY'] });
+    expect(issues.map(formatDataFlowIssue)).toEqual([
+      'Step "login": var "loggedIn" in condition is never set by any step',
+      'Step "login": {{secret.PASSWORD}} is not declared in taskpack.json secrets',
+    ]);
+    expect(issues.map((issue) => issue.severity)).toEqual(['error', 'warning']);
+  });
+});
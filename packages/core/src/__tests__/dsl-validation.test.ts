@@ -469,3 +469,542 @@ describe('validateFlow — dom_scrape step', () => {
     expect(errors).toEqual([]);
   });
 });
+
+describe('validateFlow — for_each step', () => {
+  const validForEach = {
+    id: 'each_result',
+    type: 'for_each',
+    params: {
+      items: '{{vars.results}}',
+      as: 'result',
+      steps: [
+        { id: 'open_result', type: 'navigate', params: { url: '{{vars.result.url}}' } },
+        { id: 'get_title', type: 'extract_title', params: { out: 'title' } },
+      ],
+      out: 'details',
+    },
+  };
+
+  it('accepts a valid for_each step', () => {
+    const errors: string[] = [];
+    validateFlow([validForEach], errors);
+    expect(errors).toEqual([]);
+  });
+
+  it('errors when items or steps are missing', () => {
+    const errors: string[] = [];
+    validateFlow([{ id: 'each_bad', type: 'for_each', params: {} }], errors);
+    expect(errors.some(e => e.includes('non-empty string "items"'))).toBe(true);
+    expect(errors.some(e => e.includes('non-empty "steps" array'))).toBe(true);
+  });
+
+  it('validates nested steps with a path prefix', () => {
+    const errors: string[] = [];
+    validateFlow([{
+      ...validForEach,
+      params: { ...validForEach.params, steps: [{ id: 'nested_nav', type: 'navigate', params: {} }] },
+    }], errors);
+    expect(errors).toHaveLength(1);
+    expect(errors[0]).toMatch(/^Step 0\.steps\[0\] \(id="nested_nav", type="navigate"\):/);
+  });
+
+  it('detects duplicate IDs between nested and top-level steps', () => {
+    const errors: string[] = [];
+    validateFlow([
+      { id: 'get_title', type: 'extract_title', params: { out: 'page_title' } },
+      validForEach,
+    ], errors);
+    expect(errors.some(e => e.includes('Step 1.steps[1] (id="get_title"): Duplicate step ID'))).toBe(true);
+  });
+
+  it('rejects "once" on nested steps', () => {
+    const errors: string[] = [];
+    validateFlow([{
+      ...validForEach,
+      params: {
+        ...validForEach.params,
+        steps: [{ id: 'nested_nav', type: 'navigate', once: 'session', params: { url: 'https://example.com' } }],
+      },
+    }], errors);
+    expect(errors.some(e => e.includes('"once" is only supported on top-level steps'))).toBe(true);
+  });
+
+  it('errors on invalid maxIterations and collect', () => {
+    const errors: string[] = [];
+    validateFlow([{
+      ...validForEach,
+      params: { ...validForEach.params, maxIterations: 0, collect: 'title' },
+    }], errors);
+    expect(errors.some(e => e.includes('"maxIterations" must be a positive integer'))).toBe(true);
+    expect(errors.some(e => e.includes('"collect" must be an array of non-empty strings'))).toBe(true);
+  });
+});
+
+describe('validateFlow — if step', () => {
+  const validIf = {
+    id: 'check_login',
+    type: 'if',
+    params: {
+      condition: { element_visible: { kind: 'role', role: 'button', name: 'Sign in' } },
+      then: [
+        { id: 'click_sign_in', type: 'click', params: { target: { kind: 'role', role: 'button', name: 'Sign in' } } },
+      ],
+      else: [
+        { id: 'mark_logged_in', type: 'set_var', params: { name: 'loggedIn', value: true } },
+      ],
+    },
+  };
+
+  it('accepts a valid if step', () => {
+    const errors: string[] = [];
+    validateFlow([validIf], errors);
+    expect(errors).toEqual([]);
+  });
+
+  it('errors when condition or then are missing', () => {
+    const errors: string[] = [];
+    validateFlow([{ id: 'if_bad', type: 'if', params: {} }], errors);
+    expect(errors.some(e => e.includes('must have a "condition"'))).toBe(true);
+    expect(errors.some(e => e.includes('non-empty "then" array'))).toBe(true);
+  });
+
+  it('reports invalid conditions against the condition field', () => {
+    const errors: string[] = [];
+    validateFlow([{ ...validIf, params: { ...validIf.params, condition: { var_truthy: '' } } }], errors);
+    expect(errors.some(e => e.includes('condition "var_truthy" must be a non-empty string'))).toBe(true);
+  });
+
+  it('validates else branch steps with a path prefix', () => {
+    const errors: string[] = [];
+    validateFlow([{
+      ...validIf,
+      params: { ...validIf.params, else: [{ id: 'nested_nav', type: 'navigate', params: {} }] },
+    }], errors);
+    expect(errors).toHaveLength(1);
+    expect(errors[0]).toMatch(/^Step 0\.else\[0\] \(id="nested_nav", type="navigate"\):/);
+  });
+
+  it('detects duplicate IDs across branches', () => {
+    const errors: string[] = [];
+    validateFlow([{
+      ...validIf,
+      params: {
+        ...validIf.params,
+        else: [{ id: 'click_sign_in', type: 'set_var', params: { name: 'x', value: 1 } }],
+      },
+    }], errors);
+    expect(errors.some(e => e.includes('id="click_sign_in"): Duplicate step ID'))).toBe(true);
+  });
+});
+
+describe('validateFlow — network_paginate step', () => {
+  const validPaginate = {
+    id: 'list_items',
+    type: 'network_paginate',
+    params: {
+      requestId: '{{vars.listReq}}',
+      auth: 'browser_context',
+      pagination: { type: 'cursor', param: 'after', cursorPath: 'pageInfo.endCursor' },
+      itemsPath: 'data.items',
+      out: 'items',
+    },
+  };
+
+  it('accepts a valid network_paginate step', () => {
+    const errors: string[] = [];
+    validateFlow([validPaginate], errors);
+    expect(errors).toEqual([]);
+  });
+
+  it('requires cursorPath for cursor pagination', () => {
+    const errors: string[] = [];
+    validateFlow([{
+      ...validPaginate,
+      params: { ...validPaginate.params, pagination: { type: 'cursor', param: 'after' } },
+    }], errors);
+    expect(errors.some(e => e.includes('"pagination.cursorPath"'))).toBe(true);
+  });
+
+  it('errors on invalid pagination and limits', () => {
+    const errors: string[] = [];
+    validateFlow([{
+      ...validPaginate,
+      params: {
+        ...validPaginate.params,
+        pagination: { type: 'links', param: '', in: 'header' },
+        maxPages: 0,
+      },
+    }], errors);
+    expect(errors.some(e => e.includes('"pagination.type" must be "cursor", "page" or "offset"'))).toBe(true);
+    expect(errors.some(e => e.includes('"pagination.param" must be a non-empty string'))).toBe(true);
+    expect(errors.some(e => e.includes('"pagination.in" must be "query" or "body"'))).toBe(true);
+    expect(errors.some(e => e.includes('"maxPages" must be a positive integer'))).toBe(true);
+  });
+
+  it('validates overrides like network_replay', () => {
+    const errors: string[] = [];
+    validateFlow([{
+      ...validPaginate,
+      params: { ...validPaginate.params, overrides: { setHeaders: { Cookie: 'x' } } },
+    }], errors);
+    expect(errors.some(e => e.includes('NetworkPaginate step "overrides.setHeaders" cannot set sensitive header'))).toBe(true);
+  });
+});
+
+describe('validateFlow — step retry', () => {
+  const step = { id: 'open_home', type: 'navigate', params: { url: 'https://example.com' } };
+
+  it('accepts a valid retry policy', () => {
+    const errors: string[] = [];
+    validateFlow([{
+      ...step,
+      retry: { attempts: 3, backoffMs: 500, backoffFactor: 2, retryOn: { errorMatches: 'net::ERR_', status: [502, 503], timeout: true } },
+    }], errors);
+    expect(errors).toEqual([]);
+  });
+
+  it('errors on invalid retry fields', () => {
+    const errors: string[] = [];
+    validateFlow([{
+      ...step,
+      retry: { attempts: 0, backoffFactor: 0.5, retryOn: { errorMatches: '(', status: [700], network: true } },
+    }], errors);
+    expect(errors.some(e => e.includes('"retry.attempts" must be a positive integer'))).toBe(true);
+    expect(errors.some(e => e.includes('"retry.backoffFactor" must be a number >= 1'))).toBe(true);
+    expect(errors.some(e => e.includes('"retry.retryOn.errorMatches" must be a valid regex'))).toBe(true);
+    expect(errors.some(e => e.includes('"retry.retryOn.status" must be a non-empty array'))).toBe(true);
+    expect(errors.some(e => e.includes('Unknown "retry.retryOn" key "network"'))).toBe(true);
+  });
+});
+
+describe('validateFlow — scroll step', () => {
+  it('accepts a scroll step with container and items', () => {
+    const errors: string[] = [];
+    validateFlow([{
+      id: 'load_results',
+      type: 'scroll',
+      params: {
+        container: { kind: 'css', selector: '.results-pane' },
+        items: { anyOf: [{ kind: 'role', role: 'article' }, { kind: 'css', selector: '.result' }] },
+        by: 800,
+        maxScrolls: 10,
+        maxItems: 100,
+        saveAs: 'scrollInfo',
+      },
+    }], errors);
+    expect(errors).toEqual([]);
+  });
+
+  it('errors on invalid by and maxItems without items', () => {
+    const errors: string[] = [];
+    validateFlow([{ id: 'load_results', type: 'scroll', params: { by: 'top', maxItems: 50 } }], errors);
+    expect(errors.some(e => e.includes('"by" must be a positive number of pixels or "bottom"'))).toBe(true);
+    expect(errors.some(e => e.includes('"maxItems" requires "items"'))).toBe(true);
+  });
+});
+
+describe('validateFlow — hover, check, dblclick and drag_to steps', () => {
+  it('accepts valid interaction steps', () => {
+    const errors: string[] = [];
+    validateFlow([
+      { id: 'open_menu', type: 'hover', params: { target: { kind: 'role', role: 'button', name: 'Account' } } },
+      { id: 'accept_terms', type: 'check', params: { target: { kind: 'label', text: 'I agree' }, checked: true } },
+      { id: 'edit_cell', type: 'dblclick', params: { target: { kind: 'css', selector: 'td.name' }, waitForVisible: false } },
+      {
+        id: 'reorder',
+        type: 'drag_to',
+        params: {
+          source: { kind: 'text', text: 'Item 1' },
+          destination: { anyOf: [{ kind: 'css', selector: '#slot-3' }, { kind: 'text', text: 'Drop here' }] },
+        },
+      },
+    ], errors);
+    expect(errors).toEqual([]);
+  });
+
+  it('errors on missing targets and non-boolean checked', () => {
+    const errors: string[] = [];
+    validateFlow([
+      { id: 'open_menu', type: 'hover', params: {} },
+      { id: 'accept_terms', type: 'check', params: { target: { kind: 'css', selector: '#terms' }, checked: 'yes' } },
+      { id: 'reorder', type: 'drag_to', params: { source: { kind: 'css', selector: '.card' } } },
+    ], errors);
+    expect(errors.some(e => e.includes('Hover step must have a "target"'))).toBe(true);
+    expect(errors.some(e => e.includes('Check step "checked" must be a boolean'))).toBe(true);
+    expect(errors.some(e => e.includes('DragTo step must have a "destination" target'))).toBe(true);
+  });
+});
+
+describe('validateFlow — download_file step', () => {
+  it('accepts a download_file step with a target and parseAs', () => {
+    const errors: string[] = [];
+    validateFlow([{
+      id: 'export_csv',
+      type: 'download_file',
+      params: {
+        target: { kind: 'role', role: 'button', name: 'Export CSV' },
+        parseAs: 'csv',
+        contentOut: 'rows',
+        out: 'report',
+      },
+    }], errors);
+    expect(errors).toEqual([]);
+  });
+
+  it('errors on an unknown parseAs and parseAs without contentOut', () => {
+    const errors: string[] = [];
+    validateFlow([{ id: 'export_pdf', type: 'download_file', params: { parseAs: 'pdf' } }], errors);
+    expect(errors.some(e => e.includes('"parseAs" must be "csv", "json" or "text"'))).toBe(true);
+    expect(errors.some(e => e.includes('"parseAs" requires "contentOut"'))).toBe(true);
+  });
+});
+
+describe('validateFlow — transform step', () => {
+  it('accepts a transform step with sources and out', () => {
+    const errors: string[] = [];
+    validateFlow([{
+      id: 'merge_products',
+      type: 'transform',
+      params: { sources: { a: 'pageOne', b: 'pageTwo' }, expression: '[a, b][]', out: 'products' },
+    }], errors);
+    expect(errors).toEqual([]);
+  });
+
+  it('errors on empty sources and missing out/saveAs', () => {
+    const errors: string[] = [];
+    validateFlow([{ id: 'merge_products', type: 'transform', params: { sources: {}, expression: '@' } }], errors);
+    expect(errors.some(e => e.includes('non-empty "sources" object'))).toBe(true);
+    expect(errors.some(e => e.includes('must have "out" or "saveAs"'))).toBe(true);
+  });
+});
+
+describe('validateFlow — assert step', () => {
+  it('accepts element, data and predicate checks', () => {
+    const errors: string[] = [];
+    validateFlow([
+      {
+        id: 'rows_loaded',
+        type: 'assert',
+        params: {
+          target: { kind: 'css', selector: '.row' },
+          count: { min: 1 },
+          textMatches: '\\d+ results',
+          attributeEquals: { name: 'aria-busy', value: 'false' },
+        },
+      },
+      {
+        id: 'rows_collected',
+        type: 'assert',
+        params: { notEmpty: 'rows', arrayLength: { of: 'rows', max: 100 }, predicate: 'length(collectibles.rows) > `0`' },
+      },
+    ], errors);
+    expect(errors).toEqual([]);
+  });
+
+  it('errors on element checks without a target and on bad ranges', () => {
+    const errors: string[] = [];
+    validateFlow([
+      { id: 'a', type: 'assert', params: { urlIncludes: '/results', count: { eq: 1 } } },
+      { id: 'b', type: 'assert', params: { target: { kind: 'css', selector: '.row' }, count: { atLeast: 1 } } },
+      { id: 'c', type: 'assert', params: { arrayLength: { of: 'rows', min: -1 } } },
+    ], errors);
+    expect(errors.some(e => e.includes('"count" require(s) a target or selector'))).toBe(true);
+    expect(errors.some(e => e.includes('"count.atLeast" is not supported'))).toBe(true);
+    expect(errors.some(e => e.includes('"arrayLength.min" must be a non-negative integer'))).toBe(true);
+  });
+});
+
+describe('validateFlow — extract_table step', () => {
+  it('accepts an extract_table step with rename and next', () => {
+    const errors: string[] = [];
+    validateFlow([{
+      id: 'read_orders',
+      type: 'extract_table',
+      params: {
+        target: { anyOf: [{ kind: 'role', role: 'grid' }, { kind: 'css', selector: 'table.orders' }] },
+        rename: { 'Order #': 'orderId' },
+        skipFooterRows: 1,
+        next: { kind: 'role', role: 'button', name: 'Next' },
+        maxPages: 5,
+        out: 'orders',
+      },
+    }], errors);
+    expect(errors).toEqual([]);
+  });
+
+  it('errors on missing target, negative skipRows and maxPages without next', () => {
+    const errors: string[] = [];
+    validateFlow([{ id: 'read_orders', type: 'extract_table', params: { skipRows: -1, maxPages: 3, out: 'orders' } }], errors);
+    expect(errors.some(e => e.includes('ExtractTable step must have a "target"'))).toBe(true);
+    expect(errors.some(e => e.includes('"skipRows" must be a non-negative integer'))).toBe(true);
+    expect(errors.some(e => e.includes('"maxPages" requires "next"'))).toBe(true);
+  });
+});
+
+describe('validateFlow — wait_for_response step', () => {
+  it('accepts a wait_for_response step', () => {
+    const errors: string[] = [];
+    validateFlow([{
+      id: 'wait_search',
+      type: 'wait_for_response',
+      params: { where: { urlIncludes: '/api/search', method: 'POST', status: 200 }, saveAs: 'searchReq', waitForMs: 10000 },
+    }], errors);
+    expect(errors).toEqual([]);
+  });
+
+  it('validates where filters like network_find', () => {
+    const errors: string[] = [];
+    validateFlow([{ id: 'wait_search', type: 'wait_for_response', params: { where: { url: '/api/search', urlRegex: '(' } } }], errors);
+    expect(errors.some(e => e.includes('WaitForResponse step "where.url" is not a valid field'))).toBe(true);
+    expect(errors.some(e => e.includes('WaitForResponse step "where.urlRegex" is not a valid regex'))).toBe(true);
+  });
+});
+
+describe('validateFlow — handle_dialog step', () => {
+  it('accepts a prompt handler', () => {
+    const errors: string[] = [];
+    validateFlow([{
+      id: 'answer_city',
+      type: 'handle_dialog',
+      params: { action: 'accept', promptText: '{{inputs.city}}', dialogType: 'prompt', persistent: false, saveAs: 'message' },
+    }], errors);
+    expect(errors).toEqual([]);
+  });
+
+  it('errors on a bad action, dialogType and promptText with dismiss', () => {
+    const errors: string[] = [];
+    validateFlow([
+      { id: 'a', type: 'handle_dialog', params: { action: 'ok', dialogType: 'popup', expectMessageIncludes: '' } },
+      { id: 'b', type: 'handle_dialog', params: { action: 'dismiss', promptText: 'x', persistent: 'yes' } },
+    ], errors);
+    expect(errors.some(e => e.includes('HandleDialog step must have "action" set to "accept" or "dismiss"'))).toBe(true);
+    expect(errors.some(e => e.includes('HandleDialog step "dialogType" must be'))).toBe(true);
+    expect(errors.some(e => e.includes('HandleDialog step "expectMessageIncludes" must be a non-empty string'))).toBe(true);
+    expect(errors.some(e => e.includes('HandleDialog step "promptText" only applies with action "accept"'))).toBe(true);
+    expect(errors.some(e => e.includes('HandleDialog step "persistent" must be a boolean'))).toBe(true);
+  });
+});
+
+describe('validateFlow — cookie and storage steps', () => {
+  it('accepts cookie and storage steps', () => {
+    const errors: string[] = [];
+    validateFlow([
+      { id: 'consent', type: 'set_cookies', params: { cookies: [{ name: 'consent', value: 'yes', domain: '.example.com', sameSite: 'Lax' }] } },
+      { id: 'read', type: 'get_cookies', params: { name: 'session', saveAs: 'session' } },
+      { id: 'clear', type: 'clear_cookies', params: {} },
+      { id: 'csrf', type: 'get_storage', params: { storage: 'session', key: 'csrf', saveAs: 'csrf' } },
+      { id: 'prefs', type: 'set_storage', params: { values: { lang: 'en' } } },
+    ], errors);
+    expect(errors).toEqual([]);
+  });
+
+  it('reports malformed cookies and storage params', () => {
+    const errors: string[] = [];
+    validateFlow([
+      { id: 'consent', type: 'set_cookies', params: { cookies: [{ name: '', value: 1, sameSite: 'lax', maxAge: 60 }] } },
+      { id: 'read', type: 'get_cookies', params: { domain: '' } },
+      { id: 'prefs', type: 'set_storage', params: { storage: 'indexed', values: { lang: 1 } } },
+    ], errors);
+    expect(errors.some(e => e.includes('SetCookies step "cookies[0]" must have a non-empty string "name"'))).toBe(true);
+    expect(errors.some(e => e.includes('SetCookies step "cookies[0]" must have a string "value"'))).toBe(true);
+    expect(errors.some(e => e.includes('"sameSite" must be "Strict", "Lax" or "None"'))).toBe(true);
+    expect(errors.some(e => e.includes('"maxAge" is not a valid field'))).toBe(true);
+    expect(errors.some(e => e.includes('GetCookies step "domain" must be a non-empty string'))).toBe(true);
+    expect(errors.some(e => e.includes('GetCookies step must have a non-empty string "saveAs"'))).toBe(true);
+    expect(errors.some(e => e.includes('SetStorage step "storage" must be "local" or "session"'))).toBe(true);
+    expect(errors.some(e => e.includes('SetStorage step "values.lang" must be a string'))).toBe(true);
+  });
+});
+
+describe('validateFlow — pause_for_human step', () => {
+  it('checks the message, resumeWhen and maxWaitMs', () => {
+    const errors: string[] = [];
+    validateFlow([
+      { id: 'ok', type: 'pause_for_human', params: { message: 'Solve the CAPTCHA', resumeWhen: { url_includes: '/home' }, maxWaitMs: 60000 } },
+      { id: 'bad', type: 'pause_for_human', params: { resumeWhen: { url_has: '/home' }, maxWaitMs: 0 } },
+    ], errors);
+    expect(errors.every(e => e.includes('id="bad"'))).toBe(true);
+    expect(errors.some(e => e.includes('PauseForHuman step must have a non-empty string "message"'))).toBe(true);
+    expect(errors.some(e => e.includes('Unknown resumeWhen condition type: url_has'))).toBe(true);
+    expect(errors.some(e => e.includes('PauseForHuman step "maxWaitMs" must be a positive number'))).toBe(true);
+  });
+});
+
+describe('validateFlow — call_pack step', () => {
+  it('accepts a call_pack step with inputs and mappings', () => {
+    const errors: string[] = [];
+    validateFlow([{
+      id: 'login',
+      type: 'call_pack',
+      params: {
+        pack: 'acme-login',
+        version: '1.2.0',
+        inputs: { username: '{{inputs.username}}' },
+        out: { account: 'account' },
+        saveAs: { sessionToken: 'token' },
+      },
+    }], errors);
+    expect(errors).toEqual([]);
+  });
+
+  it('errors on a missing pack and malformed mappings', () => {
+    const errors: string[] = [];
+    validateFlow([{ id: 'login', type: 'call_pack', params: { inputs: [], out: 'account', saveAs: { sessionToken: '' } } }], errors);
+    expect(errors.some(e => e.includes('CallPack step must have a non-empty string "pack"'))).toBe(true);
+    expect(errors.some(e => e.includes('CallPack step "inputs" must be an object'))).toBe(true);
+    expect(errors.some(e => e.includes('CallPack step "out" must be an object'))).toBe(true);
+    expect(errors.some(e => e.includes('CallPack step "saveAs.sessionToken" must be a non-empty string'))).toBe(true);
+  });
+});
+
+describe('validateFlow — include step', () => {
+  it('checks the shape of an unexpanded include step', () => {
+    const errors: string[] = [];
+    validateFlow([{ id: 'consent', type: 'include', params: { with: [] } }], errors);
+    expect(errors.some(e => e.includes('Include step must have a non-empty string "fragment"'))).toBe(true);
+    expect(errors.some(e => e.includes('Include step "with" must be an object'))).toBe(true);
+  });
+});
+
+describe('validateFlow — skip_if conditions', () => {
+  it('accepts not, numeric, regex, array length and response_seen conditions', () => {
+    const errors: string[] = [];
+    validateFlow([{
+      id: 'next_page',
+      type: 'click',
+      params: { target: { kind: 'text', text: 'Next' } },
+      skip_if: {
+        any: [
+          { not: { var_gt: { name: 'total', value: 20 } } },
+          { var_matches: { name: 'region', pattern: '^eu-' } },
+          { array_length: { name: 'items', max: 0 } },
+          { response_seen: { urlIncludes: '/api/last-page', status: 200 } },
+        ],
+      },
+    }], errors);
+    expect(errors).toEqual([]);
+  });
+
+  it('reports malformed operands', () => {
+    const errors: string[] = [];
+    validateFlow([{
+      id: 'next_page',
+      type: 'click',
+      params: { target: { kind: 'text', text: 'Next' } },
+      skip_if: {
+        all: [
+          { var_lt: { name: 'total', value: '5' } },
+          { var_matches: { name: 'region', pattern: '(' } },
+          { array_length: { name: 'items' } },
+          { response_seen: { url: '/api' } },
+          { not: { url_contains: 'x' } },
+        ],
+      },
+    }], errors);
+    expect(errors.some(e => e.includes('skip_if "var_lt.value" must be a number'))).toBe(true);
+    expect(errors.some(e => e.includes('skip_if "var_matches.pattern" must be a valid regex'))).toBe(true);
+    expect(errors.some(e => e.includes('skip_if "array_length" must set at least one of: eq, min, max'))).toBe(true);
+    expect(errors.some(e => e.includes('skip_if "response_seen.url" is not a valid field'))).toBe(true);
+    expect(errors.some(e => e.includes('Unknown skip_if condition type: url_contains'))).toBe(true);
+  });
+});
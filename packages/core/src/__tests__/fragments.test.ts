@@ -0,0 +1,143 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { mkdirSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { expandIncludes } from '../dsl/fragments.js';
+import { TaskPackLoader } from '../loader.js';
+import { validateJsonTaskPack } from '../jsonPackValidator.js';
+import type { DslStep, FlowFragment } from '../dsl/types.js';
+
+const fragments: Record<string, FlowFragment> = {
+  dismiss_consent: {
+    params: { buttonText: { default: 'Accept all' } },
+    steps: [
+      { id: 'click_accept', type: 'click', params: { target: { kind: 'text', text: '{{params.buttonText}}' } }, optional: true },
+    ],
+  },
+  search: {
+    params: { query: {}, waitMs: { default: 500 } },
+    steps: [
+      { id: 'consent', type: 'include', params: { fragment: 'dismiss_consent' } },
+      { id: 'fill_query', type: 'fill', params: { target: { kind: 'role', role: 'searchbox' }, value: 'q={{params.query}}' } },
+      // Fragment steps are raw JSON until expanded, so params may hold references anywhere
+      { id: 'settle', type: 'sleep', params: { durationMs: '{{params.waitMs}}' } } as unknown as DslStep,
+    ],
+  },
+};
+
+// ---------------------------------------------------------------------------
+// expandIncludes
+// ---------------------------------------------------------------------------
+
+describe('expandIncludes', () => {
+  it('inlines fragments with prefixed IDs and substituted params', () => {
+    const flow: DslStep[] = [
+      { id: 'open', type: 'navigate', params: { url: 'https://example.com' } },
+      { id: 'find', type: 'include', params: { fragment: 'search', with: { query: '{{inputs.term}}' } } },
+    ];
+
+    expect(expandIncludes(flow, fragments)).toEqual([
+      { id: 'open', type: 'navigate', params: { url: 'https://example.com' } },
+      { id: 'find.consent.click_accept', type: 'click', params: { target: { kind: 'text', text: 'Accept all' } }, optional: true },
+      { id: 'find.fill_query', type: 'fill', params: { target: { kind: 'role', role: 'searchbox' }, value: 'q={{inputs.term}}' } },
+      // A lone reference keeps the raw (number) value
+      { id: 'find.settle', type: 'sleep', params: { durationMs: 500 } },
+    ]);
+  });
+
+  it('expands includes inside nested step lists', () => {
+    const flow: DslStep[] = [
+      {
+        id: 'maybe_consent',
+        type: 'if',
+        params: {
+          condition: { element_visible: { kind: 'text', text: 'Cookies' } },
+          then: [{ id: 'dismiss', type: 'include', params: { fragment: 'dismiss_consent', with: { buttonText: 'OK' } } }],
+        },
+      },
+    ];
+
+    const [step] = expandIncludes(flow, fragments);
+    expect(step.type === 'if' && step.params.then).toEqual([
+      { id: 'dismiss.click_accept', type: 'click', params: { target: { kind: 'text', text: 'OK' } }, optional: true },
+    ]);
+  });
+
+  it('rejects missing params, unknown fragments and cycles', () => {
+    expect(() => expandIncludes([{ id: 'find', type: 'include', params: { fragment: 'search' } }], fragments))
+      .toThrow('missing required param "query"');
+    expect(() => expandIncludes([{ id: 'x', type: 'include', params: { fragment: 'nope' } }], fragments))
+      .toThrow('fragment "nope" not found. Available: dismiss_consent, search');
+
+    const loop: Record<string, FlowFragment> = {
+      a: { steps: [{ id: 'to_b', type: 'include', params: { fragment: 'b' } }] },
+      b: { steps: [{ id: 'to_a', type: 'include', params: { fragment: 'a' } }] },
+    };
+    expect(() => expandIncludes([{ id: 'start', type: 'include', params: { fragment: 'a' } }], loop))
+      .toThrow('Fragment include cycle: a -> b -> a');
+  });
+
+  it('rejects step options on the include step itself', () => {
+    const flow = [{ id: 'x', type: 'include', params: { fragment: 'dismiss_consent' }, optional: true }] as DslStep[];
+    expect(() => expandIncludes(flow, fragments)).toThrow('only id, label and params are supported, got "optional"');
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Loading and validation
+// ---------------------------------------------------------------------------
+
+describe('TaskPackLoader — fragments', () => {
+  const packDir = join(tmpdir(), `showrun-fragments-${Date.now()}-${Math.random().toString(36).slice(2)}`);
+
+  afterEach(() => {
+    rmSync(packDir, { recursive: true, force: true });
+  });
+
+  it('expands includes from fragments/*.json and the inline map', async () => {
+    mkdirSync(join(packDir, 'fragments'), { recursive: true });
+    writeFileSync(
+      join(packDir, 'taskpack.json'),
+      JSON.stringify({ id: 'shop', name: 'Shop', version: '1.0.0', kind: 'json-dsl' })
+    );
+    writeFileSync(join(packDir, 'fragments', 'dismiss_consent.json'), JSON.stringify(fragments.dismiss_consent));
+    writeFileSync(join(packDir, 'flow.json'), JSON.stringify({
+      fragments: { search: fragments.search },
+      flow: [{ id: 'find', type: 'include', params: { fragment: 'search', with: { query: 'shoes' } } }],
+    }));
+
+    const pack = await TaskPackLoader.loadTaskPack(packDir);
+    expect(pack.flow.map((s) => s.id)).toEqual(['find.consent.click_accept', 'find.fill_query', 'find.settle']);
+    expect(() => validateJsonTaskPack(pack)).not.toThrow();
+  });
+
+  it('expands includes in on_failure and finally', async () => {
+    mkdirSync(packDir, { recursive: true });
+    writeFileSync(
+      join(packDir, 'taskpack.json'),
+      JSON.stringify({ id: 'shop', name: 'Shop', version: '1.0.0', kind: 'json-dsl' })
+    );
+    writeFileSync(join(packDir, 'flow.json'), JSON.stringify({
+      fragments,
+      flow: [{ id: 'open', type: 'navigate', params: { url: 'https://example.com' } }],
+      on_failure: [{ id: 'recover', type: 'include', params: { fragment: 'dismiss_consent' } }],
+      finally: [{ id: 'logout', type: 'navigate', params: { url: 'https://example.com/logout' } }],
+    }));
+
+    const pack = await TaskPackLoader.loadTaskPack(packDir);
+    expect(pack.on_failure?.map((s) => s.id)).toEqual(['recover.click_accept']);
+    expect(pack.finally?.map((s) => s.id)).toEqual(['logout']);
+    expect(() => validateJsonTaskPack(pack)).not.toThrow();
+  });
+
+  it('reports include errors from validateJsonTaskPack', () => {
+    const pack = {
+      metadata: { id: 'shop', name: 'Shop', version: '1.0.0' },
+      inputs: {},
+      collectibles: [],
+      flow: [{ id: 'find', type: 'include', params: { fragment: 'search' } }] as DslStep[],
+      fragments,
+    };
+    expect(() => validateJsonTaskPack(pack)).toThrow('missing required param "query"');
+  });
+});
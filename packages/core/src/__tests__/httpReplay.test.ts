@@ -1,6 +1,6 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import { isFlowHttpCompatible, replayFromSnapshot } from '../httpReplay.js';
-import type { DslStep, NetworkReplayStep, NetworkFindStep, NavigateStep, SetVarStep, ExtractTextStep, SleepStep, NetworkExtractStep, ClickStep, FillStep, WaitForStep } from '../dsl/types.js';
+import type { DslStep, NetworkReplayStep, NetworkFindStep, NavigateStep, SetVarStep, ExtractTextStep, SleepStep, NetworkExtractStep, ClickStep, FillStep, WaitForStep, ForEachStep, NetworkPaginateStep, TransformStep } from '../dsl/types.js';
 import type { SnapshotFile, RequestSnapshot } from '../requestSnapshot.js';
 
 function makeSnapshotFile(stepIds: string[]): SnapshotFile {
@@ -176,7 +176,7 @@ describe('isFlowHttpCompatible', () => {
     expect(isFlowHttpCompatible(steps, snapshots)).toBe(true);
   });
 
-  it('allows sleep, set_var, and network_extract in HTTP mode', () => {
+  it('allows sleep, set_var, network_extract and transform in HTTP mode', () => {
     const steps: DslStep[] = [
       {
         id: 'replay1', type: 'network_replay',
@@ -188,10 +188,81 @@ describe('isFlowHttpCompatible', () => {
         id: 'extract1', type: 'network_extract',
         params: { fromVar: 'data', as: 'json', path: 'results', out: 'items' },
       } as NetworkExtractStep,
+      {
+        id: 'transform1', type: 'transform',
+        params: { sources: { items: 'items' }, expression: 'items[?active]', out: 'activeItems' },
+      } as TransformStep,
     ];
     const snapshots = makeSnapshotFile(['replay1']);
     expect(isFlowHttpCompatible(steps, snapshots)).toBe(true);
   });
+
+  it('checks steps nested inside for_each', () => {
+    const replay = {
+      id: 'replay_item', type: 'network_replay',
+      params: { requestId: '{{vars.reqId}}', auth: 'browser_context', out: 'detail', response: { as: 'json' } },
+    } as NetworkReplayStep;
+    const loop = (steps: DslStep[]): ForEachStep => ({
+      id: 'each', type: 'for_each', params: { items: '{{inputs.ids}}', steps, out: 'details' },
+    });
+
+    expect(isFlowHttpCompatible([loop([replay])], makeSnapshotFile(['replay_item']))).toBe(true);
+    expect(isFlowHttpCompatible([loop([replay])], makeSnapshotFile([]))).toBe(false);
+
+    const extract = {
+      id: 'extract_item', type: 'extract_text',
+      params: { target: { kind: 'css', selector: '.title' }, out: 'title' },
+    } as ExtractTextStep;
+    expect(isFlowHttpCompatible([loop([replay, extract])], makeSnapshotFile(['replay_item']))).toBe(false);
+  });
+
+  it('returns false when the flow downloads a file', () => {
+    const steps: DslStep[] = [
+      {
+        id: 'replay1', type: 'network_replay',
+        params: { requestId: '{{vars.reqId}}', auth: 'browser_context', out: 'data', response: { as: 'json' } },
+      } as NetworkReplayStep,
+      {
+        id: 'export', type: 'download_file',
+        params: { target: { kind: 'text', text: 'Export CSV' }, parseAs: 'csv', contentOut: 'rows' },
+      } as DslStep,
+    ];
+    expect(isFlowHttpCompatible(steps, makeSnapshotFile(['replay1']))).toBe(false);
+  });
+
+  it('returns false when a skip_if or if condition needs the page', () => {
+    const replay = {
+      id: 'replay1', type: 'network_replay',
+      params: { requestId: '{{vars.reqId}}', auth: 'browser_context', out: 'data', response: { as: 'json' } },
+    } as NetworkReplayStep;
+    const snapshots = makeSnapshotFile(['replay1']);
+
+    const varSkip = { ...replay, skip_if: { not: { var_gt: { name: 'page', value: 3 } } } } as DslStep;
+    expect(isFlowHttpCompatible([varSkip], snapshots)).toBe(true);
+
+    const pageSkip = { ...replay, skip_if: { any: [{ var_truthy: 'done' }, { element_visible: { kind: 'text', text: 'No results' } }] } } as DslStep;
+    expect(isFlowHttpCompatible([pageSkip], snapshots)).toBe(false);
+
+    const ifStep = {
+      id: 'maybe', type: 'if',
+      params: { condition: { response_seen: { urlIncludes: '/api/' } }, then: [replay] },
+    } as DslStep;
+    expect(isFlowHttpCompatible([ifStep], snapshots)).toBe(false);
+  });
+
+  it('requires snapshots for network_paginate steps', () => {
+    const steps: DslStep[] = [
+      {
+        id: 'paginate1', type: 'network_paginate',
+        params: {
+          requestId: '{{vars.reqId}}', auth: 'browser_context', itemsPath: 'results', out: 'items',
+          pagination: { type: 'page', param: 'page' },
+        },
+      } as NetworkPaginateStep,
+    ];
+    expect(isFlowHttpCompatible(steps, makeSnapshotFile(['paginate1']))).toBe(true);
+    expect(isFlowHttpCompatible(steps, makeSnapshotFile([]))).toBe(false);
+  });
 });
 
 // ---------------------------------------------------------------------------
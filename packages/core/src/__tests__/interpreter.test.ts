@@ -0,0 +1,1449 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { existsSync, mkdirSync, rmSync, writeFileSync } from 'fs';
+import { createHash } from 'crypto';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import type { Page, Browser, Download } from 'playwright';
+import { runFlow, RunCancelledError } from '../dsl/interpreter.js';
+import { RunContextFactory } from '../context.js';
+import type { DebugCommand, DebugPause, DslStep } from '../dsl/types.js';
+import type { LogEvent, RunContext } from '../types.js';
+import type { SnapshotFile } from '../requestSnapshot.js';
+import type { NetworkCaptureApi } from '../networkCapture.js';
+
+/**
+ * Builds a browserless RunContext. Flows run in HTTP mode so that
+ * data-only steps (set_var, network_extract, control flow) execute without a page.
+ */
+/**
+ * Page event methods, for fake pages (runFlow listens for dialogs on the page)
+ */
+const noEvents = { on: () => undefined, off: () => undefined };
+const pageEvents = { ...noEvents, context: () => noEvents };
+
+function makeContext(events: LogEvent[]): RunContext {
+  return {
+    page: null as unknown as Page,
+    browser: null as unknown as Browser,
+    logger: { log: (event) => events.push(event) },
+    artifacts: {
+      saveScreenshot: async () => '',
+      saveHTML: async () => '',
+      saveDownload: async () => '',
+    },
+  };
+}
+
+describe('runFlow — for_each', () => {
+  const flow: DslStep[] = [
+    {
+      id: 'each_item',
+      type: 'for_each',
+      params: {
+        items: '{{inputs.items}}',
+        as: 'item',
+        steps: [
+          { id: 'label', type: 'set_var', params: { name: 'label', value: '{{vars.index}}:{{vars.item.name}}' } },
+          { id: 'extract_label', type: 'network_extract', params: { fromVar: 'label', as: 'text', out: 'label' } },
+        ],
+        out: 'labels',
+      },
+    },
+  ];
+
+  it('runs nested steps per item and collects per-iteration outputs', async () => {
+    const events: LogEvent[] = [];
+    const result = await runFlow(makeContext(events), flow, {
+      inputs: { items: [{ name: 'a' }, { name: 'b' }] },
+      httpMode: true,
+    });
+
+    expect(result.collectibles.labels).toEqual([{ label: '0:a' }, { label: '1:b' }]);
+    // Iteration-scoped collectibles and loop vars do not leak
+    expect(result.collectibles).not.toHaveProperty('label');
+    expect(result._vars).not.toHaveProperty('item');
+    expect(result._vars).not.toHaveProperty('index');
+  });
+
+  it('logs nested step events with the iteration index', async () => {
+    const events: LogEvent[] = [];
+    await runFlow(makeContext(events), flow, {
+      inputs: { items: [{ name: 'a' }, { name: 'b' }] },
+      httpMode: true,
+    });
+
+    const nested = events.filter(
+      (e) => e.type === 'step_finished' && e.data.parentStepId === 'each_item'
+    );
+    expect(nested.map((e) => e.type === 'step_finished' && [e.data.stepId, e.data.iteration])).toEqual([
+      ['label', 0],
+      ['extract_label', 0],
+      ['label', 1],
+      ['extract_label', 1],
+    ]);
+  });
+
+  it('respects maxIterations', async () => {
+    const limited: DslStep[] = [
+      { ...flow[0], params: { ...(flow[0].params as object), maxIterations: 1 } } as DslStep,
+    ];
+    const result = await runFlow(makeContext([]), limited, {
+      inputs: { items: [{ name: 'a' }, { name: 'b' }] },
+      httpMode: true,
+    });
+    expect(result.collectibles.labels).toEqual([{ label: '0:a' }]);
+  });
+
+  it('fails when items does not resolve to an array', async () => {
+    await expect(
+      runFlow(makeContext([]), flow, { inputs: { items: 'nope' }, httpMode: true })
+    ).rejects.toThrow('expected an array');
+  });
+});
+
+describe('runFlow — if', () => {
+  const flow: DslStep[] = [
+    { id: 'set_mode', type: 'set_var', params: { name: 'mode', value: '{{inputs.mode}}' } },
+    {
+      id: 'check_mode',
+      type: 'if',
+      params: {
+        condition: { var_equals: { name: 'mode', value: 'full' } },
+        then: [{ id: 'set_full', type: 'set_var', params: { name: 'result', value: 'full' } }],
+        else: [{ id: 'set_quick', type: 'set_var', params: { name: 'result', value: 'quick' } }],
+      },
+    },
+  ];
+
+  it('runs the then branch when the condition holds', async () => {
+    const events: LogEvent[] = [];
+    const result = await runFlow(makeContext(events), flow, {
+      inputs: { mode: 'full' },
+      httpMode: true,
+    });
+
+    expect(result._vars?.result).toBe('full');
+    const taken = events.find((e) => e.type === 'branch_taken');
+    expect(taken?.data).toEqual({
+      stepId: 'check_mode',
+      branch: 'then',
+      condition: 'var_equals(mode, "full")',
+    });
+    const nested = events.find((e) => e.type === 'step_finished' && e.data.stepId === 'set_full');
+    expect(nested?.type === 'step_finished' && nested.data.branch).toBe('then');
+  });
+
+  it('runs the else branch otherwise', async () => {
+    const events: LogEvent[] = [];
+    const result = await runFlow(makeContext(events), flow, {
+      inputs: { mode: 'quick' },
+      httpMode: true,
+    });
+
+    expect(result._vars?.result).toBe('quick');
+    expect(events.some((e) => e.type === 'step_started' && e.data.stepId === 'set_full')).toBe(false);
+  });
+
+  it('runs nothing when the condition fails and there is no else', async () => {
+    const events: LogEvent[] = [];
+    const thenOnly: DslStep[] = [
+      flow[0],
+      { ...flow[1], params: { ...(flow[1].params as object), else: undefined } } as DslStep,
+    ];
+    const result = await runFlow(makeContext(events), thenOnly, { inputs: { mode: 'quick' }, httpMode: true });
+
+    expect(result._vars).not.toHaveProperty('result');
+    const taken = events.find((e) => e.type === 'branch_taken');
+    expect(taken?.type === 'branch_taken' && taken.data.branch).toBe('none');
+  });
+});
+
+describe('runFlow — skip_if operators', () => {
+  it('evaluates not, numeric, regex and array length conditions', async () => {
+    const events: LogEvent[] = [];
+    const flow: DslStep[] = [
+      { id: 'set_total', type: 'set_var', params: { name: 'total', value: '42' } },
+      { id: 'set_price', type: 'set_var', params: { name: 'price', value: 12.5 } },
+      { id: 'set_region', type: 'set_var', params: { name: 'region', value: 'eu-west' } },
+      { id: 'set_items', type: 'transform', params: { sources: { r: 'region' }, expression: '`[]`', saveAs: 'items' } },
+      { id: 'more_pages', type: 'set_var', params: { name: 'more', value: 'yes' }, skip_if: { not: { var_gt: { name: 'total', value: 20 } } } },
+      { id: 'cheap', type: 'set_var', params: { name: 'cheap', value: 'yes' }, skip_if: { var_lt: { name: 'price', value: 10 } } },
+      { id: 'us_only', type: 'set_var', params: { name: 'us', value: 'yes' }, skip_if: { var_matches: { name: 'region', pattern: '^eu-' } } },
+      { id: 'has_rows', type: 'set_var', params: { name: 'rows', value: 'yes' }, skip_if: { array_length: { name: 'items', eq: 0 } } },
+    ];
+
+    const result = await runFlow(makeContext(events), flow, {
+      inputs: {},
+      httpMode: true,
+    });
+
+    expect(result._vars).toMatchObject({ more: 'yes', cheap: 'yes' });
+    expect(result._vars).not.toHaveProperty('us');
+    expect(result._vars).not.toHaveProperty('rows');
+    const skipped = events.find((e) => e.type === 'step_skipped' && e.data.stepId === 'us_only');
+    expect(skipped?.type === 'step_skipped' && skipped.data.condition).toBe('var_matches(region, /^eu-/)');
+  });
+
+  it('checks captured responses with response_seen', async () => {
+    const networkCapture = {
+      find: (where: { urlIncludes?: string }) => (where.urlIncludes === '/api/cart' ? 'req-3' : null),
+    } as unknown as NetworkCaptureApi;
+    const page = { ...pageEvents, goto: async () => null, url: () => 'https://example.com' } as unknown as Page;
+    const flow: DslStep[] = [
+      { id: 'load_cart', type: 'set_var', params: { name: 'cart', value: 'loaded' }, skip_if: { response_seen: { urlIncludes: '/api/cart' } } },
+      { id: 'load_user', type: 'set_var', params: { name: 'user', value: 'loaded' }, skip_if: { response_seen: { urlIncludes: '/api/user' } } },
+    ];
+
+    const result = await runFlow({ ...makeContext([]), page, networkCapture }, flow, { inputs: {} });
+    expect(result._vars).not.toHaveProperty('cart');
+    expect(result._vars?.user).toBe('loaded');
+  });
+});
+
+describe('runFlow — network_paginate (HTTP mode)', () => {
+  const originalFetch = globalThis.fetch;
+
+  afterEach(() => {
+    globalThis.fetch = originalFetch;
+  });
+
+  function makeSnapshots(url: string, body: string | null = null): SnapshotFile {
+    return {
+      version: 1,
+      snapshots: {
+        list_items: {
+          stepId: 'list_items',
+          capturedAt: Date.now(),
+          ttl: null,
+          request: { method: body ? 'POST' : 'GET', url, headers: {}, body },
+          responseValidation: { expectedStatus: 200, expectedContentType: 'application/json', expectedKeys: [] },
+          sensitiveHeaders: [],
+        },
+      },
+    };
+  }
+
+  /** Mocks fetch with a page resolver; returns the list of requests made */
+  function mockPages(resolve: (url: URL, body: unknown) => unknown): Array<{ url: URL; body: unknown }> {
+    const calls: Array<{ url: URL; body: unknown }> = [];
+    globalThis.fetch = vi.fn().mockImplementation(async (url: string, init: RequestInit) => {
+      const call = { url: new URL(url), body: init.body ? JSON.parse(init.body as string) : undefined };
+      calls.push(call);
+      return {
+        status: 200,
+        text: async () => JSON.stringify(resolve(call.url, call.body)),
+        headers: new Headers({ 'content-type': 'application/json' }),
+      };
+    });
+    return calls;
+  }
+
+  it('follows cursors until the cursor is missing', async () => {
+    const pages: Record<string, unknown> = {
+      '': { data: [1, 2], next: 'c2' },
+      c2: { data: [3], next: 'c3' },
+      c3: { data: [4], next: null },
+    };
+    const calls = mockPages((url) => pages[url.searchParams.get('cursor') ?? '']);
+
+    const result = await runFlow(makeContext([]), [{
+      id: 'list_items',
+      type: 'network_paginate',
+      params: {
+        requestId: 'req-1',
+        auth: 'browser_context',
+        pagination: { type: 'cursor', param: 'cursor', cursorPath: 'next' },
+        itemsPath: 'data',
+        out: 'items',
+        saveAs: 'lastPage',
+      },
+    }], { inputs: {}, httpMode: true, snapshots: makeSnapshots('https://api.example.com/items') });
+
+    expect(result.collectibles.items).toEqual([1, 2, 3, 4]);
+    expect(calls).toHaveLength(3);
+    expect(calls[0].url.searchParams.has('cursor')).toBe(false);
+    expect(result._vars?.lastPage).toMatchObject({ pages: 3, stopReason: 'no_cursor' });
+  });
+
+  it('advances a page number until an empty page', async () => {
+    const calls = mockPages((url) => {
+      const page = Number(url.searchParams.get('page'));
+      return { results: page <= 2 ? [`p${page}`] : [] };
+    });
+
+    const result = await runFlow(makeContext([]), [{
+      id: 'list_items',
+      type: 'network_paginate',
+      params: {
+        requestId: 'req-1',
+        auth: 'browser_context',
+        pagination: { type: 'page', param: 'page' },
+        itemsPath: 'results',
+        out: 'items',
+      },
+    }], { inputs: {}, httpMode: true, snapshots: makeSnapshots('https://api.example.com/items?page=1') });
+
+    expect(result.collectibles.items).toEqual(['p1', 'p2']);
+    expect(calls.map((c) => c.url.searchParams.get('page'))).toEqual(['1', '2', '3']);
+  });
+
+  it('sets an offset in the JSON body and stops at maxPages', async () => {
+    const calls = mockPages((_url, body) => ({ items: [(body as { offset: number }).offset] }));
+
+    const result = await runFlow(makeContext([]), [{
+      id: 'list_items',
+      type: 'network_paginate',
+      params: {
+        requestId: 'req-1',
+        auth: 'browser_context',
+        pagination: { type: 'offset', param: 'offset', in: 'body', pageSize: 50 },
+        itemsPath: 'items',
+        maxPages: 3,
+        out: 'items',
+      },
+    }], {
+      inputs: {},
+      httpMode: true,
+      snapshots: makeSnapshots('https://api.example.com/search', '{"query":"x","offset":0}'),
+    });
+
+    expect(result.collectibles.items).toEqual([0, 50, 100]);
+    expect(calls.map((c) => c.body)).toEqual([
+      { query: 'x', offset: 0 },
+      { query: 'x', offset: 50 },
+      { query: 'x', offset: 100 },
+    ]);
+  });
+
+  it('fails when the body field is not in the captured request', async () => {
+    mockPages(() => ({ items: [] }));
+    await expect(runFlow(makeContext([]), [{
+      id: 'list_items',
+      type: 'network_paginate',
+      params: {
+        requestId: 'req-1',
+        auth: 'browser_context',
+        pagination: { type: 'offset', param: 'offset', in: 'body' },
+        itemsPath: 'items',
+        out: 'items',
+      },
+    }], {
+      inputs: {},
+      httpMode: true,
+      snapshots: makeSnapshots('https://api.example.com/search', '{"query":"x"}'),
+    })).rejects.toThrow('field "offset" not found');
+  });
+});
+
+describe('runFlow — step retry', () => {
+  const originalFetch = globalThis.fetch;
+
+  afterEach(() => {
+    globalThis.fetch = originalFetch;
+  });
+
+  const snapshots: SnapshotFile = {
+    version: 1,
+    snapshots: {
+      fetch_data: {
+        stepId: 'fetch_data',
+        capturedAt: Date.now(),
+        ttl: null,
+        request: { method: 'GET', url: 'https://api.example.com/data', headers: {}, body: null },
+        responseValidation: { expectedStatus: 200, expectedContentType: 'application/json', expectedKeys: [] },
+        sensitiveHeaders: [],
+      },
+    },
+  };
+
+  const replayStep = (retry: DslStep['retry']): DslStep => ({
+    id: 'fetch_data',
+    type: 'network_replay',
+    retry,
+    params: { requestId: 'req-1', auth: 'browser_context', out: 'data', response: { as: 'json' } },
+  });
+
+  function mockStatuses(statuses: number[]): void {
+    let call = 0;
+    globalThis.fetch = vi.fn().mockImplementation(async () => {
+      const status = statuses[Math.min(call++, statuses.length - 1)];
+      return {
+        status,
+        text: async () => JSON.stringify({ ok: status === 200 }),
+        headers: new Headers({ 'content-type': 'application/json' }),
+      };
+    });
+  }
+
+  it('retries network_replay on listed statuses and logs each attempt', async () => {
+    mockStatuses([503, 502, 200]);
+    const events: LogEvent[] = [];
+    const result = await runFlow(makeContext(events), [
+      replayStep({ attempts: 3, backoffMs: 0, retryOn: { status: [502, 503] } }),
+    ], { inputs: {}, httpMode: true, snapshots });
+
+    expect(result.collectibles.data).toEqual({ ok: true });
+    const attempts = events.filter((e) => e.type === 'step_attempt');
+    expect(attempts.map((e) => e.type === 'step_attempt' && e.data.success)).toEqual([false, false, true]);
+    const finished = events.find((e) => e.type === 'step_finished');
+    expect(finished?.type === 'step_finished' && finished.data.attempts).toBe(3);
+  });
+
+  it('fails after the last attempt', async () => {
+    mockStatuses([503]);
+    const events: LogEvent[] = [];
+    await expect(runFlow(makeContext(events), [
+      replayStep({ attempts: 2, backoffMs: 0, retryOn: { status: [503] } }),
+    ], { inputs: {}, httpMode: true, snapshots })).rejects.toThrow('retryable HTTP status 503');
+
+    const attempts = events.filter((e) => e.type === 'step_attempt');
+    expect(attempts).toHaveLength(2);
+    expect(attempts[1].type === 'step_attempt' && attempts[1].data.retryInMs).toBeUndefined();
+  });
+
+  it('does not retry errors outside retryOn', async () => {
+    const events: LogEvent[] = [];
+    await expect(runFlow(makeContext(events), [{
+      id: 'extract_missing',
+      type: 'network_extract',
+      retry: { attempts: 3, backoffMs: 0, retryOn: { timeout: true } },
+      params: { fromVar: 'missing', as: 'json', out: 'value' },
+    }], { inputs: {}, httpMode: true })).rejects.toThrow('is not set');
+
+    expect(events.filter((e) => e.type === 'step_attempt')).toHaveLength(1);
+  });
+
+  it('retries errors matching errorMatches', async () => {
+    const events: LogEvent[] = [];
+    await expect(runFlow(makeContext(events), [{
+      id: 'extract_missing',
+      type: 'network_extract',
+      retry: { attempts: 3, backoffMs: 0, retryOn: { errorMatches: 'not set' } },
+      params: { fromVar: 'missing', as: 'json', out: 'value' },
+    }], { inputs: {}, httpMode: true })).rejects.toThrow('is not set');
+
+    expect(events.filter((e) => e.type === 'step_attempt')).toHaveLength(3);
+  });
+
+  it('stops waiting for the backoff when the run is cancelled', async () => {
+    mockStatuses([503]);
+    const events: LogEvent[] = [];
+    const controller = new AbortController();
+    setTimeout(() => controller.abort(), 20);
+
+    const startedAt = Date.now();
+    await expect(runFlow(makeContext(events), [
+      replayStep({ attempts: 3, backoffMs: 5000, retryOn: { status: [503] } }),
+    ], { inputs: {}, httpMode: true, snapshots, signal: controller.signal })).rejects.toBeInstanceOf(RunCancelledError);
+
+    expect(Date.now() - startedAt).toBeLessThan(1000);
+    expect(events.filter((e) => e.type === 'step_attempt')).toHaveLength(1);
+  });
+});
+
+describe('runFlow — scroll', () => {
+  /**
+   * Fake page: each evaluate() call is one scroll; locator().count() returns
+   * the item count for the scrolls done so far.
+   */
+  function makeScrollPage(itemCounts: number[]): { page: Page; scrolls: () => number } {
+    let scrolls = 0;
+    const page = {
+      ...pageEvents,
+      goto: async () => null,
+      url: () => 'https://example.com/feed',
+      evaluate: async () => {
+        scrolls++;
+        return { top: scrolls * 1000, height: (scrolls + 1) * 1000 };
+      },
+      locator: () => ({ count: async () => itemCounts[Math.min(scrolls, itemCounts.length - 1)] }),
+    };
+    return { page: page as unknown as Page, scrolls: () => scrolls };
+  }
+
+  const scrollStep = (params: Record<string, unknown>): DslStep => ({
+    id: 'load_feed',
+    type: 'scroll',
+    params: { items: { kind: 'css', selector: '.post' }, waitMs: 0, saveAs: 'feedScroll', ...params },
+  } as DslStep);
+
+  it('scrolls until the item count stops growing', async () => {
+    const { page, scrolls } = makeScrollPage([10, 20, 30, 30]);
+    const result = await runFlow({ ...makeContext([]), page }, [scrollStep({})], { inputs: {} });
+
+    expect(scrolls()).toBe(3);
+    expect(result._vars?.feedScroll).toEqual({ scrolls: 3, itemCount: 30, stopReason: 'no_new_items' });
+  });
+
+  it('stops at maxItems', async () => {
+    const { page } = makeScrollPage([10, 20, 30, 40]);
+    const result = await runFlow({ ...makeContext([]), page }, [scrollStep({ maxItems: 25 })], { inputs: {} });
+
+    expect(result._vars?.feedScroll).toEqual({ scrolls: 2, itemCount: 30, stopReason: 'max_items' });
+  });
+
+  it('stops at maxScrolls', async () => {
+    const { page } = makeScrollPage([10, 20, 30, 40, 50]);
+    const result = await runFlow({ ...makeContext([]), page }, [scrollStep({ maxScrolls: 2 })], { inputs: {} });
+
+    expect(result._vars?.feedScroll).toEqual({ scrolls: 2, itemCount: 30, stopReason: 'max_scrolls' });
+  });
+});
+
+describe('runFlow — extract_table', () => {
+  const cell = (text: string, spans: { rowSpan?: number; colSpan?: number; header?: boolean } = {}) => ({
+    text,
+    header: spans.header ?? false,
+    rowSpan: spans.rowSpan ?? 1,
+    colSpan: spans.colSpan ?? 1,
+  });
+  const header = [
+    { section: 'head', cells: [cell('Name', { rowSpan: 2, header: true }), cell('Q1', { colSpan: 2, header: true })] },
+    { section: 'head', cells: [cell('Revenue', { header: true }), cell('Cost', { header: true })] },
+  ];
+  const pages = [
+    [
+      ...header,
+      { section: 'body', cells: [cell('Acme', { rowSpan: 2 }), cell('10'), cell('5')] },
+      { section: 'body', cells: [cell('20'), cell('7')] },
+      { section: 'body', cells: [cell(''), cell(''), cell('')] },
+      { section: 'foot', cells: [cell('Total'), cell('30'), cell('12')] },
+    ],
+    [
+      ...header,
+      { section: 'body', cells: [cell('Beta'), cell('8'), cell('3')] },
+    ],
+  ];
+
+  /**
+   * Fake page serving a two-page table; the next control is disabled on the last page
+   */
+  function makeTablePage(): Page {
+    let pageIndex = 0;
+    const page = {
+      ...pageEvents,
+      goto: async () => null,
+      url: () => 'https://example.com/report',
+      locator: (selector: string) => {
+        const element = selector === 'table'
+          ? { evaluate: async () => pages[pageIndex] }
+          : {
+            isDisabled: async () => pageIndex === pages.length - 1,
+            getAttribute: async () => null,
+            click: async () => { pageIndex++; },
+          };
+        return { count: async () => 1, first: () => element };
+      },
+    };
+    return page as unknown as Page;
+  }
+
+  it('keys rows by header cells, expands spans and follows next pages', async () => {
+    const flow: DslStep[] = [{
+      id: 'read_report',
+      type: 'extract_table',
+      params: {
+        target: { kind: 'css', selector: 'table' },
+        rename: { 'Q1 Revenue': 'revenue' },
+        next: { kind: 'css', selector: '.next' },
+        waitMs: 0,
+        out: 'rows',
+      },
+    }];
+
+    const result = await runFlow({ ...makeContext([]), page: makeTablePage() }, flow, { inputs: {} });
+
+    expect(result.collectibles.rows).toEqual([
+      { Name: 'Acme', revenue: '10', 'Q1 Cost': '5' },
+      { Name: 'Acme', revenue: '20', 'Q1 Cost': '7' },
+      { Name: 'Beta', revenue: '8', 'Q1 Cost': '3' },
+    ]);
+  });
+
+  it('skips leading and trailing body rows', async () => {
+    const flow: DslStep[] = [{
+      id: 'read_report',
+      type: 'extract_table',
+      params: { target: { kind: 'css', selector: 'table' }, skipFooterRows: 1, skip_empty: false, out: 'rows' },
+    }];
+
+    const result = await runFlow({ ...makeContext([]), page: makeTablePage() }, flow, { inputs: {} });
+
+    expect(result.collectibles.rows).toEqual([
+      { Name: 'Acme', 'Q1 Revenue': '10', 'Q1 Cost': '5' },
+      { Name: 'Acme', 'Q1 Revenue': '20', 'Q1 Cost': '7' },
+    ]);
+  });
+});
+
+describe('runFlow — wait_for_response', () => {
+  const page = { ...pageEvents, goto: async () => null, url: () => 'https://example.com' } as unknown as Page;
+
+  it('saves the matched request ID', async () => {
+    const networkCapture = {
+      waitForResponse: async () => ({ requestId: 'req-7' }),
+    } as unknown as NetworkCaptureApi;
+    const flow: DslStep[] = [
+      { id: 'wait_search', type: 'wait_for_response', params: { where: { urlIncludes: '/api/search' }, saveAs: 'searchReq' } },
+    ];
+
+    const result = await runFlow({ ...makeContext([]), page, networkCapture }, flow, { inputs: {} });
+    expect(result._vars?.searchReq).toBe('req-7');
+  });
+
+  it('lists the closest responses when nothing matches', async () => {
+    const networkCapture = {
+      waitForResponse: async () => ({
+        requestId: null,
+        nearMisses: [{ method: 'GET', url: 'https://example.com/api/search?q=a', status: 500, failed: ['status'] }],
+      }),
+    } as unknown as NetworkCaptureApi;
+    const flow: DslStep[] = [
+      { id: 'wait_search', type: 'wait_for_response', params: { where: { urlIncludes: '/api/search', status: 200 }, waitForMs: 10 } },
+    ];
+
+    await expect(runFlow({ ...makeContext([]), page, networkCapture }, flow, { inputs: {} })).rejects.toThrow(
+      'GET https://example.com/api/search?q=a (500) — failed: status'
+    );
+  });
+});
+
+describe('runFlow — transform', () => {
+  it('merges, filters and counts sources from vars and collectibles', async () => {
+    const flow: DslStep[] = [
+      { id: 'raw_one', type: 'set_var', params: { name: 'rawOne', value: '{{inputs.pageOne}}' } },
+      { id: 'page_one', type: 'network_extract', params: { fromVar: 'rawOne', as: 'json', out: 'pageOne' } },
+      { id: 'raw_two', type: 'set_var', params: { name: 'rawTwo', value: '{{inputs.pageTwo}}' } },
+      { id: 'page_two', type: 'network_extract', params: { fromVar: 'rawTwo', as: 'json', out: 'pageTwo' } },
+      {
+        id: 'merge',
+        type: 'transform',
+        params: { sources: { a: 'pageOne', b: 'pageTwo' }, expression: '$.[a, b][] | [?price > `10`].name', saveAs: 'expensive' },
+      },
+      { id: 'count', type: 'transform', params: { sources: { names: 'expensive' }, expression: 'length(names)', out: 'expensiveCount' } },
+    ];
+
+    const result = await runFlow(makeContext([]), flow, {
+      inputs: {
+        pageOne: JSON.stringify([{ name: 'a', price: 5 }, { name: 'b', price: 20 }]),
+        pageTwo: JSON.stringify([{ name: 'c', price: 30 }]),
+      },
+      httpMode: true,
+    });
+
+    expect(result._vars?.expensive).toEqual(['b', 'c']);
+    expect(result.collectibles.expensiveCount).toBe(2);
+  });
+
+  it('fails when a source is not set', async () => {
+    const flow: DslStep[] = [
+      { id: 'merge', type: 'transform', params: { sources: { a: 'missing' }, expression: 'a', out: 'merged' } },
+    ];
+
+    await expect(runFlow(makeContext([]), flow, { inputs: {}, httpMode: true })).rejects.toThrow(
+      'transform: source "a" refers to "missing", which is not set'
+    );
+  });
+});
+
+describe('runFlow — assert', () => {
+  /**
+   * Fake page where ".row" matches two elements with the given text and data-state attribute
+   */
+  function makeRowsPage(text: string, state: string): Page {
+    const element = {
+      isVisible: async () => true,
+      textContent: async () => text,
+      getAttribute: async (name: string) => (name === 'data-state' ? state : null),
+    };
+    const page = {
+      ...pageEvents,
+      goto: async () => null,
+      url: () => 'https://example.com/results',
+      content: async () => '',
+      locator: () => ({ count: async () => 2, first: () => element }),
+    };
+    return page as unknown as Page;
+  }
+
+  it('reports every failed element check in the error event', async () => {
+    const events: LogEvent[] = [];
+    const flow: DslStep[] = [{
+      id: 'check_rows',
+      type: 'assert',
+      params: {
+        target: { kind: 'css', selector: '.row' },
+        count: { min: 3 },
+        textMatches: '^\\$\\d+',
+        attributeEquals: { name: 'data-state', value: 'loaded' },
+      },
+    }];
+
+    await expect(
+      runFlow({ ...makeContext(events), page: makeRowsPage('Price: n/a', 'loading') }, flow, { inputs: {} })
+    ).rejects.toThrow('Assertion failed: Element count 2 is not >= 3');
+
+    const error = events.find((e) => e.type === 'error');
+    expect(error?.type === 'error' && error.data.failures).toEqual([
+      { check: 'count', message: expect.stringContaining('Element count 2'), expected: { min: 3 }, actual: 2 },
+      { check: 'textMatches', message: expect.stringContaining('does not match'), expected: '^\\$\\d+', actual: 'Price: n/a' },
+      { check: 'attributeEquals', message: expect.stringContaining('"data-state"'), expected: 'loaded', actual: 'loading' },
+    ]);
+  });
+
+  it('passes when the element checks hold', async () => {
+    const flow: DslStep[] = [{
+      id: 'check_rows',
+      type: 'assert',
+      params: { target: { kind: 'css', selector: '.row' }, count: { eq: 2 }, textMatches: '^\\$\\d+' },
+    }];
+
+    await expect(
+      runFlow({ ...makeContext([]), page: makeRowsPage('$42', 'loaded') }, flow, { inputs: {} })
+    ).resolves.toBeDefined();
+  });
+
+  it('checks vars and collectibles, also in HTTP mode', async () => {
+    const flow: DslStep[] = [
+      { id: 'raw', type: 'set_var', params: { name: 'raw', value: '{{inputs.rows}}' } },
+      { id: 'parse', type: 'network_extract', params: { fromVar: 'raw', as: 'json', out: 'rows' } },
+      {
+        id: 'has_rows',
+        type: 'assert',
+        params: { notEmpty: 'rows', arrayLength: { of: 'rows', min: 1, max: 10 }, predicate: 'length(collectibles.rows[?price > `0`]) == length(collectibles.rows)' },
+      },
+    ];
+
+    const ok = await runFlow(makeContext([]), flow, { inputs: { rows: JSON.stringify([{ price: 5 }]) }, httpMode: true });
+    expect(ok.collectibles.rows).toEqual([{ price: 5 }]);
+
+    const events: LogEvent[] = [];
+    await expect(
+      runFlow(makeContext(events), flow, { inputs: { rows: '[]' }, httpMode: true })
+    ).rejects.toThrow('"rows" is empty');
+    const error = events.find((e) => e.type === 'error');
+    expect(error?.type === 'error' && error.data.failures?.map((f) => f.check)).toEqual(['notEmpty', 'arrayLength']);
+  });
+});
+
+describe('runFlow — download_file', () => {
+  const artifactsDir = join(tmpdir(), `showrun-download-${Date.now()}-${Math.random().toString(36).slice(2)}`);
+  const csv = 'id,name,note\r\n1,Widget,"says ""hi"", twice"\r\n2,Gadget,\r\n';
+
+  afterEach(() => {
+    rmSync(artifactsDir, { recursive: true, force: true });
+  });
+
+  /**
+   * Fake page that starts a download of `report.csv` whenever it navigates
+   */
+  function makeDownloadPage(): Page {
+    const listeners: Array<(download: Download) => void> = [];
+    const download = {
+      suggestedFilename: () => 'report.csv',
+      failure: async () => null,
+      saveAs: async (path: string) => writeFileSync(path, csv),
+    } as unknown as Download;
+    const page = {
+      goto: async () => {
+        listeners.forEach((listener) => listener(download));
+        return null;
+      },
+      url: () => 'https://example.com/reports',
+      on: (event: string, listener: (download: Download) => void) => {
+        if (event === 'download') listeners.push(listener);
+      },
+      off: (event: string, listener: (download: Download) => void) => {
+        if (event === 'download') listeners.splice(listeners.indexOf(listener), 1);
+      },
+      context: () => noEvents,
+    };
+    return page as unknown as Page;
+  }
+
+  it('saves a download started by a previous step and parses it as CSV', async () => {
+    const page = makeDownloadPage();
+    const ctx = RunContextFactory.create(page, null as unknown as Browser, { log: () => {} }, artifactsDir);
+    const flow: DslStep[] = [
+      { id: 'export', type: 'navigate', params: { url: 'https://example.com/reports/export' } },
+      { id: 'save_report', type: 'download_file', params: { parseAs: 'csv', contentOut: 'rows', out: 'report' } },
+      { id: 'export_again', type: 'navigate', params: { url: 'https://example.com/reports/export' } },
+      { id: 'save_again', type: 'download_file', params: { saveAs: 'secondReport' } },
+    ];
+
+    const result = await runFlow(ctx, flow, { inputs: {} });
+
+    expect(result.collectibles.rows).toEqual([
+      { id: '1', name: 'Widget', note: 'says "hi", twice' },
+      { id: '2', name: 'Gadget', note: '' },
+    ]);
+    expect(result.collectibles.report).toEqual({
+      path: join(artifactsDir, 'downloads', 'report.csv'),
+      filename: 'report.csv',
+      size: Buffer.byteLength(csv),
+      sha256: createHash('sha256').update(csv).digest('hex'),
+    });
+    // Same suggested name is saved alongside instead of overwriting
+    expect((result._vars?.secondReport as { filename: string }).filename).toBe('report-1.csv');
+    expect(existsSync(join(artifactsDir, 'downloads', 'report-1.csv'))).toBe(true);
+  });
+
+  it('queues downloads for a download_file step in the finally block', async () => {
+    const ctx = RunContextFactory.create(makeDownloadPage(), null as unknown as Browser, { log: () => {} }, artifactsDir);
+
+    const result = await runFlow(ctx, [{ id: 'export', type: 'navigate', params: { url: 'https://example.com/reports/export' } }], {
+      inputs: {},
+      finally: [{ id: 'save_report', type: 'download_file', params: { out: 'report' } }],
+    });
+
+    expect((result.collectibles.report as { filename: string }).filename).toBe('report.csv');
+  });
+});
+
+describe('runFlow — handle_dialog', () => {
+  interface FakeDialog {
+    type: () => string;
+    message: () => string;
+    accept: ReturnType<typeof vi.fn>;
+    dismiss: ReturnType<typeof vi.fn>;
+  }
+
+  function makeDialog(type: string, message: string): FakeDialog {
+    return { type: () => type, message: () => message, accept: vi.fn(async () => {}), dismiss: vi.fn(async () => {}) };
+  }
+
+  /**
+   * Fake page whose navigations open the given dialogs; like Playwright, its
+   * browser context receives the dialogs of all its pages
+   */
+  function makeDialogPage(dialogs: FakeDialog[]): Page {
+    const listeners: Array<(dialog: FakeDialog) => void> = [];
+    const context = {
+      on: (event: string, listener: (dialog: FakeDialog) => void) => {
+        if (event === 'dialog') listeners.push(listener);
+      },
+      off: (event: string, listener: (dialog: FakeDialog) => void) => {
+        if (event === 'dialog') listeners.splice(listeners.indexOf(listener), 1);
+      },
+    };
+    const page = {
+      ...noEvents,
+      goto: async () => {
+        const dialog = dialogs.shift();
+        if (dialog) listeners.forEach((listener) => listener(dialog));
+        return null;
+      },
+      url: () => 'https://example.com',
+      context: () => context,
+    };
+    return page as unknown as Page;
+  }
+
+  it('answers a prompt once and dismisses unexpected dialogs', async () => {
+    const events: LogEvent[] = [];
+    const prompt = makeDialog('prompt', 'Enter your city');
+    const alert = makeDialog('alert', 'Session expires soon');
+    const flow: DslStep[] = [
+      {
+        id: 'answer_city',
+        type: 'handle_dialog',
+        params: { action: 'accept', promptText: '{{inputs.city}}', expectMessageIncludes: 'city', saveAs: 'cityPrompt' },
+      },
+      { id: 'open_form', type: 'navigate', params: { url: 'https://example.com/form' } },
+      { id: 'open_next', type: 'navigate', params: { url: 'https://example.com/next' } },
+    ];
+
+    const result = await runFlow({ ...makeContext(events), page: makeDialogPage([prompt, alert]) }, flow, {
+      inputs: { city: 'Lisbon' },
+    });
+
+    expect(prompt.accept).toHaveBeenCalledWith('Lisbon');
+    expect(result._vars?.cityPrompt).toBe('Enter your city');
+    // The one-shot handler is used up, so the alert is dismissed and logged
+    expect(alert.dismiss).toHaveBeenCalled();
+    expect(events.filter((e) => e.type === 'dialog').map((e) => e.data)).toEqual([
+      { dialogType: 'prompt', message: 'Enter your city', action: 'accept', handledBy: 'answer_city' },
+      { dialogType: 'alert', message: 'Session expires soon', action: 'dismiss' },
+    ]);
+  });
+
+  it('keeps a persistent handler armed', async () => {
+    const confirms = [makeDialog('confirm', 'Delete row 1?'), makeDialog('confirm', 'Delete row 2?')];
+    const flow: DslStep[] = [
+      { id: 'confirm_all', type: 'handle_dialog', params: { action: 'accept', dialogType: 'confirm', persistent: true } },
+      { id: 'delete_one', type: 'navigate', params: { url: 'https://example.com/delete/1' } },
+      { id: 'delete_two', type: 'navigate', params: { url: 'https://example.com/delete/2' } },
+    ];
+
+    await runFlow({ ...makeContext([]), page: makeDialogPage([...confirms]) }, flow, { inputs: {} });
+    expect(confirms.map((dialog) => dialog.accept.mock.calls.length)).toEqual([1, 1]);
+  });
+});
+
+describe('runFlow — cookies and storage', () => {
+  /**
+   * Fake page with a cookie jar; evaluate runs the callback against a stubbed localStorage
+   */
+  function makeStatePage() {
+    let jar: Array<Record<string, unknown>> = [
+      { name: 'session', value: 's1', domain: '.shop.example.com', path: '/', expires: -1, httpOnly: true, secure: true, sameSite: 'Lax' },
+      { name: 'tracker', value: 't1', domain: 'ads.example.net', path: '/', expires: -1, httpOnly: false, secure: false, sameSite: 'None' },
+    ];
+    const context = {
+      ...noEvents,
+      addCookies: vi.fn(async (cookies: Array<Record<string, unknown>>) => {
+        jar.push(...cookies);
+      }),
+      cookies: async () => jar,
+      clearCookies: async (filter: { name?: string; domain?: RegExp }) => {
+        jar = jar.filter((c) => !((!filter.name || c.name === filter.name) && (!filter.domain || filter.domain.test(String(c.domain)))));
+      },
+    };
+    const storage = new Map<string, string>([['csrfToken', 'abc123']]);
+    vi.stubGlobal('localStorage', {
+      getItem: (key: string) => storage.get(key) ?? null,
+      setItem: (key: string, value: string) => storage.set(key, value),
+      key: (index: number) => [...storage.keys()][index] ?? null,
+      get length() { return storage.size; },
+    });
+    const page = {
+      ...pageEvents,
+      url: () => 'https://shop.example.com/cart',
+      context: () => context,
+      evaluate: async (fn: (arg: unknown) => unknown, arg: unknown) => fn(arg),
+    };
+    return { page: page as unknown as Page, context, storage, jar: () => jar };
+  }
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('sets templated cookies and redacts secrets in step events', async () => {
+    const events: LogEvent[] = [];
+    const { page, context } = makeStatePage();
+    const flow: DslStep[] = [
+      { id: 'consent', type: 'set_cookies', params: { cookies: [{ name: 'consent', value: '{{secret.CONSENT}}' }] } },
+    ];
+
+    await runFlow({ ...makeContext(events), page }, flow, { inputs: {}, secrets: { CONSENT: 'granted-v2' } });
+
+    expect(context.addCookies).toHaveBeenCalledWith([
+      { name: 'consent', value: 'granted-v2', url: 'https://shop.example.com/cart' },
+    ]);
+    const started = events.find((e) => e.type === 'step_started');
+    expect(JSON.stringify(started?.data)).not.toContain('granted-v2');
+    expect(JSON.stringify(started?.data)).toContain('[REDACTED]');
+  });
+
+  it('reads and clears cookies by domain', async () => {
+    const state = makeStatePage();
+    const flow: DslStep[] = [
+      { id: 'read', type: 'get_cookies', params: { domain: 'example.com', saveAs: 'shopCookies' } },
+      { id: 'drop_ads', type: 'clear_cookies', params: { domain: 'example.net' } },
+    ];
+
+    const result = await runFlow({ ...makeContext([]), page: state.page }, flow, { inputs: {} });
+    expect((result._vars?.shopCookies as Array<{ name: string }>).map((c) => c.name)).toEqual(['session']);
+    expect(state.jar().map((c) => c.name)).toEqual(['session']);
+  });
+
+  it('writes and reads localStorage', async () => {
+    const state = makeStatePage();
+    const flow: DslStep[] = [
+      { id: 'csrf', type: 'get_storage', params: { key: 'csrfToken', saveAs: 'csrf' } },
+      { id: 'prefs', type: 'set_storage', params: { values: { currency: '{{inputs.currency}}' } } },
+      { id: 'all', type: 'get_storage', params: { saveAs: 'storage' } },
+    ];
+
+    const result = await runFlow({ ...makeContext([]), page: state.page }, flow, { inputs: { currency: 'EUR' } });
+    expect(result._vars?.csrf).toBe('abc123');
+    expect(result._vars?.storage).toEqual({ csrfToken: 'abc123', currency: 'EUR' });
+  });
+});
+
+describe('runFlow — pause_for_human', () => {
+  const pause: DslStep = { id: 'solve_captcha', type: 'pause_for_human', params: { message: 'Solve the CAPTCHA', maxWaitMs: 2000 } };
+
+  function makeUrlPage(url: () => string): Page {
+    return { ...pageEvents, goto: async () => null, url, content: async () => '' } as unknown as Page;
+  }
+
+  it('fails fast with HUMAN_INPUT_UNAVAILABLE when there is no operator prompt', async () => {
+    const events: LogEvent[] = [];
+    await expect(
+      runFlow({ ...makeContext(events), page: makeUrlPage(() => 'https://example.com') }, [pause], { inputs: {} })
+    ).rejects.toThrow('[HUMAN_INPUT_UNAVAILABLE]');
+
+    const error = events.find((e) => e.type === 'error');
+    expect(error?.type === 'error' && error.data.code).toBe('HUMAN_INPUT_UNAVAILABLE');
+  });
+
+  it('resumes when the operator continues', async () => {
+    const events: LogEvent[] = [];
+    const onHumanPause = vi.fn(async () => {});
+    await runFlow({ ...makeContext(events), page: makeUrlPage(() => 'https://example.com') }, [pause], {
+      inputs: {},
+      onHumanPause,
+    });
+
+    expect(onHumanPause).toHaveBeenCalledWith(
+      { stepId: 'solve_captcha', message: 'Solve the CAPTCHA', maxWaitMs: 2000, resumeWhen: undefined },
+      expect.any(AbortSignal)
+    );
+    const ended = events.find((e) => e.type === 'human_pause_ended');
+    expect(ended?.type === 'human_pause_ended' && ended.data.reason).toBe('continued');
+  });
+
+  it('resumes on resumeWhen and withdraws the prompt', async () => {
+    const events: LogEvent[] = [];
+    let url = 'https://example.com/captcha';
+    setTimeout(() => { url = 'https://example.com/results'; }, 50);
+    let signal: AbortSignal | undefined;
+    const flow: DslStep[] = [{ ...pause, params: { ...(pause.params as object), resumeWhen: { url_includes: '/results' } } } as DslStep];
+
+    await runFlow({ ...makeContext(events), page: makeUrlPage(() => url) }, flow, {
+      inputs: {},
+      onHumanPause: (_request, abortSignal) => {
+        signal = abortSignal;
+        return new Promise(() => {});
+      },
+    });
+
+    expect(signal?.aborted).toBe(true);
+    const ended = events.find((e) => e.type === 'human_pause_ended');
+    expect(ended?.type === 'human_pause_ended' && ended.data.reason).toBe('condition_met');
+  });
+
+  it('fails when nobody responds within maxWaitMs', async () => {
+    const flow: DslStep[] = [{ ...pause, params: { message: 'Approve the login', maxWaitMs: 20 } } as DslStep];
+    await expect(
+      runFlow({ ...makeContext([]), page: makeUrlPage(() => 'https://example.com') }, flow, {
+        inputs: {},
+        onHumanPause: () => new Promise(() => {}),
+      })
+    ).rejects.toThrow('pause_for_human: no operator response within 20ms');
+  });
+});
+
+describe('runFlow — cancellation', () => {
+  const flow: DslStep[] = [
+    { id: 'first', type: 'set_var', params: { name: 'a', value: 1 } },
+    { id: 'wait', type: 'sleep', params: { durationMs: 5000 }, optional: true },
+    { id: 'last', type: 'set_var', params: { name: 'b', value: 2 } },
+  ];
+
+  it('stops between steps when the signal is already aborted', async () => {
+    const events: LogEvent[] = [];
+    const controller = new AbortController();
+    controller.abort();
+
+    const error = await runFlow(makeContext(events), flow, { inputs: {}, httpMode: true, signal: controller.signal })
+      .catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(RunCancelledError);
+    expect(error).toMatchObject({ code: 'RUN_CANCELLED', stepId: 'first', partialResult: { stepsExecuted: 0 } });
+    expect(events.some((e) => e.type === 'step_started')).toBe(false);
+    const cancelled = events.find((e) => e.type === 'run_cancelled');
+    expect(cancelled?.type === 'run_cancelled' && cancelled.data).toMatchObject({ reason: 'cancelled', stepId: 'first' });
+  });
+
+  it('abandons the running step, even an optional one', async () => {
+    const events: LogEvent[] = [];
+    const controller = new AbortController();
+    setTimeout(() => controller.abort(), 20);
+
+    const startedAt = Date.now();
+    await expect(
+      runFlow(makeContext(events), flow, { inputs: {}, httpMode: true, signal: controller.signal })
+    ).rejects.toThrow('Run cancelled');
+
+    expect(Date.now() - startedAt).toBeLessThan(1000);
+    expect(events.filter((e) => e.type === 'step_started').map((e) => e.type === 'step_started' && e.data.stepId))
+      .toEqual(['first', 'wait']);
+    expect(events.some((e) => e.type === 'error')).toBe(false);
+  });
+
+  it('times out after maxRunDurationMs', async () => {
+    const events: LogEvent[] = [];
+    const error = await runFlow(makeContext(events), flow, { inputs: {}, httpMode: true, maxRunDurationMs: 20 })
+      .catch((e: unknown) => e);
+
+    expect(error).toMatchObject({ code: 'RUN_TIMEOUT', reason: 'timeout', stepId: 'wait' });
+    const cancelled = events.find((e) => e.type === 'run_cancelled');
+    expect(cancelled?.type === 'run_cancelled' && cancelled.data.reason).toBe('timeout');
+  });
+
+  it('withdraws the operator prompt of a paused step', async () => {
+    const controller = new AbortController();
+    let promptSignal: AbortSignal | undefined;
+    const page = { ...pageEvents, url: () => 'https://example.com', content: async () => '' } as unknown as Page;
+    const pause: DslStep = { id: 'approve', type: 'pause_for_human', params: { message: 'Approve the login' } };
+
+    const run = runFlow({ ...makeContext([]), page }, [pause], {
+      inputs: {},
+      signal: controller.signal,
+      onHumanPause: (_request, abortSignal) => {
+        promptSignal = abortSignal;
+        controller.abort();
+        return new Promise(() => {});
+      },
+    });
+
+    await expect(run).rejects.toBeInstanceOf(RunCancelledError);
+    expect(promptSignal?.aborted).toBe(true);
+  });
+});
+
+describe('runFlow — debugger', () => {
+  const flow: DslStep[] = [
+    { id: 'first', type: 'set_var', params: { name: 'count', value: '{{ ((vars.count or 0) | int) + 1 }}' } },
+    { id: 'check', type: 'assert', params: { notEmpty: 'missing' } },
+    { id: 'last', type: 'set_var', params: { name: 'done', value: true } },
+  ];
+
+  function debugRun(events: LogEvent[], commands: DebugCommand[], breakpoints: string[] = [], pauseOnEveryStep = false) {
+    const pauses: DebugPause[] = [];
+    const run = runFlow(makeContext(events), flow, {
+      inputs: {},
+      httpMode: true,
+      debug: {
+        breakpoints,
+        pauseOnEveryStep,
+        onPause: async (pause) => {
+          pauses.push(pause);
+          const command = commands.shift();
+          if (!command) throw new Error(`Unexpected pause at ${pause.stepId}`);
+          return command;
+        },
+      },
+    });
+    return { run, pauses };
+  }
+
+  it('pauses at breakpoints with the current vars and skips steps on request', async () => {
+    const events: LogEvent[] = [];
+    const { run, pauses } = debugRun(events, [{ action: 'skip' }, { action: 'continue' }], ['check', 'last']);
+
+    const result = await run;
+
+    expect(pauses.map((p) => [p.stepId, p.reason])).toEqual([['check', 'breakpoint'], ['last', 'breakpoint']]);
+    expect(pauses[0]).toMatchObject({ stepIndex: 1, type: 'assert', params: { notEmpty: 'missing' }, vars: { count: '1' } });
+    expect(result._vars).toMatchObject({ count: '1', done: true });
+    const skipped = events.find((e) => e.type === 'step_skipped');
+    expect(skipped?.type === 'step_skipped' && skipped.data).toMatchObject({ stepId: 'check', reason: 'debugger' });
+  });
+
+  it('steps through every step and pauses after a failed one', async () => {
+    const { run, pauses } = debugRun([], [{ action: 'step' }, { action: 'step' }, { action: 'continue' }], [], true);
+
+    await expect(run).rejects.toThrow('Assertion failed');
+
+    expect(pauses.map((p) => [p.stepId, p.reason])).toEqual([['first', 'step'], ['check', 'step'], ['check', 'error']]);
+    expect(pauses[2].error).toContain('missing');
+  });
+
+  it('re-runs a failed step with edited params', async () => {
+    const events: LogEvent[] = [];
+    const { run, pauses } = debugRun(events, [
+      { action: 'rerun', params: { notEmpty: 'count' } },
+      { action: 'continue' },
+    ]);
+
+    const result = await run;
+
+    expect(pauses.map((p) => [p.stepId, p.reason])).toEqual([['check', 'error'], ['last', 'step']]);
+    expect(result._vars).toMatchObject({ done: true });
+    const ended = events.find((e) => e.type === 'debug_pause_ended');
+    expect(ended?.type === 'debug_pause_ended' && ended.data).toMatchObject({ stepId: 'check', action: 'rerun', paramsEdited: true });
+  });
+
+  it('re-runs the previous step when paused before one', async () => {
+    const { run, pauses } = debugRun([], [{ action: 'rerun' }, { action: 'skip' }, { action: 'continue' }], ['check']);
+
+    const result = await run;
+
+    expect(pauses.map((p) => [p.stepId, p.reason])).toEqual([['check', 'breakpoint'], ['check', 'breakpoint'], ['last', 'step']]);
+    expect(pauses[1].vars).toMatchObject({ count: '2' });
+    expect(result._vars).toMatchObject({ count: '2', done: true });
+  });
+
+  it('pauses again when edited params are invalid', async () => {
+    const { run, pauses } = debugRun([], [
+      { action: 'step', params: { notEmpty: 42 } as unknown as DebugCommand['params'] },
+      { action: 'skip' },
+    ], ['check']);
+
+    await run;
+
+    expect(pauses.map((p) => [p.stepId, p.reason])).toEqual([['check', 'breakpoint'], ['check', 'breakpoint']]);
+    expect(pauses[1].error).toContain('Edited params rejected');
+    expect(pauses[1].params).toEqual({ notEmpty: 'missing' });
+  });
+});
+
+describe('runFlow — on_failure and finally', () => {
+  const check: DslStep = { id: 'check', type: 'assert', params: { notEmpty: 'missing' } };
+
+  function blockSteps(events: LogEvent[]): string[] {
+    return events.flatMap((e) =>
+      e.type === 'flow_block_started' ? [`${e.data.block}:start`]
+        : e.type === 'step_finished' ? [e.data.stepId]
+        : []
+    );
+  }
+
+  it('runs finally after a successful flow', async () => {
+    const events: LogEvent[] = [];
+    const result = await runFlow(makeContext(events), [{ id: 'first', type: 'set_var', params: { name: 'a', value: 1 } }], {
+      inputs: {},
+      httpMode: true,
+      onFailure: [{ id: 'diagnose', type: 'set_var', params: { name: 'diagnosed', value: true } }],
+      finally: [{ id: 'cleanup', type: 'set_var', params: { name: 'cleaned', value: '{{vars.a}}' } }],
+    });
+
+    expect(blockSteps(events)).toEqual(['first', 'finally:start', 'cleanup']);
+    expect(result._vars).toMatchObject({ cleaned: '1' });
+    expect(result._vars).not.toHaveProperty('diagnosed');
+  });
+
+  it('runs on_failure then finally with the failure details and rethrows the original error', async () => {
+    const events: LogEvent[] = [];
+    const error = await runFlow(makeContext(events), [check], {
+      inputs: {},
+      httpMode: true,
+      onFailure: [{ id: 'diagnose', type: 'set_var', params: { name: 'why', value: '{{vars.__error.stepId}}: {{vars.__error.message}}' } }],
+      finally: [{ id: 'cleanup', type: 'set_var', params: { name: 'cleaned', value: true } }],
+    }).catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(Error);
+    expect((error as Error).message).toContain('Assertion failed');
+    expect(blockSteps(events)).toEqual(['on_failure:start', 'diagnose', 'finally:start', 'cleanup']);
+    const started = events.filter((e) => e.type === 'step_started' && e.data.stepId === 'diagnose');
+    expect(started[0]?.type === 'step_started' && started[0].data.params).toMatchObject({
+      value: expect.stringMatching(/^check: Assertion failed/),
+    });
+  });
+
+  it('logs failures inside the blocks without masking the original error', async () => {
+    const events: LogEvent[] = [];
+    const failingBlock: DslStep[] = [
+      { id: 'broken', type: 'assert', params: { notEmpty: 'alsoMissing' } },
+      { id: 'after_broken', type: 'set_var', params: { name: 'x', value: 1 } },
+    ];
+
+    const error = await runFlow(makeContext(events), [check], {
+      inputs: {},
+      httpMode: true,
+      onFailure: failingBlock,
+      finally: [{ id: 'cleanup', type: 'set_var', params: { name: 'cleaned', value: true } }],
+    }).catch((e: unknown) => e);
+
+    expect((error as Error).message).toContain('missing');
+    expect((error as Error).message).not.toContain('alsoMissing');
+    const finished = events.filter((e) => e.type === 'flow_block_finished').map((e) => e.type === 'flow_block_finished' && e.data);
+    expect(finished).toEqual([
+      expect.objectContaining({ block: 'on_failure', success: false, error: expect.stringContaining('alsoMissing') }),
+      expect.objectContaining({ block: 'finally', success: true }),
+    ]);
+    expect(blockSteps(events)).not.toContain('after_broken');
+  });
+
+  it('runs the blocks after the run times out', async () => {
+    const events: LogEvent[] = [];
+    const error = await runFlow(makeContext(events), [{ id: 'wait', type: 'sleep', params: { durationMs: 5000 } }], {
+      inputs: {},
+      httpMode: true,
+      maxRunDurationMs: 20,
+      onFailure: [{ id: 'diagnose', type: 'set_var', params: { name: 'why', value: '{{vars.__error.message}}' } }],
+      finally: [{ id: 'logout', type: 'sleep', params: { durationMs: 10 } }],
+    }).catch((e: unknown) => e);
+
+    expect(error).toMatchObject({ code: 'RUN_TIMEOUT', stepId: 'wait' });
+    expect(blockSteps(events)).toEqual(['on_failure:start', 'diagnose', 'finally:start', 'logout']);
+  });
+
+  it('waits for the cancelled step to settle before running the blocks', async () => {
+    const events: LogEvent[] = [];
+    const controller = new AbortController();
+    let eventsWhenSettled = -1;
+    const page = {
+      ...pageEvents,
+      url: () => 'https://example.com',
+      content: async () => '',
+      goto: async () => {
+        controller.abort();
+        await new Promise((resolve) => setTimeout(resolve, 50));
+        eventsWhenSettled = events.length;
+      },
+    } as unknown as Page;
+
+    const error = await runFlow({ ...makeContext(events), page }, [
+      { id: 'open', type: 'navigate', params: { url: 'https://example.com' } },
+    ], {
+      inputs: {},
+      signal: controller.signal,
+      finally: [{ id: 'cleanup', type: 'set_var', params: { name: 'cleaned', value: true } }],
+    }).catch((e: unknown) => e);
+
+    expect(error).toMatchObject({ code: 'RUN_CANCELLED', stepId: 'open' });
+    expect(eventsWhenSettled).toBeGreaterThan(-1);
+    expect(events.findIndex((e) => e.type === 'flow_block_started')).toBeGreaterThanOrEqual(eventsWhenSettled);
+  });
+
+  it('does not fail a successful flow when finally fails', async () => {
+    const result = await runFlow(makeContext([]), [{ id: 'first', type: 'set_var', params: { name: 'a', value: 1 } }], {
+      inputs: {},
+      httpMode: true,
+      finally: [check],
+    });
+
+    expect(result._vars).toMatchObject({ a: 1 });
+  });
+});
+
+describe('runFlow — call_pack', () => {
+  const packsDir = join(tmpdir(), `showrun-call-pack-${Date.now()}-${Math.random().toString(36).slice(2)}`);
+  const parentDir = join(packsDir, 'parent');
+
+  function writePack(dir: string, id: string, version: string, flowFile: object): void {
+    mkdirSync(dir, { recursive: true });
+    writeFileSync(join(dir, 'taskpack.json'), JSON.stringify({ id, name: id, version, kind: 'json-dsl' }));
+    writeFileSync(join(dir, 'flow.json'), JSON.stringify(flowFile));
+  }
+
+  function makeCallContext(events: LogEvent[]): RunContext {
+    return { ...makeContext(events), page: { ...pageEvents, url: () => 'about:blank', content: async () => '' } as unknown as Page };
+  }
+
+  beforeEach(() => {
+    writePack(parentDir, 'parent-pack', '1.0.0', { flow: [] });
+    writePack(join(packsDir, 'greeter'), 'greeter-pack', '2.1.0', {
+      inputs: {
+        name: { type: 'string', required: true },
+        count: { type: 'number', required: true },
+      },
+      collectibles: [{ name: 'greeting', type: 'string' }],
+      flow: [
+        { id: 'compose', type: 'set_var', params: { name: 'greeting', value: 'Hello {{inputs.name}} x{{inputs.count}}' } },
+        { id: 'extract', type: 'network_extract', params: { fromVar: 'greeting', as: 'text', out: 'greeting' } },
+      ],
+    });
+  });
+
+  afterEach(() => {
+    rmSync(packsDir, { recursive: true, force: true });
+  });
+
+  const callGreeter = (params: Record<string, unknown> = {}): DslStep[] => [
+    { id: 'set_count', type: 'set_var', params: { name: 'count', value: 3 } },
+    {
+      id: 'call_greeter',
+      type: 'call_pack',
+      params: {
+        pack: 'greeter-pack',
+        inputs: { name: '{{inputs.who}}', count: '{{vars.count}}' },
+        out: { greeting: 'message' },
+        saveAs: { greeting: 'greetingVar' },
+        ...params,
+      },
+    },
+  ];
+
+  it('runs a sibling pack and maps its collectibles', async () => {
+    const events: LogEvent[] = [];
+    const result = await runFlow(makeCallContext(events), callGreeter({ version: '2.1.0' }), {
+      inputs: { who: 'Ada' },
+      packDir: parentDir,
+      packId: 'parent-pack',
+    });
+
+    expect(result.collectibles.message).toBe('Hello Ada x3');
+    expect(result._vars?.greetingVar).toBe('Hello Ada x3');
+    // The called pack's own collectibles stay out of the caller's output
+    expect(result.collectibles).not.toHaveProperty('greeting');
+
+    const nested = events.filter((e) => e.type === 'step_finished' && e.data.packId === 'greeter-pack');
+    expect(nested.map((e) => e.type === 'step_finished' && [e.data.stepId, e.data.parentStepId])).toEqual([
+      ['compose', 'call_greeter'],
+      ['extract', 'call_greeter'],
+    ]);
+  });
+
+  it('fails when the pack version does not match', async () => {
+    await expect(
+      runFlow(makeCallContext([]), callGreeter({ version: '1.0.0' }), {
+        inputs: { who: 'Ada' },
+        packDir: parentDir,
+        packId: 'parent-pack',
+      })
+    ).rejects.toThrow('is version 2.1.0, expected 1.0.0');
+  });
+
+  it('fails when the pack does not declare a mapped collectible', async () => {
+    await expect(
+      runFlow(makeCallContext([]), callGreeter({ out: { farewell: 'message' } }), {
+        inputs: { who: 'Ada' },
+        packDir: parentDir,
+        packId: 'parent-pack',
+      })
+    ).rejects.toThrow('does not declare collectible "farewell"');
+  });
+
+  it('gives the called pack only its own secrets', async () => {
+    const greeterDir = join(packsDir, 'greeter');
+    writePack(greeterDir, 'greeter-pack', '2.1.0', {
+      collectibles: [{ name: 'greeting', type: 'string' }],
+      flow: [
+        { id: 'compose', type: 'set_var', params: { name: 'greeting', value: '{{secret.API_KEY}}/{{secret.PARENT_ONLY}}' } },
+        { id: 'extract', type: 'network_extract', params: { fromVar: 'greeting', as: 'text', out: 'greeting' } },
+      ],
+    });
+    writeFileSync(join(greeterDir, '.secrets.json'), JSON.stringify({ version: 1, secrets: { API_KEY: 'child-key' } }));
+
+    const result = await runFlow(makeCallContext([]), [
+      { id: 'call_greeter', type: 'call_pack', params: { pack: 'greeter-pack', out: { greeting: 'message' } } },
+    ], {
+      inputs: {},
+      packDir: parentDir,
+      packId: 'parent-pack',
+      secrets: { API_KEY: 'parent-key', PARENT_ONLY: 'parent-only' },
+    });
+
+    expect(result.collectibles.message).toBe('child-key/');
+  });
+
+  it('runs a call_pack in finally after the run was cancelled', async () => {
+    const events: LogEvent[] = [];
+    const controller = new AbortController();
+    setTimeout(() => controller.abort(), 20);
+
+    const error = await runFlow(makeCallContext(events), [{ id: 'wait', type: 'sleep', params: { durationMs: 5000 } }], {
+      inputs: {},
+      packDir: parentDir,
+      packId: 'parent-pack',
+      signal: controller.signal,
+      finally: [
+        { id: 'logout', type: 'call_pack', params: { pack: 'greeter-pack', inputs: { name: 'Ada', count: 1 } } },
+      ],
+    }).catch((e: unknown) => e);
+
+    expect(error).toMatchObject({ code: 'RUN_CANCELLED', stepId: 'wait' });
+    const finished = events.find((e) => e.type === 'flow_block_finished');
+    expect(finished?.type === 'flow_block_finished' && finished.data).toMatchObject({ block: 'finally', success: true });
+    expect(events.filter((e) => e.type === 'step_finished' && e.data.packId === 'greeter-pack')).toHaveLength(2);
+  });
+
+  it('detects call cycles', async () => {
+    writePack(join(packsDir, 'loop'), 'loop-pack', '1.0.0', {
+      flow: [{ id: 'call_parent', type: 'call_pack', params: { pack: 'parent-pack' } }],
+    });
+
+    await expect(
+      runFlow(makeCallContext([]), [{ id: 'call_loop', type: 'call_pack', params: { pack: 'loop-pack' } }], {
+        packDir: parentDir,
+        packId: 'parent-pack',
+      })
+    ).rejects.toThrow('cycle detected: parent-pack -> loop-pack -> parent-pack');
+  });
+});
@@ -0,0 +1,100 @@
+import { describe, it, expect } from 'vitest';
+import type { Page } from 'playwright';
+import { attachNetworkCapture } from '../networkCapture.js';
+
+type Handler = (value: unknown) => unknown;
+
+/**
+ * Fake page that lets tests emit request/response pairs to the capture
+ */
+function makeFakePage(): { page: Page; respond: (method: string, url: string, status: number, body?: string) => Promise<void> } {
+  const handlers: Record<string, Handler[]> = {};
+  const page = {
+    on: (event: string, handler: Handler) => {
+      (handlers[event] ??= []).push(handler);
+    },
+  };
+
+  const respond = async (method: string, url: string, status: number, body = '{}') => {
+    const request = {
+      url: () => url,
+      method: () => method,
+      resourceType: () => 'fetch',
+      headers: () => ({}),
+      postData: () => null,
+    };
+    const response = {
+      request: () => request,
+      status: () => status,
+      headers: () => ({ 'content-type': 'application/json' }),
+      body: async () => Buffer.from(body),
+    };
+    handlers.request?.forEach((handler) => handler(request));
+    await Promise.all((handlers.response ?? []).map((handler) => handler(response)));
+  };
+
+  return { page: page as unknown as Page, respond };
+}
+
+// ---------------------------------------------------------------------------
+// waitForResponse
+// ---------------------------------------------------------------------------
+
+describe('waitForResponse', () => {
+  it('resolves when a matching response arrives', async () => {
+    const { page, respond } = makeFakePage();
+    const capture = attachNetworkCapture(page);
+
+    const waiting = capture.waitForResponse({ urlIncludes: '/api/search', status: 200 }, { timeoutMs: 1000 });
+    await respond('GET', 'https://example.com/api/other', 200);
+    await respond('GET', 'https://example.com/api/search?q=shoes', 200);
+
+    const result = await waiting;
+    expect(result.requestId).not.toBeNull();
+    expect(capture.get(result.requestId!)?.url).toBe('https://example.com/api/search?q=shoes');
+  });
+
+  it('accepts a response captured since the given time', async () => {
+    const { page, respond } = makeFakePage();
+    const capture = attachNetworkCapture(page);
+
+    const before = Date.now();
+    await respond('POST', 'https://example.com/api/search', 200);
+
+    const result = await capture.waitForResponse({ urlIncludes: '/api/search' }, { timeoutMs: 50, since: before });
+    expect(result.requestId).not.toBeNull();
+  });
+
+  it('ignores earlier responses without since', async () => {
+    const { page, respond } = makeFakePage();
+    const capture = attachNetworkCapture(page);
+
+    await respond('POST', 'https://example.com/api/search', 200);
+
+    const result = await capture.waitForResponse({ urlIncludes: '/api/search' }, { timeoutMs: 20 });
+    expect(result.requestId).toBeNull();
+  });
+
+  it('reports the closest non-matching responses on timeout', async () => {
+    const { page, respond } = makeFakePage();
+    const capture = attachNetworkCapture(page);
+
+    const waiting = capture.waitForResponse(
+      { urlIncludes: '/api/search', method: 'POST', status: 200 },
+      { timeoutMs: 20 }
+    );
+    await respond('GET', 'https://example.com/static/app.js', 404);
+    await respond('POST', 'https://example.com/api/search', 500);
+    await respond('GET', 'https://example.com/api/search', 200);
+
+    const result = await waiting;
+    expect(result.requestId).toBeNull();
+    if (result.requestId === null) {
+      expect(result.nearMisses).toEqual([
+        { method: 'GET', url: 'https://example.com/api/search', status: 200, failed: ['method'] },
+        { method: 'POST', url: 'https://example.com/api/search', status: 500, failed: ['status'] },
+        { method: 'GET', url: 'https://example.com/static/app.js', status: 404, failed: ['urlIncludes', 'method', 'status'] },
+      ]);
+    }
+  });
+});
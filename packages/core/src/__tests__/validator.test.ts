@@ -1,6 +1,8 @@
 import { describe, it, expect } from 'vitest';
-import { InputValidator } from '../validator.js';
-import type { InputSchema } from '../types.js';
+import { InputValidator, CollectibleValidator } from '../validator.js';
+import { validateJsonTaskPack } from '../jsonPackValidator.js';
+import type { InputSchema, CollectibleDefinition, BrowserSettings } from '../types.js';
+import type { DslStep } from '../dsl/types.js';
 
 describe('InputValidator', () => {
   describe('validate', () => {
@@ -177,3 +179,319 @@ describe('InputValidator', () => {
     });
   });
 });
+
+describe('InputValidator — constraints', () => {
+  it('checks enum values', () => {
+    const schema: InputSchema = { sort: { type: 'string', enum: ['price', 'rating'] } };
+    expect(() => InputValidator.validate({ sort: 'price' }, schema)).not.toThrow();
+    expect(() => InputValidator.validate({ sort: 'name' }, schema)).toThrow('Field sort must be one of: price, rating');
+  });
+
+  it('checks string length, pattern and format', () => {
+    const schema: InputSchema = {
+      code: { type: 'string', minLength: 2, maxLength: 3, pattern: '^[A-Z]+$' },
+      since: { type: 'string', format: 'date' },
+      contact: { type: 'string', format: 'email' },
+      site: { type: 'string', format: 'url' },
+    };
+    expect(() => InputValidator.validate(
+      { code: 'US', since: '2024-02-29', contact: 'a@example.com', site: 'https://example.com' },
+      schema
+    )).not.toThrow();
+    expect(() => InputValidator.validate({ code: 'u' }, schema))
+      .toThrow(/at least 2 characters[\s\S]*must match pattern \^\[A-Z\]\+\$/);
+    expect(() => InputValidator.validate({ since: '2023-02-29' }, schema))
+      .toThrow('Field since must be a valid date (YYYY-MM-DD)');
+    expect(() => InputValidator.validate({ contact: 'nobody' }, schema)).toThrow('Field contact must be a valid email');
+    expect(() => InputValidator.validate({ site: 'ftp://example.com' }, schema)).toThrow('Field site must be a valid url');
+  });
+
+  it('checks numeric ranges', () => {
+    const schema: InputSchema = { limit: { type: 'number', minimum: 1, maximum: 100 } };
+    expect(() => InputValidator.validate({ limit: 50 }, schema)).not.toThrow();
+    expect(() => InputValidator.validate({ limit: 0 }, schema)).toThrow('Field limit must be >= 1');
+    expect(() => InputValidator.validate({ limit: 101 }, schema)).toThrow('Field limit must be <= 100');
+  });
+
+  it('checks array items and object properties', () => {
+    const schema: InputSchema = {
+      ids: { type: 'array', items: { type: 'number' } },
+      filters: { type: 'object', properties: { brand: { type: 'string' } } },
+    };
+    expect(() => InputValidator.validate({ ids: [1, 2], filters: { brand: 'acme' } }, schema)).not.toThrow();
+    expect(() => InputValidator.validate({ ids: 'a,b' }, schema)).toThrow('Field ids must be an array, got string');
+    expect(() => InputValidator.validate({ ids: [1, 'x'] }, schema)).toThrow('Field ids[1]: expected number, got string');
+    expect(() => InputValidator.validate({ filters: { brand: true } }, schema))
+      .toThrow('Field filters.brand: expected string, got boolean');
+  });
+});
+
+describe('CollectibleValidator', () => {
+  const definitions: CollectibleDefinition[] = [
+    {
+      name: 'products',
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: { name: { type: 'string' }, price: { type: 'number' }, stock: { type: 'integer' } },
+        required: ['name'],
+      },
+    },
+    { name: 'title', type: 'string' },
+  ];
+
+  it('accepts values matching their schema', () => {
+    const collectibles = {
+      products: [{ name: 'Widget', price: 9.5, stock: 3 }, { name: 'Gadget', price: 10 }],
+      title: 'Results',
+    };
+    expect(CollectibleValidator.validate(collectibles, definitions)).toEqual([]);
+  });
+
+  it('reports mismatches with the path into the value', () => {
+    const collectibles = {
+      products: [{ name: 'Widget', price: '9.50' }, { price: 10, stock: 1.5 }],
+      title: ['Results'],
+    };
+    expect(CollectibleValidator.validate(collectibles, definitions)).toEqual([
+      'products[0].price: expected number, got string',
+      'products[1]: missing required property "name"',
+      'products[1].stock: expected integer, got number',
+      'title: expected string, got array',
+    ]);
+  });
+
+  it('skips collectibles the run did not produce', () => {
+    expect(CollectibleValidator.validate({}, definitions)).toEqual([]);
+  });
+
+  it('caps the mismatches reported per collectible', () => {
+    const products = Array.from({ length: 8 }, () => ({ name: 1 }));
+    const issues = CollectibleValidator.validate({ products }, definitions);
+    expect(issues).toHaveLength(6);
+    expect(issues[5]).toBe('products: 3 more mismatch(es)');
+  });
+});
+
+describe('CollectibleValidator.coerce', () => {
+  it('trims, extracts and converts scalars and array elements', () => {
+    const definitions: CollectibleDefinition[] = [
+      { name: 'price', type: 'number', coerce: 'number' },
+      { name: 'count', type: 'number', trim: true, coerce: 'integer' },
+      { name: 'inStock', type: 'boolean', coerce: 'boolean' },
+      { name: 'updated', type: 'string', coerce: 'date-iso' },
+      { name: 'sku', type: 'string', regexExtract: 'SKU:\\s*(\\w+)' },
+      { name: 'ratings', type: 'array', items: { type: 'number' }, coerce: 'number' },
+      { name: 'title', type: 'string' },
+    ];
+    const { collectibles, issues } = CollectibleValidator.coerce({
+      price: '$1,299.00',
+      count: '  42 ',
+      inStock: 'Yes',
+      updated: '2024-03-05T10:00:00Z',
+      sku: 'Item SKU: AB12 (new)',
+      ratings: ['4.5', '3', 5],
+      title: '  untouched  ',
+    }, definitions);
+
+    expect(issues).toEqual([]);
+    expect(collectibles).toEqual({
+      price: 1299,
+      count: 42,
+      inStock: true,
+      updated: '2024-03-05T10:00:00.000Z',
+      sku: 'AB12',
+      ratings: [4.5, 3, 5],
+      title: '  untouched  ',
+    });
+  });
+
+  it('keeps values that cannot be converted and reports them', () => {
+    const { collectibles, issues } = CollectibleValidator.coerce(
+      { count: '4.5', sku: 'none', prices: ['1', 'n/a'] },
+      [
+        { name: 'count', type: 'number', coerce: 'integer' },
+        { name: 'sku', type: 'string', regexExtract: '\\d+' },
+        { name: 'prices', type: 'array', coerce: 'number' },
+      ]
+    );
+    expect(collectibles).toEqual({ count: '4.5', sku: 'none', prices: [1, 'n/a'] });
+    expect(issues).toEqual([
+      'count: cannot coerce "4.5" to integer',
+      'sku: "none" does not match regexExtract /\\d+/',
+      'prices[1]: cannot coerce "n/a" to number',
+    ]);
+  });
+
+  it('reports decimal-comma numbers instead of misreading them', () => {
+    const { collectibles, issues } = CollectibleValidator.coerce(
+      { prices: ['1,5', '1.299,00', '€12,345.50'] },
+      [{ name: 'prices', type: 'array', coerce: 'number' }]
+    );
+    expect(collectibles).toEqual({ prices: ['1,5', '1.299,00', 12345.5] });
+    expect(issues).toEqual([
+      'prices[0]: cannot coerce "1,5" to number',
+      'prices[1]: cannot coerce "1.299,00" to number',
+    ]);
+  });
+});
+
+describe('validateJsonTaskPack — collectible definitions', () => {
+  const pack = (collectibles: CollectibleDefinition[]) => ({
+    metadata: { id: 'shop', name: 'Shop', version: '1.0.0' },
+    inputs: {},
+    collectibles,
+    flow: [],
+  });
+
+  it('accepts array and object collectibles with schemas', () => {
+    expect(() => validateJsonTaskPack(pack([
+      { name: 'products', type: 'array', items: { type: 'object', properties: { name: { type: 'string' } } } },
+      { name: 'summary', type: 'object', properties: { total: { type: 'integer' } }, required: ['total'] },
+    ]))).not.toThrow();
+  });
+
+  it('rejects unknown types and schemas on the wrong type', () => {
+    expect(() => validateJsonTaskPack(pack([
+      { name: 'products', type: 'list' as CollectibleDefinition['type'] },
+      { name: 'title', type: 'string', items: { type: 'string' } },
+    ]))).toThrow(/Collectible "products": type must be one of[\s\S]*Collectible "title": "items" is only allowed for type "array"/);
+  });
+
+  it('rejects coercions that do not fit the declared type', () => {
+    expect(() => validateJsonTaskPack(pack([
+      { name: 'price', type: 'string', coerce: 'number' },
+      { name: 'rows', type: 'array', items: { type: 'object' }, trim: true },
+      { name: 'sku', type: 'string', regexExtract: '(' },
+    ]))).toThrow(
+      /Collectible "price": coerce "number" produces number values, but the type is "string"[\s\S]*Collectible "rows": trim, regexExtract and coerce only apply to scalar values[\s\S]*Collectible "sku": "regexExtract" is not a valid regex/
+    );
+  });
+});
+
+describe('validateJsonTaskPack — collectibles written by the flow', () => {
+  const pack = (flow: DslStep[]) => ({
+    metadata: { id: 'shop', name: 'Shop', version: '1.0.0' },
+    inputs: {},
+    collectibles: [{ name: 'items', type: 'array' as const }],
+    flow,
+  });
+
+  it('checks outs inside if branches but not the item fields of for_each bodies', () => {
+    const loop: DslStep = {
+      id: 'each',
+      type: 'for_each',
+      params: {
+        items: '{{vars.ids}}',
+        steps: [{ id: 'name', type: 'extract_title', params: { out: 'name' } }],
+        out: 'items',
+      },
+    };
+    expect(() => validateJsonTaskPack(pack([loop]))).not.toThrow();
+
+    const branch: DslStep = {
+      id: 'maybe_price',
+      type: 'if',
+      params: {
+        condition: { url_includes: '/product' },
+        then: [{ id: 'title', type: 'extract_title', params: { out: 'title' } }],
+        else: [{ id: 'price', type: 'extract_text', params: { target: { kind: 'css', selector: '.price' }, out: 'price' } }],
+      },
+    };
+    expect(() => validateJsonTaskPack(pack([branch]))).toThrow(/undeclared collectible\(s\): \[title, price\]/);
+  });
+});
+
+describe('validateJsonTaskPack — input definitions', () => {
+  const pack = (inputs: InputSchema) => ({
+    metadata: { id: 'shop', name: 'Shop', version: '1.0.0' },
+    inputs,
+    collectibles: [],
+    flow: [],
+  });
+
+  it('accepts constrained inputs', () => {
+    expect(() => validateJsonTaskPack(pack({
+      sort: { type: 'string', enum: ['price', 'rating'], default: 'price' },
+      limit: { type: 'number', minimum: 1, maximum: 100 },
+      ids: { type: 'array', items: { type: 'string' } },
+      filters: { type: 'object', properties: { brand: { type: 'string' } } },
+    }))).not.toThrow();
+  });
+
+  it('rejects constraints on the wrong type and invalid values', () => {
+    expect(() => validateJsonTaskPack(pack({
+      limit: { type: 'number', pattern: '^\\d+$' },
+      sort: { type: 'string', enum: [1, 2] },
+      code: { type: 'string', pattern: '(' },
+    }))).toThrow(
+      /Input "limit": "pattern" is only allowed for type "string"[\s\S]*Input "sort": "enum" must be a non-empty array of string values[\s\S]*Input "code": "pattern" is not a valid regex/
+    );
+  });
+});
+
+describe('validateJsonTaskPack — on_failure and finally', () => {
+  const pack = (blocks: { on_failure?: DslStep[]; finally?: DslStep[] }) => ({
+    metadata: { id: 'shop', name: 'Shop', version: '1.0.0' },
+    inputs: {},
+    collectibles: [{ name: 'title', type: 'string' as const }],
+    flow: [{ id: 'open', type: 'navigate', params: { url: 'https://example.com' } } as DslStep],
+    ...blocks,
+  });
+
+  it('accepts valid blocks', () => {
+    expect(() => validateJsonTaskPack(pack({
+      on_failure: [{ id: 'why', type: 'extract_title', params: { out: 'title' } }],
+      finally: [{ id: 'logout', type: 'navigate', params: { url: 'https://example.com/logout' } }],
+    }))).not.toThrow();
+  });
+
+  it('reports invalid steps, reused step IDs and undeclared outs in blocks', () => {
+    expect(() => validateJsonTaskPack(pack({
+      on_failure: [{ id: 'open', type: 'extract_title', params: { out: 'title' } }],
+      finally: [{ id: 'logout', type: 'navigate', params: {} } as DslStep],
+    }))).toThrow(/on_failure: Step id="open" is already used by another step[\s\S]*finally: Step 0 \(id="logout", type="navigate"\): Navigate step must have a non-empty string "url"/);
+
+    expect(() => validateJsonTaskPack(pack({
+      finally: [{ id: 'page', type: 'extract_title', params: { out: 'pageTitle' } }],
+    }))).toThrow(/undeclared collectible\(s\): \[pageTitle\]/);
+  });
+});
+
+describe('validateJsonTaskPack — browser settings', () => {
+  const pack = (browser: BrowserSettings) => ({
+    metadata: { id: 'shop', name: 'Shop', version: '1.0.0' },
+    inputs: {},
+    collectibles: [],
+    flow: [],
+    browser,
+  });
+
+  it('accepts browser context options', () => {
+    expect(() => validateJsonTaskPack(pack({
+      engine: 'chromium',
+      locale: 'de-DE',
+      timezoneId: 'Europe/Berlin',
+      geolocation: { latitude: 52.52, longitude: 13.405, accuracy: 50 },
+      viewport: { width: 1280, height: 800 },
+      deviceScaleFactor: 2,
+      userAgent: 'Mozilla/5.0 (X11; Linux x86_64)',
+      extraHTTPHeaders: { 'X-Region': 'eu' },
+      colorScheme: 'dark',
+    }))).not.toThrow();
+  });
+
+  it('rejects invalid browser context options', () => {
+    expect(() => validateJsonTaskPack(pack({
+      locale: 'not a locale',
+      timezoneId: 'Mars/Olympus',
+      geolocation: { latitude: 120, longitude: 13.405 },
+      viewport: { width: 1280, height: 0 },
+      deviceScaleFactor: 0,
+      extraHTTPHeaders: { 'X-Retries': 3 } as unknown as Record<string, string>,
+      colorScheme: 'sepia' as BrowserSettings['colorScheme'],
+    }))).toThrow(
+      /browser\.locale must be a BCP 47 language tag[\s\S]*browser\.timezoneId must be an IANA timezone ID[\s\S]*browser\.geolocation\.latitude must be a number between -90 and 90[\s\S]*browser\.viewport must be \{ width, height \}[\s\S]*browser\.deviceScaleFactor must be a positive number[\s\S]*browser\.extraHTTPHeaders must be an object of string header values[\s\S]*browser\.colorScheme must be one of: light, dark, no-preference/
+    );
+  });
+});
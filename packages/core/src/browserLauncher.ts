@@ -5,7 +5,7 @@
  * (Chromium, Camoufox) and persistence modes.
  */
 
-import { chromium, type Browser, type BrowserContext, type Page } from 'playwright';
+import { chromium, type Browser, type BrowserContext, type BrowserContextOptions, type Page } from 'playwright';
 import { existsSync } from 'fs';
 import { join } from 'path';
 import type { BrowserEngine, BrowserSettings, BrowserPersistence } from './types.js';
@@ -82,6 +82,35 @@ export interface LaunchBrowserConfig {
   proxy?: ResolvedProxy;
 }
 
+/**
+ * Playwright context options set from BrowserSettings
+ */
+export type BrowserContextSettings = Pick<
+  BrowserContextOptions,
+  'locale' | 'timezoneId' | 'geolocation' | 'permissions' | 'viewport' | 'deviceScaleFactor' | 'userAgent' | 'extraHTTPHeaders' | 'colorScheme'
+>;
+
+/**
+ * Maps the context fields of BrowserSettings (locale, timezone, geolocation,
+ * viewport, ...) to Playwright context options. Unset fields are left out so
+ * the engine defaults apply.
+ */
+export function browserContextOptions(settings: BrowserSettings = {}): BrowserContextSettings {
+  const options: BrowserContextSettings = {};
+  if (settings.locale) options.locale = settings.locale;
+  if (settings.timezoneId) options.timezoneId = settings.timezoneId;
+  if (settings.geolocation) {
+    options.geolocation = settings.geolocation;
+    options.permissions = ['geolocation'];
+  }
+  if (settings.viewport) options.viewport = settings.viewport;
+  if (settings.deviceScaleFactor !== undefined) options.deviceScaleFactor = settings.deviceScaleFactor;
+  if (settings.userAgent) options.userAgent = settings.userAgent;
+  if (settings.extraHTTPHeaders) options.extraHTTPHeaders = settings.extraHTTPHeaders;
+  if (settings.colorScheme) options.colorScheme = settings.colorScheme;
+  return options;
+}
+
 /**
  * Launches a browser with the specified configuration
  *
@@ -116,12 +145,15 @@ export async function launchBrowser(config: LaunchBrowserConfig): Promise<Browse
     });
   }
 
+  const contextOptions = browserContextOptions(browserSettings);
+
   if (engine === 'camoufox') {
     return launchCamoufox({
       headless,
       userDataDir,
       persistence,
       proxy: config.proxy,
+      contextOptions,
     });
   }
 
@@ -131,6 +163,7 @@ export async function launchBrowser(config: LaunchBrowserConfig): Promise<Browse
     userDataDir,
     persistence,
     proxy: config.proxy,
+    contextOptions,
   });
 }
 
@@ -142,8 +175,9 @@ async function launchChromium(config: {
   userDataDir?: string;
   persistence: BrowserPersistence;
   proxy?: ResolvedProxy;
+  contextOptions: BrowserContextSettings;
 }): Promise<BrowserSession> {
-  const { headless, userDataDir, persistence, proxy } = config;
+  const { headless, userDataDir, persistence, proxy, contextOptions } = config;
 
   const proxyOption = proxy
     ? { server: proxy.server, username: proxy.username, password: proxy.password }
@@ -158,13 +192,14 @@ async function launchChromium(config: {
     context = await chromium.launchPersistentContext(userDataDir, {
       headless,
       proxy: proxyOption,
+      ...contextOptions,
     });
     browser = null as unknown as Browser; // Persistent context doesn't expose browser
     page = context.pages()[0] || await context.newPage();
   } else {
     // Ephemeral browser
     browser = await chromium.launch({ headless, proxy: proxyOption });
-    context = await browser.newContext();
+    context = await browser.newContext(contextOptions);
     page = await context.newPage();
   }
 
@@ -227,8 +262,9 @@ async function launchCamoufox(config: {
   userDataDir?: string;
   persistence: BrowserPersistence;
   proxy?: ResolvedProxy;
+  contextOptions: BrowserContextSettings;
 }): Promise<BrowserSession> {
-  const { headless, userDataDir, persistence, proxy } = config;
+  const { headless, userDataDir, persistence, proxy, contextOptions } = config;
 
   // Desktop-only screen constraints to prevent mobile fingerprints
   const screen = { minWidth: 1024, minHeight: 768 };
@@ -237,7 +273,7 @@ async function launchCamoufox(config: {
   await ensureCamoufoxBrowser();
 
   // Dynamic import to avoid loading Camoufox when not needed
-  let Camoufox: (options: { headless?: boolean; user_data_dir?: string; humanize?: number | boolean; screen?: { minWidth?: number; maxWidth?: number; minHeight?: number; maxHeight?: number }; proxy?: { server: string; username: string; password: string }; geoip?: boolean }) => Promise<Browser | BrowserContext>;
+  let Camoufox: (options: { headless?: boolean; user_data_dir?: string; humanize?: number | boolean; screen?: { minWidth?: number; maxWidth?: number; minHeight?: number; maxHeight?: number }; proxy?: { server: string; username: string; password: string }; geoip?: boolean } & BrowserContextSettings) => Promise<Browser | BrowserContext>;
   try {
     const camoufoxModule = await import('camoufox-js');
     Camoufox = camoufoxModule.Camoufox;
@@ -255,12 +291,14 @@ async function launchCamoufox(config: {
   if (userDataDir) {
     // With user_data_dir, Camoufox returns BrowserContext directly (persistent context)
     // humanize: adds human-like cursor movement delays (up to 2 seconds)
+    // Context options are passed through to Playwright's launchPersistentContext
     const context = await Camoufox({
       headless,
       humanize: 2.0,
       screen,
       user_data_dir: userDataDir,
       ...(proxyOption && { proxy: proxyOption, geoip: true }),
+      ...contextOptions,
     }) as unknown as BrowserContext;
 
     const page = context.pages()[0] || await context.newPage();
@@ -288,7 +326,7 @@ async function launchCamoufox(config: {
     ...(proxyOption && { proxy: proxyOption, geoip: true }),
   }) as Browser;
 
-  const context = await browser.newContext();
+  const context = await browser.newContext(contextOptions);
   const page = await context.newPage();
 
   return {
@@ -1,6 +1,6 @@
-import { writeFileSync, mkdirSync } from 'fs';
-import { join } from 'path';
-import type { Browser, Page } from 'playwright';
+import { writeFileSync, mkdirSync, existsSync } from 'fs';
+import { basename, extname, join } from 'path';
+import type { Browser, Download, Page } from 'playwright';
 import type { Logger, ArtifactManager, RunContext } from './types.js';
 import type { NetworkCaptureApi } from './networkCapture.js';
 
@@ -29,6 +29,20 @@ export class RunContextFactory {
         writeFileSync(path, html, 'utf-8');
         return path;
       },
+      async saveDownload(download: Download, filename?: string): Promise<string> {
+        const downloadsDir = join(artifactsDir, 'downloads');
+        mkdirSync(downloadsDir, { recursive: true });
+        // Strip any directory parts the site (or pack) put in the name
+        const name = basename(filename || download.suggestedFilename()) || 'download';
+        const ext = extname(name);
+        const stem = name.slice(0, name.length - ext.length);
+        let path = join(downloadsDir, name);
+        for (let n = 1; existsSync(path); n++) {
+          path = join(downloadsDir, `${stem}-${n}${ext}`);
+        }
+        await download.saveAs(path);
+        return path;
+      },
     };
 
     return {
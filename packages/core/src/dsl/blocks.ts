@@ -0,0 +1,54 @@
+/**
+ * Nested step blocks
+ *
+ * Control-flow steps carry nested step lists in their params. These helpers
+ * let validation, HTTP-mode checks and snapshot capture see every step in a
+ * flow, not just the top-level ones.
+ */
+
+import type { DslStep } from './types.js';
+
+/**
+ * Params holding nested step lists, per control-flow step type
+ */
+export const NESTED_STEP_PARAMS: Record<string, string[]> = {
+  for_each: ['steps'],
+  if: ['then', 'else'],
+};
+
+/**
+ * Params the interpreter must not template-resolve before running the step.
+ * Nested steps are resolved when they execute; raw references are read by the handler.
+ */
+export const DEFERRED_TEMPLATE_PARAMS: Record<string, string[]> = {
+  for_each: ['items', 'steps'],
+  if: ['condition', 'then', 'else'],
+  call_pack: ['inputs'],
+};
+
+/**
+ * Returns the nested step lists of a control-flow step (empty for regular steps)
+ */
+export function getNestedStepLists(step: DslStep): DslStep[][] {
+  const keys = NESTED_STEP_PARAMS[step.type];
+  if (!keys || !step.params) return [];
+  const params = step.params as unknown as Record<string, unknown>;
+  return keys
+    .map((key) => params[key])
+    .filter((value): value is DslStep[] => Array.isArray(value));
+}
+
+/**
+ * Flattens a flow into a depth-first list of all steps, including nested ones.
+ * Control-flow steps appear before their children.
+ */
+export function flattenSteps(steps: DslStep[]): DslStep[] {
+  const result: DslStep[] = [];
+  for (const step of steps) {
+    result.push(step);
+    for (const nested of getNestedStepLists(step)) {
+      result.push(...flattenSteps(nested));
+    }
+  }
+  return result;
+}
@@ -6,9 +6,14 @@ import type {
   SleepStep,
   WaitForStep,
   ClickStep,
+  HoverStep,
+  CheckStep,
+  DblclickStep,
+  DragToStep,
   FillStep,
   AssertStep,
   SetVarStep,
+  TransformStep,
   SelectOptionStep,
   PressKeyStep,
   UploadFileStep,
@@ -16,11 +21,28 @@ import type {
   NewTabStep,
   SwitchTabStep,
   DomScrapeStep,
+  ExtractTableStep,
+  ScrollStep,
+  DownloadFileStep,
+  HandleDialogStep,
+  SetCookiesStep,
+  GetCookiesStep,
+  ClearCookiesStep,
+  GetStorageStep,
+  SetStorageStep,
+  PauseForHumanStep,
+  CookieDefinition,
+  WebStorageArea,
   DomScrapeCollectField,
+  ForEachStep,
+  IfStep,
+  CallPackStep,
+  DslStep,
   Target,
   TargetOrAnyOf,
   PlaywrightRole,
   SkipCondition,
+  DialogType,
 } from './types.js';
 
 /**
@@ -333,6 +355,138 @@ export function click(
   };
 }
 
+/**
+ * Creates a hover step
+ */
+export function hover(
+  id: string,
+  params: {
+    target: TargetOrAnyOf;
+    label?: string;
+    timeoutMs?: number;
+    optional?: boolean;
+    onError?: 'stop' | 'continue';
+    hint?: string;
+    scope?: Target;
+    near?: { kind: 'text'; text: string; exact?: boolean };
+  }
+): HoverStep {
+  return {
+    id,
+    type: 'hover',
+    label: params.label,
+    timeoutMs: params.timeoutMs,
+    optional: params.optional,
+    onError: params.onError,
+    params: {
+      target: params.target,
+      hint: params.hint,
+      scope: params.scope,
+      near: params.near,
+    },
+  };
+}
+
+/**
+ * Creates a check step (use checked: false to uncheck)
+ */
+export function check(
+  id: string,
+  params: {
+    target: TargetOrAnyOf;
+    checked?: boolean;
+    label?: string;
+    timeoutMs?: number;
+    optional?: boolean;
+    onError?: 'stop' | 'continue';
+    hint?: string;
+    scope?: Target;
+    near?: { kind: 'text'; text: string; exact?: boolean };
+  }
+): CheckStep {
+  return {
+    id,
+    type: 'check',
+    label: params.label,
+    timeoutMs: params.timeoutMs,
+    optional: params.optional,
+    onError: params.onError,
+    params: {
+      target: params.target,
+      checked: params.checked ?? true,
+      hint: params.hint,
+      scope: params.scope,
+      near: params.near,
+    },
+  };
+}
+
+/**
+ * Creates a dblclick step
+ */
+export function dblclick(
+  id: string,
+  params: {
+    target: TargetOrAnyOf;
+    waitForVisible?: boolean;
+    label?: string;
+    timeoutMs?: number;
+    optional?: boolean;
+    onError?: 'stop' | 'continue';
+    hint?: string;
+    scope?: Target;
+    near?: { kind: 'text'; text: string; exact?: boolean };
+  }
+): DblclickStep {
+  return {
+    id,
+    type: 'dblclick',
+    label: params.label,
+    timeoutMs: params.timeoutMs,
+    optional: params.optional,
+    onError: params.onError,
+    params: {
+      target: params.target,
+      waitForVisible: params.waitForVisible ?? true,
+      hint: params.hint,
+      scope: params.scope,
+      near: params.near,
+    },
+  };
+}
+
+/**
+ * Creates a drag_to step
+ */
+export function dragTo(
+  id: string,
+  params: {
+    source: TargetOrAnyOf;
+    destination: TargetOrAnyOf;
+    label?: string;
+    timeoutMs?: number;
+    optional?: boolean;
+    onError?: 'stop' | 'continue';
+    hint?: string;
+    scope?: Target;
+  }
+): DragToStep {
+  return {
+    id,
+    type: 'drag_to',
+    label: params.label,
+    timeoutMs: params.timeoutMs,
+    optional: params.optional,
+    onError: params.onError,
+    params: {
+      source: params.source,
+      destination: params.destination,
+      hint: params.hint,
+      scope: params.scope,
+    },
+  };
+}
+
 /**
  * Creates a fill step
  */
@@ -425,7 +579,13 @@ export function assert(
     target?: TargetOrAnyOf; // New human-stable selectors
     visible?: boolean;
     textIncludes?: string;
+    textMatches?: string;
+    attributeEquals?: { name: string; value: string };
+    count?: { eq?: number; min?: number; max?: number };
     urlIncludes?: string;
+    notEmpty?: string;
+    arrayLength?: { of: string; min?: number; max?: number };
+    predicate?: string;
     message?: string;
     label?: string;
     timeoutMs?: number;
@@ -448,7 +608,13 @@ export function assert(
       target: params.target,
       visible: params.visible,
       textIncludes: params.textIncludes,
+      textMatches: params.textMatches,
+      attributeEquals: params.attributeEquals,
+      count: params.count,
       urlIncludes: params.urlIncludes,
+      notEmpty: params.notEmpty,
+      arrayLength: params.arrayLength,
+      predicate: params.predicate,
       message: params.message,
       hint: params.hint,
       scope: params.scope,
@@ -485,6 +651,38 @@ export function setVar(
   };
 }
 
+/**
+ * Creates a transform step
+ */
+export function transform(
+  id: string,
+  params: {
+    sources: Record<string, string>;
+    expression: string;
+    out?: string;
+    saveAs?: string;
+    label?: string;
+    timeoutMs?: number;
+    optional?: boolean;
+    onError?: 'stop' | 'continue';
+  }
+): TransformStep {
+  return {
+    id,
+    type: 'transform',
+    label: params.label,
+    timeoutMs: params.timeoutMs,
+    optional: params.optional,
+    onError: params.onError,
+    params: {
+      sources: params.sources,
+      expression: params.expression,
+      out: params.out,
+      saveAs: params.saveAs,
+    },
+  };
+}
+
 /**
  * Creates a select_option step
  */
@@ -724,3 +922,441 @@ export function domScrape(
     },
   };
 }
+
+/**
+ * Creates an extract_table step
+ */
+export function extractTable(
+  id: string,
+  params: {
+    target: TargetOrAnyOf;
+    out: string;
+    rename?: Record<string, string>;
+    skipRows?: number;
+    skipFooterRows?: number;
+    skip_empty?: boolean;
+    next?: TargetOrAnyOf;
+    maxPages?: number;
+    waitMs?: number;
+    label?: string;
+    timeoutMs?: number;
+    optional?: boolean;
+    onError?: 'stop' | 'continue';
+    hint?: string;
+    scope?: Target;
+  }
+): ExtractTableStep {
+  return {
+    id,
+    type: 'extract_table',
+    label: params.label,
+    timeoutMs: params.timeoutMs,
+    optional: params.optional,
+    onError: params.onError,
+    params: {
+      target: params.target,
+      rename: params.rename,
+      skipRows: params.skipRows,
+      skipFooterRows: params.skipFooterRows,
+      skip_empty: params.skip_empty,
+      next: params.next,
+      maxPages: params.maxPages,
+      waitMs: params.waitMs,
+      out: params.out,
+      hint: params.hint,
+      scope: params.scope,
+    },
+  };
+}
+
+/**
+ * Creates a scroll step
+ */
+export function scroll(
+  id: string,
+  params: {
+    container?: TargetOrAnyOf;
+    by?: number | 'bottom';
+    items?: TargetOrAnyOf;
+    maxScrolls?: number;
+    maxItems?: number;
+    waitMs?: number;
+    saveAs?: string;
+    label?: string;
+    timeoutMs?: number;
+    optional?: boolean;
+    onError?: 'stop' | 'continue';
+    hint?: string;
+    scope?: Target;
+  } = {}
+): ScrollStep {
+  return {
+    id,
+    type: 'scroll',
+    label: params.label,
+    timeoutMs: params.timeoutMs,
+    optional: params.optional,
+    onError: params.onError,
+    params: {
+      container: params.container,
+      by: params.by,
+      items: params.items,
+      maxScrolls: params.maxScrolls,
+      maxItems: params.maxItems,
+      waitMs: params.waitMs,
+      saveAs: params.saveAs,
+      hint: params.hint,
+      scope: params.scope,
+    },
+  };
+}
+
+/**
+ * Creates a download_file step
+ */
+export function downloadFile(
+  id: string,
+  params: {
+    target?: TargetOrAnyOf;
+    filename?: string;
+    parseAs?: 'csv' | 'json' | 'text';
+    contentOut?: string;
+    out?: string;
+    saveAs?: string;
+    label?: string;
+    timeoutMs?: number;
+    optional?: boolean;
+    onError?: 'stop' | 'continue';
+    hint?: string;
+    scope?: Target;
+  } = {}
+): DownloadFileStep {
+  return {
+    id,
+    type: 'download_file',
+    label: params.label,
+    timeoutMs: params.timeoutMs,
+    optional: params.optional,
+    onError: params.onError,
+    params: {
+      target: params.target,
+      filename: params.filename,
+      parseAs: params.parseAs,
+      contentOut: params.contentOut,
+      out: params.out,
+      saveAs: params.saveAs,
+      hint: params.hint,
+      scope: params.scope,
+    },
+  };
+}
+
+/**
+ * Creates a handle_dialog step
+ */
+export function handleDialog(
+  id: string,
+  params: {
+    action: 'accept' | 'dismiss';
+    promptText?: string;
+    expectMessageIncludes?: string;
+    dialogType?: DialogType;
+    persistent?: boolean;
+    saveAs?: string;
+    label?: string;
+    timeoutMs?: number;
+    optional?: boolean;
+    onError?: 'stop' | 'continue';
+  }
+): HandleDialogStep {
+  return {
+    id,
+    type: 'handle_dialog',
+    label: params.label,
+    timeoutMs: params.timeoutMs,
+    optional: params.optional,
+    onError: params.onError,
+    params: {
+      action: params.action,
+      promptText: params.promptText,
+      expectMessageIncludes: params.expectMessageIncludes,
+      dialogType: params.dialogType,
+      persistent: params.persistent,
+      saveAs: params.saveAs,
+    },
+  };
+}
+
+/**
+ * Creates a set_cookies step
+ */
+export function setCookies(
+  id: string,
+  params: {
+    cookies: CookieDefinition[];
+    label?: string;
+    timeoutMs?: number;
+    optional?: boolean;
+    onError?: 'stop' | 'continue';
+  }
+): SetCookiesStep {
+  return {
+    id,
+    type: 'set_cookies',
+    label: params.label,
+    timeoutMs: params.timeoutMs,
+    optional: params.optional,
+    onError: params.onError,
+    params: {
+      cookies: params.cookies,
+    },
+  };
+}
+
+/**
+ * Creates a get_cookies step
+ */
+export function getCookies(
+  id: string,
+  params: {
+    name?: string;
+    domain?: string;
+    saveAs: string;
+    label?: string;
+    timeoutMs?: number;
+    optional?: boolean;
+    onError?: 'stop' | 'continue';
+  }
+): GetCookiesStep {
+  return {
+    id,
+    type: 'get_cookies',
+    label: params.label,
+    timeoutMs: params.timeoutMs,
+    optional: params.optional,
+    onError: params.onError,
+    params: {
+      name: params.name,
+      domain: params.domain,
+      saveAs: params.saveAs,
+    },
+  };
+}
+
+/**
+ * Creates a clear_cookies step
+ */
+export function clearCookies(
+  id: string,
+  params: {
+    name?: string;
+    domain?: string;
+    label?: string;
+    timeoutMs?: number;
+    optional?: boolean;
+    onError?: 'stop' | 'continue';
+  } = {}
+): ClearCookiesStep {
+  return {
+    id,
+    type: 'clear_cookies',
+    label: params.label,
+    timeoutMs: params.timeoutMs,
+    optional: params.optional,
+    onError: params.onError,
+    params: {
+      name: params.name,
+      domain: params.domain,
+    },
+  };
+}
+
+/**
+ * Creates a get_storage step
+ */
+export function getStorage(
+  id: string,
+  params: {
+    storage?: WebStorageArea;
+    key?: string;
+    saveAs: string;
+    label?: string;
+    timeoutMs?: number;
+    optional?: boolean;
+    onError?: 'stop' | 'continue';
+  }
+): GetStorageStep {
+  return {
+    id,
+    type: 'get_storage',
+    label: params.label,
+    timeoutMs: params.timeoutMs,
+    optional: params.optional,
+    onError: params.onError,
+    params: {
+      storage: params.storage,
+      key: params.key,
+      saveAs: params.saveAs,
+    },
+  };
+}
+
+/**
+ * Creates a set_storage step
+ */
+export function setStorage(
+  id: string,
+  params: {
+    storage?: WebStorageArea;
+    values: Record<string, string>;
+    label?: string;
+    timeoutMs?: number;
+    optional?: boolean;
+    onError?: 'stop' | 'continue';
+  }
+): SetStorageStep {
+  return {
+    id,
+    type: 'set_storage',
+    label: params.label,
+    timeoutMs: params.timeoutMs,
+    optional: params.optional,
+    onError: params.onError,
+    params: {
+      storage: params.storage,
+      values: params.values,
+    },
+  };
+}
+
+/**
+ * Creates a pause_for_human step
+ */
+export function pauseForHuman(
+  id: string,
+  params: {
+    message: string;
+    resumeWhen?: SkipCondition;
+    maxWaitMs?: number;
+    label?: string;
+    timeoutMs?: number;
+    optional?: boolean;
+    onError?: 'stop' | 'continue';
+  }
+): PauseForHumanStep {
+  return {
+    id,
+    type: 'pause_for_human',
+    label: params.label,
+    timeoutMs: params.timeoutMs,
+    optional: params.optional,
+    onError: params.onError,
+    params: {
+      message: params.message,
+      resumeWhen: params.resumeWhen,
+      maxWaitMs: params.maxWaitMs,
+    },
+  };
+}
+
+/**
+ * Creates a for_each step
+ */
+export function forEach(
+  id: string,
+  params: {
+    items: string;
+    steps: DslStep[];
+    as?: string;
+    indexAs?: string;
+    collect?: string[];
+    out?: string;
+    maxIterations?: number;
+    label?: string;
+    timeoutMs?: number;
+    optional?: boolean;
+    onError?: 'stop' | 'continue';
+  }
+): ForEachStep {
+  return {
+    id,
+    type: 'for_each',
+    label: params.label,
+    timeoutMs: params.timeoutMs,
+    optional: params.optional,
+    onError: params.onError,
+    params: {
+      items: params.items,
+      as: params.as ?? 'item',
+      indexAs: params.indexAs ?? 'index',
+      steps: params.steps,
+      collect: params.collect,
+      out: params.out,
+      maxIterations: params.maxIterations,
+    },
+  };
+}
+
+/**
+ * Creates an if step (named ifThen because `if` is a reserved word)
+ */
+export function ifThen(
+  id: string,
+  params: {
+    condition: SkipCondition;
+    then: DslStep[];
+    else?: DslStep[];
+    label?: string;
+    timeoutMs?: number;
+    optional?: boolean;
+    onError?: 'stop' | 'continue';
+  }
+): IfStep {
+  return {
+    id,
+    type: 'if',
+    label: params.label,
+    timeoutMs: params.timeoutMs,
+    optional: params.optional,
+    onError: params.onError,
+    params: {
+      condition: params.condition,
+      then: params.then,
+      else: params.else,
+    },
+  };
+}
+
+/**
+ * Creates a call_pack step
+ */
+export function callPack(
+  id: string,
+  params: {
+    pack: string;
+    version?: string;
+    inputs?: Record<string, unknown>;
+    out?: Record<string, string>;
+    saveAs?: Record<string, string>;
+    label?: string;
+    timeoutMs?: number;
+    optional?: boolean;
+    onError?: 'stop' | 'continue';
+  }
+): CallPackStep {
+  return {
+    id,
+    type: 'call_pack',
+    label: params.label,
+    timeoutMs: params.timeoutMs,
+    optional: params.optional,
+    onError: params.onError,
+    params: {
+      pack: params.pack,
+      version: params.version,
+      inputs: params.inputs,
+      out: params.out,
+      saveAs: params.saveAs,
+    },
+  };
+}
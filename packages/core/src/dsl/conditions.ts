@@ -6,6 +6,7 @@
 
 import type { Page } from 'playwright';
 import type { SkipCondition, TargetOrAnyOf, Target } from './types.js';
+import type { NetworkCaptureApi } from '../networkCapture.js';
 import { resolveTarget } from './target.js';
 
 /**
@@ -25,6 +26,40 @@ export interface ConditionContext {
    * Current variable values
    */
   vars: Record<string, unknown>;
+  /**
+   * Network capture (browser mode), needed for response_seen
+   */
+  networkCapture?: NetworkCaptureApi;
+}
+
+/**
+ * Condition types that only read vars, so they can be evaluated without a page
+ * (HTTP-only mode). not/all/any are safe when all their sub-conditions are.
+ */
+const HTTP_SAFE_CONDITIONS = new Set([
+  'var_equals', 'var_truthy', 'var_falsy', 'var_gt', 'var_lt', 'var_matches', 'array_length',
+]);
+
+/**
+ * Returns true if a condition can be evaluated in HTTP-only mode (no page or network capture)
+ */
+export function isConditionHttpSafe(condition: SkipCondition): boolean {
+  if ('not' in condition) return isConditionHttpSafe(condition.not);
+  if ('all' in condition) return condition.all.every(isConditionHttpSafe);
+  if ('any' in condition) return condition.any.every(isConditionHttpSafe);
+  return Object.keys(condition).every((key) => HTTP_SAFE_CONDITIONS.has(key));
+}
+
+/**
+ * Reads a var as a number: numbers as-is, numeric strings parsed; otherwise null
+ */
+function numericVar(value: unknown): number | null {
+  if (typeof value === 'number') return Number.isNaN(value) ? null : value;
+  if (typeof value === 'string' && value.trim() !== '') {
+    const num = Number(value);
+    return Number.isNaN(num) ? null : num;
+  }
+  return null;
 }
 
 /**
@@ -81,6 +116,50 @@ export async function evaluateCondition(
     return !value;
   }
 
+  if ('var_gt' in condition) {
+    const value = numericVar(ctx.vars[condition.var_gt.name]);
+    return value !== null && value > condition.var_gt.value;
+  }
+
+  if ('var_lt' in condition) {
+    const value = numericVar(ctx.vars[condition.var_lt.name]);
+    return value !== null && value < condition.var_lt.value;
+  }
+
+  if ('var_matches' in condition) {
+    const value = ctx.vars[condition.var_matches.name];
+    if (value === undefined || value === null) return false;
+    try {
+      const text = typeof value === 'string' ? value : JSON.stringify(value);
+      return new RegExp(condition.var_matches.pattern).test(text);
+    } catch {
+      console.warn(`[conditions] Invalid regex in var_matches: ${condition.var_matches.pattern}`);
+      return false;
+    }
+  }
+
+  if ('array_length' in condition) {
+    const { name, eq, min, max } = condition.array_length;
+    const value = ctx.vars[name];
+    if (!Array.isArray(value)) return false;
+    return (eq === undefined || value.length === eq) &&
+      (min === undefined || value.length >= min) &&
+      (max === undefined || value.length <= max);
+  }
+
+  // Network conditions
+  if ('response_seen' in condition) {
+    if (!ctx.networkCapture) {
+      throw new Error('response_seen requires network capture (browser mode)');
+    }
+    return ctx.networkCapture.find(condition.response_seen, 'last') !== null;
+  }
+
+  // Negation
+  if ('not' in condition) {
+    return !(await evaluateCondition(ctx, condition.not));
+  }
+
   // Compound conditions
   if ('all' in condition) {
     for (const subCondition of condition.all) {
@@ -185,6 +264,25 @@ export function conditionToString(condition: SkipCondition): string {
   if ('var_falsy' in condition) {
     return `var_falsy("${condition.var_falsy}")`;
   }
+  if ('var_gt' in condition) {
+    return `var_gt(${condition.var_gt.name}, ${condition.var_gt.value})`;
+  }
+  if ('var_lt' in condition) {
+    return `var_lt(${condition.var_lt.name}, ${condition.var_lt.value})`;
+  }
+  if ('var_matches' in condition) {
+    return `var_matches(${condition.var_matches.name}, /${condition.var_matches.pattern}/)`;
+  }
+  if ('array_length' in condition) {
+    const { name, ...bounds } = condition.array_length;
+    return `array_length(${name}, ${JSON.stringify(bounds)})`;
+  }
+  if ('response_seen' in condition) {
+    return `response_seen(${JSON.stringify(condition.response_seen)})`;
+  }
+  if ('not' in condition) {
+    return `not(${conditionToString(condition.not)})`;
+  }
   if ('all' in condition) {
     return `all(${condition.all.map(conditionToString).join(', ')})`;
   }
@@ -0,0 +1,530 @@
+/**
+ * Data-flow analysis
+ *
+ * validateFlow checks each step on its own. This pass follows a flow in
+ * execution order and checks the names its steps read and write: the
+ * {{inputs.x}} / {{vars.x}} / {{secret.x}} references in step params (parsed
+ * with the Nunjucks parser), the vars and collectibles written through
+ * saveAs / out / set_var, and the var names read by conditions.
+ *
+ * Steps with skip_if, optional steps, steps that continue on error, if
+ * branches and for_each bodies may not run, so what they write "may be
+ * unset" afterwards. A `once` step counts as writing its outputs: when it is
+ * skipped, its vars and collectibles are restored from the cache.
+ *
+ * The on_failure / finally blocks run after the flow stopped at any step, so
+ * there everything the flow wrote may be unset, and vars.__error is set.
+ */
+
+import nunjucks from 'nunjucks';
+import type { CollectibleDefinition, InputSchema, TaskPack } from '../types.js';
+import type { DslStep, SkipCondition } from './types.js';
+import { NESTED_STEP_PARAMS } from './blocks.js';
+import { expandIncludes, hasIncludes } from './fragments.js';
+
+/**
+ * A problem found by analyzeDataFlow
+ */
+export interface DataFlowIssue {
+  severity: 'error' | 'warning';
+  /** Step the issue is about (absent for issues about the pack's declarations) */
+  stepId?: string;
+  message: string;
+}
+
+/**
+ * Declarations the flow is checked against
+ */
+export interface DataFlowOptions {
+  inputs?: InputSchema;
+  collectibles?: CollectibleDefinition[];
+  /** Secret names from taskpack.json; without them {{secret.x}} references are not checked */
+  secrets?: string[];
+  /** on_failure block (includes expanded), checked after the flow */
+  onFailure?: DslStep[];
+  /** finally block (includes expanded), checked after the flow and on_failure */
+  finally?: DslStep[];
+}
+
+/** Minimal view of a Nunjucks AST node (the parser API is undocumented) */
+interface TemplateNode {
+  typename: string;
+  fields?: string[];
+  value?: unknown;
+  [field: string]: unknown;
+}
+
+const templateParser = (nunjucks as unknown as { parser: { parse(src: string): TemplateNode } }).parser;
+
+type TemplateScope = 'inputs' | 'vars' | 'secret';
+
+const TEMPLATE_SCOPES = new Set<string>(['inputs', 'vars', 'secret']);
+
+/**
+ * Finds the inputs/vars/secret names a template reads, e.g. "vars.req" in
+ * "{{ vars.req.id | urlencode }}". Computed lookups (vars[name]) are skipped.
+ */
+function findTemplateRefs(template: string): Array<{ scope: TemplateScope; name: string }> {
+  if (!template.includes('{{') && !template.includes('{%')) return [];
+  let root: TemplateNode;
+  try {
+    root = templateParser.parse(template);
+  } catch {
+    // Syntax errors surface when the step renders the template
+    return [];
+  }
+
+  const refs: Array<{ scope: TemplateScope; name: string }> = [];
+  const visit = (node: unknown): void => {
+    if (!node || typeof node !== 'object') return;
+    const n = node as TemplateNode;
+    if (n.typename === 'LookupVal') {
+      const target = n.target as TemplateNode | undefined;
+      const val = n.val as TemplateNode | undefined;
+      if (
+        target?.typename === 'Symbol' && TEMPLATE_SCOPES.has(String(target.value)) &&
+        val?.typename === 'Literal' && typeof val.value === 'string'
+      ) {
+        refs.push({ scope: target.value as TemplateScope, name: val.value });
+        return;
+      }
+    }
+    for (const field of n.fields ?? []) {
+      const child = n[field];
+      if (Array.isArray(child)) child.forEach(visit);
+      else visit(child);
+    }
+  };
+  visit(root);
+  return refs;
+}
+
+/**
+ * Var names a condition reads
+ */
+function conditionVars(condition: SkipCondition): string[] {
+  if ('var_equals' in condition) return [condition.var_equals.name];
+  if ('var_truthy' in condition) return [condition.var_truthy];
+  if ('var_falsy' in condition) return [condition.var_falsy];
+  if ('var_gt' in condition) return [condition.var_gt.name];
+  if ('var_lt' in condition) return [condition.var_lt.name];
+  if ('var_matches' in condition) return [condition.var_matches.name];
+  if ('array_length' in condition) return [condition.array_length.name];
+  if ('not' in condition) return conditionVars(condition.not);
+  if ('all' in condition) return condition.all.flatMap(conditionVars);
+  if ('any' in condition) return condition.any.flatMap(conditionVars);
+  return [];
+}
+
+/** A name read by a step, and how */
+type StepRead =
+  | { kind: 'template'; scope: TemplateScope; name: string }
+  /** Var named by a condition; conditions handle unset vars, so only "never set" is reported */
+  | { kind: 'condition'; name: string }
+  /** Var named by a param (network_extract fromVar) */
+  | { kind: 'var'; name: string; param: string }
+  /** Var or collectible named by a param (transform sources) */
+  | { kind: 'var_or_collectible'; name: string; param: string }
+  /** Collectible named by a param (for_each items) */
+  | { kind: 'collectible'; name: string; param: string };
+
+interface StepAccess {
+  reads: StepRead[];
+  varWrites: string[];
+  collectibleWrites: string[];
+}
+
+function collectTemplateReads(value: unknown, reads: StepRead[]): void {
+  if (typeof value === 'string') {
+    for (const ref of findTemplateRefs(value)) {
+      reads.push({ kind: 'template', ...ref });
+    }
+  } else if (Array.isArray(value)) {
+    value.forEach((item) => collectTemplateReads(item, reads));
+  } else if (value && typeof value === 'object') {
+    Object.values(value).forEach((item) => collectTemplateReads(item, reads));
+  }
+}
+
+/**
+ * Names a step reads and writes itself (not counting its nested steps)
+ */
+function stepAccess(step: DslStep): StepAccess {
+  const params = (step.params ?? {}) as Record<string, unknown>;
+  const nestedParams = new Set(NESTED_STEP_PARAMS[step.type] ?? []);
+  const reads: StepRead[] = [];
+  const varWrites: string[] = [];
+  const collectibleWrites: string[] = [];
+
+  if (step.skip_if) {
+    reads.push(...conditionVars(step.skip_if).map((name) => ({ kind: 'condition' as const, name })));
+  }
+
+  for (const [key, value] of Object.entries(params)) {
+    if (nestedParams.has(key)) continue;
+    if (step.type === 'for_each' && key === 'items' && typeof value === 'string' && !value.includes('{{')) {
+      reads.push({ kind: 'collectible', name: value.trim(), param: 'items' });
+      continue;
+    }
+    collectTemplateReads(value, reads);
+  }
+
+  switch (step.type) {
+    case 'if':
+      reads.push(...conditionVars(step.params.condition).map((name) => ({ kind: 'condition' as const, name })));
+      break;
+    case 'pause_for_human':
+      if (step.params.resumeWhen) {
+        reads.push(...conditionVars(step.params.resumeWhen).map((name) => ({ kind: 'condition' as const, name })));
+      }
+      break;
+    case 'network_extract':
+      reads.push({ kind: 'var', name: step.params.fromVar, param: 'fromVar' });
+      break;
+    case 'transform':
+      for (const [alias, name] of Object.entries(step.params.sources)) {
+        reads.push({ kind: 'var_or_collectible', name, param: `sources.${alias}` });
+      }
+      break;
+    case 'set_var':
+      varWrites.push(step.params.name);
+      break;
+    case 'new_tab':
+      if (step.params.saveTabIndexAs) varWrites.push(step.params.saveTabIndexAs);
+      break;
+    case 'download_file':
+      if (step.params.contentOut) collectibleWrites.push(step.params.contentOut);
+      break;
+  }
+
+  // call_pack maps the called pack's collectibles: child name -> name
+  if (step.type === 'call_pack') {
+    varWrites.push(...Object.values(step.params.saveAs ?? {}));
+    collectibleWrites.push(...Object.values(step.params.out ?? {}));
+  } else {
+    if (typeof params.saveAs === 'string' && params.saveAs) varWrites.push(params.saveAs);
+    if (typeof params.out === 'string' && params.out) collectibleWrites.push(params.out);
+  }
+
+  return { reads, varWrites, collectibleWrites };
+}
+
+/** Where a name was written; `maybe` says why it may be unset */
+interface Definition {
+  stepId: string;
+  maybe?: string;
+}
+
+interface FlowState {
+  vars: Map<string, Definition>;
+  collectibles: Map<string, Definition>;
+}
+
+function cloneState(state: FlowState): FlowState {
+  return { vars: new Map(state.vars), collectibles: new Map(state.collectibles) };
+}
+
+/**
+ * Records a write. A conditional write does not weaken an earlier unconditional one.
+ */
+function define(names: Map<string, Definition>, name: string, definition: Definition): void {
+  const existing = names.get(name);
+  if (existing && !existing.maybe && definition.maybe) return;
+  names.set(name, definition);
+}
+
+/**
+ * Why a step may not run (or not finish), so that its writes may be missing
+ */
+function skipReason(step: DslStep): string | undefined {
+  if (step.skip_if) return `step "${step.id}" has skip_if`;
+  if (step.optional) return `step "${step.id}" is optional`;
+  if (step.onError === 'continue') return `step "${step.id}" continues on error`;
+  return undefined;
+}
+
+/** Implicit vars set by the interpreter and step handlers (e.g. __jmespath_hints) */
+function isInternalVar(name: string): boolean {
+  return name.startsWith('__');
+}
+
+/**
+ * Analysis-wide state shared by the recursive walk
+ */
+interface AnalysisState {
+  options: DataFlowOptions;
+  /** First step writing each var anywhere in the flow, for "used before it is set" */
+  firstVarWriters: Map<string, string>;
+  declaredCollectibles: Set<string> | null;
+  issues: DataFlowIssue[];
+  /** Every var read anywhere in the flow */
+  varsRead: Set<string>;
+  /** Var writes in flow order, for the "never used" check */
+  varWrites: Array<{ name: string; stepId: string }>;
+  /** Collectibles that reach the run's output (written outside for_each bodies) */
+  outputCollectibles: Set<string>;
+}
+
+function report(analysis: AnalysisState, severity: DataFlowIssue['severity'], stepId: string | undefined, message: string): void {
+  analysis.issues.push({ severity, ...(stepId ? { stepId } : {}), message });
+}
+
+/**
+ * Checks a var read. Conditions handle unset vars, so for them only a var
+ * that is never set is reported.
+ */
+function checkVar(
+  analysis: AnalysisState,
+  step: DslStep,
+  flow: FlowState,
+  name: string,
+  label: string,
+  inCondition: boolean
+): void {
+  analysis.varsRead.add(name);
+  if (isInternalVar(name)) return;
+  const definition = flow.vars.get(name);
+  if (!definition) {
+    const writer = analysis.firstVarWriters.get(name);
+    report(
+      analysis,
+      'error',
+      step.id,
+      writer ? `${label} is used before it is set (by step "${writer}")` : `${label} is never set by any step`
+    );
+  } else if (definition.maybe && !inCondition) {
+    report(analysis, 'warning', step.id, `${label} may be unset here: ${definition.maybe}`);
+  }
+}
+
+function checkReads(analysis: AnalysisState, step: DslStep, flow: FlowState, reads: StepRead[]): void {
+  const { inputs, secrets } = analysis.options;
+  for (const read of reads) {
+    switch (read.kind) {
+      case 'template':
+        if (read.scope === 'inputs') {
+          if (inputs && !(read.name in inputs)) {
+            report(analysis, 'error', step.id, `{{inputs.${read.name}}} is not a declared input`);
+          }
+        } else if (read.scope === 'secret') {
+          if (secrets && !secrets.includes(read.name)) {
+            report(analysis, 'warning', step.id, `{{secret.${read.name}}} is not declared in taskpack.json secrets`);
+          }
+        } else {
+          checkVar(analysis, step, flow, read.name, `{{vars.${read.name}}}`, false);
+        }
+        break;
+      case 'condition':
+        checkVar(analysis, step, flow, read.name, `var "${read.name}" in condition`, true);
+        break;
+      case 'var':
+        checkVar(analysis, step, flow, read.name, `${read.param} var "${read.name}"`, false);
+        break;
+      case 'var_or_collectible':
+      case 'collectible': {
+        if (read.kind === 'var_or_collectible') analysis.varsRead.add(read.name);
+        const definition = (read.kind === 'var_or_collectible' ? flow.vars.get(read.name) : undefined)
+          ?? flow.collectibles.get(read.name);
+        const what = read.kind === 'var_or_collectible' ? 'a var or collectible' : 'a collectible';
+        if (!definition) {
+          report(analysis, 'error', step.id, `${read.param} "${read.name}" is not ${what} set by an earlier step`);
+        } else if (definition.maybe) {
+          report(analysis, 'warning', step.id, `${read.param} "${read.name}" may be unset here: ${definition.maybe}`);
+        }
+        break;
+      }
+    }
+  }
+}
+
+/**
+ * Merges what the branches of an if step wrote: a name is set for sure only
+ * when both branches set it for sure
+ */
+function mergeBranches(flow: FlowState, branches: [FlowState, FlowState], step: DslStep, maybe: string | undefined): void {
+  for (const key of ['vars', 'collectibles'] as const) {
+    const names = new Set([...branches[0][key].keys(), ...branches[1][key].keys()]);
+    for (const name of names) {
+      const before = flow[key].get(name);
+      const [fromThen, fromElse] = branches.map((branch) => branch[key].get(name));
+      if (fromThen === before && fromElse === before) continue;
+      const definition = (fromThen !== before ? fromThen : fromElse)!;
+      const inBoth = !!fromThen && !fromThen.maybe && !!fromElse && !fromElse.maybe;
+      define(flow[key], name, inBoth && !maybe ? definition : {
+        stepId: definition.stepId,
+        maybe: definition.maybe ?? maybe ?? `it is only set in one branch of if "${step.id}"`,
+      });
+    }
+  }
+}
+
+/**
+ * Walks a step list in order, updating `flow` with what the steps write
+ */
+function walkSteps(analysis: AnalysisState, steps: DslStep[], flow: FlowState, inLoop: boolean): void {
+  for (const step of steps) {
+    const access = stepAccess(step);
+    checkReads(analysis, step, flow, access.reads);
+    const maybe = skipReason(step);
+
+    if (step.type === 'if') {
+      const branches: [FlowState, FlowState] = [cloneState(flow), cloneState(flow)];
+      walkSteps(analysis, step.params.then, branches[0], inLoop);
+      walkSteps(analysis, step.params.else ?? [], branches[1], inLoop);
+      mergeBranches(flow, branches, step, maybe);
+    } else if (step.type === 'for_each') {
+      const as = step.params.as ?? 'item';
+      const indexAs = step.params.indexAs ?? 'index';
+      const body = cloneState(flow);
+      body.vars.set(as, { stepId: step.id });
+      body.vars.set(indexAs, { stepId: step.id });
+      analysis.varsRead.add(as);
+      analysis.varsRead.add(indexAs);
+      walkSteps(analysis, step.params.steps, body, true);
+      // Collectibles written in the body are gathered per iteration and do not leak;
+      // vars do, unless the loop runs zero times. The loop variables are restored.
+      for (const [name, definition] of body.vars) {
+        if (name === as || name === indexAs || flow.vars.get(name) === definition) continue;
+        define(flow.vars, name, {
+          stepId: definition.stepId,
+          maybe: maybe ?? `it is only set inside for_each "${step.id}", which may run zero times`,
+        });
+      }
+    }
+
+    for (const name of access.varWrites) {
+      if (!isInternalVar(name)) analysis.varWrites.push({ name, stepId: step.id });
+      define(flow.vars, name, {
+        stepId: step.id,
+        maybe: maybe ?? (step.type === 'handle_dialog' ? `step "${step.id}" only sets it when a dialog appears` : undefined),
+      });
+    }
+    for (const name of access.collectibleWrites) {
+      define(flow.collectibles, name, { stepId: step.id, maybe });
+      if (inLoop) continue;
+      analysis.outputCollectibles.add(name);
+      if (analysis.declaredCollectibles && !analysis.declaredCollectibles.has(name)) {
+        report(analysis, 'error', step.id, `out "${name}" is not a declared collectible, so it is dropped from the output`);
+      }
+    }
+  }
+}
+
+/**
+ * First step (depth-first, in flow order) that writes each var
+ */
+function findFirstVarWriters(steps: DslStep[], writers = new Map<string, string>()): Map<string, string> {
+  for (const step of steps) {
+    for (const name of stepAccess(step).varWrites) {
+      if (!writers.has(name)) writers.set(name, step.id);
+    }
+    for (const key of NESTED_STEP_PARAMS[step.type] ?? []) {
+      const nested = (step.params as unknown as Record<string, unknown>)[key];
+      if (Array.isArray(nested)) findFirstVarWriters(nested as DslStep[], writers);
+    }
+  }
+  return writers;
+}
+
+/**
+ * Marks every definition as possibly unset, with the reason from `why`
+ */
+function weakenState(state: FlowState, why: (definition: Definition) => string): FlowState {
+  const weakened = cloneState(state);
+  for (const names of [weakened.vars, weakened.collectibles]) {
+    for (const [name, definition] of names) {
+      if (!definition.maybe) names.set(name, { stepId: definition.stepId, maybe: why(definition) });
+    }
+  }
+  return weakened;
+}
+
+/**
+ * Walks the on_failure and finally blocks. The flow may have stopped before
+ * any of its writes, and on_failure only runs when it failed.
+ */
+function walkFlowBlocks(analysis: AnalysisState, flow: FlowState, onFailure: DslStep[], finallySteps: DslStep[]): void {
+  if (onFailure.length === 0 && finallySteps.length === 0) return;
+  const afterFlow = weakenState(flow, (definition) => `the flow may stop before step "${definition.stepId}" runs`);
+
+  const failure = cloneState(afterFlow);
+  failure.vars.set('__error', { stepId: 'on_failure' });
+  walkSteps(analysis, onFailure, failure, false);
+
+  const end = cloneState(afterFlow);
+  end.vars.set('__error', { stepId: 'on_failure', maybe: 'it is only set when the flow fails' });
+  for (const key of ['vars', 'collectibles'] as const) {
+    for (const [name, definition] of failure[key]) {
+      if (afterFlow[key].get(name) === definition || name === '__error') continue;
+      define(end[key], name, {
+        stepId: definition.stepId,
+        maybe: definition.maybe ?? `step "${definition.stepId}" is in on_failure, which only runs when the flow fails`,
+      });
+    }
+  }
+  walkSteps(analysis, finallySteps, end, false);
+}
+
+/**
+ * Checks the names a flow reads and writes, in execution order:
+ * - errors: undeclared inputs, vars read before any step sets them, transform
+ *   sources / for_each items that nothing set, outs to undeclared collectibles
+ * - warnings: vars that may be unset where they are read, vars set but never
+ *   read, declared collectibles no step writes, undeclared secrets
+ *
+ * Expects a flow that passes validateFlow, with includes expanded.
+ */
+export function analyzeDataFlow(steps: DslStep[], options: DataFlowOptions = {}): DataFlowIssue[] {
+  const declared = options.collectibles ? new Set(options.collectibles.map((c) => c.name)) : null;
+  const analysis: AnalysisState = {
+    options,
+    firstVarWriters: findFirstVarWriters([...steps, ...(options.onFailure ?? []), ...(options.finally ?? [])]),
+    declaredCollectibles: declared,
+    issues: [],
+    varsRead: new Set(),
+    varWrites: [],
+    outputCollectibles: new Set(),
+  };
+
+  const flow: FlowState = { vars: new Map(), collectibles: new Map() };
+  walkSteps(analysis, steps, flow, false);
+  walkFlowBlocks(analysis, flow, options.onFailure ?? [], options.finally ?? []);
+
+  const unused = new Set<string>();
+  for (const { name, stepId } of analysis.varWrites) {
+    if (analysis.varsRead.has(name) || unused.has(name)) continue;
+    unused.add(name);
+    report(analysis, 'warning', stepId, `vars.${name} is set but never used`);
+  }
+  for (const name of declared ?? []) {
+    if (!analysis.outputCollectibles.has(name)) {
+      report(analysis, 'warning', undefined, `Collectible "${name}" is declared but no step writes it`);
+    }
+  }
+  return analysis.issues;
+}
+
+/**
+ * Runs analyzeDataFlow on a pack's flow and its on_failure / finally blocks,
+ * expanding include steps first. Expects a pack that passes validateJsonTaskPack.
+ */
+export function analyzePackDataFlow(
+  pack: Pick<TaskPack, 'inputs' | 'collectibles' | 'flow' | 'on_failure' | 'finally' | 'fragments'>,
+  secrets?: string[]
+): DataFlowIssue[] {
+  const expand = (steps: DslStep[]) => (hasIncludes(steps) ? expandIncludes(steps, pack.fragments ?? {}) : steps);
+  return analyzeDataFlow(expand(pack.flow), {
+    inputs: pack.inputs,
+    collectibles: pack.collectibles,
+    secrets,
+    onFailure: pack.on_failure && expand(pack.on_failure),
+    finally: pack.finally && expand(pack.finally),
+  });
+}
+
+/**
+ * Formats an issue as a single line, e.g. `Step "fetch": {{vars.reqId}} is never set by any step`
+ */
+export function formatDataFlowIssue(issue: DataFlowIssue): string {
+  return issue.stepId ? `Step "${issue.stepId}": ${issue.message}` : issue.message;
+}
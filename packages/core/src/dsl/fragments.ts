@@ -0,0 +1,174 @@
+/**
+ * Flow fragments
+ *
+ * A fragment is a named list of steps that a pack reuses through `include`
+ * steps. Includes are expanded when the pack is loaded (and before a pack is
+ * validated), so the interpreter, HTTP-mode checks and validation only ever
+ * see plain steps.
+ */
+
+import type { DslStep, FlowFragment, IncludeStep } from './types.js';
+import { NESTED_STEP_PARAMS, flattenSteps } from './blocks.js';
+import { ValidationError } from './validation.js';
+
+/** Fields an include step may carry; it is replaced wholesale, so step options would be lost */
+const INCLUDE_STEP_FIELDS = new Set(['id', 'type', 'label', 'params']);
+
+const PARAM_REF = /\{\{\s*params\.([\w$]+)\s*\}\}/g;
+const WHOLE_PARAM_REF = /^\{\{\s*params\.([\w$]+)\s*\}\}$/;
+
+/**
+ * Returns true if the flow (including nested step lists) has include steps
+ */
+export function hasIncludes(steps: DslStep[]): boolean {
+  return flattenSteps(steps).some((step) => step.type === 'include');
+}
+
+/**
+ * Replaces {{params.name}} references in a fragment value. A string that is a
+ * single reference takes the raw value (arrays, numbers, ...); other strings
+ * get the value interpolated.
+ */
+function substituteParams(
+  value: unknown,
+  params: Record<string, unknown>,
+  fragmentName: string
+): unknown {
+  if (typeof value === 'string') {
+    const lookup = (name: string): unknown => {
+      if (!(name in params)) {
+        throw new ValidationError(`Fragment "${fragmentName}" references undeclared param "${name}"`);
+      }
+      return params[name];
+    };
+    const whole = value.match(WHOLE_PARAM_REF);
+    if (whole) {
+      return lookup(whole[1]);
+    }
+    return value.replace(PARAM_REF, (_match, name: string) => {
+      const param = lookup(name);
+      return typeof param === 'string' ? param : JSON.stringify(param);
+    });
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => substituteParams(item, params, fragmentName));
+  }
+  if (value !== null && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, substituteParams(item, params, fragmentName)])
+    );
+  }
+  return value;
+}
+
+/**
+ * Resolves the params for one include: passed values plus defaults
+ */
+function resolveIncludeParams(step: IncludeStep, fragment: FlowFragment): Record<string, unknown> {
+  const declared = fragment.params ?? {};
+  const passed = step.params.with ?? {};
+
+  const unknown = Object.keys(passed).filter((name) => !(name in declared));
+  if (unknown.length > 0) {
+    throw new ValidationError(
+      `Include step "${step.id}": fragment "${step.params.fragment}" has no param(s) ${unknown.map((n) => `"${n}"`).join(', ')}`
+    );
+  }
+
+  const params: Record<string, unknown> = {};
+  for (const [name, definition] of Object.entries(declared)) {
+    if (name in passed) {
+      params[name] = passed[name];
+    } else if (definition.default !== undefined) {
+      params[name] = definition.default;
+    } else {
+      throw new ValidationError(
+        `Include step "${step.id}": missing required param "${name}" for fragment "${step.params.fragment}"`
+      );
+    }
+  }
+  return params;
+}
+
+/**
+ * Expands a step list. Steps coming from a fragment get `idPrefix` on their IDs;
+ * `chain` holds the fragments being expanded, outermost first.
+ */
+function expandStepList(
+  steps: DslStep[],
+  fragments: Record<string, FlowFragment>,
+  chain: string[],
+  idPrefix: string
+): DslStep[] {
+  const result: DslStep[] = [];
+
+  for (const step of steps) {
+    if (step.type === 'include') {
+      result.push(...expandInclude(step, fragments, chain, idPrefix));
+      continue;
+    }
+
+    const expanded = { ...step, id: `${idPrefix}${step.id}` } as DslStep;
+    const nestedKeys = NESTED_STEP_PARAMS[step.type];
+    if (nestedKeys && step.params) {
+      const params = { ...(step.params as unknown as Record<string, unknown>) };
+      for (const key of nestedKeys) {
+        if (Array.isArray(params[key])) {
+          params[key] = expandStepList(params[key] as DslStep[], fragments, chain, idPrefix);
+        }
+      }
+      (expanded as { params: unknown }).params = params;
+    }
+    result.push(expanded);
+  }
+
+  return result;
+}
+
+/**
+ * Replaces one include step by its fragment's steps, with IDs prefixed by the include's ID
+ */
+function expandInclude(
+  step: IncludeStep,
+  fragments: Record<string, FlowFragment>,
+  chain: string[],
+  idPrefix: string
+): DslStep[] {
+  const extra = Object.keys(step).filter((key) => !INCLUDE_STEP_FIELDS.has(key));
+  if (extra.length > 0) {
+    throw new ValidationError(
+      `Include step "${step.id}": only id, label and params are supported, got ${extra.map((k) => `"${k}"`).join(', ')}`
+    );
+  }
+
+  const name = step.params?.fragment;
+  if (typeof name !== 'string' || !name) {
+    throw new ValidationError(`Include step "${step.id}" must have a non-empty string "fragment" in params`);
+  }
+  const fragment = fragments[name];
+  if (!fragment) {
+    const available = Object.keys(fragments);
+    throw new ValidationError(
+      `Include step "${step.id}": fragment "${name}" not found. Available: ${available.join(', ') || '(none)'}`
+    );
+  }
+  if (chain.includes(name)) {
+    throw new ValidationError(`Fragment include cycle: ${[...chain, name].join(' -> ')}`);
+  }
+  if (!Array.isArray(fragment.steps)) {
+    throw new ValidationError(`Fragment "${name}" must have a "steps" array`);
+  }
+
+  const params = resolveIncludeParams(step, fragment);
+  const steps = substituteParams(fragment.steps, params, name) as DslStep[];
+  return expandStepList(steps, fragments, [...chain, name], `${idPrefix}${step.id}.`);
+}
+
+/**
+ * Expands every include step in a flow (including nested step lists and
+ * includes inside fragments). Fragment step IDs become "<includeId>.<stepId>".
+ * Throws ValidationError for unknown fragments, bad params or include cycles.
+ */
+export function expandIncludes(steps: DslStep[], fragments: Record<string, FlowFragment>): DslStep[] {
+  return expandStepList(steps, fragments, [], '');
+}
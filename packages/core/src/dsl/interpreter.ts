@@ -1,9 +1,29 @@
-import type { RunContext, RunResult, AuthConfig } from '../types.js';
-import type { DslStep, RunFlowOptions, RunFlowResult } from './types.js';
+import { dirname } from 'path';
+import type { RunContext, RunResult, AuthConfig, Logger, LogEvent } from '../types.js';
+import type {
+  AssertionFailure,
+  DebugAction,
+  DebugCommand,
+  DebugOptions,
+  DebugPause,
+  DebugPauseHandler,
+  DebugPauseReason,
+  DslStep,
+  ErrorWithPartialResult,
+  FlowBlockName,
+  HumanPauseHandler,
+  NestedStepScope,
+  RunFlowOptions,
+  RunFlowResult,
+  StepRetryPolicy,
+  VariableContext,
+} from './types.js';
 import { validateFlow } from './validation.js';
-import { executeStep } from './stepHandlers.js';
+import { executeStep, respondToDialog, ReplayStatusError, AssertionError, HumanInputUnavailableError } from './stepHandlers.js';
 import { resolveTemplates } from './templating.js';
-import type { StepContext } from './stepHandlers.js';
+import type { StepContext, CallPackRequest, CallPackResult, DialogHandler } from './stepHandlers.js';
+import { TaskPackLoader } from '../loader.js';
+import { InputValidator } from '../validator.js';
 import {
   OnceCache,
   AuthFailureMonitor,
@@ -17,6 +37,8 @@ import type { NetworkCaptureApi, NetworkEntrySerializable } from '../networkCapt
 import { evaluateCondition, conditionToString } from './conditions.js';
 import type { SnapshotFile } from '../requestSnapshot.js';
 import type { ResolvedProxy } from '../proxy/types.js';
+import { DEFERRED_TEMPLATE_PARAMS, flattenSteps } from './blocks.js';
+import type { BrowserContext, Dialog, Download } from 'playwright';
 
 /**
  * Capture the delta of vars and collectibles produced by a step,
@@ -91,6 +113,109 @@ export interface RunFlowOptionsWithAuth extends RunFlowOptions {
    * Resolved proxy for HTTP-only replay requests
    */
   proxy?: ResolvedProxy;
+  /**
+   * Directory of the pack being run (relative file paths, call_pack lookup of sibling packs)
+   */
+  packDir?: string;
+  /**
+   * ID of the pack being run (call_pack cycle detection)
+   */
+  packId?: string;
+  /**
+   * IDs of the packs that called into this flow via call_pack, outermost first
+   */
+  callStack?: string[];
+  /**
+   * Dialog handlers of the calling flow (call_pack). The caller's page listener
+   * stays in charge, so the called flow arms its handlers there.
+   */
+  dialogHandlers?: DialogHandler[];
+  /**
+   * Operator prompt for pause_for_human; without it those steps fail with HUMAN_INPUT_UNAVAILABLE
+   */
+  onHumanPause?: HumanPauseHandler;
+  /**
+   * Cancels the run: checked between steps and raced against the running step
+   */
+  signal?: AbortSignal;
+  /**
+   * Time limit for the whole flow in ms; the run is cancelled once it is exceeded
+   */
+  maxRunDurationMs?: number;
+  /**
+   * Debug mode: pause before breakpoints and failed steps and wait for the debugger
+   */
+  debug?: DebugOptions;
+  /**
+   * Steps run after the flow fails or is cancelled, with vars.__error set to { stepId, message }
+   */
+  onFailure?: DslStep[];
+  /**
+   * Steps run after the flow (and onFailure), whatever the outcome, cancellation included
+   */
+  finally?: DslStep[];
+}
+
+/** Why a run was cancelled: its signal was aborted, or it ran past maxRunDurationMs */
+export type RunCancelReason = 'cancelled' | 'timeout';
+
+/**
+ * Thrown when a run is cancelled. Unlike step errors it ignores optional, onError
+ * and retry settings: no further steps run.
+ */
+export class RunCancelledError extends Error {
+  readonly code: 'RUN_CANCELLED' | 'RUN_TIMEOUT';
+  readonly reason: RunCancelReason;
+  /** Step that was running, or about to run, when the run was cancelled */
+  readonly stepId?: string;
+
+  constructor(reason: RunCancelReason, stepId?: string) {
+    super(reason === 'timeout' ? 'Run timed out (maxRunDurationMs exceeded)' : 'Run cancelled');
+    this.name = 'RunCancelledError';
+    this.code = reason === 'timeout' ? 'RUN_TIMEOUT' : 'RUN_CANCELLED';
+    this.reason = reason;
+    this.stepId = stepId;
+  }
+
+  /** Error for an aborted run signal; AbortSignal.timeout aborts with a TimeoutError */
+  static fromSignal(signal: AbortSignal, stepId?: string): RunCancelledError {
+    const reasonName = (signal.reason as { name?: unknown } | undefined)?.name;
+    return new RunCancelledError(reasonName === 'TimeoutError' ? 'timeout' : 'cancelled', stepId);
+  }
+}
+
+/**
+ * Combines a caller's cancellation signal with a maxRunDurationMs timer.
+ * Returns undefined when there is neither.
+ */
+export function createRunSignal(signal?: AbortSignal, maxRunDurationMs?: number): AbortSignal | undefined {
+  const signals: AbortSignal[] = [];
+  if (signal) signals.push(signal);
+  if (maxRunDurationMs) signals.push(AbortSignal.timeout(maxRunDurationMs));
+  if (signals.length <= 1) return signals[0];
+  return AbortSignal.any(signals);
+}
+
+function throwIfCancelled(signal: AbortSignal | undefined, stepId?: string): void {
+  if (signal?.aborted) throw RunCancelledError.fromSignal(signal, stepId);
+}
+
+/**
+ * Waits `ms`, or throws RunCancelledError as soon as the run's signal aborts
+ */
+function sleepUnlessCancelled(ms: number, signal: AbortSignal | undefined, stepId?: string): Promise<void> {
+  throwIfCancelled(signal, stepId);
+  return new Promise<void>((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(RunCancelledError.fromSignal(signal!, stepId));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
 }
 
 /**
@@ -116,6 +241,542 @@ function redactSecrets<T>(obj: T, secretValues: string[]): T {
   }
 }
 
+/**
+ * Structured details for a step's error event: the failed checks of an assert step,
+ * or the error code of a pause_for_human step that can't reach an operator
+ */
+function errorDetails(error: unknown, secretValues: string[]): { failures?: AssertionFailure[]; code?: string } {
+  if (error instanceof HumanInputUnavailableError) return { code: error.code };
+  return error instanceof AssertionError ? { failures: redactSecrets(error.failures, secretValues) } : {};
+}
+
+/**
+ * Resolves templates in a step's params. Params listed in DEFERRED_TEMPLATE_PARAMS
+ * (nested step lists, raw references) are left as-is for the step handler.
+ */
+function resolveStepParams(step: DslStep, variableContext: VariableContext): DslStep {
+  const deferred = DEFERRED_TEMPLATE_PARAMS[step.type];
+  if (!deferred) {
+    return { ...step, params: resolveTemplates(step.params, variableContext) } as DslStep;
+  }
+
+  const resolvable: Record<string, unknown> = {};
+  const kept: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(step.params as Record<string, unknown>)) {
+    if (deferred.includes(key)) {
+      kept[key] = value;
+    } else {
+      resolvable[key] = value;
+    }
+  }
+  return {
+    ...step,
+    params: { ...resolveTemplates(resolvable, variableContext), ...kept },
+  } as DslStep;
+}
+
+/**
+ * Executes a step, racing it against the step-level timeout when one is set
+ * and against the run's cancellation signal
+ */
+async function executeStepWithTimeout(stepContext: StepContext, step: DslStep): Promise<void> {
+  const { signal } = stepContext;
+  throwIfCancelled(signal, step.id);
+  const timeoutMs = step.timeoutMs;
+  if (!timeoutMs && !signal) {
+    await executeStep(stepContext, step);
+    return;
+  }
+
+  const racers: Array<Promise<void>> = [];
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  if (timeoutMs) {
+    racers.push(new Promise<never>((_, reject) => {
+      timer = setTimeout(() => {
+        reject(new Error(`Step timeout after ${timeoutMs}ms`));
+      }, timeoutMs);
+    }));
+  }
+  // Listen before starting the step, which may abort the run synchronously.
+  // The step itself keeps waiting until the runner closes the browser.
+  let onAbort: (() => void) | undefined;
+  if (signal) {
+    racers.push(new Promise<never>((_, reject) => {
+      onAbort = () => reject(RunCancelledError.fromSignal(signal, step.id));
+      signal.addEventListener('abort', onAbort, { once: true });
+    }));
+  }
+  const execution = executeStep(stepContext, step);
+  racers.push(execution);
+  try {
+    await Promise.race(racers);
+  } catch (error) {
+    // Lets on_failure / finally wait for a step that may still be driving the page
+    stepContext.abandonedSteps?.push(execution.catch(() => undefined));
+    throw error;
+  } finally {
+    clearTimeout(timer);
+    if (onAbort) signal!.removeEventListener('abort', onAbort);
+  }
+}
+
+/** Default delay before the first retry */
+const DEFAULT_RETRY_BACKOFF_MS = 1000;
+
+/** Default multiplier applied to the retry delay after each attempt */
+const DEFAULT_RETRY_BACKOFF_FACTOR = 2;
+
+function isTimeoutError(error: unknown): boolean {
+  if (!(error instanceof Error)) return false;
+  return error.name === 'TimeoutError' || /timeout|timed out/i.test(error.message);
+}
+
+/**
+ * Checks a failed attempt against the step's retryOn filters.
+ * Without filters every error is retryable; otherwise any matching filter is enough.
+ */
+function isRetryable(error: unknown, retryOn: StepRetryPolicy['retryOn']): boolean {
+  // No operator will appear on a later attempt, and a cancelled run stays cancelled
+  if (error instanceof HumanInputUnavailableError || error instanceof RunCancelledError) return false;
+  if (!retryOn) return true;
+  const message = error instanceof Error ? error.message : String(error);
+  if (retryOn.errorMatches && new RegExp(retryOn.errorMatches).test(message)) return true;
+  if (retryOn.status && error instanceof ReplayStatusError && retryOn.status.includes(error.status)) return true;
+  if (retryOn.timeout && isTimeoutError(error)) return true;
+  return false;
+}
+
+/**
+ * Executes a step under its retry policy, logging each attempt as a step_attempt event.
+ * Returns the number of attempts used. Steps with a pending auth failure are not
+ * retried here — auth recovery handles those.
+ */
+async function executeStepWithRetry(
+  ctx: RunContext,
+  stepContext: StepContext,
+  step: DslStep,
+  scope?: NestedStepScope,
+  authMonitor?: AuthFailureMonitor | null
+): Promise<number> {
+  stepContext.previousStepStartedAt = stepContext.stepStartedAt;
+  stepContext.stepStartedAt = Date.now();
+
+  const retry = step.retry;
+  if (!retry || retry.attempts <= 1) {
+    await executeStepWithTimeout(stepContext, step);
+    return 1;
+  }
+
+  let delayMs = retry.backoffMs ?? DEFAULT_RETRY_BACKOFF_MS;
+  for (let attempt = 1; ; attempt++) {
+    const attemptStartTime = Date.now();
+    try {
+      await executeStepWithTimeout(stepContext, step);
+      ctx.logger.log({
+        type: 'step_attempt',
+        data: {
+          stepId: step.id,
+          type: step.type,
+          attempt,
+          maxAttempts: retry.attempts,
+          success: true,
+          durationMs: Date.now() - attemptStartTime,
+          ...scope,
+        },
+      });
+      return attempt;
+    } catch (error) {
+      const hasAuthFailure = (authMonitor?.getFailuresForStep(step.id).length ?? 0) > 0;
+      const willRetry = attempt < retry.attempts && !hasAuthFailure && isRetryable(error, retry.retryOn);
+      ctx.logger.log({
+        type: 'step_attempt',
+        data: {
+          stepId: step.id,
+          type: step.type,
+          attempt,
+          maxAttempts: retry.attempts,
+          success: false,
+          durationMs: Date.now() - attemptStartTime,
+          error: error instanceof Error ? error.message : String(error),
+          retryInMs: willRetry ? delayMs : undefined,
+          ...scope,
+        },
+      });
+      if (!willRetry) throw error;
+
+      await sleepUnlessCancelled(delayMs, stepContext.signal, step.id);
+      delayMs *= retry.backoffFactor ?? DEFAULT_RETRY_BACKOFF_FACTOR;
+    }
+  }
+}
+
+/**
+ * Evaluates a step's skip_if condition. Evaluation errors are logged, surfaced
+ * as hints, and treated as "don't skip".
+ */
+async function evaluateSkipIf(
+  ctx: RunContext,
+  vars: Record<string, unknown>,
+  step: DslStep,
+  scope?: NestedStepScope
+): Promise<boolean> {
+  if (!step.skip_if) return false;
+  try {
+    return await evaluateCondition({ page: ctx.page, vars, networkCapture: ctx.networkCapture }, step.skip_if);
+  } catch (conditionError) {
+    const msg = `skip_if evaluation error for step "${step.id}": ${conditionError instanceof Error ? conditionError.message : String(conditionError)}`;
+    console.warn(`[interpreter] ${msg}`);
+    ctx.logger.log({ type: 'error', data: { error: msg, stepId: step.id, type: step.type, ...scope } });
+    // Push to hints so the agent can see the error
+    if (!vars['__jmespath_hints']) vars['__jmespath_hints'] = [];
+    (vars['__jmespath_hints'] as string[]).push(msg);
+    return false;
+  }
+}
+
+/**
+ * Run-wide state needed to execute nested step lists (for_each bodies, if branches)
+ */
+interface NestedRunState {
+  ctx: RunContext;
+  stepContext: StepContext;
+  variableContext: VariableContext;
+  secretValues: string[];
+  stopOnError: boolean;
+  /** Builds the call_pack runner for steps that run under the given signal */
+  bindRunPack: (signal: AbortSignal | undefined) => StepContext['runPack'];
+}
+
+/**
+ * Executes a nested step list. Nested steps get templating, skip_if, logging,
+ * timeouts and optional/onError handling like top-level steps; "once" caching
+ * and auth recovery apply to the enclosing top-level step only.
+ */
+async function executeNestedSteps(
+  state: NestedRunState,
+  steps: DslStep[],
+  scope?: NestedStepScope
+): Promise<void> {
+  const { ctx, stepContext, variableContext, secretValues } = state;
+
+  for (const step of steps) {
+    throwIfCancelled(stepContext.signal, step.id);
+    const stepStartTime = Date.now();
+    const stepLabel = step.label || step.id;
+
+    if (await evaluateSkipIf(ctx, variableContext.vars, step, scope)) {
+      ctx.logger.log({
+        type: 'step_skipped',
+        data: {
+          stepId: step.id,
+          type: step.type,
+          reason: 'condition_met',
+          condition: conditionToString(step.skip_if!),
+          ...scope,
+        },
+      });
+      continue;
+    }
+
+    const resolvedStep = resolveStepParams(step, variableContext);
+    ctx.logger.log({
+      type: 'step_started',
+      data: {
+        stepId: step.id,
+        type: step.type,
+        label: stepLabel,
+        params: redactSecrets(JSON.parse(JSON.stringify(resolvedStep.params)), secretValues),
+        ...scope,
+      },
+    });
+
+    try {
+      const attempts = await executeStepWithRetry(ctx, stepContext, resolvedStep, scope);
+      ctx.logger.log({
+        type: 'step_finished',
+        data: {
+          stepId: step.id,
+          type: step.type,
+          label: stepLabel,
+          durationMs: Date.now() - stepStartTime,
+          attempts: resolvedStep.retry ? attempts : undefined,
+          ...scope,
+        },
+      });
+    } catch (error) {
+      if (error instanceof RunCancelledError) throw error;
+      ctx.logger.log({
+        type: 'error',
+        data: {
+          error: error instanceof Error ? error.message : String(error),
+          stepId: step.id,
+          type: step.type,
+          label: stepLabel,
+          ...scope,
+          ...errorDetails(error, secretValues),
+        },
+      });
+
+      if (resolvedStep.optional) continue;
+      const errorBehavior = resolvedStep.onError || (state.stopOnError ? 'stop' : 'continue');
+      if (errorBehavior === 'continue') continue;
+      throw error;
+    }
+  }
+}
+
+/** Time limit for each on_failure / finally block */
+const FLOW_BLOCK_TIMEOUT_MS = 60_000;
+
+/** How long a block waits for steps that lost the race against their timeout or the signal */
+const ABANDONED_STEP_WAIT_MS = 5_000;
+
+/**
+ * Waits (up to ABANDONED_STEP_WAIT_MS) for abandoned steps to settle, so a
+ * block does not interleave with a cancelled step that still drives the page
+ */
+async function waitForAbandonedSteps(stepContext: StepContext): Promise<void> {
+  const abandoned = stepContext.abandonedSteps?.splice(0) ?? [];
+  if (abandoned.length === 0) return;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  await Promise.race([
+    Promise.all(abandoned),
+    new Promise<void>((resolve) => {
+      timer = setTimeout(resolve, ABANDONED_STEP_WAIT_MS);
+    }),
+  ]);
+  clearTimeout(timer);
+}
+
+/**
+ * Runs an on_failure / finally block. A failed step ends the block and is
+ * logged, but never changes the outcome of the run. The block runs under its
+ * own time limit instead of the run's signal, so it still runs (e.g. to log
+ * out) after the run was cancelled or passed maxRunDurationMs. It first waits
+ * briefly for a step that lost the race against the signal; one still running
+ * after that may overlap with the block's steps on the page.
+ */
+async function runFlowBlock(state: NestedRunState, block: FlowBlockName, steps: DslStep[] | undefined): Promise<void> {
+  if (!steps || steps.length === 0) return;
+  const { logger } = state.ctx;
+  await waitForAbandonedSteps(state.stepContext);
+  const startTime = Date.now();
+  const signal = AbortSignal.timeout(FLOW_BLOCK_TIMEOUT_MS);
+  const blockState: NestedRunState = {
+    ...state,
+    stepContext: { ...state.stepContext, signal, runPack: state.bindRunPack(signal) },
+  };
+  // for_each / if bodies inside the block run under the block's signal too
+  blockState.stepContext.runSteps = (nestedSteps, scope) => executeNestedSteps(blockState, nestedSteps, scope);
+  logger.log({ type: 'flow_block_started', data: { block, steps: steps.length } });
+  try {
+    await executeNestedSteps(blockState, steps);
+    logger.log({ type: 'flow_block_finished', data: { block, success: true, durationMs: Date.now() - startTime } });
+  } catch (error) {
+    logger.log({
+      type: 'flow_block_finished',
+      data: {
+        block,
+        success: false,
+        error: error instanceof Error ? error.message : String(error),
+        durationMs: Date.now() - startTime,
+      },
+    });
+  }
+}
+
+/**
+ * Step-level events that get tagged with the called pack's ID
+ */
+const CALLED_PACK_EVENT_TYPES = new Set<LogEvent['type']>([
+  'step_started', 'step_finished', 'step_attempt', 'step_skipped', 'branch_taken', 'error',
+]);
+
+/**
+ * Wraps a logger so step events of a called pack carry its ID and, for its
+ * top-level steps, the call_pack step as parent. Tags set deeper down win.
+ */
+function calledPackLogger(logger: Logger, packId: string, parentStepId: string): Logger {
+  return {
+    log(event: LogEvent) {
+      if (!CALLED_PACK_EVENT_TYPES.has(event.type)) {
+        logger.log(event);
+        return;
+      }
+      const data = event.data as { packId?: string; parentStepId?: string };
+      logger.log({
+        ...event,
+        data: {
+          ...event.data,
+          packId: data.packId ?? packId,
+          parentStepId: data.parentStepId ?? parentStepId,
+        },
+      } as LogEvent);
+    },
+  };
+}
+
+/**
+ * Runs the flow of the pack named by a call_pack step in the caller's browser
+ * session (same page, network capture and artifacts)
+ */
+async function runCalledPack(
+  ctx: RunContext,
+  options: RunFlowOptionsWithAuth | undefined,
+  request: CallPackRequest
+): Promise<CallPackResult> {
+  if (options?.httpMode) {
+    throw new Error('call_pack cannot run in HTTP-only mode');
+  }
+  if (!options?.packDir) {
+    throw new Error('call_pack requires the calling pack\'s directory to find other packs');
+  }
+
+  const callStack = options.callStack ?? (options.packId ? [options.packId] : []);
+  if (callStack.includes(request.pack)) {
+    throw new Error(`call_pack: cycle detected: ${[...callStack, request.pack].join(' -> ')}`);
+  }
+
+  const packsDir = dirname(options.packDir);
+  const packPath = TaskPackLoader.findPackPath(packsDir, request.pack);
+  if (!packPath) {
+    throw new Error(`call_pack: pack "${request.pack}" not found in ${packsDir}`);
+  }
+
+  const taskPack = await TaskPackLoader.loadTaskPack(packPath);
+  if (request.version && taskPack.metadata.version !== request.version) {
+    throw new Error(
+      `call_pack: pack "${request.pack}" is version ${taskPack.metadata.version}, expected ${request.version}`
+    );
+  }
+
+  const inputs = InputValidator.applyDefaults(request.inputs, taskPack.inputs);
+  InputValidator.validate(inputs, taskPack.inputs);
+
+  const childResult = await runFlow(
+    { ...ctx, logger: calledPackLogger(ctx.logger, request.pack, request.stepId) },
+    taskPack.flow,
+    {
+      inputs,
+      auth: taskPack.auth,
+      sessionId: options.sessionId,
+      profileId: options.profileId,
+      cacheDir: packPath,
+      // The called pack only sees its own secrets, never the caller's
+      secrets: TaskPackLoader.loadSecrets(packPath),
+      proxy: options.proxy,
+      packDir: packPath,
+      packId: request.pack,
+      callStack: [...callStack, request.pack],
+      dialogHandlers: options.dialogHandlers,
+      onHumanPause: options.onHumanPause,
+      signal: options.signal,
+      onFailure: taskPack.on_failure,
+      finally: taskPack.finally,
+    }
+  );
+
+  // Only the called pack's declared collectibles are visible to the caller
+  const collectibles: Record<string, unknown> = {};
+  for (const { name } of taskPack.collectibles) {
+    collectibles[name] = childResult.collectibles[name];
+  }
+
+  return { collectibles, hints: childResult._hints };
+}
+
+/**
+ * Debugger state of a debug run
+ */
+interface DebugSession {
+  onPause: DebugPauseHandler;
+  breakpoints: Set<string>;
+  stepping: boolean;
+  /** Params edited in the debugger, by step ID */
+  paramOverrides: Map<string, DslStep['params']>;
+}
+
+/**
+ * Waits for the debugger's command, giving up when the run is cancelled
+ */
+function waitForDebugCommand(onPause: DebugPauseHandler, pause: DebugPause, signal: AbortSignal | undefined): Promise<DebugCommand> {
+  if (!signal) return onPause(pause, new AbortController().signal);
+  throwIfCancelled(signal, pause.stepId);
+  return new Promise((resolve, reject) => {
+    const onAbort = () => reject(RunCancelledError.fromSignal(signal, pause.stepId));
+    signal.addEventListener('abort', onAbort, { once: true });
+    onPause(pause, signal)
+      .then(resolve, reject)
+      .finally(() => signal.removeEventListener('abort', onAbort));
+  });
+}
+
+/**
+ * Pauses a debug run at a top-level step and returns the debugger's action.
+ * The command's breakpoints and params are applied to the session; edited
+ * params that fail validation are rejected by pausing again with the error.
+ */
+async function pauseForDebugger(
+  state: NestedRunState,
+  session: DebugSession,
+  step: DslStep,
+  stepIndex: number,
+  reason: DebugPauseReason,
+  error?: string
+): Promise<DebugAction> {
+  const { ctx, stepContext, secretValues } = state;
+  const pausedAt = Date.now();
+
+  let screenshot: string | undefined;
+  if (!stepContext.httpMode) {
+    try {
+      screenshot = (await ctx.page.screenshot({ type: 'jpeg', quality: 70 })).toString('base64');
+    } catch {
+      // The debugger still gets the vars and collectibles
+    }
+  }
+
+  ctx.logger.log({ type: 'debug_pause_started', data: { stepId: step.id, reason } });
+  let pauseError = error;
+  for (;;) {
+    const pause: DebugPause = {
+      stepId: step.id,
+      stepIndex,
+      type: step.type,
+      reason,
+      ...(pauseError ? { error: pauseError } : {}),
+      params: session.paramOverrides.get(step.id) ?? step.params,
+      vars: redactSecrets({ ...stepContext.vars }, secretValues),
+      collectibles: redactSecrets({ ...stepContext.collectibles }, secretValues),
+      ...(screenshot ? { screenshot } : {}),
+    };
+    const command = await waitForDebugCommand(session.onPause, pause, stepContext.signal);
+
+    if (command.params) {
+      try {
+        validateFlow([{ ...step, params: command.params } as DslStep]);
+      } catch (validationError) {
+        pauseError = `Edited params rejected: ${validationError instanceof Error ? validationError.message : String(validationError)}`;
+        continue;
+      }
+      session.paramOverrides.set(step.id, command.params);
+    }
+    if (command.breakpoints) {
+      session.breakpoints = new Set(command.breakpoints);
+    }
+    // skip keeps the current mode; rerun pauses again after the step it re-runs
+    if (command.action !== 'skip') {
+      session.stepping = command.action !== 'continue';
+    }
+
+    ctx.logger.log({
+      type: 'debug_pause_ended',
+      data: { stepId: step.id, action: command.action, paramsEdited: !!command.params, waitedMs: Date.now() - pausedAt },
+    });
+    return command.action;
+  }
+}
+
 /**
  * Runs a flow of DSL steps sequentially with auth resilience support
  */
@@ -134,6 +795,7 @@ export async function runFlow(
   const secrets = options?.secrets ?? {};
   const httpMode = options?.httpMode ?? false;
   const snapshots = options?.snapshots;
+  const signal = createRunSignal(options?.signal, options?.maxRunDurationMs);
 
   // Get secret values for redaction (only values >= 3 chars)
   const secretValues = Object.values(secrets).filter((v) => v && v.length >= 3);
@@ -145,7 +807,7 @@ export async function runFlow(
   const vars: Record<string, unknown> = {};
 
   // Initialize variable context (including secrets for templating)
-  const variableContext = {
+  const variableContext: VariableContext = {
     inputs,
     vars,
     secrets,
@@ -160,6 +822,10 @@ export async function runFlow(
   let authGuard: AuthGuardChecker | null = null;
   let authRecoveriesUsed = 0;
 
+  // The called flow shares the signal of the calling steps, so maxRunDurationMs covers it too
+  const bindRunPack = (runPackSignal: AbortSignal | undefined): StepContext['runPack'] => (request) =>
+    runCalledPack(ctx, { ...options, dialogHandlers: stepContext.dialogHandlers, signal: runPackSignal }, request);
+
   const stepContext: StepContext = {
     page: ctx.page,
     collectibles,
@@ -171,8 +837,67 @@ export async function runFlow(
     snapshots: snapshots ?? undefined,
     secrets,
     proxy: options?.proxy,
+    logger: ctx.logger,
+    artifacts: ctx.artifacts,
+    packDir: options?.packDir,
+    runPack: bindRunPack(signal),
+    onHumanPause: options?.onHumanPause,
+    signal,
+    abandonedSteps: [],
   };
 
+  // Native dialogs go to handlers armed by handle_dialog steps; the listener
+  // also logs the ones nothing handles, which Playwright would dismiss silently.
+  // It listens on the browser context so dialogs of every tab reach it.
+  let onDialog: ((dialog: Dialog) => void) | undefined;
+  let dialogContext: BrowserContext | undefined;
+  if (!httpMode && options?.dialogHandlers) {
+    stepContext.dialogHandlers = options.dialogHandlers;
+  } else if (!httpMode && ctx.page) {
+    const dialogHandlers: DialogHandler[] = [];
+    onDialog = (dialog) => {
+      respondToDialog(dialogHandlers, dialog, ctx.logger).catch((error: unknown) => {
+        console.warn(`[interpreter] Failed to respond to ${dialog.type()} dialog: ${error instanceof Error ? error.message : String(error)}`);
+      });
+    };
+    dialogContext = ctx.page.context();
+    dialogContext.on('dialog', onDialog);
+    stepContext.dialogHandlers = dialogHandlers;
+  }
+
+  // download_file steps without a target claim downloads started by earlier steps,
+  // so queue downloads from the start of the run (on_failure / finally steps included)
+  let onDownload: ((download: Download) => void) | undefined;
+  const allSteps = flattenSteps([...steps, ...(options?.onFailure ?? []), ...(options?.finally ?? [])]);
+  if (!httpMode && allSteps.some((s) => s.type === 'download_file' && !s.params.target)) {
+    const pendingDownloads: Download[] = [];
+    onDownload = (download) => pendingDownloads.push(download);
+    ctx.page.on('download', onDownload);
+    stepContext.pendingDownloads = pendingDownloads;
+  }
+
+  const nestedState: NestedRunState = {
+    ctx,
+    stepContext,
+    variableContext,
+    secretValues,
+    stopOnError,
+    bindRunPack,
+  };
+  stepContext.runSteps = (nestedSteps, scope) => executeNestedSteps(nestedState, nestedSteps, scope);
+
+  const debugSession: DebugSession | undefined = options?.debug
+    ? {
+        onPause: options.debug.onPause,
+        breakpoints: new Set(options.debug.breakpoints ?? []),
+        stepping: options.debug.pauseOnEveryStep ?? false,
+        paramOverrides: new Map(),
+      }
+    : undefined;
+  // Index of the last step that ran (what rerun goes back to), and of a step being re-run
+  let lastRunIndex: number | undefined;
+  let rerunIndex: number | undefined;
+
   if (authConfig?.authPolicy) {
     authMonitor = new AuthFailureMonitor(authConfig.authPolicy);
     if (authMonitor.isEnabled()) {
@@ -207,11 +932,40 @@ export async function runFlow(
   }
 
   let stepsExecuted = 0;
+  // Step the flow is at, for vars.__error when it fails
+  let currentStepId: string | undefined;
 
   try {
     // Execute steps sequentially
     for (let stepIndex = 0; stepIndex < steps.length; stepIndex++) {
-      const step = steps[stepIndex];
+      let step = steps[stepIndex];
+      currentStepId = step.id;
+      throwIfCancelled(signal, step.id);
+
+      // Debug runs pause before breakpoints (or every step in stepping mode);
+      // a step being re-run starts right away
+      if (debugSession) {
+        const rerun = rerunIndex === stepIndex;
+        rerunIndex = undefined;
+        if (!rerun && (debugSession.stepping || debugSession.breakpoints.has(step.id))) {
+          const reason = debugSession.breakpoints.has(step.id) ? 'breakpoint' : 'step';
+          const action = await pauseForDebugger(nestedState, debugSession, step, stepIndex, reason);
+          if (action === 'skip') {
+            ctx.logger.log({ type: 'step_skipped', data: { stepId: step.id, type: step.type, reason: 'debugger' } });
+            stepsExecuted++;
+            continue;
+          }
+          if (action === 'rerun' && lastRunIndex !== undefined) {
+            rerunIndex = lastRunIndex;
+            stepIndex = lastRunIndex - 1;
+            continue;
+          }
+        }
+        const editedParams = debugSession.paramOverrides.get(step.id);
+        if (editedParams) {
+          step = { ...step, params: editedParams } as DslStep;
+        }
+      }
       const stepStartTime = Date.now();
       const stepLabel = step.label || step.id;
 
@@ -249,40 +1003,24 @@ export async function runFlow(
       }
 
       // Check if step should be skipped due to skip_if condition
-      if (step.skip_if) {
-        try {
-          const shouldSkip = await evaluateCondition(
-            { page: ctx.page, vars },
-            step.skip_if
-          );
-          if (shouldSkip) {
-            ctx.logger.log({
-              type: 'step_skipped',
-              data: {
-                stepId: step.id,
-                type: step.type,
-                reason: 'condition_met',
-                condition: conditionToString(step.skip_if),
-              },
-            });
-            stepsExecuted++;
-            continue;
-          }
-        } catch (conditionError) {
-          const msg = `skip_if evaluation error for step "${step.id}": ${conditionError instanceof Error ? conditionError.message : String(conditionError)}`;
-          console.warn(`[interpreter] ${msg}`);
-          ctx.logger.log({ type: 'error', data: { error: msg, stepId: step.id, type: step.type } });
-          // Push to hints so the agent can see the error
-          if (!vars['__jmespath_hints']) vars['__jmespath_hints'] = [];
-          (vars['__jmespath_hints'] as string[]).push(msg);
-        }
+      if (await evaluateSkipIf(ctx, vars, step)) {
+        ctx.logger.log({
+          type: 'step_skipped',
+          data: {
+            stepId: step.id,
+            type: step.type,
+            reason: 'condition_met',
+            condition: conditionToString(step.skip_if!),
+          },
+        });
+        stepsExecuted++;
+        continue;
       }
 
+      lastRunIndex = stepIndex;
+
       // Resolve templates in step params before execution
-      const resolvedStep = {
-        ...step,
-        params: resolveTemplates(step.params, variableContext),
-      } as DslStep;
+      const resolvedStep = resolveStepParams(step, variableContext);
 
       // Log step start with resolved params (redact secrets for safe logging)
       const logParams = redactSecrets(JSON.parse(JSON.stringify(resolvedStep.params)), secretValues);
@@ -301,20 +1039,8 @@ export async function runFlow(
         const varsBefore = resolvedStep.once ? { ...vars } : {};
         const collectiblesBefore = resolvedStep.once ? { ...collectibles } : {};
 
-        // Apply step-level timeout if specified
-        const timeoutMs = resolvedStep.timeoutMs;
-        let stepPromise = executeStep(stepContext, resolvedStep);
-
-        if (timeoutMs) {
-          const timeoutPromise = new Promise<never>((_, reject) => {
-            setTimeout(() => {
-              reject(new Error(`Step timeout after ${timeoutMs}ms`));
-            }, timeoutMs);
-          });
-          stepPromise = Promise.race([stepPromise, timeoutPromise]);
-        }
-
-        await stepPromise;
+        // Apply step-level timeout and retry policy if specified
+        const attempts = await executeStepWithRetry(ctx, stepContext, resolvedStep, undefined, authMonitor);
         stepsExecuted++;
 
         // Mark step as executed if it has "once" flag, with captured outputs
@@ -333,9 +1059,11 @@ export async function runFlow(
             type: step.type,
             label: stepLabel,
             durationMs: stepDuration,
+            attempts: resolvedStep.retry ? attempts : undefined,
           },
         });
       } catch (error) {
+        if (error instanceof RunCancelledError) throw error;
         const errorMessage = error instanceof Error ? error.message : String(error);
 
         // Check for auth failure and attempt recovery
@@ -413,7 +1141,6 @@ export async function runFlow(
 
             // Retry the failed step (up to maxStepRetryAfterRecovery times)
             const maxRetries = authMonitor.getMaxStepRetries();
-            const timeoutMs = resolvedStep.timeoutMs; // Capture timeoutMs for retry loop
             let retrySuccess = false;
             for (let retryAttempt = 0; retryAttempt < maxRetries; retryAttempt++) {
               try {
@@ -425,17 +1152,7 @@ export async function runFlow(
                 stepContext.currentStepId = step.id;
                 setupBrowserAuthMonitoring(ctx.page, authMonitor, ctx.logger, step.id);
 
-                let retryPromise = executeStep(stepContext, resolvedStep);
-                if (timeoutMs) {
-                  const timeoutPromise = new Promise<never>((_, reject) => {
-                    setTimeout(() => {
-                      reject(new Error(`Step timeout after ${timeoutMs}ms`));
-                    }, timeoutMs);
-                  });
-                  retryPromise = Promise.race([retryPromise, timeoutPromise]);
-                }
-
-                await retryPromise;
+                await executeStepWithTimeout(stepContext, resolvedStep);
                 retrySuccess = true;
                 stepsExecuted++;
 
@@ -500,9 +1217,25 @@ export async function runFlow(
             stepId: step.id,
             type: step.type,
             label: stepLabel,
+            ...errorDetails(error, secretValues),
           },
         });
 
+        // The debugger may retry the failed step (with edited params) or skip it
+        if (debugSession) {
+          const action = await pauseForDebugger(nestedState, debugSession, step, stepIndex, 'error', errorMessage);
+          if (action === 'rerun') {
+            rerunIndex = stepIndex;
+            stepIndex--;
+            continue;
+          }
+          if (action === 'skip') {
+            ctx.logger.log({ type: 'step_skipped', data: { stepId: step.id, type: step.type, reason: 'debugger' } });
+            stepsExecuted++;
+            continue;
+          }
+        }
+
         // Handle optional steps
         if (resolvedStep.optional) {
           // Optional step failed - log and continue
@@ -533,7 +1266,7 @@ export async function runFlow(
 
         // Attach partial results to the error for upstream consumers
         if (error instanceof Error) {
-          (error as any).partialResult = {
+          (error as ErrorWithPartialResult).partialResult = {
             collectibles: { ...collectibles },
             stepsExecuted,
             failedStepId: step.id,
@@ -545,6 +1278,8 @@ export async function runFlow(
       }
     }
 
+    await runFlowBlock(nestedState, 'finally', options?.finally);
+
     const durationMs = Date.now() - startTime;
     const finalUrl = httpMode ? undefined : ctx.page.url();
 
@@ -575,8 +1310,35 @@ export async function runFlow(
 
     return result;
   } catch (error) {
+    // A flow run by call_pack leaves this to the calling flow
+    if (error instanceof RunCancelledError && !options?.callStack) {
+      (error as ErrorWithPartialResult).partialResult = {
+        collectibles: { ...collectibles },
+        stepsExecuted,
+        failedStepId: error.stepId,
+      };
+      ctx.logger.log({
+        type: 'run_cancelled',
+        data: { reason: error.reason, stepId: error.stepId, durationMs: Date.now() - startTime },
+      });
+    }
+    // on_failure and finally see what failed or why the run was cancelled;
+    // their own failures never replace this error
+    vars.__error = { stepId: currentStepId, message: error instanceof Error ? error.message : String(error) };
+    await runFlowBlock(nestedState, 'on_failure', options?.onFailure);
+    await runFlowBlock(nestedState, 'finally', options?.finally);
+    const partialResult = (error as ErrorWithPartialResult | null)?.partialResult;
+    if (partialResult) {
+      partialResult.collectibles = { ...collectibles };
+    }
     throw error;
   } finally {
+    if (onDownload) {
+      ctx.page.off('download', onDownload);
+    }
+    if (onDialog) {
+      dialogContext?.off('dialog', onDialog);
+    }
     if (sessionId || profileId) {
       onceCache.persist(sessionId, profileId, cacheDir);
     }
@@ -589,7 +1351,7 @@ export async function runFlow(
 async function executeStepsWithRecovery(
   ctx: RunContext,
   stepContext: StepContext,
-  variableContext: { inputs: Record<string, unknown>; vars: Record<string, unknown> },
+  variableContext: VariableContext,
   steps: DslStep[],
   onceCache: OnceCache,
   authMonitor: AuthFailureMonitor | null,
@@ -603,6 +1365,7 @@ async function executeStepsWithRecovery(
   const networkCapture = stepContext.networkCapture;
 
   for (const step of steps) {
+    throwIfCancelled(stepContext.signal, step.id);
     // Skip if already executed (shouldn't happen during recovery, but be safe)
     if (shouldSkipStep(step, onceCache, sessionId, profileId)) {
       // Restore cached outputs when skipping during recovery
@@ -622,10 +1385,7 @@ async function executeStepsWithRecovery(
       continue;
     }
 
-    const resolvedStep = {
-      ...step,
-      params: resolveTemplates(step.params, variableContext),
-    } as DslStep;
+    const resolvedStep = resolveStepParams(step, variableContext);
 
     try {
       // Snapshot state before step execution (for capturing outputs)
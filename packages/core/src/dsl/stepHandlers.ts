@@ -1,4 +1,7 @@
-import type { Page, BrowserContext, Frame } from 'playwright';
+import type { Page, BrowserContext, Frame, Locator, Download, Dialog } from 'playwright';
+import { createHash } from 'crypto';
+import { readFileSync } from 'fs';
+import { basename } from 'path';
 import type {
   DslStep,
   NavigateStep,
@@ -8,12 +11,21 @@ import type {
   SleepStep,
   WaitForStep,
   ClickStep,
+  HoverStep,
+  CheckStep,
+  DblclickStep,
+  DragToStep,
   FillStep,
   AssertStep,
+  AssertionFailure,
   SetVarStep,
   NetworkFindStep,
+  WaitForResponseStep,
   NetworkReplayStep,
+  NetworkPaginateStep,
+  NetworkPaginationStrategy,
   NetworkExtractStep,
+  TransformStep,
   SelectOptionStep,
   PressKeyStep,
   UploadFileStep,
@@ -21,6 +33,23 @@ import type {
   NewTabStep,
   SwitchTabStep,
   DomScrapeStep,
+  ExtractTableStep,
+  ScrollStep,
+  DownloadFileStep,
+  HandleDialogStep,
+  SetCookiesStep,
+  GetCookiesStep,
+  ClearCookiesStep,
+  GetStorageStep,
+  SetStorageStep,
+  WebStorageArea,
+  PauseForHumanStep,
+  HumanPauseHandler,
+  HumanPauseRequest,
+  ForEachStep,
+  IfStep,
+  CallPackStep,
+  NestedStepScope,
   VariableContext,
 } from './types.js';
 import type { NetworkCaptureApi, NetworkFindWhere, NetworkReplayOverrides } from '../networkCapture.js';
@@ -32,6 +61,8 @@ import type { SnapshotFile, RequestSnapshot } from '../requestSnapshot.js';
 import { replayFromSnapshot } from '../httpReplay.js';
 import { validateResponse } from '../requestSnapshot.js';
 import type { ResolvedProxy } from '../proxy/types.js';
+import type { Logger, ArtifactManager } from '../types.js';
+import { evaluateCondition, conditionToString } from './conditions.js';
 
 /**
  * Step execution context
@@ -63,6 +94,59 @@ export interface StepContext {
   secrets?: Record<string, string>;
   /** Resolved proxy for HTTP-only replay requests */
   proxy?: ResolvedProxy;
+  /** Runs a nested step list for control-flow steps (provided by the interpreter) */
+  runSteps?: (steps: DslStep[], scope: NestedStepScope) => Promise<void>;
+  /** Start time of the step before the current one (wait_for_response accepts responses since then) */
+  previousStepStartedAt?: number;
+  /** Start time of the current step */
+  stepStartedAt?: number;
+  /** Run logger, for steps that record events of their own */
+  logger?: Logger;
+  /** Artifact manager, for steps that save files into the run directory */
+  artifacts?: ArtifactManager;
+  /** Downloads started on the page that no download_file step has claimed yet */
+  pendingDownloads?: Download[];
+  /** Runs another pack's flow on this page for call_pack (provided by the interpreter) */
+  runPack?: (request: CallPackRequest) => Promise<CallPackResult>;
+  /** Handlers armed by handle_dialog steps, consulted by the run's page dialog listener */
+  dialogHandlers?: DialogHandler[];
+  /** Operator prompt for pause_for_human (headful dashboard runs only) */
+  onHumanPause?: HumanPauseHandler;
+  /** Aborted when the run is cancelled or exceeds its maxRunDurationMs */
+  signal?: AbortSignal;
+  /** Steps still running after they lost the race against their timeout or the signal */
+  abandonedSteps?: Array<Promise<void>>;
+}
+
+/**
+ * A handler armed by a handle_dialog step. It keeps the vars and logger of the
+ * flow that armed it, since the dialog may open while a called pack is running.
+ */
+export interface DialogHandler {
+  stepId: string;
+  params: HandleDialogStep['params'];
+  vars: Record<string, unknown>;
+  logger?: Logger;
+}
+
+/**
+ * A call_pack invocation handed to the interpreter
+ */
+export interface CallPackRequest {
+  stepId: string;
+  pack: string;
+  version?: string;
+  inputs: Record<string, unknown>;
+}
+
+/**
+ * Outcome of a called pack's flow
+ */
+export interface CallPackResult {
+  /** Collectibles the called pack declares (undefined when its flow never set them) */
+  collectibles: Record<string, unknown>;
+  /** JMESPath hints from the called pack's flow */
+  hints?: string[];
 }
 
 /**
@@ -155,7 +239,16 @@ async function executeSleep(
   ctx: StepContext,
   step: SleepStep
 ): Promise<void> {
-  await new Promise((resolve) => setTimeout(resolve, step.params.durationMs));
+  // Stops early when the run is cancelled, so on_failure / finally need not wait for it
+  await new Promise<void>((resolve) => {
+    const done = () => {
+      clearTimeout(timer);
+      ctx.signal?.removeEventListener('abort', done);
+      resolve();
+    };
+    const timer = setTimeout(done, step.params.durationMs);
+    ctx.signal?.addEventListener('abort', done, { once: true });
+  });
 }
 
 /**
@@ -246,6 +339,103 @@ async function executeClick(
   await target.click();
 }
 
+/**
+ * Executes a hover step
+ */
+async function executeHover(
+  ctx: StepContext,
+  step: HoverStep
+): Promise<void> {
+  const { locator, matchedTarget, matchedCount } = await resolveTargetWithFallback(
+    ctx.currentFrame ?? ctx.page,
+    step.params.target,
+    step.params.scope
+  );
+
+  if (step.params.hint) {
+    console.log(`[Hover:${step.id}] Matched target: ${JSON.stringify(matchedTarget)}, count: ${matchedCount}, hint: ${step.params.hint}`);
+  }
+
+  await locator.first().hover();
+}
+
+/**
+ * Executes a check step. setChecked is a no-op when the element is already in the desired state.
+ */
+async function executeCheck(
+  ctx: StepContext,
+  step: CheckStep
+): Promise<void> {
+  const { locator, matchedTarget, matchedCount } = await resolveTargetWithFallback(
+    ctx.currentFrame ?? ctx.page,
+    step.params.target,
+    step.params.scope
+  );
+
+  if (step.params.hint) {
+    console.log(`[Check:${step.id}] Matched target: ${JSON.stringify(matchedTarget)}, count: ${matchedCount}, hint: ${step.params.hint}`);
+  }
+
+  await locator.first().setChecked(step.params.checked ?? true);
+}
+
+/**
+ * Executes a dblclick step
+ */
+async function executeDblclick(
+  ctx: StepContext,
+  step: DblclickStep
+): Promise<void> {
+  const { locator, matchedTarget, matchedCount } = await resolveTargetWithFallback(
+    ctx.currentFrame ?? ctx.page,
+    step.params.target,
+    step.params.scope
+  );
+
+  if (step.params.hint) {
+    console.log(`[Dblclick:${step.id}] Matched target: ${JSON.stringify(matchedTarget)}, count: ${matchedCount}, hint: ${step.params.hint}`);
+  }
+
+  const target = locator.first();
+  if (step.params.waitForVisible ?? true) {
+    await target.waitFor({ state: 'visible' });
+  }
+
+  await target.dblclick();
+}
+
+/**
+ * Executes a drag_to step
+ */
+async function executeDragTo(
+  ctx: StepContext,
+  step: DragToStep
+): Promise<void> {
+  const source = await resolveTargetWithFallback(
+    ctx.currentFrame ?? ctx.page,
+    step.params.source,
+    step.params.scope
+  );
+  const destination = await resolveTargetWithFallback(
+    ctx.currentFrame ?? ctx.page,
+    step.params.destination,
+    step.params.scope
+  );
+
+  if (step.params.hint) {
+    console.log(`[DragTo:${step.id}] Source: ${JSON.stringify(source.matchedTarget)} (count: ${source.matchedCount}), destination: ${JSON.stringify(destination.matchedTarget)} (count: ${destination.matchedCount}), hint: ${step.params.hint}`);
+  }
+
+  if (source.matchedCount === 0) {
+    throw new Error(`drag_to: source not found: ${JSON.stringify(source.matchedTarget)}`);
+  }
+  if (destination.matchedCount === 0) {
+    throw new Error(`drag_to: destination not found: ${JSON.stringify(destination.matchedTarget)}`);
+  }
+
+  await source.locator.first().dragTo(destination.locator.first());
+}
+
 /**
  * Executes a fill step
  */
@@ -332,60 +522,243 @@ async function executeExtractAttribute(
 }
 
 /**
- * Executes an assert step
+ * Thrown by assert with one entry per failed check, so the interpreter can put
+ * structured details in the error event
  */
-async function executeAssert(
-  ctx: StepContext,
-  step: AssertStep
-): Promise<void> {
-  const errors: string[] = [];
+export class AssertionError extends Error {
+  readonly failures: AssertionFailure[];
+
+  constructor(message: string, failures: AssertionFailure[]) {
+    super(`Assertion failed: ${message}`);
+    this.name = 'AssertionError';
+    this.failures = failures;
+  }
+}
+
+/** Error code of a pause_for_human step in a run that has no operator to prompt */
+export const HUMAN_INPUT_UNAVAILABLE = 'HUMAN_INPUT_UNAVAILABLE';
+
+/**
+ * Thrown by pause_for_human when the run has no operator prompt (headless or MCP
+ * runs), so the run fails at once instead of waiting for a human that never comes
+ */
+export class HumanInputUnavailableError extends Error {
+  readonly code = HUMAN_INPUT_UNAVAILABLE;
+
+  constructor(stepId: string) {
+    super(
+      `pause_for_human: [${HUMAN_INPUT_UNAVAILABLE}] step "${stepId}" needs an operator, ` +
+      'but this run is headless or has no operator prompt (run it headful from the dashboard)'
+    );
+    this.name = 'HumanInputUnavailableError';
+  }
+}
+
+/**
+ * Empty in the notEmpty sense: unset, null, "", [] or {}
+ */
+function isEmptyValue(value: unknown): boolean {
+  if (value === undefined || value === null || value === '') return true;
+  if (Array.isArray(value)) return value.length === 0;
+  if (typeof value === 'object') return Object.keys(value).length === 0;
+  return false;
+}
+
+/**
+ * Checks a number against an { eq?, min?, max? } range; returns a description of the
+ * expected range when it is outside it
+ */
+function outOfRange(actual: number, range: { eq?: number; min?: number; max?: number }): string | null {
+  const parts: string[] = [];
+  if (range.eq !== undefined) parts.push(`== ${range.eq}`);
+  if (range.min !== undefined) parts.push(`>= ${range.min}`);
+  if (range.max !== undefined) parts.push(`<= ${range.max}`);
+  const inRange =
+    (range.eq === undefined || actual === range.eq) &&
+    (range.min === undefined || actual >= range.min) &&
+    (range.max === undefined || actual <= range.max);
+  return inRange ? null : parts.join(' and ');
+}
+
+/**
+ * Runs the page checks of an assert step (target/selector and URL)
+ */
+async function checkAssertPage(ctx: StepContext, step: AssertStep, failures: AssertionFailure[]): Promise<void> {
+  const { params } = step;
 
   // Support both legacy selector and new target
-  const targetOrAnyOf = step.params.target ?? (step.params.selector ? selectorToTarget(step.params.selector) : null);
+  const targetOrAnyOf = params.target ?? (params.selector ? selectorToTarget(params.selector) : null);
 
   if (targetOrAnyOf) {
     const { locator, matchedTarget, matchedCount } = await resolveTargetWithFallback(
       ctx.page,
       targetOrAnyOf,
-      step.params.scope
+      params.scope
     );
+    const targetDesc = JSON.stringify(matchedTarget);
 
     // Log matched target for diagnostics
-    if (step.params.hint) {
-      console.log(`[Assert:${step.id}] Matched target: ${JSON.stringify(matchedTarget)}, count: ${matchedCount}, hint: ${step.params.hint}`);
+    if (params.hint) {
+      console.log(`[Assert:${step.id}] Matched target: ${JSON.stringify(matchedTarget)}, count: ${matchedCount}, hint: ${params.hint}`);
     }
 
-    if (matchedCount === 0) {
-      errors.push(`Element not found: ${JSON.stringify(matchedTarget)}`);
-    } else if (step.params.visible !== undefined) {
-      const isVisible = await locator.first().isVisible();
-      if (step.params.visible && !isVisible) {
-        errors.push(`Element not visible: ${JSON.stringify(matchedTarget)}`);
-      } else if (!step.params.visible && isVisible) {
-        errors.push(`Element should not be visible: ${JSON.stringify(matchedTarget)}`);
+    if (params.count) {
+      const expected = outOfRange(matchedCount, params.count);
+      if (expected) {
+        failures.push({
+          check: 'count',
+          message: `Element count ${matchedCount} is not ${expected}: ${targetDesc}`,
+          expected: params.count,
+          actual: matchedCount,
+        });
       }
+    } else if (matchedCount === 0) {
+      failures.push({ check: 'target', message: `Element not found: ${targetDesc}`, expected: 'at least 1 element', actual: 0 });
     }
 
-    if (step.params.textIncludes) {
-      const text = await locator.first().textContent();
-      if (!text || !text.includes(step.params.textIncludes)) {
-        errors.push(
-          `Element text does not include "${step.params.textIncludes}": ${JSON.stringify(matchedTarget)}`
-        );
+    if (matchedCount > 0) {
+      const first = locator.first();
+
+      if (params.visible !== undefined) {
+        const isVisible = await first.isVisible();
+        if (params.visible !== isVisible) {
+          failures.push({
+            check: 'visible',
+            message: params.visible ? `Element not visible: ${targetDesc}` : `Element should not be visible: ${targetDesc}`,
+            expected: params.visible,
+            actual: isVisible,
+          });
+        }
+      }
+
+      if (params.textIncludes || params.textMatches) {
+        const text = (await first.textContent()) ?? '';
+        if (params.textIncludes && !text.includes(params.textIncludes)) {
+          failures.push({
+            check: 'textIncludes',
+            message: `Element text does not include "${params.textIncludes}": ${targetDesc}`,
+            expected: params.textIncludes,
+            actual: text,
+          });
+        }
+        if (params.textMatches && !new RegExp(params.textMatches).test(text)) {
+          failures.push({
+            check: 'textMatches',
+            message: `Element text does not match /${params.textMatches}/: ${targetDesc}`,
+            expected: params.textMatches,
+            actual: text,
+          });
+        }
+      }
+
+      if (params.attributeEquals) {
+        const { name, value } = params.attributeEquals;
+        const actual = await first.getAttribute(name);
+        if (actual !== value) {
+          failures.push({
+            check: 'attributeEquals',
+            message: `Attribute "${name}" is ${JSON.stringify(actual)}, expected "${value}": ${targetDesc}`,
+            expected: value,
+            actual,
+          });
+        }
       }
     }
   }
 
-  if (step.params.urlIncludes) {
+  if (params.urlIncludes) {
     const url = ctx.page.url();
-    if (!url.includes(step.params.urlIncludes)) {
-      errors.push(`URL does not include "${step.params.urlIncludes}": ${url}`);
+    if (!url.includes(params.urlIncludes)) {
+      failures.push({
+        check: 'urlIncludes',
+        message: `URL does not include "${params.urlIncludes}": ${url}`,
+        expected: params.urlIncludes,
+        actual: url,
+      });
+    }
+  }
+}
+
+/**
+ * Runs the data checks of an assert step (vars, collectibles and predicate)
+ */
+function checkAssertData(ctx: StepContext, step: AssertStep, failures: AssertionFailure[]): void {
+  const { params } = step;
+
+  if (params.notEmpty) {
+    const value = ctx.vars[params.notEmpty] ?? ctx.collectibles[params.notEmpty];
+    if (isEmptyValue(value)) {
+      failures.push({
+        check: 'notEmpty',
+        message: `"${params.notEmpty}" is empty (checked vars and collectibles)`,
+        expected: 'non-empty value',
+        actual: value ?? null,
+      });
+    }
+  }
+
+  if (params.arrayLength) {
+    const { of: key, ...range } = params.arrayLength;
+    const value = ctx.vars[key] ?? ctx.collectibles[key];
+    if (!Array.isArray(value)) {
+      failures.push({
+        check: 'arrayLength',
+        message: `"${key}" is not an array (got ${value === undefined ? 'nothing' : value === null ? 'null' : typeof value})`,
+        expected: range,
+        actual: value ?? null,
+      });
+    } else {
+      const expected = outOfRange(value.length, range);
+      if (expected) {
+        failures.push({
+          check: 'arrayLength',
+          message: `"${key}" has ${value.length} item(s), expected ${expected}`,
+          expected: range,
+          actual: value.length,
+        });
+      }
+    }
+  }
+
+  if (params.predicate) {
+    const data = { vars: ctx.vars, collectibles: ctx.collectibles, inputs: ctx.inputs };
+    let result: unknown;
+    try {
+      result = jmesSearch(data as JSONValue, params.predicate);
+    } catch (error) {
+      throw new Error(
+        `assert: predicate '${params.predicate}' could not be evaluated: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+    if (isEmptyValue(result) || result === false) {
+      failures.push({
+        check: 'predicate',
+        message: `Predicate is not truthy: ${params.predicate}`,
+        expected: 'truthy',
+        actual: result ?? null,
+      });
     }
   }
+}
+
+/**
+ * Executes an assert step. Every check runs and all failures are reported together.
+ * In HTTP mode only the data checks run, since there is no page.
+ */
+async function executeAssert(
+  ctx: StepContext,
+  step: AssertStep
+): Promise<void> {
+  const failures: AssertionFailure[] = [];
+
+  if (!ctx.httpMode) {
+    await checkAssertPage(ctx, step, failures);
+  }
+  checkAssertData(ctx, step, failures);
 
-  if (errors.length > 0) {
-    const message = step.params.message || errors.join('; ');
-    throw new Error(`Assertion failed: ${message}`);
+  if (failures.length > 0) {
+    const message = step.params.message || failures.map((f) => f.message).join('; ');
+    throw new AssertionError(message, failures);
   }
 }
 
@@ -581,6 +954,66 @@ async function executeNetworkFind(
   ctx.vars[step.params.saveAs] = requestId;
 }
 
+/** Default wait for the wait_for_response step */
+const DEFAULT_WAIT_FOR_RESPONSE_MS = 30000;
+
+/**
+ * Executes a wait_for_response step: waits for a captured response matching the filters
+ */
+async function executeWaitForResponse(
+  ctx: StepContext,
+  step: WaitForResponseStep
+): Promise<void> {
+  if (!ctx.networkCapture) {
+    throw new Error(
+      'wait_for_response requires an active browser session with network capture. Run the flow in a context that has network capture enabled.'
+    );
+  }
+  const where = step.params.where;
+  const waitForMs = step.params.waitForMs ?? DEFAULT_WAIT_FOR_RESPONSE_MS;
+  const result = await ctx.networkCapture.waitForResponse(where, {
+    timeoutMs: waitForMs,
+    since: ctx.previousStepStartedAt,
+  });
+
+  if (result.requestId === null) {
+    const seen = result.nearMisses.length > 0
+      ? `\n\nClosest responses seen while waiting:\n${result.nearMisses
+        .map((miss) => `  ${miss.method} ${miss.url}${miss.status !== undefined ? ` (${miss.status})` : ''} — failed: ${miss.failed.join(', ')}`)
+        .join('\n')}`
+      : '\n\nNo responses were captured while waiting. The request may not have been triggered.';
+    throw new Error(
+      `wait_for_response: no response matched (where: ${JSON.stringify(where)}) within ${waitForMs}ms.${seen}`
+    );
+  }
+  if (step.params.saveAs) {
+    ctx.vars[step.params.saveAs] = result.requestId;
+  }
+}
+
+/**
+ * Thrown by network_replay when the response status is listed in the step's
+ * retry.retryOn.status, so the interpreter can retry it
+ */
+export class ReplayStatusError extends Error {
+  readonly status: number;
+
+  constructor(status: number, stepId: string) {
+    super(`network_replay: step "${stepId}" received retryable HTTP status ${status}`);
+    this.name = 'ReplayStatusError';
+    this.status = status;
+  }
+}
+
+/**
+ * Throws a ReplayStatusError when the step retries on the given response status
+ */
+function checkRetryableStatus(step: NetworkReplayStep, status: number): void {
+  if (step.retry?.retryOn?.status?.includes(status)) {
+    throw new ReplayStatusError(status, step.id);
+  }
+}
+
 /**
  * Executes a network_replay step
  */
@@ -637,6 +1070,8 @@ async function executeNetworkReplay(
     }
   }
 
+  checkRetryableStatus(step, result.status);
+
   if (step.params.saveAs) {
     ctx.vars[step.params.saveAs] = {
       status: result.status,
@@ -745,6 +1180,37 @@ async function executeNetworkExtract(
   }
 }
 
+/**
+ * Executes a transform step
+ */
+async function executeTransform(
+  ctx: StepContext,
+  step: TransformStep
+): Promise<void> {
+  const input: Record<string, unknown> = {};
+  for (const [name, key] of Object.entries(step.params.sources)) {
+    const value = ctx.vars[key] ?? ctx.collectibles[key];
+    if (value === undefined) {
+      throw new Error(`transform: source "${name}" refers to "${key}", which is not set (checked vars and collectibles)`);
+    }
+    input[name] = value;
+  }
+
+  const pathResult = getByPath(input, step.params.expression);
+
+  if (step.params.out) {
+    ctx.collectibles[step.params.out] = pathResult.value;
+  }
+  if (step.params.saveAs) {
+    ctx.vars[step.params.saveAs] = pathResult.value;
+  }
+
+  if (pathResult.hint) {
+    const existingHints = (ctx.vars['__jmespath_hints'] as string[]) || [];
+    ctx.vars['__jmespath_hints'] = [...existingHints, pathResult.hint];
+  }
+}
+
 /**
  * Executes a select_option step
  */
@@ -996,9 +1462,11 @@ async function executeSwitchTab(
 
 /** Step types that are skipped silently in HTTP mode (setup/trigger steps). */
 const HTTP_MODE_SKIP_STEPS = new Set([
-  'navigate', 'click', 'fill', 'select_option', 'press_key',
-  'upload_file', 'wait_for', 'assert', 'frame', 'new_tab',
-  'switch_tab', 'network_find', 'dom_scrape',
+  'navigate', 'click', 'hover', 'check', 'dblclick', 'drag_to', 'fill',
+  'select_option', 'press_key', 'upload_file', 'wait_for', 'assert', 'frame',
+  'new_tab', 'switch_tab', 'network_find', 'wait_for_response', 'dom_scrape',
+  'extract_table', 'scroll', 'download_file', 'handle_dialog', 'set_cookies',
+  'get_cookies', 'clear_cookies', 'get_storage', 'set_storage', 'pause_for_human',
 ]);
 
 /**
@@ -1074,6 +1542,8 @@ async function executeNetworkReplayHttp(
     proxy: ctx.proxy,
   });
 
+  checkRetryableStatus(step, result.status);
+
   // Validate the response — throw to trigger browser fallback if stale
   const validation = validateResponse(snapshot, result);
   if (!validation.valid) {
@@ -1123,52 +1593,251 @@ async function executeNetworkReplayHttp(
   ctx.collectibles[step.params.out] = outValue;
 }
 
+/** Default page limit for network_paginate */
+const DEFAULT_MAX_PAGES = 20;
+
+type ReplayOverrides = NetworkReplayStep['params']['overrides'];
+
+interface ReplayResponse {
+  status: number;
+  contentType?: string;
+  body: string;
+  bodySize: number;
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
 /**
- * Executes a dom_scrape step — extracts structured data from repeating DOM elements
+ * Regex matching `"field": <scalar>` in a JSON body. Group 1 is the key part,
+ * so the value can be swapped with a "$1<value>" replacement.
  */
-async function executeDomScrape(
-  ctx: StepContext,
-  step: DomScrapeStep
-): Promise<void> {
-  // Support both legacy selector and new target
-  const targetOrAnyOf = step.params.target ?? (step.params.selector ? selectorToTarget(step.params.selector) : null);
+function jsonBodyFieldPattern(field: string): string {
+  return `("${escapeRegExp(field)}"\\s*:\\s*)(?:"(?:[^"\\\\]|\\\\.)*"|-?\\d+(?:\\.\\d+)?(?:[eE][+-]?\\d+)?|true|false|null)`;
+}
 
-  if (!targetOrAnyOf) {
-    throw new Error('DomScrape step must have either "target" or "selector"');
+/**
+ * Adds the current page value to the step's overrides, via setQuery or a bodyReplace rule.
+ */
+function withPageValue(
+  base: ReplayOverrides,
+  pagination: NetworkPaginationStrategy,
+  value: string | number
+): ReplayOverrides {
+  if (pagination.in === 'body') {
+    const existing = base?.bodyReplace
+      ? (Array.isArray(base.bodyReplace) ? base.bodyReplace : [base.bodyReplace])
+      : [];
+    return {
+      ...base,
+      bodyReplace: [
+        ...existing,
+        // "$" is special in replacement strings, so escape it as "$$"
+        { find: jsonBodyFieldPattern(pagination.param), replace: `$1${JSON.stringify(value).replace(/\$/g, '$$$$')}` },
+      ],
+    };
   }
+  return { ...base, setQuery: { ...base?.setQuery, [pagination.param]: value } };
+}
 
-  // Resolve base elements with fallback and scope
-  const { locator: baseLocator, matchedTarget, matchedCount } = await resolveTargetWithFallback(
-    ctx.currentFrame ?? ctx.page,
-    targetOrAnyOf,
-    step.params.scope
-  );
+/**
+ * Shared network_paginate loop. `fetchPage` replays the request with the given
+ * overrides (browser or HTTP mode); `capturedBody` is the original request body,
+ * used to check that a body pagination field exists before the first request.
+ */
+async function paginate(
+  ctx: StepContext,
+  step: NetworkPaginateStep,
+  capturedBody: string | null | undefined,
+  fetchPage: (overrides: ReplayOverrides) => Promise<ReplayResponse>
+): Promise<void> {
+  const { pagination, itemsPath } = step.params;
+  const maxPages = step.params.maxPages ?? DEFAULT_MAX_PAGES;
 
-  if (step.params.hint) {
-    console.log(`[DomScrape:${step.id}] Matched target: ${JSON.stringify(matchedTarget)}, count: ${matchedCount}, hint: ${step.params.hint}`);
+  if (pagination.in === 'body' && !(capturedBody && new RegExp(jsonBodyFieldPattern(pagination.param)).test(capturedBody))) {
+    throw new Error(
+      `network_paginate: field "${pagination.param}" not found in the captured request body. Use pagination.in "query", or capture a request whose JSON body already contains this field.`
+    );
   }
 
-  const skipEmpty = step.params.skip_empty ?? true;
-  const results: Record<string, unknown>[] = [];
+  // The first cursor page is sent as captured; page/offset strategies set the start value
+  let value: string | number | undefined =
+    pagination.type === 'cursor' ? undefined : pagination.start ?? (pagination.type === 'page' ? 1 : 0);
+  const items: unknown[] = [];
+  let pages = 0;
+  let stopReason: 'empty_page' | 'no_cursor' | 'max_pages' = 'max_pages';
+  let last: ReplayResponse | undefined;
 
-  for (let i = 0; i < matchedCount; i++) {
-    const baseElement = baseLocator.nth(i);
-    const item: Record<string, unknown> = {};
+  while (pages < maxPages) {
+    const overrides = value === undefined ? step.params.overrides : withPageValue(step.params.overrides, pagination, value);
+    last = await fetchPage(overrides);
+    pages++;
 
-    for (const field of step.params.collect) {
-      const childLocator = resolveTarget(baseElement, field.target);
-      const childCount = await childLocator.count();
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(last.body) as unknown;
+    } catch {
+      throw new Error(`network_paginate: page ${pages} response body is not valid JSON (status ${last.status})`);
+    }
 
-      if (childCount === 0) {
-        item[field.key] = null;
-        continue;
+    const pathResult = getByPath(parsed, itemsPath);
+    const pageItems = pathResult.value;
+    if (pageItems != null && !Array.isArray(pageItems)) {
+      throw new Error(`network_paginate: itemsPath "${itemsPath}" must resolve to an array (got ${typeof pageItems} on page ${pages})`);
+    }
+    if (!Array.isArray(pageItems) || pageItems.length === 0) {
+      // An empty first page usually means a wrong itemsPath, so surface the hint
+      if (pages === 1 && pathResult.hint) {
+        const existingHints = (ctx.vars['__jmespath_hints'] as string[]) || [];
+        ctx.vars['__jmespath_hints'] = [...existingHints, pathResult.hint];
       }
-
-      const child = childLocator.first();
-      const extractMode = field.extract ?? 'text';
-
-      switch (extractMode) {
-        case 'text': {
+      stopReason = 'empty_page';
+      break;
+    }
+    items.push(...pageItems);
+
+    if (pagination.type === 'cursor') {
+      const next = getByPath(parsed, pagination.cursorPath).value;
+      // A repeated cursor would refetch the same page forever
+      if (next === null || next === undefined || next === '' || next === value) {
+        stopReason = 'no_cursor';
+        break;
+      }
+      if (typeof next !== 'string' && typeof next !== 'number') {
+        throw new Error(`network_paginate: cursorPath "${pagination.cursorPath}" must resolve to a string or number (got ${typeof next})`);
+      }
+      value = next;
+    } else if (pagination.type === 'page') {
+      value = (value as number) + 1;
+    } else {
+      value = (value as number) + (pagination.pageSize ?? pageItems.length);
+    }
+  }
+
+  ctx.collectibles[step.params.out] = items;
+
+  if (step.params.saveAs && last) {
+    ctx.vars[step.params.saveAs] = {
+      status: last.status,
+      contentType: last.contentType,
+      body: last.body,
+      bodySize: last.bodySize,
+      pages,
+      stopReason,
+    };
+  }
+}
+
+/**
+ * Executes a network_paginate step by replaying the captured request in the browser context
+ */
+async function executeNetworkPaginate(
+  ctx: StepContext,
+  step: NetworkPaginateStep
+): Promise<void> {
+  const networkCapture = ctx.networkCapture;
+  if (!networkCapture) {
+    throw new Error(
+      'network_paginate requires an active browser session with network capture. Run the flow in a context that has network capture enabled.'
+    );
+  }
+  const requestId = step.params.requestId;
+  const entry = networkCapture.exportEntry(requestId);
+  if (!entry) {
+    throw new Error(
+      `network_paginate: Request not found: ${requestId}. Ensure a network_find step runs before network_paginate and triggers the request (use waitForMs in network_find to wait for it).`
+    );
+  }
+
+  await paginate(ctx, step, entry.postData, async (overrides) => {
+    const result = await networkCapture.replay(requestId, overrides);
+    if (ctx.authMonitor?.isEnabled() && ctx.currentStepId && ctx.authMonitor.isAuthFailure(entry.url, result.status)) {
+      ctx.authMonitor.recordFailure({
+        url: entry.url,
+        status: result.status,
+        stepId: ctx.currentStepId,
+      });
+    }
+    return result;
+  });
+}
+
+/**
+ * Execute a network_paginate step in HTTP-only mode using snapshot data.
+ */
+async function executeNetworkPaginateHttp(
+  ctx: StepContext,
+  step: NetworkPaginateStep
+): Promise<void> {
+  if (!ctx.snapshots) {
+    throw new Error('network_paginate in HTTP mode requires snapshots');
+  }
+  const snapshot = ctx.snapshots.snapshots[step.id];
+  if (!snapshot) {
+    throw new Error(`No snapshot found for step "${step.id}"`);
+  }
+
+  await paginate(ctx, step, snapshot.request.body, async (overrides) => {
+    const result = await replayFromSnapshot(mergeStepOverridesIntoSnapshot(snapshot, overrides), ctx.inputs, ctx.vars, {
+      secrets: ctx.secrets,
+      proxy: ctx.proxy,
+    });
+    // Validate every page — throw to trigger browser fallback if stale
+    const validation = validateResponse(snapshot, result);
+    if (!validation.valid) {
+      throw new Error(`Snapshot stale for step "${step.id}": ${validation.reason}`);
+    }
+    return result;
+  });
+}
+
+/**
+ * Executes a dom_scrape step — extracts structured data from repeating DOM elements
+ */
+async function executeDomScrape(
+  ctx: StepContext,
+  step: DomScrapeStep
+): Promise<void> {
+  // Support both legacy selector and new target
+  const targetOrAnyOf = step.params.target ?? (step.params.selector ? selectorToTarget(step.params.selector) : null);
+
+  if (!targetOrAnyOf) {
+    throw new Error('DomScrape step must have either "target" or "selector"');
+  }
+
+  // Resolve base elements with fallback and scope
+  const { locator: baseLocator, matchedTarget, matchedCount } = await resolveTargetWithFallback(
+    ctx.currentFrame ?? ctx.page,
+    targetOrAnyOf,
+    step.params.scope
+  );
+
+  if (step.params.hint) {
+    console.log(`[DomScrape:${step.id}] Matched target: ${JSON.stringify(matchedTarget)}, count: ${matchedCount}, hint: ${step.params.hint}`);
+  }
+
+  const skipEmpty = step.params.skip_empty ?? true;
+  const results: Record<string, unknown>[] = [];
+
+  for (let i = 0; i < matchedCount; i++) {
+    const baseElement = baseLocator.nth(i);
+    const item: Record<string, unknown> = {};
+
+    for (const field of step.params.collect) {
+      const childLocator = resolveTarget(baseElement, field.target);
+      const childCount = await childLocator.count();
+
+      if (childCount === 0) {
+        item[field.key] = null;
+        continue;
+      }
+
+      const child = childLocator.first();
+      const extractMode = field.extract ?? 'text';
+
+      switch (extractMode) {
+        case 'text': {
           const text = await child.textContent();
           item[field.key] = text?.trim() ?? null;
           break;
@@ -1200,6 +1869,930 @@ async function executeDomScrape(
   ctx.collectibles[step.params.out] = results;
 }
 
+/** Default page limit when extract_table follows a next-page control */
+const DEFAULT_TABLE_MAX_PAGES = 10;
+
+/** Default wait after clicking next for the table to update */
+const DEFAULT_TABLE_WAIT_MS = 1000;
+
+/**
+ * A table cell as read from the DOM, before rowspan/colspan expansion
+ */
+interface RawTableCell {
+  text: string;
+  header: boolean;
+  rowSpan: number;
+  colSpan: number;
+}
+
+/**
+ * A table row as read from the DOM
+ */
+interface RawTableRow {
+  section: 'head' | 'body' | 'foot';
+  cells: RawTableCell[];
+}
+
+/**
+ * A table row after span expansion: one value per column
+ */
+interface TableRow {
+  section: 'head' | 'body' | 'foot';
+  /** True when every cell of the row is a header cell (th / role=columnheader) */
+  header: boolean;
+  values: string[];
+}
+
+/**
+ * Reads the rows of a <table> or role=grid/table element. The callback runs in the browser;
+ * core is compiled without DOM typings, hence the structural casts.
+ */
+function readTableRows(table: Locator): Promise<RawTableRow[] | null> {
+  return table.evaluate((el) => {
+    interface CellEl {
+      tagName: string;
+      textContent: string | null;
+      rowSpan?: number;
+      colSpan?: number;
+      getAttribute(name: string): string | null;
+    }
+    interface RowEl {
+      parentElement: { tagName: string } | null;
+      cells?: ArrayLike<CellEl>;
+      querySelectorAll(selector: string): ArrayLike<CellEl>;
+    }
+    const root = el as unknown as {
+      tagName: string;
+      rows?: ArrayLike<RowEl>;
+      getAttribute(name: string): string | null;
+      querySelectorAll(selector: string): ArrayLike<RowEl>;
+    };
+    const isTable = root.tagName === 'TABLE';
+    if (!isTable && !['grid', 'table', 'treegrid'].includes(root.getAttribute('role') ?? '')) {
+      return null;
+    }
+    const span = (value: unknown): number => Math.max(1, Number(value) || 1);
+    const rows = isTable ? Array.from(root.rows ?? []) : Array.from(root.querySelectorAll('[role="row"]'));
+    return rows.map((row) => {
+      const cells = isTable
+        ? Array.from(row.cells ?? [])
+        : Array.from(row.querySelectorAll('[role="gridcell"], [role="cell"], [role="columnheader"], [role="rowheader"]'));
+      const parent = row.parentElement?.tagName;
+      return {
+        section: (isTable && parent === 'THEAD' ? 'head' : isTable && parent === 'TFOOT' ? 'foot' : 'body') as 'head' | 'body' | 'foot',
+        cells: cells.map((cell) => ({
+          text: (cell.textContent ?? '').replace(/\s+/g, ' ').trim(),
+          header: isTable ? cell.tagName === 'TH' : cell.getAttribute('role') === 'columnheader',
+          rowSpan: span(isTable ? cell.rowSpan : cell.getAttribute('aria-rowspan')),
+          colSpan: span(isTable ? cell.colSpan : cell.getAttribute('aria-colspan')),
+        })),
+      };
+    });
+  });
+}
+
+/**
+ * Expands rowspan/colspan so every row has one value per column.
+ * A spanning cell's text is repeated in each column and row it covers.
+ */
+function expandTableSpans(rows: RawTableRow[]): TableRow[] {
+  // Columns still covered by a rowspan from an earlier row
+  const carried = new Map<number, { text: string; remaining: number }>();
+  const result: TableRow[] = [];
+
+  for (const row of rows) {
+    const values: string[] = [];
+    for (const [col, carry] of carried) {
+      values[col] = carry.text;
+      carry.remaining--;
+      if (carry.remaining === 0) carried.delete(col);
+    }
+
+    let col = 0;
+    for (const cell of row.cells) {
+      while (values[col] !== undefined) col++;
+      for (let i = 0; i < cell.colSpan; i++) {
+        values[col + i] = cell.text;
+        if (cell.rowSpan > 1) {
+          carried.set(col + i, { text: cell.text, remaining: cell.rowSpan - 1 });
+        }
+      }
+      col += cell.colSpan;
+    }
+
+    result.push({
+      section: row.section,
+      header: row.cells.length > 0 && row.cells.every((cell) => cell.header),
+      values: Array.from(values, (value) => value ?? ''),
+    });
+  }
+  return result;
+}
+
+/**
+ * Derives one key per column from the header rows, applying the rename map.
+ * Missing headers become column_N; duplicate keys get a _2, _3, ... suffix.
+ */
+function tableKeys(headerRows: TableRow[], width: number, rename: Record<string, string> = {}): string[] {
+  const seen = new Map<string, number>();
+  const keys: string[] = [];
+  for (let col = 0; col < width; col++) {
+    const parts: string[] = [];
+    for (const row of headerRows) {
+      const text = row.values[col] ?? '';
+      // A header spanning several header rows contributes its text once
+      if (text && parts[parts.length - 1] !== text) parts.push(text);
+    }
+    const header = parts.join(' ') || `column_${col + 1}`;
+    const key = rename[header] ?? header;
+    const count = (seen.get(key) ?? 0) + 1;
+    seen.set(key, count);
+    keys.push(count > 1 ? `${key}_${count}` : key);
+  }
+  return keys;
+}
+
+/**
+ * Converts a table's rows into objects keyed by its header cells
+ */
+function tableToObjects(rawRows: RawTableRow[], step: ExtractTableStep): Record<string, string>[] {
+  const rows = expandTableSpans(rawRows);
+
+  // Header rows: <thead>, or the leading rows made only of header cells
+  let headerRows = rows.filter((row) => row.section === 'head');
+  if (headerRows.length === 0) {
+    let leading = 0;
+    while (leading < rows.length && rows[leading].header) leading++;
+    headerRows = rows.slice(0, leading);
+  }
+
+  let bodyRows = rows.filter((row) => row.section === 'body' && !headerRows.includes(row));
+  // Header rows repeated inside the body (common in long grids) are not data
+  bodyRows = bodyRows.filter((row) => !row.header);
+  bodyRows = bodyRows.slice(step.params.skipRows ?? 0);
+  if (step.params.skipFooterRows) {
+    bodyRows = bodyRows.slice(0, Math.max(0, bodyRows.length - step.params.skipFooterRows));
+  }
+  if (step.params.skip_empty ?? true) {
+    bodyRows = bodyRows.filter((row) => row.values.some((value) => value !== ''));
+  }
+
+  const width = Math.max(0, ...rows.map((row) => row.values.length));
+  const keys = tableKeys(headerRows, width, step.params.rename);
+  return bodyRows.map((row) => {
+    const item: Record<string, string> = {};
+    keys.forEach((key, col) => {
+      item[key] = row.values[col] ?? '';
+    });
+    return item;
+  });
+}
+
+/**
+ * Executes an extract_table step, following the next-page control when given
+ */
+async function executeExtractTable(
+  ctx: StepContext,
+  step: ExtractTableStep
+): Promise<void> {
+  const source = ctx.currentFrame ?? ctx.page;
+  const maxPages = step.params.next ? step.params.maxPages ?? DEFAULT_TABLE_MAX_PAGES : 1;
+  const waitMs = step.params.waitMs ?? DEFAULT_TABLE_WAIT_MS;
+
+  const readPage = async (): Promise<Record<string, string>[]> => {
+    const { locator, matchedTarget, matchedCount } = await resolveTargetWithFallback(
+      source,
+      step.params.target,
+      step.params.scope
+    );
+    if (matchedCount === 0) {
+      throw new Error(`extract_table: table not found: ${JSON.stringify(matchedTarget)}`);
+    }
+    if (step.params.hint) {
+      console.log(`[ExtractTable:${step.id}] Matched target: ${JSON.stringify(matchedTarget)}, count: ${matchedCount}, hint: ${step.params.hint}`);
+    }
+    const rawRows = await readTableRows(locator.first());
+    if (!rawRows) {
+      throw new Error(`extract_table: target is not a <table> or role=grid element: ${JSON.stringify(matchedTarget)}`);
+    }
+    return tableToObjects(rawRows, step);
+  };
+
+  let pageRows = await readPage();
+  const results = [...pageRows];
+
+  for (let pages = 1; pages < maxPages && step.params.next; pages++) {
+    let nextControl: Locator;
+    try {
+      const { locator, matchedCount } = await resolveTargetWithFallback(source, step.params.next, step.params.scope);
+      if (matchedCount === 0) break;
+      nextControl = locator.first();
+    } catch {
+      // anyOf throws when no target matches
+      break;
+    }
+    if (await nextControl.isDisabled() || await nextControl.getAttribute('aria-disabled') === 'true') break;
+
+    await nextControl.click();
+    await new Promise((resolve) => setTimeout(resolve, waitMs));
+
+    const nextRows = await readPage();
+    // A next control that no longer changes the table means we are on the last page
+    if (JSON.stringify(nextRows) === JSON.stringify(pageRows)) break;
+    results.push(...nextRows);
+    pageRows = nextRows;
+  }
+
+  ctx.collectibles[step.params.out] = results;
+}
+
+/** Default scroll limit for the scroll step */
+const DEFAULT_MAX_SCROLLS = 20;
+
+/** Default wait after each scroll for lazy-loaded content */
+const DEFAULT_SCROLL_WAIT_MS = 1000;
+
+/**
+ * Scroll position after a scroll, used to detect the end of the page/container
+ */
+interface ScrollMetrics {
+  top: number;
+  height: number;
+}
+
+/**
+ * Scrolls the page (or current frame) window. The callbacks run in the browser;
+ * core is compiled without DOM typings, hence the structural casts.
+ */
+function scrollWindow(source: Page | Frame, by: number | 'bottom'): Promise<ScrollMetrics> {
+  return source.evaluate((amount) => {
+    const win = globalThis as unknown as {
+      scrollBy(x: number, y: number): void;
+      scrollY: number;
+      document: { scrollingElement: { scrollHeight: number } | null; documentElement: { scrollHeight: number } };
+    };
+    const root = win.document.scrollingElement ?? win.document.documentElement;
+    win.scrollBy(0, amount === 'bottom' ? root.scrollHeight : amount);
+    return { top: win.scrollY, height: root.scrollHeight };
+  }, by);
+}
+
+/**
+ * Scrolls a scrollable container element
+ */
+function scrollContainer(container: Locator, by: number | 'bottom'): Promise<ScrollMetrics> {
+  return container.evaluate((el, amount) => {
+    const box = el as unknown as { scrollTop: number; scrollHeight: number };
+    box.scrollTop = amount === 'bottom' ? box.scrollHeight : box.scrollTop + amount;
+    return { top: box.scrollTop, height: box.scrollHeight };
+  }, by);
+}
+
+/**
+ * Executes a scroll step — scrolls repeatedly until the item count stops growing,
+ * the end is reached, or maxScrolls/maxItems is hit
+ */
+async function executeScroll(
+  ctx: StepContext,
+  step: ScrollStep
+): Promise<void> {
+  const source = ctx.currentFrame ?? ctx.page;
+  const by = step.params.by ?? 'bottom';
+  const maxScrolls = step.params.maxScrolls ?? DEFAULT_MAX_SCROLLS;
+  const maxItems = step.params.maxItems;
+  const waitMs = step.params.waitMs ?? DEFAULT_SCROLL_WAIT_MS;
+  const itemsTarget = step.params.items;
+
+  let container: Locator | undefined;
+  if (step.params.container) {
+    const { locator, matchedTarget, matchedCount } = await resolveTargetWithFallback(
+      source,
+      step.params.container,
+      step.params.scope
+    );
+    if (matchedCount === 0) {
+      throw new Error(`scroll: container not found: ${JSON.stringify(matchedTarget)}`);
+    }
+    container = locator.first();
+  }
+
+  const countItems = async (): Promise<number> => {
+    if (!itemsTarget) return 0;
+    try {
+      const { matchedCount } = await resolveTargetWithFallback(source, itemsTarget, step.params.scope);
+      return matchedCount;
+    } catch {
+      // anyOf throws when no target matches yet
+      return 0;
+    }
+  };
+
+  let itemCount = await countItems();
+  let scrolls = 0;
+  let stopReason: 'no_new_items' | 'end_reached' | 'max_items' | 'max_scrolls' = 'max_scrolls';
+  let lastMetrics: ScrollMetrics | undefined;
+
+  if (maxItems !== undefined && itemCount >= maxItems) {
+    stopReason = 'max_items';
+  } else {
+    while (scrolls < maxScrolls) {
+      const metrics = container ? await scrollContainer(container, by) : await scrollWindow(source, by);
+      scrolls++;
+      await new Promise((resolve) => setTimeout(resolve, waitMs));
+
+      if (itemsTarget) {
+        const newCount = await countItems();
+        const grew = newCount > itemCount;
+        itemCount = newCount;
+        if (maxItems !== undefined && itemCount >= maxItems) {
+          stopReason = 'max_items';
+          break;
+        }
+        if (!grew) {
+          stopReason = 'no_new_items';
+          break;
+        }
+      } else if (lastMetrics && metrics.top === lastMetrics.top && metrics.height === lastMetrics.height) {
+        stopReason = 'end_reached';
+        break;
+      }
+      lastMetrics = metrics;
+    }
+  }
+
+  if (step.params.hint) {
+    console.log(`[Scroll:${step.id}] ${scrolls} scroll(s), ${itemCount} item(s), stopped: ${stopReason}, hint: ${step.params.hint}`);
+  }
+
+  if (step.params.saveAs) {
+    ctx.vars[step.params.saveAs] = { scrolls, itemCount, stopReason };
+  }
+}
+
+const DEFAULT_DOWNLOAD_TIMEOUT_MS = 30000;
+
+/**
+ * Parses CSV text (RFC 4180 quoting) into row objects keyed by the header row
+ */
+function parseCsv(text: string): Record<string, string>[] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+
+  for (let i = 0; i < input.length; i++) {
+    const ch = input[i];
+    if (inQuotes) {
+      if (ch === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (ch === '"') {
+        inQuotes = false;
+      } else {
+        field += ch;
+      }
+    } else if (ch === '"') {
+      inQuotes = true;
+    } else if (ch === ',') {
+      row.push(field);
+      field = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && input[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += ch;
+    }
+  }
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  const nonEmpty = rows.filter((r) => r.length > 1 || r[0] !== '');
+  if (nonEmpty.length === 0) return [];
+  const [header, ...body] = nonEmpty;
+  return body.map((cells) => {
+    const record: Record<string, string> = {};
+    header.forEach((key, index) => {
+      record[key] = cells[index] ?? '';
+    });
+    return record;
+  });
+}
+
+/**
+ * Executes a download_file step
+ */
+async function executeDownloadFile(
+  ctx: StepContext,
+  step: DownloadFileStep
+): Promise<void> {
+  if (!ctx.artifacts) {
+    throw new Error('download_file: no artifacts directory available for this run');
+  }
+  const timeout = step.timeoutMs ?? DEFAULT_DOWNLOAD_TIMEOUT_MS;
+  const pending = ctx.pendingDownloads;
+
+  let download: Download;
+  if (step.params.target) {
+    const { locator, matchedTarget, matchedCount } = await resolveTargetWithFallback(
+      ctx.currentFrame ?? ctx.page,
+      step.params.target,
+      step.params.scope
+    );
+    if (step.params.hint) {
+      console.log(`[DownloadFile:${step.id}] Matched target: ${JSON.stringify(matchedTarget)}, count: ${matchedCount}, hint: ${step.params.hint}`);
+    }
+    const [started] = await Promise.all([
+      ctx.page.waitForEvent('download', { timeout }),
+      locator.first().click(),
+    ]);
+    download = started;
+  } else if (pending && pending.length > 0) {
+    download = pending[0];
+  } else {
+    download = await ctx.page.waitForEvent('download', { timeout });
+  }
+  // The page listener queues every download, including the one just claimed
+  if (pending) {
+    const index = pending.indexOf(download);
+    if (index !== -1) pending.splice(index, 1);
+  }
+
+  const failure = await download.failure();
+  if (failure) {
+    throw new Error(`download_file: download of "${download.suggestedFilename()}" failed: ${failure}`);
+  }
+  const path = await ctx.artifacts.saveDownload(download, step.params.filename);
+
+  const contents = readFileSync(path);
+  const info = {
+    path,
+    filename: basename(path),
+    size: contents.length,
+    sha256: createHash('sha256').update(contents).digest('hex'),
+  };
+
+  if (step.params.out) {
+    ctx.collectibles[step.params.out] = info;
+  }
+  if (step.params.saveAs) {
+    ctx.vars[step.params.saveAs] = info;
+  }
+
+  if (step.params.parseAs && step.params.contentOut) {
+    const text = contents.toString('utf-8');
+    let content: unknown;
+    if (step.params.parseAs === 'json') {
+      try {
+        content = JSON.parse(text) as unknown;
+      } catch (error) {
+        throw new Error(`download_file: "${info.filename}" is not valid JSON: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    } else if (step.params.parseAs === 'csv') {
+      content = parseCsv(text);
+    } else {
+      content = text;
+    }
+    ctx.collectibles[step.params.contentOut] = content;
+  }
+}
+
+/**
+ * Executes a handle_dialog step — arms a handler for dialogs opened by later steps
+ */
+async function executeHandleDialog(
+  ctx: StepContext,
+  step: HandleDialogStep
+): Promise<void> {
+  if (!ctx.dialogHandlers) {
+    throw new Error('handle_dialog requires a page dialog listener (browser mode)');
+  }
+  ctx.dialogHandlers.push({ stepId: step.id, params: step.params, vars: ctx.vars, logger: ctx.logger });
+}
+
+/**
+ * Responds to a native dialog with the most recently armed matching handler.
+ * One-shot handlers are removed once used; dialogs no handler matches are
+ * dismissed (Playwright's default) and logged without `handledBy`.
+ */
+export async function respondToDialog(
+  handlers: DialogHandler[],
+  dialog: Dialog,
+  logger?: Logger
+): Promise<void> {
+  const dialogType = dialog.type();
+  const message = dialog.message();
+
+  let handler: DialogHandler | undefined;
+  for (let i = handlers.length - 1; i >= 0; i--) {
+    const { params } = handlers[i];
+    if (params.dialogType && params.dialogType !== dialogType) continue;
+    if (params.expectMessageIncludes && !message.includes(params.expectMessageIncludes)) continue;
+    handler = handlers[i];
+    if (!params.persistent) handlers.splice(i, 1);
+    break;
+  }
+
+  if (!handler) {
+    console.warn(`[handle_dialog] Dismissing unexpected ${dialogType} dialog: ${message}`);
+    logger?.log({ type: 'dialog', data: { dialogType, message, action: 'dismiss' } });
+    await dialog.dismiss();
+    return;
+  }
+
+  const { action, promptText, saveAs } = handler.params;
+  if (saveAs) {
+    handler.vars[saveAs] = message;
+  }
+  (handler.logger ?? logger)?.log({
+    type: 'dialog',
+    data: { dialogType, message, action, handledBy: handler.stepId },
+  });
+  if (action === 'accept') {
+    await dialog.accept(promptText);
+  } else {
+    await dialog.dismiss();
+  }
+}
+
+/**
+ * Browser context of the run (cookies are shared by all tabs)
+ */
+function cookieContext(ctx: StepContext): BrowserContext {
+  return ctx.browserContext ?? ctx.page.context();
+}
+
+/**
+ * Returns true if a cookie domain (".example.com" or "example.com") is the domain or one of its subdomains
+ */
+function cookieDomainMatches(cookieDomain: string, domain: string): boolean {
+  const host = cookieDomain.replace(/^\./, '');
+  const wanted = domain.replace(/^\./, '');
+  return host === wanted || host.endsWith(`.${wanted}`);
+}
+
+/**
+ * Executes a set_cookies step
+ */
+async function executeSetCookies(
+  ctx: StepContext,
+  step: SetCookiesStep
+): Promise<void> {
+  const cookies = step.params.cookies.map((cookie) => {
+    if (cookie.url || cookie.domain) {
+      return cookie.domain && !cookie.url ? { ...cookie, path: cookie.path ?? '/' } : cookie;
+    }
+    const url = ctx.page.url();
+    if (!/^https?:/.test(url)) {
+      throw new Error(`set_cookies: cookie "${cookie.name}" needs "url" or "domain" (the page is at ${url})`);
+    }
+    return { ...cookie, url };
+  });
+  await cookieContext(ctx).addCookies(cookies);
+}
+
+/**
+ * Executes a get_cookies step
+ */
+async function executeGetCookies(
+  ctx: StepContext,
+  step: GetCookiesStep
+): Promise<void> {
+  const { name, domain, saveAs } = step.params;
+  const cookies = await cookieContext(ctx).cookies();
+  ctx.vars[saveAs] = cookies
+    .filter((cookie) => (!name || cookie.name === name) && (!domain || cookieDomainMatches(cookie.domain, domain)))
+    .map(({ name, value, domain, path, expires, httpOnly, secure, sameSite }) => ({
+      name, value, domain, path, expires, httpOnly, secure, sameSite,
+    }));
+}
+
+/**
+ * Executes a clear_cookies step
+ */
+async function executeClearCookies(
+  ctx: StepContext,
+  step: ClearCookiesStep
+): Promise<void> {
+  const { name, domain } = step.params;
+  const escaped = domain?.replace(/^\./, '').replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  await cookieContext(ctx).clearCookies({
+    name,
+    // Same subdomain matching as get_cookies
+    domain: escaped !== undefined ? new RegExp(`^\\.?(.+\\.)?${escaped}$`) : undefined,
+  });
+}
+
+/**
+ * Reads one key, or all entries, of the page's web storage. The callback runs
+ * in the browser; core is compiled without DOM typings, hence the structural cast.
+ */
+function readStorage(page: Page, area: WebStorageArea, key?: string): Promise<unknown> {
+  return page.evaluate(({ area, key }) => {
+    const storage = (globalThis as unknown as Record<string, {
+      getItem(key: string): string | null;
+      key(index: number): string | null;
+      length: number;
+    }>)[area === 'session' ? 'sessionStorage' : 'localStorage'];
+    if (key !== undefined) return storage.getItem(key);
+    const entries: Record<string, string | null> = {};
+    for (let i = 0; i < storage.length; i++) {
+      const name = storage.key(i);
+      if (name !== null) entries[name] = storage.getItem(name);
+    }
+    return entries;
+  }, { area, key });
+}
+
+/**
+ * Executes a get_storage step
+ */
+async function executeGetStorage(
+  ctx: StepContext,
+  step: GetStorageStep
+): Promise<void> {
+  ctx.vars[step.params.saveAs] = await readStorage(ctx.page, step.params.storage ?? 'local', step.params.key);
+}
+
+/**
+ * Executes a set_storage step
+ */
+async function executeSetStorage(
+  ctx: StepContext,
+  step: SetStorageStep
+): Promise<void> {
+  await ctx.page.evaluate(({ area, values }) => {
+    const storage = (globalThis as unknown as Record<string, { setItem(key: string, value: string): void }>)[
+      area === 'session' ? 'sessionStorage' : 'localStorage'
+    ];
+    for (const [key, value] of Object.entries(values)) {
+      storage.setItem(key, value);
+    }
+  }, { area: step.params.storage ?? 'local', values: step.params.values });
+}
+
+const DEFAULT_HUMAN_PAUSE_MS = 300_000;
+const RESUME_WHEN_POLL_MS = 1000;
+
+/**
+ * Executes a pause_for_human step — waits until the operator continues, resumeWhen
+ * holds, or maxWaitMs passes (which fails the step)
+ */
+async function executePauseForHuman(
+  ctx: StepContext,
+  step: PauseForHumanStep
+): Promise<void> {
+  if (!ctx.onHumanPause) {
+    throw new HumanInputUnavailableError(step.id);
+  }
+  const { message, resumeWhen } = step.params;
+  const maxWaitMs = step.params.maxWaitMs ?? DEFAULT_HUMAN_PAUSE_MS;
+  const request: HumanPauseRequest = {
+    stepId: step.id,
+    message,
+    maxWaitMs,
+    resumeWhen: resumeWhen ? conditionToString(resumeWhen) : undefined,
+  };
+  const startedAt = Date.now();
+  const controller = new AbortController();
+  // Withdraw the operator prompt when the run is cancelled
+  const onRunAbort = () => controller.abort();
+  ctx.signal?.addEventListener('abort', onRunAbort, { once: true });
+
+  ctx.logger?.log({ type: 'human_pause_started', data: request });
+
+  const waiters: Array<Promise<'continued' | 'condition_met' | 'timeout'>> = [
+    ctx.onHumanPause(request, controller.signal).then(() => 'continued' as const),
+    new Promise((resolve) => {
+      const timer = setTimeout(() => resolve('timeout'), maxWaitMs);
+      controller.signal.addEventListener('abort', () => clearTimeout(timer));
+    }),
+  ];
+  if (resumeWhen) {
+    waiters.push((async () => {
+      while (!controller.signal.aborted) {
+        await new Promise((resolve) => setTimeout(resolve, RESUME_WHEN_POLL_MS));
+        if (controller.signal.aborted) break;
+        const met = await evaluateCondition(
+          { page: ctx.page, vars: ctx.vars, networkCapture: ctx.networkCapture },
+          resumeWhen
+        ).catch(() => false);
+        if (met) return 'condition_met' as const;
+      }
+      return 'timeout' as const;
+    })());
+  }
+
+  let reason: 'continued' | 'condition_met' | 'timeout';
+  try {
+    reason = await Promise.race(waiters);
+  } finally {
+    ctx.signal?.removeEventListener('abort', onRunAbort);
+    controller.abort();
+  }
+
+  ctx.logger?.log({ type: 'human_pause_ended', data: { stepId: step.id, reason, waitedMs: Date.now() - startedAt } });
+  if (reason === 'timeout') {
+    throw new Error(`pause_for_human: no operator response within ${maxWaitMs}ms`);
+  }
+}
+
+/**
+ * Resolves a for_each "items" reference: "{{vars.x}}" / "{{inputs.x}}" (with optional
+ * dotted path) or the name of a collectible. Returns the raw value, not a rendered string.
+ */
+function resolveItemsReference(ctx: StepContext, ref: string): unknown {
+  const match = ref.trim().match(/^\{\{\s*(vars|inputs)\.([\w$]+(?:\.[\w$]+)*)\s*\}\}$/);
+  if (match) {
+    let value: unknown = match[1] === 'vars' ? ctx.vars : ctx.inputs;
+    for (const segment of match[2].split('.')) {
+      if (value === null || value === undefined || typeof value !== 'object') {
+        return undefined;
+      }
+      value = (value as Record<string, unknown>)[segment];
+    }
+    return value;
+  }
+  if (ref in ctx.collectibles) {
+    return ctx.collectibles[ref];
+  }
+  throw new Error(
+    `for_each: "items" must be a {{vars.x}} / {{inputs.x}} reference or the name of a collectible, got "${ref}"`
+  );
+}
+
+/**
+ * Executes a for_each step — runs the nested steps once per item.
+ * Collectibles written inside an iteration are gathered into one record per item
+ * and removed again, so only "out" reaches the flow's collectibles.
+ */
+async function executeForEach(
+  ctx: StepContext,
+  step: ForEachStep
+): Promise<void> {
+  if (!ctx.runSteps) {
+    throw new Error('for_each requires the flow interpreter to run nested steps');
+  }
+
+  const items = resolveItemsReference(ctx, step.params.items);
+  if (!Array.isArray(items)) {
+    const actual = items === null ? 'null' : typeof items;
+    throw new Error(`for_each: "items" (${step.params.items}) resolved to ${actual}, expected an array`);
+  }
+
+  const as = step.params.as ?? 'item';
+  const indexAs = step.params.indexAs ?? 'index';
+  const count = step.params.maxIterations !== undefined
+    ? Math.min(items.length, step.params.maxIterations)
+    : items.length;
+
+  // Remember outer values of the loop variables so they can be restored afterwards
+  const outerVars = new Map<string, { had: boolean; value: unknown }>();
+  for (const name of [as, indexAs]) {
+    outerVars.set(name, { had: name in ctx.vars, value: ctx.vars[name] });
+  }
+
+  const results: Record<string, unknown>[] = [];
+  try {
+    for (let i = 0; i < count; i++) {
+      ctx.vars[as] = items[i];
+      ctx.vars[indexAs] = i;
+      const collectiblesBefore = { ...ctx.collectibles };
+
+      await ctx.runSteps(step.params.steps, { parentStepId: step.id, iteration: i });
+
+      const written = Object.keys(ctx.collectibles).filter(
+        (key) => !(key in collectiblesBefore) || collectiblesBefore[key] !== ctx.collectibles[key]
+      );
+      const record: Record<string, unknown> = {};
+      for (const key of step.params.collect ?? written) {
+        record[key] = ctx.collectibles[key] ?? null;
+      }
+      results.push(record);
+
+      // Iteration-scoped: undo collectible writes made by the nested steps
+      for (const key of written) {
+        if (key in collectiblesBefore) {
+          ctx.collectibles[key] = collectiblesBefore[key];
+        } else {
+          delete ctx.collectibles[key];
+        }
+      }
+    }
+  } finally {
+    for (const [name, outer] of outerVars) {
+      if (outer.had) {
+        ctx.vars[name] = outer.value;
+      } else {
+        delete ctx.vars[name];
+      }
+    }
+  }
+
+  if (step.params.out) {
+    ctx.collectibles[step.params.out] = results;
+  }
+}
+
+/**
+ * Executes an if step — evaluates the condition and runs the matching branch
+ */
+async function executeIf(
+  ctx: StepContext,
+  step: IfStep
+): Promise<void> {
+  if (!ctx.runSteps) {
+    throw new Error('if requires the flow interpreter to run nested steps');
+  }
+
+  const conditionMet = await evaluateCondition(
+    { page: ctx.page, vars: ctx.vars, networkCapture: ctx.networkCapture },
+    step.params.condition
+  );
+  const branch = conditionMet ? 'then' : step.params.else ? 'else' : 'none';
+
+  ctx.logger?.log({
+    type: 'branch_taken',
+    data: {
+      stepId: step.id,
+      branch,
+      condition: conditionToString(step.params.condition),
+    },
+  });
+
+  if (branch === 'none') return;
+  await ctx.runSteps(step.params[branch]!, { parentStepId: step.id, branch });
+}
+
+/**
+ * Resolves a call_pack input value. A string that is a single {{vars.x}} / {{inputs.x}}
+ * reference keeps its raw value; other strings are rendered as templates.
+ */
+function resolveCallPackInput(ctx: StepContext, value: unknown): unknown {
+  if (typeof value === 'string') {
+    if (/^\{\{\s*(vars|inputs)\.[\w$]+(?:\.[\w$]+)*\s*\}\}$/.test(value.trim())) {
+      return resolveItemsReference(ctx, value);
+    }
+    return resolveTemplate(value, { inputs: ctx.inputs, vars: ctx.vars, secrets: ctx.secrets ?? {} });
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => resolveCallPackInput(ctx, item));
+  }
+  if (value !== null && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, resolveCallPackInput(ctx, item)])
+    );
+  }
+  return value;
+}
+
+/**
+ * Executes a call_pack step — runs another pack's flow on the same page and
+ * maps its collectibles into this flow's collectibles (out) or vars (saveAs)
+ */
+async function executeCallPack(
+  ctx: StepContext,
+  step: CallPackStep
+): Promise<void> {
+  if (!ctx.runPack) {
+    throw new Error('call_pack requires the flow interpreter to run other packs');
+  }
+
+  const inputs = resolveCallPackInput(ctx, step.params.inputs ?? {}) as Record<string, unknown>;
+  const result = await ctx.runPack({
+    stepId: step.id,
+    pack: step.params.pack,
+    version: step.params.version,
+    inputs,
+  });
+
+  const mappings: Array<[Record<string, string> | undefined, Record<string, unknown>]> = [
+    [step.params.out, ctx.collectibles],
+    [step.params.saveAs, ctx.vars],
+  ];
+  for (const [mapping, target] of mappings) {
+    for (const [childName, name] of Object.entries(mapping ?? {})) {
+      if (!(childName in result.collectibles)) {
+        throw new Error(
+          `call_pack: pack "${step.params.pack}" does not declare collectible "${childName}". ` +
+          `Declared: ${Object.keys(result.collectibles).join(', ') || '(none)'}`
+        );
+      }
+      target[name] = result.collectibles[childName];
+    }
+  }
+
+  if (result.hints && result.hints.length > 0) {
+    const existingHints = (ctx.vars['__jmespath_hints'] as string[]) || [];
+    ctx.vars['__jmespath_hints'] = [...existingHints, ...result.hints];
+  }
+}
+
 /**
  * Executes a single DSL step
  */
@@ -1209,6 +2802,11 @@ export async function executeStep(
 ): Promise<void> {
   // In HTTP mode, skip DOM/setup steps and use snapshot replay for network_replay
   if (ctx.httpMode) {
+    if (step.type === 'assert') {
+      // Data checks (vars, collectibles, predicate) do not need the page
+      await executeAssert(ctx, step);
+      return;
+    }
     if (HTTP_MODE_SKIP_STEPS.has(step.type)) {
       return; // silently skip
     }
@@ -1216,7 +2814,11 @@ export async function executeStep(
       await executeNetworkReplayHttp(ctx, step);
       return;
     }
-    // network_extract, set_var, sleep execute normally below
+    if (step.type === 'network_paginate') {
+      await executeNetworkPaginateHttp(ctx, step);
+      return;
+    }
+    // network_extract, set_var, sleep and control-flow steps execute normally below
   }
 
   switch (step.type) {
@@ -1241,6 +2843,18 @@ export async function executeStep(
     case 'click':
       await executeClick(ctx, step);
       break;
+    case 'hover':
+      await executeHover(ctx, step);
+      break;
+    case 'check':
+      await executeCheck(ctx, step);
+      break;
+    case 'dblclick':
+      await executeDblclick(ctx, step);
+      break;
+    case 'drag_to':
+      await executeDragTo(ctx, step);
+      break;
     case 'fill':
       await executeFill(ctx, step);
       break;
@@ -1253,12 +2867,21 @@ export async function executeStep(
     case 'network_find':
       await executeNetworkFind(ctx, step);
       break;
+    case 'wait_for_response':
+      await executeWaitForResponse(ctx, step);
+      break;
     case 'network_replay':
       await executeNetworkReplay(ctx, step);
       break;
+    case 'network_paginate':
+      await executeNetworkPaginate(ctx, step);
+      break;
     case 'network_extract':
       await executeNetworkExtract(ctx, step);
       break;
+    case 'transform':
+      await executeTransform(ctx, step);
+      break;
     case 'select_option':
       await executeSelectOption(ctx, step);
       break;
@@ -1280,6 +2903,49 @@ export async function executeStep(
     case 'dom_scrape':
       await executeDomScrape(ctx, step);
       break;
+    case 'extract_table':
+      await executeExtractTable(ctx, step);
+      break;
+    case 'scroll':
+      await executeScroll(ctx, step);
+      break;
+    case 'download_file':
+      await executeDownloadFile(ctx, step);
+      break;
+    case 'handle_dialog':
+      await executeHandleDialog(ctx, step);
+      break;
+    case 'set_cookies':
+      await executeSetCookies(ctx, step);
+      break;
+    case 'get_cookies':
+      await executeGetCookies(ctx, step);
+      break;
+    case 'clear_cookies':
+      await executeClearCookies(ctx, step);
+      break;
+    case 'get_storage':
+      await executeGetStorage(ctx, step);
+      break;
+    case 'set_storage':
+      await executeSetStorage(ctx, step);
+      break;
+    case 'pause_for_human':
+      await executePauseForHuman(ctx, step);
+      break;
+    case 'for_each':
+      await executeForEach(ctx, step);
+      break;
+    case 'if':
+      await executeIf(ctx, step);
+      break;
+    case 'call_pack':
+      await executeCallPack(ctx, step);
+      break;
+    case 'include':
+      throw new Error(
+        `include step "${step.id}" was not expanded; fragments are inlined by TaskPackLoader when the pack is loaded`
+      );
     default:
       // TypeScript exhaustiveness check
       const _exhaustive: never = step;
@@ -5,6 +5,8 @@
  * All steps are plain objects (JSON-serializable) with no functions.
  */
 
+import type { NetworkFindWhere } from '../networkCapture.js';
+
 /**
  * Per-step error handling options
  */
@@ -44,7 +46,10 @@ export type PlaywrightRole =
   | 'log'
   | 'marquee'
   | 'status'
-  | 'timer';
+  | 'timer'
+  | 'grid'
+  | 'table'
+  | 'treegrid';
 
 /**
  * Target strategies for element selection
@@ -94,12 +99,47 @@ export type SkipCondition =
   | { url_matches: string }
   | { element_visible: TargetOrAnyOf }
   | { element_exists: TargetOrAnyOf }
+  /** A captured response matching network_find-style filters has been seen (browser mode) */
+  | { response_seen: NetworkFindWhere }
   | { var_equals: { name: string; value: unknown } }
   | { var_truthy: string }
   | { var_falsy: string }
+  /** Var is a number (or numeric string) greater than value */
+  | { var_gt: { name: string; value: number } }
+  /** Var is a number (or numeric string) less than value */
+  | { var_lt: { name: string; value: number } }
+  /** Var, as a string, matches the regex pattern */
+  | { var_matches: { name: string; pattern: string } }
+  /** Var is an array whose length is within the bounds */
+  | { array_length: { name: string; eq?: number; min?: number; max?: number } }
+  | { not: SkipCondition }
   | { all: SkipCondition[] }
   | { any: SkipCondition[] };
 
+/**
+ * Retry policy for a single step
+ */
+export interface StepRetryPolicy {
+  /** Total number of attempts, including the first one */
+  attempts: number;
+  /** Delay before the first retry in milliseconds (default: 1000) */
+  backoffMs?: number;
+  /** Multiplier applied to the delay after each retry (default: 2) */
+  backoffFactor?: number;
+  /**
+   * Which failures are retried. Without retryOn every error is retried;
+   * otherwise an error is retried when any of the given filters matches.
+   */
+  retryOn?: {
+    /** Regex tested against the error message */
+    errorMatches?: string;
+    /** network_replay response statuses that fail the attempt and are retried (e.g. [429, 502, 503]) */
+    status?: number[];
+    /** Retry timeouts (step timeoutMs, Playwright waits, HTTP replay timeouts) */
+    timeout?: boolean;
+  };
+}
+
 /**
  * Base step interface with common fields
  */
@@ -134,6 +174,11 @@ export interface BaseDslStep {
    * the step is skipped with reason 'condition_met'.
    */
   skip_if?: SkipCondition;
+  /**
+   * Retry policy: re-run the step on failure with exponential backoff.
+   * Each attempt is logged as a step_attempt event.
+   */
+  retry?: StepRetryPolicy;
 }
 
 /**
@@ -268,6 +313,97 @@ export interface ClickStep extends BaseDslStep {
   };
 }
 
+/**
+ * Hover step - moves the mouse over an element (e.g. to open hover menus)
+ */
+export interface HoverStep extends BaseDslStep {
+  type: 'hover';
+  params: {
+    /**
+     * Target for element selection (human-stable selectors)
+     */
+    target: TargetOrAnyOf;
+    /**
+     * Optional metadata for Teach Mode
+     */
+    hint?: string;
+    scope?: Target;
+    near?: { kind: 'text'; text: string; exact?: boolean };
+  };
+}
+
+/**
+ * Check step - sets a checkbox or radio button to a checked state.
+ * Idempotent: does nothing if the element is already in the requested state.
+ */
+export interface CheckStep extends BaseDslStep {
+  type: 'check';
+  params: {
+    /**
+     * Target for element selection (human-stable selectors)
+     */
+    target: TargetOrAnyOf;
+    /**
+     * Desired state (default: true). Use false to uncheck.
+     */
+    checked?: boolean;
+    /**
+     * Optional metadata for Teach Mode
+     */
+    hint?: string;
+    scope?: Target;
+    near?: { kind: 'text'; text: string; exact?: boolean };
+  };
+}
+
+/**
+ * Double-click step - double-clicks an element
+ */
+export interface DblclickStep extends BaseDslStep {
+  type: 'dblclick';
+  params: {
+    /**
+     * Target for element selection (human-stable selectors)
+     */
+    target: TargetOrAnyOf;
+    /**
+     * Wait for element to be visible before double-clicking (default: true)
+     */
+    waitForVisible?: boolean;
+    /**
+     * Optional metadata for Teach Mode
+     */
+    hint?: string;
+    scope?: Target;
+    near?: { kind: 'text'; text: string; exact?: boolean };
+  };
+}
+
+/**
+ * Drag step - drags one element onto another (e.g. sortable lists)
+ */
+export interface DragToStep extends BaseDslStep {
+  type: 'drag_to';
+  params: {
+    /**
+     * Element to drag
+     */
+    source: TargetOrAnyOf;
+    /**
+     * Element to drop onto
+     */
+    destination: TargetOrAnyOf;
+    /**
+     * Optional metadata for Teach Mode
+     */
+    hint?: string;
+    /**
+     * Scope applied to both source and destination
+     */
+    scope?: Target;
+  };
+}
+
 /**
  * Fill step - fills an input field
  */
@@ -352,10 +488,37 @@ export interface AssertStep extends BaseDslStep {
      * Assert element text includes value (requires target/selector)
      */
     textIncludes?: string;
+    /**
+     * Assert element text matches a regex (requires target/selector)
+     */
+    textMatches?: string;
+    /**
+     * Assert an attribute of the element equals a value (requires target/selector)
+     */
+    attributeEquals?: { name: string; value: string };
+    /**
+     * Assert how many elements the target matches (requires target/selector).
+     * Replaces the existence check, so { eq: 0 } asserts the element is absent.
+     */
+    count?: { eq?: number; min?: number; max?: number };
     /**
      * Assert URL includes value
      */
     urlIncludes?: string;
+    /**
+     * Assert a var or collectible (vars checked first) is set and not empty
+     * (null, "", [] and {} count as empty)
+     */
+    notEmpty?: string;
+    /**
+     * Assert the length of an array var or collectible is within a range
+     */
+    arrayLength?: { of: string; min?: number; max?: number };
+    /**
+     * Assert a JMESPath expression over { vars, collectibles, inputs } is truthy
+     * (false, null, "", [] and {} are falsy), e.g. "length(collectibles.rows) > `0`"
+     */
+    predicate?: string;
     /**
      * Custom error message if assertion fails
      */
@@ -369,6 +532,17 @@ export interface AssertStep extends BaseDslStep {
   };
 }
 
+/**
+ * One failed check of an assert step, reported in the step's error event
+ */
+export interface AssertionFailure {
+  /** The assert param that failed, e.g. "count", "textMatches", "predicate" */
+  check: string;
+  message: string;
+  expected?: unknown;
+  actual?: unknown;
+}
+
 /**
  * Set variable step - sets a variable for use in templating
  */
@@ -404,6 +578,28 @@ export interface NetworkFindStep extends BaseDslStep {
   };
 }
 
+/**
+ * Wait for response step - blocks until a captured response matches the filters
+ */
+export interface WaitForResponseStep extends BaseDslStep {
+  type: 'wait_for_response';
+  params: {
+    /**
+     * Same filters as network_find. A response that arrived after the previous step
+     * started (e.g. the click that triggered it) counts; otherwise waits for the next one.
+     */
+    where: NetworkFindWhere;
+    /**
+     * Optional vars key for the matched requestId (usable as network_replay requestId)
+     */
+    saveAs?: string;
+    /**
+     * How long to wait, in milliseconds (default: 30000)
+     */
+    waitForMs?: number;
+  };
+}
+
 /**
  * Network replay step - replay a captured request (optionally with overrides), store result
  */
@@ -438,6 +634,60 @@ export interface NetworkReplayStep extends BaseDslStep {
   };
 }
 
+/**
+ * How network_paginate advances from one page to the next.
+ * `param` is the query parameter (in: "query", default) or JSON body field (in: "body")
+ * that receives the page value.
+ */
+export type NetworkPaginationStrategy =
+  | {
+      /** Next cursor is read from the previous response; the first page is sent as captured */
+      type: 'cursor';
+      param: string;
+      in?: 'query' | 'body';
+      /** JMESPath to the next cursor in each response. Stops when it is missing or empty. */
+      cursorPath: string;
+    }
+  | {
+      /** Page number, starting at `start` (default 1) and incremented by 1 */
+      type: 'page';
+      param: string;
+      in?: 'query' | 'body';
+      start?: number;
+    }
+  | {
+      /** Item offset, starting at `start` (default 0) and advanced by `pageSize` (default: items on the previous page) */
+      type: 'offset';
+      param: string;
+      in?: 'query' | 'body';
+      start?: number;
+      pageSize?: number;
+    };
+
+/**
+ * Network paginate step - replay a captured request page by page and concatenate the items
+ */
+export interface NetworkPaginateStep extends BaseDslStep {
+  type: 'network_paginate';
+  params: {
+    requestId: string; // may be template "{{vars.lastReq}}"
+    /** Applied to every page (same format as network_replay overrides) */
+    overrides?: NetworkReplayStep['params']['overrides'];
+    auth: 'browser_context';
+    pagination: NetworkPaginationStrategy;
+    /**
+     * JMESPath to the array of items in each page response (e.g. "data.results").
+     * A page with no items ends pagination.
+     */
+    itemsPath: string;
+    /** Maximum number of pages to request (default: 20) */
+    maxPages?: number;
+    out: string; // collectible key for the concatenated items
+    /** Optional vars key for the last page response plus { pages, stopReason } */
+    saveAs?: string;
+  };
+}
+
 /**
  * Network extract step - extract from a previously replayed response stored in vars
  */
@@ -458,6 +708,34 @@ export interface NetworkExtractStep extends BaseDslStep {
   };
 }
 
+/**
+ * Transform step - reshapes vars and collectibles with a JMESPath expression (no network or DOM access)
+ */
+export interface TransformStep extends BaseDslStep {
+  type: 'transform';
+  params: {
+    /**
+     * Named inputs for the expression: name -> var or collectible key (vars are checked first).
+     * The expression runs against an object of these names, e.g. { a: ..., b: ... }.
+     */
+    sources: Record<string, string>;
+    /**
+     * JMESPath expression applied to the sources object.
+     * Examples: "[a, b][]", "items[?price > `10`]", "items[*].{id: id, total: price}"
+     * For backward compatibility, JSONPath-style "$." prefix is auto-stripped.
+     */
+    expression: string;
+    /**
+     * Collectible key for the result
+     */
+    out?: string;
+    /**
+     * Vars key for the result
+     */
+    saveAs?: string;
+  };
+}
+
 /**
  * Select option step - selects an option from a dropdown/select element
  */
@@ -665,6 +943,438 @@ export interface DomScrapeStep extends BaseDslStep {
   };
 }
 
+/**
+ * Extract table step - turns a <table> or role=grid element into an array of row objects
+ */
+export interface ExtractTableStep extends BaseDslStep {
+  type: 'extract_table';
+  params: {
+    /**
+     * The <table> or role=grid/table element
+     */
+    target: TargetOrAnyOf;
+    /**
+     * Renames keys derived from header cells: header text -> key.
+     * Header cells spanning several header rows are joined with a space (e.g. "Q1 Revenue").
+     * Columns without header text are keyed column_1, column_2, ...
+     */
+    rename?: Record<string, string>;
+    /**
+     * Body rows to skip after the header rows (default: 0)
+     */
+    skipRows?: number;
+    /**
+     * Trailing body rows to skip, e.g. totals rows (default: 0). <tfoot> rows are always skipped.
+     */
+    skipFooterRows?: number;
+    /**
+     * If true (default), drop rows where all cells are empty
+     */
+    skip_empty?: boolean;
+    /**
+     * "Next page" control for paginated grids. Clicked until it is missing or disabled,
+     * the table stops changing, or maxPages is reached.
+     */
+    next?: TargetOrAnyOf;
+    /**
+     * Maximum number of pages to read when following next (default: 10)
+     */
+    maxPages?: number;
+    /**
+     * Wait after clicking next for the table to update, in milliseconds (default: 1000)
+     */
+    waitMs?: number;
+    /**
+     * Collectible key to store the result array
+     */
+    out: string;
+    /**
+     * Optional metadata for Teach Mode
+     */
+    hint?: string;
+    scope?: Target;
+  };
+}
+
+/**
+ * Scroll step - scrolls the page or a container, optionally until lazy-loaded items stop appearing
+ */
+export interface ScrollStep extends BaseDslStep {
+  type: 'scroll';
+  params: {
+    /**
+     * Scrollable element to scroll instead of the page
+     */
+    container?: TargetOrAnyOf;
+    /**
+     * Pixels per scroll, or "bottom" to jump to the end of the page/container (default: "bottom")
+     */
+    by?: number | 'bottom';
+    /**
+     * Items to count after each scroll. Scrolling stops when their count stops growing.
+     * Without items, scrolling stops when the end of the page/container is reached.
+     */
+    items?: TargetOrAnyOf;
+    /**
+     * Maximum number of scrolls (default: 20)
+     */
+    maxScrolls?: number;
+    /**
+     * Stop once at least this many items are present (requires items)
+     */
+    maxItems?: number;
+    /**
+     * Wait after each scroll for content to load, in milliseconds (default: 1000)
+     */
+    waitMs?: number;
+    /**
+     * Optional vars key for { scrolls, itemCount, stopReason }
+     */
+    saveAs?: string;
+    /**
+     * Optional metadata for Teach Mode
+     */
+    hint?: string;
+    scope?: Target;
+  };
+}
+
+/**
+ * Download file step - captures a browser download into the run's artifacts directory
+ */
+export interface DownloadFileStep extends BaseDslStep {
+  type: 'download_file';
+  params: {
+    /**
+     * Element to click to trigger the download. Without a target, the step
+     * takes the download started by a previous step (or waits for one).
+     */
+    target?: TargetOrAnyOf;
+    /**
+     * File name to save as (default: the name suggested by the site)
+     */
+    filename?: string;
+    /**
+     * Parse the downloaded contents into the `contentOut` collectible.
+     * csv yields an array of row objects keyed by the header row.
+     */
+    parseAs?: 'csv' | 'json' | 'text';
+    /**
+     * Collectible key for the parsed contents (required with parseAs)
+     */
+    contentOut?: string;
+    /**
+     * Optional collectible key for { path, filename, size, sha256 }
+     */
+    out?: string;
+    /**
+     * Optional vars key for { path, filename, size, sha256 }
+     */
+    saveAs?: string;
+    /**
+     * Optional metadata for Teach Mode
+     */
+    hint?: string;
+    scope?: Target;
+  };
+}
+
+/**
+ * Native dialog kinds (Playwright Dialog.type())
+ */
+export type DialogType = 'alert' | 'confirm' | 'prompt' | 'beforeunload';
+
+/**
+ * Handle dialog step - arms a handler for native dialogs (alert, confirm, prompt,
+ * beforeunload) opened by later steps. Dialogs no handler matches are dismissed
+ * and logged as `dialog` events.
+ */
+export interface HandleDialogStep extends BaseDslStep {
+  type: 'handle_dialog';
+  params: {
+    /**
+     * Accept (OK) or dismiss (Cancel) the dialog
+     */
+    action: 'accept' | 'dismiss';
+    /**
+     * Text to enter into a prompt dialog (accept only)
+     */
+    promptText?: string;
+    /**
+     * Only handle dialogs whose message contains this text
+     */
+    expectMessageIncludes?: string;
+    /**
+     * Only handle dialogs of this kind
+     */
+    dialogType?: DialogType;
+    /**
+     * Keep handling matching dialogs for the rest of the run (default: only the next one)
+     */
+    persistent?: boolean;
+    /**
+     * Optional vars key for the message of the handled dialog
+     */
+    saveAs?: string;
+  };
+}
+
+/**
+ * A cookie for set_cookies. Without url or domain, the cookie is set for the current page URL.
+ */
+export interface CookieDefinition {
+  name: string;
+  value: string;
+  url?: string;
+  domain?: string;
+  path?: string;
+  /**
+   * Unix time in seconds (default: session cookie)
+   */
+  expires?: number;
+  httpOnly?: boolean;
+  secure?: boolean;
+  sameSite?: 'Strict' | 'Lax' | 'None';
+}
+
+/**
+ * Set cookies step - adds cookies to the browser context (e.g. a known consent cookie)
+ */
+export interface SetCookiesStep extends BaseDslStep {
+  type: 'set_cookies';
+  params: {
+    cookies: CookieDefinition[];
+  };
+}
+
+/**
+ * Get cookies step - reads browser context cookies into a var
+ */
+export interface GetCookiesStep extends BaseDslStep {
+  type: 'get_cookies';
+  params: {
+    /**
+     * Only cookies with this name
+     */
+    name?: string;
+    /**
+     * Only cookies for this domain or its subdomains
+     */
+    domain?: string;
+    /**
+     * Vars key for the matching cookies ({ name, value, domain, path, expires, httpOnly, secure, sameSite }[])
+     */
+    saveAs: string;
+  };
+}
+
+/**
+ * Clear cookies step - removes browser context cookies (all, or those matching name/domain)
+ */
+export interface ClearCookiesStep extends BaseDslStep {
+  type: 'clear_cookies';
+  params: {
+    name?: string;
+    domain?: string;
+  };
+}
+
+/**
+ * Web storage area of the current page's origin
+ */
+export type WebStorageArea = 'local' | 'session';
+
+/**
+ * Get storage step - reads localStorage/sessionStorage of the current page into a var
+ */
+export interface GetStorageStep extends BaseDslStep {
+  type: 'get_storage';
+  params: {
+    /**
+     * Storage area (default: "local")
+     */
+    storage?: WebStorageArea;
+    /**
+     * Key to read (its value, or null when unset). Without a key, all entries are saved as an object.
+     */
+    key?: string;
+    saveAs: string;
+  };
+}
+
+/**
+ * Set storage step - writes entries into localStorage/sessionStorage of the current page
+ */
+export interface SetStorageStep extends BaseDslStep {
+  type: 'set_storage';
+  params: {
+    /**
+     * Storage area (default: "local")
+     */
+    storage?: WebStorageArea;
+    /**
+     * Entries to write (key → value)
+     */
+    values: Record<string, string>;
+  };
+}
+
+/**
+ * Pause for human step - suspends a headful run until an operator continues it
+ * (e.g. after solving a CAPTCHA) or resumeWhen holds. Runs without an operator
+ * prompt (headless, MCP) fail with HUMAN_INPUT_UNAVAILABLE.
+ */
+export interface PauseForHumanStep extends BaseDslStep {
+  type: 'pause_for_human';
+  params: {
+    /**
+     * What the operator should do, shown in the dashboard prompt
+     */
+    message: string;
+    /**
+     * Resume without the operator once this condition holds (checked every second)
+     */
+    resumeWhen?: SkipCondition;
+    /**
+     * Maximum time to wait before the step fails, in milliseconds (default: 300000)
+     */
+    maxWaitMs?: number;
+  };
+}
+
+/**
+ * For each step - runs a nested list of steps once per item of an array
+ */
+export interface ForEachStep extends BaseDslStep {
+  type: 'for_each';
+  params: {
+    /**
+     * Array to iterate. Either a single template reference
+     * ("{{vars.results}}", "{{inputs.ids}}") or the name of a collectible.
+     * Dotted paths are supported inside the reference (e.g. "{{vars.resp.items}}").
+     */
+    items: string;
+    /**
+     * Variable name bound to the current item (default: "item").
+     * Nested steps read it via {{vars.item}} / {{vars.item.field}}.
+     */
+    as?: string;
+    /**
+     * Variable name bound to the current 0-based index (default: "index")
+     */
+    indexAs?: string;
+    /**
+     * Steps to run for every item
+     */
+    steps: DslStep[];
+    /**
+     * Collectible keys written by nested steps to gather per iteration.
+     * Defaults to every collectible written during the iteration.
+     * Gathered keys are iteration-scoped and do not leak into the flow's collectibles.
+     */
+    collect?: string[];
+    /**
+     * Collectible key to store the array of per-iteration results
+     */
+    out?: string;
+    /**
+     * Upper bound on the number of iterations (extra items are ignored)
+     */
+    maxIterations?: number;
+  };
+}
+
+/**
+ * If step - runs one of two nested step lists depending on a condition
+ */
+export interface IfStep extends BaseDslStep {
+  type: 'if';
+  params: {
+    /**
+     * Condition to evaluate (same grammar as skip_if)
+     */
+    condition: SkipCondition;
+    /**
+     * Steps to run when the condition is true
+     */
+    then: DslStep[];
+    /**
+     * Steps to run when the condition is false (optional)
+     */
+    else?: DslStep[];
+  };
+}
+
+/**
+ * Call pack step - runs a sibling task pack's flow as a sub-flow on the same page
+ */
+export interface CallPackStep extends BaseDslStep {
+  type: 'call_pack';
+  params: {
+    /**
+     * ID of the pack to run (taskpack.json id), looked up next to the calling pack's directory
+     */
+    pack: string;
+    /**
+     * Required pack version; the call fails if the pack's metadata.version differs
+     */
+    version?: string;
+    /**
+     * Inputs for the called pack. Values may be templates; a value that is a single
+     * "{{vars.x}}" / "{{inputs.x}}" reference passes the raw value (arrays, numbers, ...).
+     */
+    inputs?: Record<string, unknown>;
+    /**
+     * Maps the called pack's collectibles to collectibles of this flow: child name -> name
+     */
+    out?: Record<string, string>;
+    /**
+     * Maps the called pack's collectibles to vars of this flow: child name -> var name
+     */
+    saveAs?: Record<string, string>;
+  };
+}
+
+/**
+ * Include step - replaced by the steps of a named fragment when the pack is loaded
+ */
+export interface IncludeStep extends BaseDslStep {
+  type: 'include';
+  params: {
+    /**
+     * Fragment name (flow.json "fragments" key or fragments/<name>.json)
+     */
+    fragment: string;
+    /**
+     * Values for the fragment's params, substituted for {{params.name}}
+     */
+    with?: Record<string, unknown>;
+  };
+}
+
+/**
+ * A declared fragment parameter
+ */
+export interface FlowFragmentParam {
+  /**
+   * Value used when the include step does not pass one; params without a default are required
+   */
+  default?: unknown;
+  description?: string;
+}
+
+/**
+ * Reusable list of steps, inlined by include steps
+ */
+export interface FlowFragment {
+  description?: string;
+  /**
+   * Parameters referenced as {{params.name}} in the fragment's steps
+   */
+  params?: Record<string, FlowFragmentParam>;
+  steps: DslStep[];
+}
+
 /**
  * Union type of all supported DSL steps
  */
@@ -676,19 +1386,46 @@ export type DslStep =
   | SleepStep
   | WaitForStep
   | ClickStep
+  | HoverStep
+  | CheckStep
+  | DblclickStep
+  | DragToStep
   | FillStep
   | AssertStep
   | SetVarStep
   | NetworkFindStep
+  | WaitForResponseStep
   | NetworkReplayStep
+  | NetworkPaginateStep
   | NetworkExtractStep
+  | TransformStep
   | SelectOptionStep
   | PressKeyStep
   | UploadFileStep
   | FrameStep
   | NewTabStep
   | SwitchTabStep
-  | DomScrapeStep;
+  | DomScrapeStep
+  | ExtractTableStep
+  | ScrollStep
+  | DownloadFileStep
+  | HandleDialogStep
+  | SetCookiesStep
+  | GetCookiesStep
+  | ClearCookiesStep
+  | GetStorageStep
+  | SetStorageStep
+  | PauseForHumanStep
+  | ForEachStep
+  | IfStep
+  | CallPackStep
+  | IncludeStep;
+
+/**
+ * Step blocks flow.json can define next to "flow": on_failure runs after the
+ * flow fails, finally after it ends either way
+ */
+export type FlowBlockName = 'on_failure' | 'finally';
 
 /**
  * Options for running a flow
@@ -700,6 +1437,130 @@ export interface RunFlowOptions {
   stopOnError?: boolean;
 }
 
+/**
+ * A pause_for_human request handed to the host running the flow
+ */
+export interface HumanPauseRequest {
+  stepId: string;
+  message: string;
+  maxWaitMs: number;
+  /**
+   * resumeWhen as text (see conditionToString), if set
+   */
+  resumeWhen?: string;
+}
+
+/**
+ * Prompts an operator during pause_for_human. Resolves when the operator
+ * continues the run; `signal` aborts when the pause ends without them
+ * (resumeWhen held or the wait timed out), so the prompt can be withdrawn.
+ */
+export type HumanPauseHandler = (request: HumanPauseRequest, signal: AbortSignal) => Promise<void>;
+
+/**
+ * Why the debugger paused: a breakpoint, stepping mode, or a failed step
+ */
+export type DebugPauseReason = 'breakpoint' | 'step' | 'error';
+
+/**
+ * State of a debug run paused before a top-level step (or after it failed)
+ */
+export interface DebugPause {
+  stepId: string;
+  /**
+   * 0-based index of the step in the flow
+   */
+  stepIndex: number;
+  type: DslStep['type'];
+  reason: DebugPauseReason;
+  /**
+   * Error of the failed step (reason "error"), or why edited params were rejected
+   */
+  error?: string;
+  /**
+   * The step's params before templating, including edits from earlier commands
+   */
+  params: DslStep['params'];
+  /**
+   * Current vars and collectibles (secret values redacted)
+   */
+  vars: Record<string, unknown>;
+  collectibles: Record<string, unknown>;
+  /**
+   * JPEG screenshot of the page, base64-encoded (absent in HTTP-only mode or if it failed)
+   */
+  screenshot?: string;
+}
+
+/**
+ * What a paused debug run does next:
+ * - continue: run the step, then run on to the next breakpoint
+ * - step: run the step, then pause before the next one
+ * - skip: skip the step (a failed step counts as skipped rather than failed)
+ * - rerun: run the failed step again, or the previous step when paused before one,
+ *   then pause before the next step
+ *
+ * When a step failed, continue and step apply its usual error handling
+ * (optional, onError, stopOnError).
+ */
+export type DebugAction = 'continue' | 'step' | 'skip' | 'rerun';
+
+/**
+ * Command that resumes a paused debug run
+ */
+export interface DebugCommand {
+  action: DebugAction;
+  /**
+   * Replaces the paused step's params for the rest of the run (templates allowed)
+   */
+  params?: DslStep['params'];
+  /**
+   * Replaces the breakpoints (step IDs)
+   */
+  breakpoints?: string[];
+}
+
+/**
+ * Hands a paused debug run to the debugger and resolves with its command;
+ * `signal` aborts when the run is cancelled.
+ */
+export type DebugPauseHandler = (pause: DebugPause, signal: AbortSignal) => Promise<DebugCommand>;
+
+/**
+ * Debug mode for runFlow: pauses before top-level steps with a breakpoint
+ * (or before every one) and after failed steps. Steps nested in for_each,
+ * if and call_pack are not paused on.
+ */
+export interface DebugOptions {
+  /**
+   * IDs of top-level steps to pause before
+   */
+  breakpoints?: string[];
+  /**
+   * Pause before every top-level step (default: false)
+   */
+  pauseOnEveryStep?: boolean;
+  onPause: DebugPauseHandler;
+}
+
+/**
+ * Identifies where a nested step runs; merged into its log events
+ */
+export interface NestedStepScope {
+  /**
+   * ID of the control-flow step that owns the nested steps
+   */
+  parentStepId: string;
+  /**
+   * 0-based iteration index (for_each)
+   */
+  iteration?: number;
+  /**
+   * Branch being executed (if)
+   */
+  branch?: 'then' | 'else';
+}
+
 /**
  * Variable context for templating
  */
@@ -732,3 +1593,17 @@ export interface RunFlowResult {
    */
   _vars?: Record<string, unknown>;
 }
+
+/**
+ * Partial results the interpreter attaches to the error that stopped a flow
+ */
+export interface PartialRunResult {
+  collectibles: Record<string, unknown>;
+  stepsExecuted: number;
+  failedStepId?: string;
+}
+
+/**
+ * Error carrying the partial results of the flow it stopped
+ */
+export type ErrorWithPartialResult = Error & { partialResult?: PartialRunResult };
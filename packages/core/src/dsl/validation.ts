@@ -1,4 +1,5 @@
 import type { DslStep, Target, TargetOrAnyOf, SkipCondition } from './types.js';
+import { NESTED_STEP_PARAMS } from './blocks.js';
 
 /**
  * Validation errors
@@ -61,7 +62,7 @@ function validateTarget(target: unknown, errors?: string[], prefix?: string): bo
         'menuitem', 'option', 'radio', 'searchbox', 'slider', 'switch', 'tab',
         'tabpanel', 'textbox', 'treeitem', 'article', 'banner', 'complementary',
         'contentinfo', 'form', 'main', 'navigation', 'region', 'search', 'alert',
-        'log', 'marquee', 'status', 'timer'
+        'log', 'marquee', 'status', 'timer', 'grid', 'table', 'treegrid'
       ];
       if (!validRoles.includes(t.role as string)) {
         addError(errors, `${pfx}Role target must have a valid role: ${validRoles.join(', ')}`);
@@ -140,13 +141,14 @@ function validateTargetOrAnyOf(targetOrAnyOf: unknown, errors?: string[], prefix
 }
 
 /**
- * Validates a SkipCondition
+ * Validates a SkipCondition. `label` names the field in messages (skip_if, or the
+ * "condition" of an if step).
  */
-function validateSkipCondition(condition: unknown, errors?: string[], prefix?: string): void {
+function validateSkipCondition(condition: unknown, errors?: string[], prefix?: string, label = 'skip_if'): void {
   const pfx = prefix ? `${prefix}: ` : '';
 
   if (!condition || typeof condition !== 'object') {
-    addError(errors, `${pfx}skip_if condition must be an object`);
+    addError(errors, `${pfx}${label} condition must be an object`);
     return;
   }
 
@@ -154,7 +156,7 @@ function validateSkipCondition(condition: unknown, errors?: string[], prefix?: s
   const keys = Object.keys(c);
 
   if (keys.length !== 1) {
-    addError(errors, `${pfx}skip_if condition must have exactly one key`);
+    addError(errors, `${pfx}${label} condition must have exactly one key`);
     return;
   }
 
@@ -163,19 +165,19 @@ function validateSkipCondition(condition: unknown, errors?: string[], prefix?: s
   switch (key) {
     case 'url_includes':
       if (typeof c.url_includes !== 'string' || !c.url_includes) {
-        addError(errors, `${pfx}skip_if "url_includes" must be a non-empty string`);
+        addError(errors, `${pfx}${label} "url_includes" must be a non-empty string`);
       }
       break;
 
     case 'url_matches':
       if (typeof c.url_matches !== 'string' || !c.url_matches) {
-        addError(errors, `${pfx}skip_if "url_matches" must be a non-empty string`);
+        addError(errors, `${pfx}${label} "url_matches" must be a non-empty string`);
       } else {
         // Validate it's a valid regex
         try {
           new RegExp(c.url_matches);
         } catch {
-          addError(errors, `${pfx}skip_if "url_matches" must be a valid regex`);
+          addError(errors, `${pfx}${label} "url_matches" must be a valid regex`);
         }
       }
       break;
@@ -190,14 +192,14 @@ function validateSkipCondition(condition: unknown, errors?: string[], prefix?: s
 
     case 'var_equals': {
       if (!c.var_equals || typeof c.var_equals !== 'object') {
-        addError(errors, `${pfx}skip_if "var_equals" must be an object`);
+        addError(errors, `${pfx}${label} "var_equals" must be an object`);
       } else {
         const varEquals = c.var_equals as Record<string, unknown>;
         if (typeof varEquals.name !== 'string' || !varEquals.name) {
-          addError(errors, `${pfx}skip_if "var_equals.name" must be a non-empty string`);
+          addError(errors, `${pfx}${label} "var_equals.name" must be a non-empty string`);
         }
         if (varEquals.value === undefined) {
-          addError(errors, `${pfx}skip_if "var_equals.value" is required`);
+          addError(errors, `${pfx}${label} "var_equals.value" is required`);
         }
       }
       break;
@@ -205,43 +207,401 @@ function validateSkipCondition(condition: unknown, errors?: string[], prefix?: s
 
     case 'var_truthy':
       if (typeof c.var_truthy !== 'string' || !c.var_truthy) {
-        addError(errors, `${pfx}skip_if "var_truthy" must be a non-empty string`);
+        addError(errors, `${pfx}${label} "var_truthy" must be a non-empty string`);
       }
       break;
 
     case 'var_falsy':
       if (typeof c.var_falsy !== 'string' || !c.var_falsy) {
-        addError(errors, `${pfx}skip_if "var_falsy" must be a non-empty string`);
+        addError(errors, `${pfx}${label} "var_falsy" must be a non-empty string`);
       }
       break;
 
+    case 'var_gt':
+    case 'var_lt': {
+      const comparison = c[key] as Record<string, unknown> | null;
+      if (!comparison || typeof comparison !== 'object') {
+        addError(errors, `${pfx}${label} "${key}" must be an object with name and value`);
+      } else {
+        if (typeof comparison.name !== 'string' || !comparison.name) {
+          addError(errors, `${pfx}${label} "${key}.name" must be a non-empty string`);
+        }
+        if (typeof comparison.value !== 'number') {
+          addError(errors, `${pfx}${label} "${key}.value" must be a number`);
+        }
+      }
+      break;
+    }
+
+    case 'var_matches': {
+      const varMatches = c.var_matches as Record<string, unknown> | null;
+      if (!varMatches || typeof varMatches !== 'object') {
+        addError(errors, `${pfx}${label} "var_matches" must be an object with name and pattern`);
+      } else {
+        if (typeof varMatches.name !== 'string' || !varMatches.name) {
+          addError(errors, `${pfx}${label} "var_matches.name" must be a non-empty string`);
+        }
+        if (typeof varMatches.pattern !== 'string' || !varMatches.pattern) {
+          addError(errors, `${pfx}${label} "var_matches.pattern" must be a non-empty string`);
+        } else {
+          try {
+            new RegExp(varMatches.pattern);
+          } catch {
+            addError(errors, `${pfx}${label} "var_matches.pattern" must be a valid regex`);
+          }
+        }
+      }
+      break;
+    }
+
+    case 'array_length': {
+      const arrayLength = c.array_length as Record<string, unknown> | null;
+      if (!arrayLength || typeof arrayLength !== 'object') {
+        addError(errors, `${pfx}${label} "array_length" must be an object with name and eq/min/max`);
+      } else {
+        if (typeof arrayLength.name !== 'string' || !arrayLength.name) {
+          addError(errors, `${pfx}${label} "array_length.name" must be a non-empty string`);
+        }
+        const bounds = ['eq', 'min', 'max'].filter((bound) => arrayLength[bound] !== undefined);
+        if (bounds.length === 0) {
+          addError(errors, `${pfx}${label} "array_length" must set at least one of: eq, min, max`);
+        }
+        for (const bound of bounds) {
+          const value = arrayLength[bound];
+          if (typeof value !== 'number' || !Number.isInteger(value) || value < 0) {
+            addError(errors, `${pfx}${label} "array_length.${bound}" must be a non-negative integer`);
+          }
+        }
+      }
+      break;
+    }
+
+    case 'response_seen': {
+      const whereErrors: string[] = [];
+      const where = c.response_seen;
+      if (!where || typeof where !== 'object' || Array.isArray(where) || Object.keys(where).length === 0) {
+        whereErrors.push(`${pfx}${label} "response_seen" must be a non-empty object of network_find "where" filters`);
+      } else {
+        validateNetworkWhere(where, label, prefix ?? '', whereErrors, 'response_seen');
+      }
+      for (const message of whereErrors) {
+        addError(errors, message);
+      }
+      break;
+    }
+
+    case 'not':
+      validateSkipCondition(c.not, errors, prefix, label);
+      break;
+
     case 'all':
       if (!Array.isArray(c.all) || c.all.length === 0) {
-        addError(errors, `${pfx}skip_if "all" must be a non-empty array`);
+        addError(errors, `${pfx}${label} "all" must be a non-empty array`);
       } else {
         for (const subCondition of c.all) {
-          validateSkipCondition(subCondition, errors, prefix);
+          validateSkipCondition(subCondition, errors, prefix, label);
         }
       }
       break;
 
     case 'any':
       if (!Array.isArray(c.any) || c.any.length === 0) {
-        addError(errors, `${pfx}skip_if "any" must be a non-empty array`);
+        addError(errors, `${pfx}${label} "any" must be a non-empty array`);
       } else {
         for (const subCondition of c.any) {
-          validateSkipCondition(subCondition, errors, prefix);
+          validateSkipCondition(subCondition, errors, prefix, label);
         }
       }
       break;
 
     default:
       addError(errors,
-        `${pfx}Unknown skip_if condition type: ${key}. Valid types: url_includes, url_matches, element_visible, element_exists, var_equals, var_truthy, var_falsy, all, any`
+        `${pfx}Unknown ${label} condition type: ${key}. Valid types: url_includes, url_matches, element_visible, element_exists, response_seen, var_equals, var_truthy, var_falsy, var_gt, var_lt, var_matches, array_length, not, all, any`
       );
   }
 }
 
+const COOKIE_FIELDS = new Set(['name', 'value', 'url', 'domain', 'path', 'expires', 'httpOnly', 'secure', 'sameSite']);
+
+/**
+ * Validates one cookie of a set_cookies step
+ */
+function validateCookie(cookie: unknown, label: string, errors: string[]): void {
+  if (!cookie || typeof cookie !== 'object' || Array.isArray(cookie)) {
+    errors.push(`${label} must be an object with name and value`);
+    return;
+  }
+  const c = cookie as Record<string, unknown>;
+  for (const key of Object.keys(c)) {
+    if (!COOKIE_FIELDS.has(key)) {
+      errors.push(`${label} "${key}" is not a valid field. Valid fields: ${[...COOKIE_FIELDS].join(', ')}`);
+    }
+  }
+  if (typeof c.name !== 'string' || !c.name) {
+    errors.push(`${label} must have a non-empty string "name"`);
+  }
+  if (typeof c.value !== 'string') {
+    errors.push(`${label} must have a string "value"`);
+  }
+  for (const key of ['url', 'domain', 'path']) {
+    if (c[key] !== undefined && (typeof c[key] !== 'string' || !c[key])) {
+      errors.push(`${label} "${key}" must be a non-empty string`);
+    }
+  }
+  if (c.expires !== undefined && typeof c.expires !== 'number') {
+    errors.push(`${label} "expires" must be a number (Unix time in seconds)`);
+  }
+  for (const key of ['httpOnly', 'secure']) {
+    if (c[key] !== undefined && typeof c[key] !== 'boolean') {
+      errors.push(`${label} "${key}" must be a boolean`);
+    }
+  }
+  if (c.sameSite !== undefined && !['Strict', 'Lax', 'None'].includes(c.sameSite as string)) {
+    errors.push(`${label} "sameSite" must be "Strict", "Lax" or "None"`);
+  }
+}
+
+/**
+ * Validates a NetworkFindWhere filter (network_find, wait_for_response, response_seen
+ * conditions). `owner` and `field` name it in messages, e.g. NetworkFind step "where.status".
+ */
+function validateNetworkWhere(
+  where: unknown,
+  owner: string,
+  prefix: string,
+  errors: string[],
+  field = 'where'
+): void {
+  const pfx = prefix ? `${prefix}: ` : '';
+  if (!where || typeof where !== 'object') {
+    errors.push(`${pfx}${owner} must have a "${field}" object in params`);
+  } else {
+    const filters = where as Record<string, unknown>;
+    // Check for unknown where fields
+    const validWhereFields = new Set(['urlIncludes', 'urlRegex', 'method', 'status', 'contentTypeIncludes', 'responseContains']);
+    for (const key of Object.keys(filters)) {
+      if (!validWhereFields.has(key)) {
+        errors.push(`${pfx}${owner} "${field}.${key}" is not a valid field (unknown fields are silently ignored). Valid fields: ${[...validWhereFields].join(', ')}`);
+      }
+    }
+    if (filters.urlIncludes !== undefined && typeof filters.urlIncludes !== 'string') {
+      errors.push(`${pfx}${owner} "${field}.urlIncludes" must be a string`);
+    }
+    if (filters.urlRegex !== undefined) {
+      if (typeof filters.urlRegex !== 'string') {
+        errors.push(`${pfx}${owner} "${field}.urlRegex" must be a string`);
+      } else {
+        try {
+          new RegExp(filters.urlRegex);
+        } catch {
+          errors.push(`${pfx}${owner} "${field}.urlRegex" is not a valid regex`);
+        }
+      }
+    }
+    if (filters.method !== undefined) {
+      const validMethods = ['GET', 'POST', 'PUT', 'DELETE', 'PATCH'];
+      if (!validMethods.includes(filters.method as string)) {
+        errors.push(`${pfx}${owner} "${field}.method" must be one of: ${validMethods.join(', ')}`);
+      }
+    }
+    if (filters.status !== undefined && (typeof filters.status !== 'number' || filters.status < 0)) {
+      errors.push(`${pfx}${owner} "${field}.status" must be a non-negative number`);
+    }
+    if (filters.contentTypeIncludes !== undefined && typeof filters.contentTypeIncludes !== 'string') {
+      errors.push(`${pfx}${owner} "${field}.contentTypeIncludes" must be a string`);
+    }
+    if (filters.responseContains !== undefined) {
+      if (typeof filters.responseContains !== 'string') {
+        errors.push(`${pfx}${owner} "${field}.responseContains" must be a string`);
+      } else if (filters.responseContains.length > 2000) {
+        errors.push(`${pfx}${owner} "${field}.responseContains" must be at most 2000 characters`);
+      }
+    }
+  }
+}
+
+/**
+ * Validates the target, hint, scope and near params shared by target-only
+ * interaction steps (hover, check, dblclick)
+ */
+function validateInteractionTarget(
+  params: Record<string, unknown>,
+  stepLabel: string,
+  prefix: string,
+  errors: string[]
+): void {
+  if (!params.target) {
+    errors.push(`${prefix}: ${stepLabel} step must have a "target" in params`);
+  } else {
+    validateTargetOrAnyOf(params.target, errors, prefix);
+  }
+  if (params.hint !== undefined && typeof params.hint !== 'string') {
+    errors.push(`${prefix}: ${stepLabel} step "hint" must be a string`);
+  }
+  if (params.scope !== undefined) {
+    validateTarget(params.scope, errors, prefix);
+  }
+  if (params.near !== undefined && params.near !== null) {
+    const near = params.near as Record<string, unknown>;
+    if (typeof near !== 'object' || near.kind !== 'text') {
+      errors.push(`${prefix}: ${stepLabel} step "near" must be an object with kind: "text"`);
+    } else {
+      if (typeof near.text !== 'string') {
+        errors.push(`${prefix}: ${stepLabel} step "near.text" must be a string`);
+      }
+      if (near.exact !== undefined && typeof near.exact !== 'boolean') {
+        errors.push(`${prefix}: ${stepLabel} step "near.exact" must be a boolean`);
+      }
+    }
+  }
+}
+
+/**
+ * Validates an assert range such as count { eq, min, max } (non-negative integers)
+ */
+function validateAssertRange(
+  range: unknown,
+  keys: string[],
+  label: string,
+  errors: string[],
+  prefix: string
+): void {
+  if (typeof range !== 'object' || range === null || Array.isArray(range)) {
+    errors.push(`${prefix}: Assert step "${label}" must be an object with ${keys.join('/')}`);
+    return;
+  }
+  const entries = Object.entries(range as Record<string, unknown>);
+  if (entries.length === 0) {
+    errors.push(`${prefix}: Assert step "${label}" must set at least one of: ${keys.join(', ')}`);
+  }
+  for (const [key, value] of entries) {
+    if (!keys.includes(key)) {
+      errors.push(`${prefix}: Assert step "${label}.${key}" is not supported (use ${keys.join(', ')})`);
+    } else if (typeof value !== 'number' || !Number.isInteger(value) || value < 0) {
+      errors.push(`${prefix}: Assert step "${label}.${key}" must be a non-negative integer`);
+    }
+  }
+}
+
+/**
+ * Validates a step's retry policy
+ */
+function validateRetryPolicy(retry: unknown, errors: string[], prefix: string): void {
+  if (!retry || typeof retry !== 'object' || Array.isArray(retry)) {
+    errors.push(`${prefix}: "retry" must be an object`);
+    return;
+  }
+  const r = retry as Record<string, unknown>;
+  if (typeof r.attempts !== 'number' || !Number.isInteger(r.attempts) || r.attempts < 1) {
+    errors.push(`${prefix}: "retry.attempts" must be a positive integer`);
+  }
+  if (r.backoffMs !== undefined && (typeof r.backoffMs !== 'number' || r.backoffMs < 0)) {
+    errors.push(`${prefix}: "retry.backoffMs" must be a non-negative number`);
+  }
+  if (r.backoffFactor !== undefined && (typeof r.backoffFactor !== 'number' || r.backoffFactor < 1)) {
+    errors.push(`${prefix}: "retry.backoffFactor" must be a number >= 1`);
+  }
+  if (r.retryOn === undefined) return;
+  if (!r.retryOn || typeof r.retryOn !== 'object' || Array.isArray(r.retryOn)) {
+    errors.push(`${prefix}: "retry.retryOn" must be an object`);
+    return;
+  }
+  const retryOn = r.retryOn as Record<string, unknown>;
+  for (const key of Object.keys(retryOn)) {
+    if (key !== 'errorMatches' && key !== 'status' && key !== 'timeout') {
+      errors.push(`${prefix}: Unknown "retry.retryOn" key "${key}". Valid keys: errorMatches, status, timeout`);
+    }
+  }
+  if (retryOn.errorMatches !== undefined) {
+    if (typeof retryOn.errorMatches !== 'string' || !retryOn.errorMatches) {
+      errors.push(`${prefix}: "retry.retryOn.errorMatches" must be a non-empty string`);
+    } else {
+      try {
+        new RegExp(retryOn.errorMatches);
+      } catch {
+        errors.push(`${prefix}: "retry.retryOn.errorMatches" must be a valid regex`);
+      }
+    }
+  }
+  if (retryOn.status !== undefined) {
+    if (
+      !Array.isArray(retryOn.status) ||
+      retryOn.status.length === 0 ||
+      !retryOn.status.every((st) => typeof st === 'number' && Number.isInteger(st) && st >= 100 && st <= 599)
+    ) {
+      errors.push(`${prefix}: "retry.retryOn.status" must be a non-empty array of HTTP status codes`);
+    }
+  }
+  if (retryOn.timeout !== undefined && typeof retryOn.timeout !== 'boolean') {
+    errors.push(`${prefix}: "retry.retryOn.timeout" must be a boolean`);
+  }
+}
+
+/**
+ * Validates network_replay-style overrides (shared by network_replay and network_paginate)
+ */
+function validateReplayOverrides(value: unknown, stepLabel: string, prefix: string, errors: string[]): void {
+  const SENSITIVE_HEADERS = new Set([
+    'authorization',
+    'cookie',
+    'set-cookie',
+    'x-api-key',
+    'proxy-authorization',
+  ]);
+  if (value && typeof value === 'object') {
+    const overrides = value as Record<string, unknown>;
+    if (overrides.setHeaders && typeof overrides.setHeaders === 'object') {
+      for (const key of Object.keys(overrides.setHeaders as Record<string, unknown>)) {
+        if (SENSITIVE_HEADERS.has(key.toLowerCase())) {
+          errors.push(`${prefix}: ${stepLabel} step "overrides.setHeaders" cannot set sensitive header: ${key}`);
+        }
+      }
+    }
+    if (overrides.urlReplace !== undefined) {
+      const urlItems = Array.isArray(overrides.urlReplace)
+        ? overrides.urlReplace as unknown[]
+        : [overrides.urlReplace];
+      for (const ur of urlItems) {
+        if (!ur || typeof ur !== 'object' || Array.isArray(ur)) {
+          errors.push(`${prefix}: ${stepLabel} step "overrides.urlReplace" items must be { find: string, replace: string }`);
+          continue;
+        }
+        const item = ur as Record<string, unknown>;
+        if (typeof item.find !== 'string' || typeof item.replace !== 'string') {
+          errors.push(`${prefix}: ${stepLabel} step "overrides.urlReplace" must have string "find" and "replace"`);
+        } else {
+          try {
+            new RegExp(item.find);
+          } catch {
+            errors.push(`${prefix}: ${stepLabel} step "overrides.urlReplace.find" is not a valid regex`);
+          }
+        }
+      }
+    }
+    if (overrides.bodyReplace !== undefined) {
+      const bodyItems = Array.isArray(overrides.bodyReplace)
+        ? overrides.bodyReplace as unknown[]
+        : [overrides.bodyReplace];
+      for (const br of bodyItems) {
+        if (!br || typeof br !== 'object' || Array.isArray(br)) {
+          errors.push(`${prefix}: ${stepLabel} step "overrides.bodyReplace" items must be { find: string, replace: string }`);
+          continue;
+        }
+        const item = br as Record<string, unknown>;
+        if (typeof item.find !== 'string' || typeof item.replace !== 'string') {
+          errors.push(`${prefix}: ${stepLabel} step "overrides.bodyReplace" must have string "find" and "replace"`);
+        } else {
+          try {
+            new RegExp(item.find);
+          } catch {
+            errors.push(`${prefix}: ${stepLabel} step "overrides.bodyReplace.find" is not a valid regex`);
+          }
+        }
+      }
+    }
+  }
+}
+
 /**
  * Allowed params per step type — used to reject unknown/hallucinated keys.
  */
@@ -252,13 +612,20 @@ const ALLOWED_PARAMS: Record<string, string[]> = {
   sleep: ['durationMs'],
   wait_for: ['selector', 'target', 'url', 'loadState', 'visible', 'timeoutMs', 'hint', 'scope', 'near'],
   click: ['selector', 'target', 'first', 'waitForVisible', 'hint', 'scope', 'near'],
+  hover: ['target', 'hint', 'scope', 'near'],
+  check: ['target', 'checked', 'hint', 'scope', 'near'],
+  dblclick: ['target', 'waitForVisible', 'hint', 'scope', 'near'],
+  drag_to: ['source', 'destination', 'hint', 'scope'],
   fill: ['selector', 'target', 'value', 'first', 'clear', 'hint', 'scope', 'near'],
   extract_attribute: ['selector', 'target', 'attribute', 'out', 'first', 'default', 'hint', 'scope', 'near'],
-  assert: ['selector', 'target', 'visible', 'textIncludes', 'urlIncludes', 'message', 'hint', 'scope', 'near'],
+  assert: ['selector', 'target', 'visible', 'textIncludes', 'textMatches', 'attributeEquals', 'count', 'urlIncludes', 'notEmpty', 'arrayLength', 'predicate', 'message', 'hint', 'scope', 'near'],
   set_var: ['name', 'value'],
   network_find: ['where', 'pick', 'saveAs', 'waitForMs', 'pollIntervalMs'],
+  wait_for_response: ['where', 'saveAs', 'waitForMs'],
   network_replay: ['requestId', 'overrides', 'auth', 'out', 'saveAs', 'response'],
+  network_paginate: ['requestId', 'overrides', 'auth', 'pagination', 'itemsPath', 'maxPages', 'out', 'saveAs'],
   network_extract: ['fromVar', 'as', 'path', 'jsonPath', 'transform', 'out'],
+  transform: ['sources', 'expression', 'out', 'saveAs'],
   select_option: ['selector', 'target', 'value', 'first', 'hint', 'scope', 'near'],
   press_key: ['key', 'selector', 'target', 'times', 'delayMs', 'hint', 'scope', 'near'],
   upload_file: ['selector', 'target', 'files', 'first', 'hint', 'scope', 'near'],
@@ -266,12 +633,27 @@ const ALLOWED_PARAMS: Record<string, string[]> = {
   new_tab: ['url', 'saveTabIndexAs'],
   switch_tab: ['tab', 'closeCurrentTab'],
   dom_scrape: ['selector', 'target', 'collect', 'skip_empty', 'out', 'hint', 'scope', 'near'],
+  extract_table: ['target', 'rename', 'skipRows', 'skipFooterRows', 'skip_empty', 'next', 'maxPages', 'waitMs', 'out', 'hint', 'scope'],
+  scroll: ['container', 'by', 'items', 'maxScrolls', 'maxItems', 'waitMs', 'saveAs', 'hint', 'scope'],
+  download_file: ['target', 'filename', 'parseAs', 'contentOut', 'out', 'saveAs', 'hint', 'scope'],
+  handle_dialog: ['action', 'promptText', 'expectMessageIncludes', 'dialogType', 'persistent', 'saveAs'],
+  set_cookies: ['cookies'],
+  get_cookies: ['name', 'domain', 'saveAs'],
+  clear_cookies: ['name', 'domain'],
+  get_storage: ['storage', 'key', 'saveAs'],
+  set_storage: ['storage', 'values'],
+  pause_for_human: ['message', 'resumeWhen', 'maxWaitMs'],
+  for_each: ['items', 'as', 'indexAs', 'steps', 'collect', 'out', 'maxIterations'],
+  if: ['condition', 'then', 'else'],
+  call_pack: ['pack', 'version', 'inputs', 'out', 'saveAs'],
+  include: ['fragment', 'with'],
 };
 
 /**
  * Validates a single step, pushing errors to the array.
+ * Nested steps are addressed by a path index such as "2.steps[0]".
  */
-function validateStep(step: unknown, stepIndex: number, errors: string[]): void {
+function validateStep(step: unknown, stepIndex: number | string, errors: string[]): void {
   if (!step || typeof step !== 'object') {
     errors.push(`Step ${stepIndex}: Step must be an object`);
     return;
@@ -309,11 +691,16 @@ function validateStep(step: unknown, stepIndex: number, errors: string[]): void
   if (s.once !== undefined) {
     if (s.once !== 'session' && s.once !== 'profile') {
       errors.push(`${prefix}: "once" must be "session" or "profile"`);
+    } else if (typeof stepIndex === 'string') {
+      errors.push(`${prefix}: "once" is only supported on top-level steps`);
     }
   }
   if (s.skip_if !== undefined) {
     validateSkipCondition(s.skip_if, errors, prefix);
   }
+  if (s.retry !== undefined) {
+    validateRetryPolicy(s.retry, errors, prefix);
+  }
 
   if (!s.params || typeof s.params !== 'object') {
     errors.push(`${prefix}: must have a "params" object`);
@@ -493,6 +880,43 @@ function validateStep(step: unknown, stepIndex: number, errors: string[]): void
       }
       break;
 
+    case 'hover':
+      validateInteractionTarget(params, 'Hover', prefix, errors);
+      break;
+
+    case 'check':
+      validateInteractionTarget(params, 'Check', prefix, errors);
+      if (params.checked !== undefined && typeof params.checked !== 'boolean') {
+        errors.push(`${prefix}: Check step "checked" must be a boolean`);
+      }
+      break;
+
+    case 'dblclick':
+      validateInteractionTarget(params, 'Dblclick', prefix, errors);
+      if (params.waitForVisible !== undefined && typeof params.waitForVisible !== 'boolean') {
+        errors.push(`${prefix}: Dblclick step "waitForVisible" must be a boolean`);
+      }
+      break;
+
+    case 'drag_to':
+      if (!params.source) {
+        errors.push(`${prefix}: DragTo step must have a "source" target in params`);
+      } else {
+        validateTargetOrAnyOf(params.source, errors, prefix);
+      }
+      if (!params.destination) {
+        errors.push(`${prefix}: DragTo step must have a "destination" target in params`);
+      } else {
+        validateTargetOrAnyOf(params.destination, errors, prefix);
+      }
+      if (params.hint !== undefined && typeof params.hint !== 'string') {
+        errors.push(`${prefix}: DragTo step "hint" must be a string`);
+      }
+      if (params.scope !== undefined) {
+        validateTarget(params.scope, errors, prefix);
+      }
+      break;
+
     case 'fill':
       // Must have either selector (legacy) or target (new)
       if (!params.selector && !params.target) {
@@ -578,9 +1002,48 @@ function validateStep(step: unknown, stepIndex: number, errors: string[]): void
       }
       break;
 
-    case 'assert':
-      if (!params.selector && !params.target && !params.urlIncludes) {
-        errors.push(`${prefix}: Assert step must have at least one of: selector, target, or urlIncludes`);
+    case 'assert': {
+      if (!params.selector && !params.target && !params.urlIncludes && !params.notEmpty && !params.arrayLength && !params.predicate) {
+        errors.push(`${prefix}: Assert step must have at least one of: selector, target, urlIncludes, notEmpty, arrayLength, or predicate`);
+      }
+      const elementChecks = ['visible', 'textIncludes', 'textMatches', 'attributeEquals', 'count'].filter((key) => params[key] !== undefined);
+      if (elementChecks.length > 0 && !params.selector && !params.target) {
+        errors.push(`${prefix}: Assert step ${elementChecks.map((k) => `"${k}"`).join(', ')} require(s) a target or selector`);
+      }
+      if (params.textMatches !== undefined) {
+        if (typeof params.textMatches !== 'string' || !params.textMatches) {
+          errors.push(`${prefix}: Assert step "textMatches" must be a non-empty string (regex)`);
+        } else {
+          try {
+            new RegExp(params.textMatches);
+          } catch {
+            errors.push(`${prefix}: Assert step "textMatches" is not a valid regex`);
+          }
+        }
+      }
+      if (params.attributeEquals !== undefined) {
+        const attr = params.attributeEquals as Record<string, unknown> | null;
+        if (typeof attr !== 'object' || attr === null || typeof attr.name !== 'string' || !attr.name || typeof attr.value !== 'string') {
+          errors.push(`${prefix}: Assert step "attributeEquals" must be { name: string, value: string }`);
+        }
+      }
+      if (params.count !== undefined) {
+        validateAssertRange(params.count, ['eq', 'min', 'max'], 'count', errors, prefix);
+      }
+      if (params.notEmpty !== undefined && (typeof params.notEmpty !== 'string' || !params.notEmpty)) {
+        errors.push(`${prefix}: Assert step "notEmpty" must be a non-empty string (var or collectible key)`);
+      }
+      if (params.arrayLength !== undefined) {
+        const arrayLength = params.arrayLength as Record<string, unknown> | null;
+        if (typeof arrayLength !== 'object' || arrayLength === null || typeof arrayLength.of !== 'string' || !arrayLength.of) {
+          errors.push(`${prefix}: Assert step "arrayLength" must have a non-empty string "of" (var or collectible key)`);
+        } else {
+          const { of: _of, ...range } = arrayLength;
+          validateAssertRange(range, ['min', 'max'], 'arrayLength', errors, prefix);
+        }
+      }
+      if (params.predicate !== undefined && (typeof params.predicate !== 'string' || !params.predicate.trim())) {
+        errors.push(`${prefix}: Assert step "predicate" must be a non-empty string (JMESPath expression)`);
       }
       if (params.selector !== undefined && typeof params.selector !== 'string') {
         errors.push(`${prefix}: Assert step "selector" must be a string`);
@@ -620,6 +1083,7 @@ function validateStep(step: unknown, stepIndex: number, errors: string[]): void
         }
       }
       break;
+    }
 
     case 'set_var': {
       if (typeof params.name !== 'string' || !params.name) {
@@ -633,51 +1097,7 @@ function validateStep(step: unknown, stepIndex: number, errors: string[]): void
     }
 
     case 'network_find': {
-      if (!params.where || typeof params.where !== 'object') {
-        errors.push(`${prefix}: NetworkFind step must have a "where" object in params`);
-      } else {
-        const where = params.where as Record<string, unknown>;
-        // Check for unknown where fields
-        const validWhereFields = new Set(['urlIncludes', 'urlRegex', 'method', 'status', 'contentTypeIncludes', 'responseContains']);
-        for (const key of Object.keys(where)) {
-          if (!validWhereFields.has(key)) {
-            errors.push(`${prefix}: NetworkFind step "where.${key}" is not a valid field (unknown fields are silently ignored). Valid fields: ${[...validWhereFields].join(', ')}`);
-          }
-        }
-        if (where.urlIncludes !== undefined && typeof where.urlIncludes !== 'string') {
-          errors.push(`${prefix}: NetworkFind step "where.urlIncludes" must be a string`);
-        }
-        if (where.urlRegex !== undefined) {
-          if (typeof where.urlRegex !== 'string') {
-            errors.push(`${prefix}: NetworkFind step "where.urlRegex" must be a string`);
-          } else {
-            try {
-              new RegExp(where.urlRegex);
-            } catch {
-              errors.push(`${prefix}: NetworkFind step "where.urlRegex" is not a valid regex`);
-            }
-          }
-        }
-        if (where.method !== undefined) {
-          const validMethods = ['GET', 'POST', 'PUT', 'DELETE', 'PATCH'];
-          if (!validMethods.includes(where.method as string)) {
-            errors.push(`${prefix}: NetworkFind step "where.method" must be one of: ${validMethods.join(', ')}`);
-          }
-        }
-        if (where.status !== undefined && (typeof where.status !== 'number' || where.status < 0)) {
-          errors.push(`${prefix}: NetworkFind step "where.status" must be a non-negative number`);
-        }
-        if (where.contentTypeIncludes !== undefined && typeof where.contentTypeIncludes !== 'string') {
-          errors.push(`${prefix}: NetworkFind step "where.contentTypeIncludes" must be a string`);
-        }
-        if (where.responseContains !== undefined) {
-          if (typeof where.responseContains !== 'string') {
-            errors.push(`${prefix}: NetworkFind step "where.responseContains" must be a string`);
-          } else if (where.responseContains.length > 2000) {
-            errors.push(`${prefix}: NetworkFind step "where.responseContains" must be at most 2000 characters`);
-          }
-        }
-      }
+      validateNetworkWhere(params.where, 'NetworkFind step', prefix, errors);
       if (params.pick !== undefined && params.pick !== 'first' && params.pick !== 'last') {
         errors.push(`${prefix}: NetworkFind step "pick" must be "first" or "last"`);
       }
@@ -695,71 +1115,23 @@ function validateStep(step: unknown, stepIndex: number, errors: string[]): void
       break;
     }
 
+    case 'wait_for_response':
+      validateNetworkWhere(params.where, 'WaitForResponse step', prefix, errors);
+      if (params.saveAs !== undefined && (typeof params.saveAs !== 'string' || !params.saveAs)) {
+        errors.push(`${prefix}: WaitForResponse step "saveAs" must be a non-empty string`);
+      }
+      if (params.waitForMs !== undefined && (typeof params.waitForMs !== 'number' || params.waitForMs <= 0)) {
+        errors.push(`${prefix}: WaitForResponse step "waitForMs" must be a positive number`);
+      }
+      break;
+
     case 'network_replay': {
       if (typeof params.requestId !== 'string' || !params.requestId) {
         errors.push(`${prefix}: NetworkReplay step must have a non-empty string "requestId" in params`);
       } else if (params.requestId.length > 2000) {
         errors.push(`${prefix}: NetworkReplay step "requestId" must be at most 2000 characters`);
       }
-      const SENSITIVE_HEADERS = new Set([
-        'authorization',
-        'cookie',
-        'set-cookie',
-        'x-api-key',
-        'proxy-authorization',
-      ]);
-      if (params.overrides && typeof params.overrides === 'object') {
-        const overrides = params.overrides as Record<string, unknown>;
-        if (overrides.setHeaders && typeof overrides.setHeaders === 'object') {
-          for (const key of Object.keys(overrides.setHeaders as Record<string, unknown>)) {
-            if (SENSITIVE_HEADERS.has(key.toLowerCase())) {
-              errors.push(`${prefix}: NetworkReplay step "overrides.setHeaders" cannot set sensitive header: ${key}`);
-            }
-          }
-        }
-        if (overrides.urlReplace !== undefined) {
-          const urlItems = Array.isArray(overrides.urlReplace)
-            ? overrides.urlReplace as unknown[]
-            : [overrides.urlReplace];
-          for (const ur of urlItems) {
-            if (!ur || typeof ur !== 'object' || Array.isArray(ur)) {
-              errors.push(`${prefix}: NetworkReplay step "overrides.urlReplace" items must be { find: string, replace: string }`);
-              continue;
-            }
-            const item = ur as Record<string, unknown>;
-            if (typeof item.find !== 'string' || typeof item.replace !== 'string') {
-              errors.push(`${prefix}: NetworkReplay step "overrides.urlReplace" must have string "find" and "replace"`);
-            } else {
-              try {
-                new RegExp(item.find);
-              } catch {
-                errors.push(`${prefix}: NetworkReplay step "overrides.urlReplace.find" is not a valid regex`);
-              }
-            }
-          }
-        }
-        if (overrides.bodyReplace !== undefined) {
-          const bodyItems = Array.isArray(overrides.bodyReplace)
-            ? overrides.bodyReplace as unknown[]
-            : [overrides.bodyReplace];
-          for (const br of bodyItems) {
-            if (!br || typeof br !== 'object' || Array.isArray(br)) {
-              errors.push(`${prefix}: NetworkReplay step "overrides.bodyReplace" items must be { find: string, replace: string }`);
-              continue;
-            }
-            const item = br as Record<string, unknown>;
-            if (typeof item.find !== 'string' || typeof item.replace !== 'string') {
-              errors.push(`${prefix}: NetworkReplay step "overrides.bodyReplace" must have string "find" and "replace"`);
-            } else {
-              try {
-                new RegExp(item.find);
-              } catch {
-                errors.push(`${prefix}: NetworkReplay step "overrides.bodyReplace.find" is not a valid regex`);
-              }
-            }
-          }
-        }
-      }
+      validateReplayOverrides(params.overrides, 'NetworkReplay', prefix, errors);
       if (params.auth !== 'browser_context') {
         errors.push(`${prefix}: NetworkReplay step "auth" must be "browser_context"`);
       }
@@ -780,6 +1152,52 @@ function validateStep(step: unknown, stepIndex: number, errors: string[]): void
       break;
     }
 
+    case 'network_paginate': {
+      if (typeof params.requestId !== 'string' || !params.requestId) {
+        errors.push(`${prefix}: NetworkPaginate step must have a non-empty string "requestId" in params`);
+      }
+      validateReplayOverrides(params.overrides, 'NetworkPaginate', prefix, errors);
+      if (params.auth !== 'browser_context') {
+        errors.push(`${prefix}: NetworkPaginate step "auth" must be "browser_context"`);
+      }
+      if (typeof params.itemsPath !== 'string' || !params.itemsPath) {
+        errors.push(`${prefix}: NetworkPaginate step must have a non-empty string "itemsPath" in params`);
+      }
+      if (typeof params.out !== 'string' || !params.out) {
+        errors.push(`${prefix}: NetworkPaginate step must have a non-empty string "out" in params`);
+      }
+      if (params.saveAs !== undefined && (typeof params.saveAs !== 'string' || !params.saveAs)) {
+        errors.push(`${prefix}: NetworkPaginate step "saveAs" must be a non-empty string`);
+      }
+      if (params.maxPages !== undefined && (typeof params.maxPages !== 'number' || !Number.isInteger(params.maxPages) || params.maxPages < 1)) {
+        errors.push(`${prefix}: NetworkPaginate step "maxPages" must be a positive integer`);
+      }
+      if (!params.pagination || typeof params.pagination !== 'object' || Array.isArray(params.pagination)) {
+        errors.push(`${prefix}: NetworkPaginate step must have a "pagination" object in params`);
+        break;
+      }
+      const pagination = params.pagination as Record<string, unknown>;
+      if (pagination.type !== 'cursor' && pagination.type !== 'page' && pagination.type !== 'offset') {
+        errors.push(`${prefix}: NetworkPaginate step "pagination.type" must be "cursor", "page" or "offset"`);
+      }
+      if (typeof pagination.param !== 'string' || !pagination.param) {
+        errors.push(`${prefix}: NetworkPaginate step "pagination.param" must be a non-empty string`);
+      }
+      if (pagination.in !== undefined && pagination.in !== 'query' && pagination.in !== 'body') {
+        errors.push(`${prefix}: NetworkPaginate step "pagination.in" must be "query" or "body"`);
+      }
+      if (pagination.type === 'cursor' && (typeof pagination.cursorPath !== 'string' || !pagination.cursorPath)) {
+        errors.push(`${prefix}: NetworkPaginate step with cursor pagination must have a non-empty string "pagination.cursorPath"`);
+      }
+      if (pagination.start !== undefined && (typeof pagination.start !== 'number' || !Number.isInteger(pagination.start) || pagination.start < 0)) {
+        errors.push(`${prefix}: NetworkPaginate step "pagination.start" must be a non-negative integer`);
+      }
+      if (pagination.pageSize !== undefined && (typeof pagination.pageSize !== 'number' || !Number.isInteger(pagination.pageSize) || pagination.pageSize < 1)) {
+        errors.push(`${prefix}: NetworkPaginate step "pagination.pageSize" must be a positive integer`);
+      }
+      break;
+    }
+
     case 'network_extract':
       if (typeof params.fromVar !== 'string' || !params.fromVar) {
         errors.push(`${prefix}: NetworkExtract step must have a non-empty string "fromVar" in params`);
@@ -806,6 +1224,30 @@ function validateStep(step: unknown, stepIndex: number, errors: string[]): void
       }
       break;
 
+    case 'transform':
+      if (typeof params.sources !== 'object' || params.sources === null || Array.isArray(params.sources) || Object.keys(params.sources).length === 0) {
+        errors.push(`${prefix}: Transform step must have a non-empty "sources" object mapping names to var or collectible keys`);
+      } else {
+        for (const [name, key] of Object.entries(params.sources as Record<string, unknown>)) {
+          if (typeof key !== 'string' || !key) {
+            errors.push(`${prefix}: Transform step "sources.${name}" must be a non-empty string (var or collectible key)`);
+          }
+        }
+      }
+      if (typeof params.expression !== 'string' || !params.expression.trim()) {
+        errors.push(`${prefix}: Transform step must have a non-empty string "expression" in params`);
+      }
+      if (params.out === undefined && params.saveAs === undefined) {
+        errors.push(`${prefix}: Transform step must have "out" or "saveAs" in params`);
+      }
+      if (params.out !== undefined && (typeof params.out !== 'string' || !params.out)) {
+        errors.push(`${prefix}: Transform step "out" must be a non-empty string`);
+      }
+      if (params.saveAs !== undefined && (typeof params.saveAs !== 'string' || !params.saveAs)) {
+        errors.push(`${prefix}: Transform step "saveAs" must be a non-empty string`);
+      }
+      break;
+
     case 'select_option':
       // Must have either selector (legacy) or target (new)
       if (!params.selector && !params.target) {
@@ -1036,9 +1478,297 @@ function validateStep(step: unknown, stepIndex: number, errors: string[]): void
       break;
     }
 
+    case 'extract_table':
+      if (!params.target) {
+        errors.push(`${prefix}: ExtractTable step must have a "target" in params`);
+      } else {
+        validateTargetOrAnyOf(params.target, errors, prefix);
+      }
+      if (typeof params.out !== 'string' || !params.out) {
+        errors.push(`${prefix}: ExtractTable step must have a non-empty string "out" in params`);
+      }
+      if (params.rename !== undefined) {
+        if (typeof params.rename !== 'object' || params.rename === null || Array.isArray(params.rename)) {
+          errors.push(`${prefix}: ExtractTable step "rename" must be an object mapping header text to keys`);
+        } else {
+          for (const [header, key] of Object.entries(params.rename as Record<string, unknown>)) {
+            if (typeof key !== 'string' || !key) {
+              errors.push(`${prefix}: ExtractTable step "rename.${header}" must be a non-empty string`);
+            }
+          }
+        }
+      }
+      for (const key of ['skipRows', 'skipFooterRows']) {
+        if (params[key] !== undefined && (typeof params[key] !== 'number' || !Number.isInteger(params[key]) || (params[key] as number) < 0)) {
+          errors.push(`${prefix}: ExtractTable step "${key}" must be a non-negative integer`);
+        }
+      }
+      if (params.skip_empty !== undefined && typeof params.skip_empty !== 'boolean') {
+        errors.push(`${prefix}: ExtractTable step "skip_empty" must be a boolean`);
+      }
+      if (params.next !== undefined) {
+        validateTargetOrAnyOf(params.next, errors, prefix);
+      }
+      if (params.maxPages !== undefined) {
+        if (typeof params.maxPages !== 'number' || !Number.isInteger(params.maxPages) || params.maxPages < 1) {
+          errors.push(`${prefix}: ExtractTable step "maxPages" must be a positive integer`);
+        } else if (params.next === undefined) {
+          errors.push(`${prefix}: ExtractTable step "maxPages" requires "next"`);
+        }
+      }
+      if (params.waitMs !== undefined && (typeof params.waitMs !== 'number' || params.waitMs < 0)) {
+        errors.push(`${prefix}: ExtractTable step "waitMs" must be a non-negative number`);
+      }
+      if (params.hint !== undefined && typeof params.hint !== 'string') {
+        errors.push(`${prefix}: ExtractTable step "hint" must be a string`);
+      }
+      if (params.scope !== undefined) {
+        validateTarget(params.scope, errors, prefix);
+      }
+      break;
+
+    case 'scroll':
+      if (params.container !== undefined) {
+        validateTargetOrAnyOf(params.container, errors, prefix);
+      }
+      if (params.items !== undefined) {
+        validateTargetOrAnyOf(params.items, errors, prefix);
+      }
+      if (params.by !== undefined && params.by !== 'bottom' && (typeof params.by !== 'number' || params.by <= 0)) {
+        errors.push(`${prefix}: Scroll step "by" must be a positive number of pixels or "bottom"`);
+      }
+      if (params.maxScrolls !== undefined && (typeof params.maxScrolls !== 'number' || !Number.isInteger(params.maxScrolls) || params.maxScrolls < 1)) {
+        errors.push(`${prefix}: Scroll step "maxScrolls" must be a positive integer`);
+      }
+      if (params.maxItems !== undefined) {
+        if (typeof params.maxItems !== 'number' || !Number.isInteger(params.maxItems) || params.maxItems < 1) {
+          errors.push(`${prefix}: Scroll step "maxItems" must be a positive integer`);
+        } else if (params.items === undefined) {
+          errors.push(`${prefix}: Scroll step "maxItems" requires "items"`);
+        }
+      }
+      if (params.waitMs !== undefined && (typeof params.waitMs !== 'number' || params.waitMs < 0)) {
+        errors.push(`${prefix}: Scroll step "waitMs" must be a non-negative number`);
+      }
+      if (params.saveAs !== undefined && (typeof params.saveAs !== 'string' || !params.saveAs)) {
+        errors.push(`${prefix}: Scroll step "saveAs" must be a non-empty string`);
+      }
+      if (params.hint !== undefined && typeof params.hint !== 'string') {
+        errors.push(`${prefix}: Scroll step "hint" must be a string`);
+      }
+      if (params.scope !== undefined) {
+        validateTarget(params.scope, errors, prefix);
+      }
+      break;
+
+    case 'download_file':
+      if (params.target !== undefined) {
+        validateTargetOrAnyOf(params.target, errors, prefix);
+      }
+      if (params.filename !== undefined && (typeof params.filename !== 'string' || !params.filename)) {
+        errors.push(`${prefix}: DownloadFile step "filename" must be a non-empty string`);
+      }
+      if (params.parseAs !== undefined && !['csv', 'json', 'text'].includes(params.parseAs as string)) {
+        errors.push(`${prefix}: DownloadFile step "parseAs" must be "csv", "json" or "text"`);
+      }
+      if (params.parseAs !== undefined && params.contentOut === undefined) {
+        errors.push(`${prefix}: DownloadFile step "parseAs" requires "contentOut"`);
+      }
+      if (params.contentOut !== undefined && params.parseAs === undefined) {
+        errors.push(`${prefix}: DownloadFile step "contentOut" requires "parseAs"`);
+      }
+      for (const key of ['contentOut', 'out', 'saveAs']) {
+        if (params[key] !== undefined && (typeof params[key] !== 'string' || !params[key])) {
+          errors.push(`${prefix}: DownloadFile step "${key}" must be a non-empty string`);
+        }
+      }
+      if (params.hint !== undefined && typeof params.hint !== 'string') {
+        errors.push(`${prefix}: DownloadFile step "hint" must be a string`);
+      }
+      if (params.scope !== undefined) {
+        validateTarget(params.scope, errors, prefix);
+      }
+      break;
+
+    case 'handle_dialog':
+      if (params.action !== 'accept' && params.action !== 'dismiss') {
+        errors.push(`${prefix}: HandleDialog step must have "action" set to "accept" or "dismiss"`);
+      }
+      if (params.promptText !== undefined) {
+        if (typeof params.promptText !== 'string') {
+          errors.push(`${prefix}: HandleDialog step "promptText" must be a string`);
+        } else if (params.action === 'dismiss') {
+          errors.push(`${prefix}: HandleDialog step "promptText" only applies with action "accept"`);
+        }
+      }
+      if (params.dialogType !== undefined && !['alert', 'confirm', 'prompt', 'beforeunload'].includes(params.dialogType as string)) {
+        errors.push(`${prefix}: HandleDialog step "dialogType" must be "alert", "confirm", "prompt" or "beforeunload"`);
+      }
+      for (const key of ['expectMessageIncludes', 'saveAs']) {
+        if (params[key] !== undefined && (typeof params[key] !== 'string' || !params[key])) {
+          errors.push(`${prefix}: HandleDialog step "${key}" must be a non-empty string`);
+        }
+      }
+      if (params.persistent !== undefined && typeof params.persistent !== 'boolean') {
+        errors.push(`${prefix}: HandleDialog step "persistent" must be a boolean`);
+      }
+      break;
+
+    case 'set_cookies':
+      if (!Array.isArray(params.cookies) || params.cookies.length === 0) {
+        errors.push(`${prefix}: SetCookies step must have a non-empty "cookies" array`);
+      } else {
+        params.cookies.forEach((cookie: unknown, i: number) => validateCookie(cookie, `${prefix}: SetCookies step "cookies[${i}]"`, errors));
+      }
+      break;
+
+    case 'get_cookies':
+    case 'clear_cookies': {
+      const stepName = s.type === 'get_cookies' ? 'GetCookies' : 'ClearCookies';
+      for (const key of ['name', 'domain']) {
+        if (params[key] !== undefined && (typeof params[key] !== 'string' || !params[key])) {
+          errors.push(`${prefix}: ${stepName} step "${key}" must be a non-empty string`);
+        }
+      }
+      if (s.type === 'get_cookies' && (typeof params.saveAs !== 'string' || !params.saveAs)) {
+        errors.push(`${prefix}: GetCookies step must have a non-empty string "saveAs" in params`);
+      }
+      break;
+    }
+
+    case 'get_storage':
+    case 'set_storage': {
+      const stepName = s.type === 'get_storage' ? 'GetStorage' : 'SetStorage';
+      if (params.storage !== undefined && params.storage !== 'local' && params.storage !== 'session') {
+        errors.push(`${prefix}: ${stepName} step "storage" must be "local" or "session"`);
+      }
+      if (s.type === 'get_storage') {
+        if (params.key !== undefined && (typeof params.key !== 'string' || !params.key)) {
+          errors.push(`${prefix}: GetStorage step "key" must be a non-empty string`);
+        }
+        if (typeof params.saveAs !== 'string' || !params.saveAs) {
+          errors.push(`${prefix}: GetStorage step must have a non-empty string "saveAs" in params`);
+        }
+      } else if (!params.values || typeof params.values !== 'object' || Array.isArray(params.values) || Object.keys(params.values).length === 0) {
+        errors.push(`${prefix}: SetStorage step must have a non-empty "values" object (key → string value)`);
+      } else {
+        for (const [key, value] of Object.entries(params.values as Record<string, unknown>)) {
+          if (typeof value !== 'string') {
+            errors.push(`${prefix}: SetStorage step "values.${key}" must be a string`);
+          }
+        }
+      }
+      break;
+    }
+
+    case 'pause_for_human':
+      if (typeof params.message !== 'string' || !params.message) {
+        errors.push(`${prefix}: PauseForHuman step must have a non-empty string "message" in params`);
+      }
+      if (params.resumeWhen !== undefined) {
+        validateSkipCondition(params.resumeWhen, errors, prefix, 'resumeWhen');
+      }
+      if (params.maxWaitMs !== undefined && (typeof params.maxWaitMs !== 'number' || params.maxWaitMs <= 0)) {
+        errors.push(`${prefix}: PauseForHuman step "maxWaitMs" must be a positive number`);
+      }
+      break;
+
+    case 'for_each': {
+      if (typeof params.items !== 'string' || !params.items) {
+        errors.push(`${prefix}: ForEach step must have a non-empty string "items" in params ({{vars.x}}, {{inputs.x}} or a collectible name)`);
+      }
+      if (params.as !== undefined && (typeof params.as !== 'string' || !params.as)) {
+        errors.push(`${prefix}: ForEach step "as" must be a non-empty string`);
+      }
+      if (params.indexAs !== undefined && (typeof params.indexAs !== 'string' || !params.indexAs)) {
+        errors.push(`${prefix}: ForEach step "indexAs" must be a non-empty string`);
+      }
+      if (params.as !== undefined && params.as === params.indexAs) {
+        errors.push(`${prefix}: ForEach step "as" and "indexAs" must be different`);
+      }
+      if (params.collect !== undefined) {
+        if (!Array.isArray(params.collect) || params.collect.some((k) => typeof k !== 'string' || !k)) {
+          errors.push(`${prefix}: ForEach step "collect" must be an array of non-empty strings`);
+        }
+      }
+      if (params.out !== undefined && (typeof params.out !== 'string' || !params.out)) {
+        errors.push(`${prefix}: ForEach step "out" must be a non-empty string`);
+      }
+      if (params.maxIterations !== undefined && (typeof params.maxIterations !== 'number' || !Number.isInteger(params.maxIterations) || params.maxIterations < 1)) {
+        errors.push(`${prefix}: ForEach step "maxIterations" must be a positive integer`);
+      }
+      if (!Array.isArray(params.steps) || params.steps.length === 0) {
+        errors.push(`${prefix}: ForEach step must have a non-empty "steps" array in params`);
+      } else {
+        for (let ci = 0; ci < params.steps.length; ci++) {
+          validateStep(params.steps[ci], `${stepIndex}.steps[${ci}]`, errors);
+        }
+      }
+      break;
+    }
+
+    case 'if':
+      if (params.condition === undefined) {
+        errors.push(`${prefix}: If step must have a "condition" in params`);
+      } else {
+        validateSkipCondition(params.condition, errors, prefix, 'condition');
+      }
+      if (!Array.isArray(params.then) || params.then.length === 0) {
+        errors.push(`${prefix}: If step must have a non-empty "then" array in params`);
+      } else {
+        for (let ci = 0; ci < params.then.length; ci++) {
+          validateStep(params.then[ci], `${stepIndex}.then[${ci}]`, errors);
+        }
+      }
+      if (params.else !== undefined) {
+        if (!Array.isArray(params.else) || params.else.length === 0) {
+          errors.push(`${prefix}: If step "else" must be a non-empty array when provided`);
+        } else {
+          for (let ci = 0; ci < params.else.length; ci++) {
+            validateStep(params.else[ci], `${stepIndex}.else[${ci}]`, errors);
+          }
+        }
+      }
+      break;
+
+    case 'call_pack':
+      if (typeof params.pack !== 'string' || !params.pack) {
+        errors.push(`${prefix}: CallPack step must have a non-empty string "pack" (pack ID) in params`);
+      }
+      if (params.version !== undefined && (typeof params.version !== 'string' || !params.version)) {
+        errors.push(`${prefix}: CallPack step "version" must be a non-empty string`);
+      }
+      if (params.inputs !== undefined && (typeof params.inputs !== 'object' || params.inputs === null || Array.isArray(params.inputs))) {
+        errors.push(`${prefix}: CallPack step "inputs" must be an object`);
+      }
+      for (const key of ['out', 'saveAs'] as const) {
+        const mapping = params[key];
+        if (mapping === undefined) continue;
+        if (typeof mapping !== 'object' || mapping === null || Array.isArray(mapping)) {
+          errors.push(`${prefix}: CallPack step "${key}" must be an object mapping the called pack's collectible names to ${key === 'out' ? 'collectible' : 'var'} names`);
+          continue;
+        }
+        for (const [childName, name] of Object.entries(mapping as Record<string, unknown>)) {
+          if (typeof name !== 'string' || !name) {
+            errors.push(`${prefix}: CallPack step "${key}.${childName}" must be a non-empty string`);
+          }
+        }
+      }
+      break;
+
+    case 'include':
+      // Expanded at load time; only the shape is checked here
+      if (typeof params.fragment !== 'string' || !params.fragment) {
+        errors.push(`${prefix}: Include step must have a non-empty string "fragment" in params`);
+      }
+      if (params.with !== undefined && (typeof params.with !== 'object' || params.with === null || Array.isArray(params.with))) {
+        errors.push(`${prefix}: Include step "with" must be an object`);
+      }
+      break;
+
     default:
       errors.push(
-        `${prefix}: Unknown step type: ${s.type}. Supported types: navigate, extract_title, extract_text, extract_attribute, sleep, wait_for, click, fill, assert, set_var, network_find, network_replay, network_extract, select_option, press_key, upload_file, frame, new_tab, switch_tab, dom_scrape`
+        `${prefix}: Unknown step type: ${s.type}. Supported types: navigate, extract_title, extract_text, extract_attribute, sleep, wait_for, click, hover, check, dblclick, drag_to, fill, assert, set_var, network_find, wait_for_response, network_replay, network_paginate, network_extract, transform, select_option, press_key, upload_file, frame, new_tab, switch_tab, dom_scrape, extract_table, scroll, download_file, handle_dialog, set_cookies, get_cookies, clear_cookies, get_storage, set_storage, pause_for_human, for_each, if, call_pack, include`
       );
   }
 
@@ -1070,6 +1800,32 @@ function validateStep(step: unknown, stepIndex: number, errors: string[]): void
   }
 }
 
+/**
+ * Checks a step and its nested steps for IDs already seen elsewhere in the flow.
+ */
+function checkDuplicateIds(step: unknown, stepIndex: number | string, ids: Set<string>, errors: string[]): void {
+  if (!step || typeof step !== 'object') return;
+  const s = step as Record<string, unknown>;
+
+  if (typeof s.id === 'string' && s.id) {
+    if (ids.has(s.id)) {
+      errors.push(`Step ${stepIndex} (id="${s.id}"): Duplicate step ID`);
+    }
+    ids.add(s.id);
+  }
+
+  const nestedKeys = typeof s.type === 'string' ? NESTED_STEP_PARAMS[s.type] : undefined;
+  if (!nestedKeys || !s.params || typeof s.params !== 'object') return;
+  const params = s.params as Record<string, unknown>;
+  for (const key of nestedKeys) {
+    const nested = params[key];
+    if (!Array.isArray(nested)) continue;
+    for (let i = 0; i < nested.length; i++) {
+      checkDuplicateIds(nested[i], `${stepIndex}.${key}[${i}]`, ids, errors);
+    }
+  }
+}
+
 /**
  * Validates a flow (array of steps).
  *
@@ -1092,15 +1848,8 @@ export function validateFlow(steps: unknown[], collectedErrors?: string[]): void
     const stepErrors: string[] = [];
     validateStep(steps[i], i, stepErrors);
 
-    // Duplicate ID check
-    const step = steps[i] as Record<string, unknown>;
-    const stepId = typeof step?.id === 'string' ? step.id : undefined;
-    if (stepId) {
-      if (ids.has(stepId)) {
-        stepErrors.push(`Step ${i} (id="${stepId}"): Duplicate step ID`);
-      }
-      ids.add(stepId);
-    }
+    // Duplicate ID check (IDs must be unique across nested steps too)
+    checkDuplicateIds(steps[i], i, ids, stepErrors);
 
     if (stepErrors.length > 0) {
       if (collectedErrors) {
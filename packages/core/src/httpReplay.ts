@@ -1,12 +1,14 @@
 /**
  * HTTP-only execution engine for request snapshots.
  *
- * When every `network_replay` step in a flow has a valid snapshot and no
+ * When every `network_replay`/`network_paginate` step in a flow has a valid snapshot and no
  * DOM extraction steps exist, the flow can be executed purely via HTTP
  * requests — no browser needed.
  */
 
 import type { DslStep } from './dsl/types.js';
+import { flattenSteps } from './dsl/blocks.js';
+import { isConditionHttpSafe } from './dsl/conditions.js';
 import {
   type RequestSnapshot,
   type SnapshotFile,
@@ -39,17 +41,28 @@ export interface HttpReplayResult {
 // HTTP-only compatibility check
 // ---------------------------------------------------------------------------
 
-/** Step types that require DOM access for data extraction (force browser mode). */
-const DOM_EXTRACTION_STEPS = new Set(['extract_text', 'extract_title', 'extract_attribute', 'dom_scrape']);
+/**
+ * Step types that require the page for data extraction (force browser mode).
+ * download_file is skipped in HTTP mode, so its outputs would silently go missing.
+ * Data-only steps (set_var, network_extract, transform, control flow) run unchanged in HTTP mode.
+ */
+const DOM_EXTRACTION_STEPS = new Set([
+  'extract_text', 'extract_title', 'extract_attribute', 'dom_scrape', 'extract_table', 'download_file',
+]);
+
+/** Step types that read cookies or web storage, which only exist in the browser (force browser mode). */
+const BROWSER_STATE_STEPS = new Set(['get_cookies', 'get_storage']);
 
 /**
  * Step types that are silently skipped in HTTP mode.
  * Must match HTTP_MODE_SKIP_STEPS in stepHandlers.ts.
  */
 const HTTP_SKIPPED_STEPS = new Set([
-  'navigate', 'click', 'fill', 'select_option', 'press_key',
-  'upload_file', 'wait_for', 'assert', 'frame', 'new_tab',
-  'switch_tab', 'network_find', 'dom_scrape',
+  'navigate', 'click', 'hover', 'check', 'dblclick', 'drag_to', 'fill',
+  'select_option', 'press_key', 'upload_file', 'wait_for', 'assert', 'frame',
+  'new_tab', 'switch_tab', 'network_find', 'wait_for_response', 'dom_scrape',
+  'extract_table', 'scroll', 'download_file', 'handle_dialog', 'set_cookies',
+  'get_cookies', 'clear_cookies', 'get_storage', 'set_storage', 'pause_for_human',
 ]);
 
 /** Check if a value contains Nunjucks template expressions. */
@@ -66,7 +79,8 @@ function containsTemplate(value: unknown): boolean {
  * Check whether a flow can run in HTTP-only mode.
  *
  * Requirements:
- * 1. Every `network_replay` step has a corresponding, non-stale snapshot.
+ * 1. Every `network_replay` and `network_paginate` step (including nested ones) has a
+ *    corresponding, non-stale snapshot.
  * 2. No DOM extraction steps exist in the flow.
  * 3. No skipped steps contain dynamic templates — templates in skipped steps
  *    would never be evaluated, so the snapshot replays stale data.
@@ -77,9 +91,17 @@ export function isFlowHttpCompatible(
 ): boolean {
   if (!snapshots) return false;
 
-  for (const step of steps) {
+  // Nested steps (e.g. for_each bodies) count the same as top-level ones
+  const allSteps = flattenSteps(steps);
+
+  for (const step of allSteps) {
     // DOM extraction steps force browser mode
-    if (DOM_EXTRACTION_STEPS.has(step.type)) {
+    if (DOM_EXTRACTION_STEPS.has(step.type) || BROWSER_STATE_STEPS.has(step.type)) {
+      return false;
+    }
+
+    // call_pack runs another pack's flow, which has no snapshots of its own here
+    if (step.type === 'call_pack') {
       return false;
     }
 
@@ -89,10 +111,18 @@ export function isFlowHttpCompatible(
     if (HTTP_SKIPPED_STEPS.has(step.type) && containsTemplate(step.params)) {
       return false;
     }
+
+    // Conditions that need a page or network capture can't be evaluated without a browser
+    if (!HTTP_SKIPPED_STEPS.has(step.type) && step.skip_if && !isConditionHttpSafe(step.skip_if)) {
+      return false;
+    }
+    if (step.type === 'if' && !isConditionHttpSafe(step.params.condition)) {
+      return false;
+    }
   }
 
-  // Check that every network_replay step has a valid snapshot
-  const replaySteps = steps.filter((s) => s.type === 'network_replay');
+  // Check that every replay step has a valid snapshot
+  const replaySteps = allSteps.filter((s) => s.type === 'network_replay' || s.type === 'network_paginate');
   if (replaySteps.length === 0) return false; // No point in HTTP mode without replay steps
 
   for (const step of replaySteps) {
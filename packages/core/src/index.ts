@@ -28,3 +28,6 @@ export * from './dsl/validation.js';
 export * from './dsl/templating.js';
 export * from './dsl/target.js';
 export * from './dsl/conditions.js';
+export * from './dsl/blocks.js';
+export * from './dsl/fragments.js';
+export * from './dsl/dataFlow.js';
@@ -1,13 +1,285 @@
-import type { TaskPack, CollectibleDefinition } from './types.js';
+import type { TaskPack, CollectibleDefinition, InputSchema, ValueSchema, BrowserSettings } from './types.js';
 import type { DslStep } from './dsl/types.js';
 import { validateFlow, ValidationError } from './dsl/validation.js';
+import { expandIncludes, hasIncludes } from './dsl/fragments.js';
+import { flattenSteps, getNestedStepLists } from './dsl/blocks.js';
 
 /** Step types that produce collectible output via an "out" parameter */
 const STEPS_WITH_OUT = new Set([
   'extract_title', 'extract_text', 'extract_attribute',
-  'network_replay', 'network_extract', 'dom_scrape',
+  'network_replay', 'network_paginate', 'network_extract', 'transform', 'dom_scrape', 'extract_table',
+  'download_file', 'for_each',
 ]);
 
+const COLLECTIBLE_TYPES = ['string', 'number', 'boolean', 'array', 'object'];
+/** Collectible type each coercion produces */
+const COERCION_TYPES: Record<string, string> = {
+  number: 'number',
+  integer: 'number',
+  boolean: 'boolean',
+  'date-iso': 'string',
+};
+const VALUE_SCHEMA_TYPES = ['string', 'number', 'integer', 'boolean', 'array', 'object', 'null'];
+
+/**
+ * Validates a nested value schema (collectible items/properties)
+ */
+function validateValueSchema(schema: unknown, path: string, errors: string[]): void {
+  if (typeof schema !== 'object' || schema === null || Array.isArray(schema)) {
+    errors.push(`${path} must be a schema object`);
+    return;
+  }
+  const s = schema as ValueSchema;
+  if (s.type !== undefined && !VALUE_SCHEMA_TYPES.includes(s.type)) {
+    errors.push(`${path}.type must be one of: ${VALUE_SCHEMA_TYPES.join(', ')}`);
+  }
+  if (s.items !== undefined) {
+    validateValueSchema(s.items, `${path}.items`, errors);
+  }
+  if (s.properties !== undefined) {
+    if (typeof s.properties !== 'object' || s.properties === null || Array.isArray(s.properties)) {
+      errors.push(`${path}.properties must be an object`);
+    } else {
+      for (const [key, value] of Object.entries(s.properties)) {
+        validateValueSchema(value, `${path}.properties.${key}`, errors);
+      }
+    }
+  }
+  if (s.required !== undefined && (!Array.isArray(s.required) || s.required.some((k) => typeof k !== 'string'))) {
+    errors.push(`${path}.required must be an array of strings`);
+  }
+}
+
+/**
+ * Validates collectible definitions: type, and items/properties schemas for structured types
+ */
+export function validateCollectibleDefinitions(collectibles: CollectibleDefinition[], errors: string[]): void {
+  for (const collectible of collectibles) {
+    const path = `Collectible "${collectible.name}"`;
+    if (!COLLECTIBLE_TYPES.includes(collectible.type)) {
+      errors.push(`${path}: type must be one of: ${COLLECTIBLE_TYPES.join(', ')}`);
+      continue;
+    }
+    if (collectible.items !== undefined) {
+      if (collectible.type !== 'array') {
+        errors.push(`${path}: "items" is only allowed for type "array"`);
+      } else {
+        validateValueSchema(collectible.items, `${path} items`, errors);
+      }
+    }
+    if (collectible.properties !== undefined || collectible.required !== undefined) {
+      if (collectible.type !== 'object') {
+        errors.push(`${path}: "properties" and "required" are only allowed for type "object"`);
+      } else {
+        validateValueSchema(
+          { properties: collectible.properties, required: collectible.required },
+          path,
+          errors
+        );
+      }
+    }
+    validateCollectibleCoercions(collectible, path, errors);
+  }
+}
+
+/**
+ * Validates a collectible's trim/regexExtract/coerce options. Coercions apply to
+ * scalar values, or to the elements of an array of scalars.
+ */
+function validateCollectibleCoercions(collectible: CollectibleDefinition, path: string, errors: string[]): void {
+  const { trim, regexExtract, coerce } = collectible;
+  if (trim === undefined && regexExtract === undefined && coerce === undefined) return;
+
+  if (collectible.type === 'object' || collectible.items?.type === 'object' || collectible.items?.type === 'array') {
+    errors.push(`${path}: trim, regexExtract and coerce only apply to scalar values or arrays of scalars`);
+    return;
+  }
+  if (trim !== undefined && typeof trim !== 'boolean') {
+    errors.push(`${path}: "trim" must be a boolean`);
+  }
+  if (regexExtract !== undefined) {
+    try {
+      new RegExp(regexExtract);
+    } catch {
+      errors.push(`${path}: "regexExtract" is not a valid regex`);
+    }
+  }
+  if (coerce !== undefined) {
+    const produces = COERCION_TYPES[coerce];
+    if (!produces) {
+      errors.push(`${path}: "coerce" must be one of: ${Object.keys(COERCION_TYPES).join(', ')}`);
+      return;
+    }
+    const target = collectible.type === 'array' ? collectible.items?.type : collectible.type;
+    if (target !== undefined && target !== produces && !(coerce === 'integer' && target === 'integer')) {
+      errors.push(`${path}: coerce "${coerce}" produces ${produces} values, but the ${collectible.type === 'array' ? 'items are' : 'type is'} "${target}"`);
+    }
+  }
+}
+
+const INPUT_TYPES = ['string', 'number', 'boolean', 'array', 'object'];
+const INPUT_FORMATS = ['date', 'email', 'url'];
+
+/**
+ * Validates input field definitions: type, and constraints only on the types they apply to
+ */
+export function validateInputDefinitions(inputs: InputSchema, errors: string[]): void {
+  for (const [name, field] of Object.entries(inputs)) {
+    const path = `Input "${name}"`;
+    if (!INPUT_TYPES.includes(field.type)) {
+      errors.push(`${path}: type must be one of: ${INPUT_TYPES.join(', ')}`);
+      continue;
+    }
+
+    const onlyFor = (key: string, types: string[]) => {
+      if (!types.includes(field.type)) {
+        errors.push(`${path}: "${key}" is only allowed for type ${types.map((t) => `"${t}"`).join(' or ')}`);
+        return false;
+      }
+      return true;
+    };
+
+    if (field.enum !== undefined && onlyFor('enum', ['string', 'number'])) {
+      if (!Array.isArray(field.enum) || field.enum.length === 0 || field.enum.some((v) => typeof v !== field.type)) {
+        errors.push(`${path}: "enum" must be a non-empty array of ${field.type} values`);
+      }
+    }
+    if (field.pattern !== undefined && onlyFor('pattern', ['string'])) {
+      try {
+        new RegExp(field.pattern);
+      } catch {
+        errors.push(`${path}: "pattern" is not a valid regex`);
+      }
+    }
+    for (const key of ['minLength', 'maxLength'] as const) {
+      const value = field[key];
+      if (value !== undefined && onlyFor(key, ['string']) && (!Number.isInteger(value) || value < 0)) {
+        errors.push(`${path}: "${key}" must be a non-negative integer`);
+      }
+    }
+    for (const key of ['minimum', 'maximum'] as const) {
+      const value = field[key];
+      if (value !== undefined && onlyFor(key, ['number']) && typeof value !== 'number') {
+        errors.push(`${path}: "${key}" must be a number`);
+      }
+    }
+    if (field.format !== undefined && onlyFor('format', ['string']) && !INPUT_FORMATS.includes(field.format)) {
+      errors.push(`${path}: "format" must be one of: ${INPUT_FORMATS.join(', ')}`);
+    }
+    if (field.items !== undefined && onlyFor('items', ['array'])) {
+      validateValueSchema(field.items, `${path} items`, errors);
+    }
+    if (field.properties !== undefined && onlyFor('properties', ['object'])) {
+      validateValueSchema({ properties: field.properties }, path, errors);
+    }
+  }
+}
+
+const COLOR_SCHEMES = ['light', 'dark', 'no-preference'];
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Validates the browser context fields of browser settings (locale, timezone,
+ * geolocation, viewport, ...). Errors are prefixed with "browser.<field>".
+ */
+export function validateBrowserSettings(browser: BrowserSettings, errors: string[]): void {
+  if (typeof browser !== 'object' || browser === null || Array.isArray(browser)) {
+    errors.push('browser must be an object');
+    return;
+  }
+
+  if (browser.locale !== undefined) {
+    let valid = typeof browser.locale === 'string' && browser.locale.length > 0;
+    if (valid) {
+      try {
+        Intl.getCanonicalLocales(browser.locale);
+      } catch {
+        valid = false;
+      }
+    }
+    if (!valid) errors.push('browser.locale must be a BCP 47 language tag (e.g. "en-US")');
+  }
+
+  if (browser.timezoneId !== undefined) {
+    let valid = typeof browser.timezoneId === 'string' && browser.timezoneId.length > 0;
+    if (valid) {
+      try {
+        new Intl.DateTimeFormat('en-US', { timeZone: browser.timezoneId });
+      } catch {
+        valid = false;
+      }
+    }
+    if (!valid) errors.push('browser.timezoneId must be an IANA timezone ID (e.g. "America/New_York")');
+  }
+
+  if (browser.geolocation !== undefined) {
+    const geo = browser.geolocation as unknown;
+    if (!isPlainObject(geo)) {
+      errors.push('browser.geolocation must be an object with latitude and longitude');
+    } else {
+      const { latitude, longitude, accuracy } = geo;
+      if (typeof latitude !== 'number' || latitude < -90 || latitude > 90) {
+        errors.push('browser.geolocation.latitude must be a number between -90 and 90');
+      }
+      if (typeof longitude !== 'number' || longitude < -180 || longitude > 180) {
+        errors.push('browser.geolocation.longitude must be a number between -180 and 180');
+      }
+      if (accuracy !== undefined && (typeof accuracy !== 'number' || accuracy < 0)) {
+        errors.push('browser.geolocation.accuracy must be a non-negative number');
+      }
+    }
+  }
+
+  if (browser.viewport !== undefined) {
+    const viewport = browser.viewport as unknown;
+    if (
+      !isPlainObject(viewport) ||
+      !Number.isInteger(viewport.width) || (viewport.width as number) <= 0 ||
+      !Number.isInteger(viewport.height) || (viewport.height as number) <= 0
+    ) {
+      errors.push('browser.viewport must be { width, height } with positive integers');
+    }
+  }
+
+  if (
+    browser.deviceScaleFactor !== undefined &&
+    (typeof browser.deviceScaleFactor !== 'number' || !(browser.deviceScaleFactor > 0))
+  ) {
+    errors.push('browser.deviceScaleFactor must be a positive number');
+  }
+
+  if (browser.userAgent !== undefined && (typeof browser.userAgent !== 'string' || browser.userAgent.trim() === '')) {
+    errors.push('browser.userAgent must be a non-empty string');
+  }
+
+  if (browser.extraHTTPHeaders !== undefined) {
+    const headers = browser.extraHTTPHeaders as unknown;
+    if (!isPlainObject(headers) || Object.values(headers).some((value) => typeof value !== 'string')) {
+      errors.push('browser.extraHTTPHeaders must be an object of string header values');
+    }
+  }
+
+  if (browser.colorScheme !== undefined && !COLOR_SCHEMES.includes(browser.colorScheme)) {
+    errors.push(`browser.colorScheme must be one of: ${COLOR_SCHEMES.join(', ')}`);
+  }
+}
+
+/**
+ * Steps whose outs reach the run's collectibles, nested ones included. Steps
+ * inside for_each bodies are left out: their outs become fields of the loop's
+ * items, which the for_each step writes to its own out.
+ */
+function stepsWritingCollectibles(steps: DslStep[]): DslStep[] {
+  return steps.flatMap((step) =>
+    step.type === 'for_each'
+      ? [step]
+      : [step, ...getNestedStepLists(step).flatMap(stepsWritingCollectibles)]
+  );
+}
+
 /**
  * Validates that collectibles referenced in flow steps exist
  */
@@ -19,13 +291,23 @@ export function validateCollectiblesMatchFlow(
   const referencedOuts = new Set<string>();
 
   // Extract all 'out' parameters from steps that write to collectibles
-  for (const step of flow) {
+  for (const step of stepsWritingCollectibles(flow)) {
     if (STEPS_WITH_OUT.has(step.type)) {
       const out = (step.params as { out?: string })?.out;
       if (out && typeof out === 'string') {
         referencedOuts.add(out);
       }
     }
+    // download_file writes parsed contents to a second collectible
+    if (step.type === 'download_file' && step.params.contentOut) {
+      referencedOuts.add(step.params.contentOut);
+    }
+    // call_pack maps the called pack's collectibles onto this pack's collectibles
+    if (step.type === 'call_pack' && step.params.out) {
+      for (const out of Object.values(step.params.out)) {
+        referencedOuts.add(out);
+      }
+    }
   }
 
   // Check that all referenced outs exist in collectibles
@@ -42,6 +324,52 @@ export function validateCollectiblesMatchFlow(
   }
 }
 
+/**
+ * Validates the on_failure / finally blocks like the flow, with step IDs unique
+ * across the flow and both blocks. Returns their steps (includes expanded), or
+ * null when a block has errors.
+ */
+function validateFlowBlocks(pack: TaskPack, flow: DslStep[], errors: string[]): DslStep[] | null {
+  const seenIds = new Set(flattenSteps(flow).map((step) => step.id));
+  const blockSteps: DslStep[] = [];
+  let valid = true;
+
+  for (const block of ['on_failure', 'finally'] as const) {
+    const steps = pack[block];
+    if (steps === undefined) continue;
+    if (!Array.isArray(steps)) {
+      errors.push(`${block} must be an array of steps`);
+      valid = false;
+      continue;
+    }
+
+    const blockErrors: string[] = [];
+    let expanded = steps;
+    try {
+      expanded = hasIncludes(steps) ? expandIncludes(steps, pack.fragments ?? {}) : steps;
+      validateFlow(expanded, blockErrors);
+    } catch (error) {
+      blockErrors.push(error instanceof Error ? error.message : String(error));
+    }
+    if (blockErrors.length > 0) {
+      errors.push(...blockErrors.map((error) => `${block}: ${error}`));
+      valid = false;
+      continue;
+    }
+
+    for (const step of flattenSteps(expanded)) {
+      if (seenIds.has(step.id)) {
+        errors.push(`${block}: Step id="${step.id}" is already used by another step`);
+        valid = false;
+      }
+      seenIds.add(step.id);
+    }
+    blockSteps.push(...expanded);
+  }
+
+  return valid ? blockSteps : null;
+}
+
 /**
  * Validates a JSON Task Pack structure
  */
@@ -56,26 +384,60 @@ export function validateJsonTaskPack(pack: TaskPack): void {
   // Validate inputs schema
   if (!pack.inputs || typeof pack.inputs !== 'object') {
     errors.push('Task pack must have an inputs object');
+  } else {
+    validateInputDefinitions(pack.inputs, errors);
+  }
+
+  if (pack.browser !== undefined) {
+    validateBrowserSettings(pack.browser, errors);
+  }
+
+  if (pack.strictOutputs !== undefined && typeof pack.strictOutputs !== 'boolean') {
+    errors.push('strictOutputs must be a boolean');
+  }
+
+  if (
+    pack.maxRunDurationMs !== undefined &&
+    (typeof pack.maxRunDurationMs !== 'number' || !Number.isInteger(pack.maxRunDurationMs) || pack.maxRunDurationMs <= 0)
+  ) {
+    errors.push('maxRunDurationMs must be a positive integer');
   }
 
   // Validate collectibles
   if (!Array.isArray(pack.collectibles)) {
     errors.push('Task pack must have a collectibles array');
+  } else {
+    validateCollectibleDefinitions(pack.collectibles, errors);
   }
 
   // Validate flow
   if (!pack.flow || !Array.isArray(pack.flow)) {
     errors.push('Task pack must have a flow array');
   } else {
-    // Validate flow (includes step validation and duplicate ID check)
-    validateFlow(pack.flow, errors);
-
-    // Validate collectibles match flow
-    if (pack.collectibles && pack.flow) {
+    // Expand include steps first so the checks below see the steps that will run
+    let flow: DslStep[] | null = pack.flow;
+    if (hasIncludes(pack.flow)) {
       try {
-        validateCollectiblesMatchFlow(pack.collectibles, pack.flow);
+        flow = expandIncludes(pack.flow, pack.fragments ?? {});
       } catch (error) {
         errors.push(error instanceof Error ? error.message : String(error));
+        flow = null;
+      }
+    }
+
+    if (flow) {
+      // Validate flow (includes step validation and duplicate ID check)
+      validateFlow(flow, errors);
+
+      const blocks = validateFlowBlocks(pack, flow, errors);
+
+      // Validate collectibles match flow
+      if (pack.collectibles && blocks) {
+        try {
+          validateCollectiblesMatchFlow(pack.collectibles, [...flow, ...blocks]);
+        } catch (error) {
+          errors.push(error instanceof Error ? error.message : String(error));
+        }
       }
     }
   }
@@ -1,8 +1,9 @@
-import { readFileSync, existsSync } from 'fs';
+import { readFileSync, existsSync, readdirSync } from 'fs';
 import { join } from 'path';
 import type { TaskPack, TaskPackManifest, InputSchema, CollectibleDefinition, SecretDefinition } from './types.js';
-import type { DslStep } from './dsl/types.js';
+import type { DslStep, FlowFragment } from './dsl/types.js';
 import { loadSnapshots } from './requestSnapshot.js';
+import { expandIncludes, hasIncludes } from './dsl/fragments.js';
 
 /**
  * Structure of the .secrets.json file
@@ -18,6 +19,7 @@ export interface SecretsFile {
  * Only json-dsl format is supported:
  * - taskpack.json: metadata with kind: "json-dsl"
  * - flow.json: inputs, collectibles, and flow steps
+ * - fragments/*.json (optional): reusable step lists for include steps
  */
 export class TaskPackLoader {
   /**
@@ -65,7 +67,10 @@ export class TaskPackLoader {
     let flowData: {
       inputs?: InputSchema;
       collectibles?: CollectibleDefinition[];
+      fragments?: Record<string, FlowFragment>;
       flow: DslStep[];
+      on_failure?: DslStep[];
+      finally?: DslStep[];
     };
 
     try {
@@ -79,6 +84,21 @@ export class TaskPackLoader {
       throw new Error('flow.json must have a "flow" array');
     }
 
+    for (const block of ['on_failure', 'finally'] as const) {
+      if (flowData[block] !== undefined && !Array.isArray(flowData[block])) {
+        throw new Error(`flow.json "${block}" must be an array of steps`);
+      }
+    }
+
+    // Inline include steps so everything downstream sees plain steps
+    let fragments: Record<string, FlowFragment> | undefined;
+    const expand = (steps: DslStep[]) => {
+      if (!hasIncludes(steps)) return steps;
+      fragments ??= this.loadFragments(packPath, flowData.fragments);
+      return expandIncludes(steps, fragments);
+    };
+    const flow = expand(flowData.flow);
+
     // Optionally load snapshots.json (not an error if missing)
     const snapshots = loadSnapshots(packPath);
 
@@ -91,13 +111,46 @@ export class TaskPackLoader {
       },
       inputs: flowData.inputs || {},
       collectibles: flowData.collectibles || [],
-      flow: flowData.flow,
+      flow,
+      ...(flowData.on_failure ? { on_failure: expand(flowData.on_failure) } : {}),
+      ...(flowData.finally ? { finally: expand(flowData.finally) } : {}),
       auth: manifest.auth,
       browser: manifest.browser,
+      ...(manifest.strictOutputs !== undefined ? { strictOutputs: manifest.strictOutputs } : {}),
+      ...(manifest.maxRunDurationMs !== undefined ? { maxRunDurationMs: manifest.maxRunDurationMs } : {}),
       ...(snapshots ? { snapshots } : {}),
     };
   }
 
+  /**
+   * Load fragments from fragments/<name>.json in the pack directory, merged with
+   * the "fragments" map from flow.json. A name defined in both places is an error.
+   */
+  static loadFragments(
+    packPath: string,
+    inlineFragments: Record<string, FlowFragment> = {}
+  ): Record<string, FlowFragment> {
+    const fragments: Record<string, FlowFragment> = { ...inlineFragments };
+    const fragmentsDir = join(packPath, 'fragments');
+    if (!existsSync(fragmentsDir)) {
+      return fragments;
+    }
+
+    for (const file of readdirSync(fragmentsDir).filter((f) => f.endsWith('.json')).sort()) {
+      const name = file.slice(0, -'.json'.length);
+      if (name in fragments) {
+        throw new Error(`Fragment "${name}" is defined both in flow.json and in fragments/${file}`);
+      }
+      try {
+        fragments[name] = JSON.parse(readFileSync(join(fragmentsDir, file), 'utf-8')) as FlowFragment;
+      } catch (error) {
+        throw new Error(`Failed to parse fragments/${file}: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+
+    return fragments;
+  }
+
   /**
    * Load secrets from .secrets.json file in pack directory
    * Returns empty object if file doesn't exist
@@ -137,4 +190,31 @@ export class TaskPackLoader {
       return [];
     }
   }
+
+  /**
+   * Find the directory of the pack with the given ID among the immediate
+   * subdirectories of packsDir. Returns null if no pack has that ID.
+   */
+  static findPackPath(packsDir: string, packId: string): string | null {
+    if (!existsSync(packsDir)) {
+      return null;
+    }
+
+    for (const entry of readdirSync(packsDir, { withFileTypes: true })) {
+      if (!entry.isDirectory()) continue;
+      const packPath = join(packsDir, entry.name);
+      const manifestPath = join(packPath, 'taskpack.json');
+      if (!existsSync(manifestPath)) continue;
+      try {
+        const manifest = JSON.parse(readFileSync(manifestPath, 'utf-8')) as Partial<TaskPackManifest>;
+        if (manifest.id === packId) {
+          return packPath;
+        }
+      } catch {
+        // Unparseable manifests are reported when that pack itself is loaded
+      }
+    }
+
+    return null;
+  }
 }
@@ -83,6 +83,8 @@ export interface NetworkEntryInternal {
   contentType?: string;
   responseBodyText?: string;
   responseBodyBase64?: string;
+  /** When the response (and its body) finished capturing */
+  respondedAt?: number;
   /** Approximate bytes used by this entry (for memory cap) */
   bytesEstimate: number;
 }
@@ -114,6 +116,22 @@ export interface NetworkFindWhere {
   responseContains?: string;
 }
 
+/** A captured response that did not match a wait, with the filters it failed */
+export interface NetworkNearMiss {
+  method: string;
+  url: string;
+  status?: number;
+  failed: Array<keyof NetworkFindWhere>;
+}
+
+/**
+ * Result of waitForResponse: the matched request ID, or the closest
+ * non-matching responses seen while waiting (best first)
+ */
+export type NetworkWaitResult =
+  | { requestId: string }
+  | { requestId: null; nearMisses: NetworkNearMiss[] };
+
 export interface NetworkReplayOverrides {
   url?: string;
   setQuery?: Record<string, string | number>;
@@ -159,8 +177,16 @@ export interface NetworkCaptureApi {
   exportEntry(requestId: string): NetworkEntrySerializable | null;
   /** Import a previously exported network entry into the buffer */
   importEntry(entry: NetworkEntrySerializable): void;
+  /**
+   * Wait for a response matching `where`, event-driven. A response captured at or after
+   * `since` counts even if it arrived before the call. Resolves (never rejects) on timeout.
+   */
+  waitForResponse(where: NetworkFindWhere, options: { timeoutMs: number; since?: number }): Promise<NetworkWaitResult>;
 }
 
+/** Number of near misses reported when waitForResponse times out */
+const NEAR_MISS_LIMIT = 5;
+
 let idCounter = 0;
 
 function nextId(): string {
@@ -220,23 +246,25 @@ export function attachNetworkCapture(page: Page): NetworkCaptureApi {
     };
   }
 
-  function matchesWhere(entry: NetworkEntryInternal, where: NetworkFindWhere): boolean {
-    if (where.urlIncludes != null && !entry.url.toLowerCase().includes(where.urlIncludes.toLowerCase())) return false;
+  /** Returns the `where` filters the entry fails (empty when it matches) */
+  function failedWhere(entry: NetworkEntryInternal, where: NetworkFindWhere): Array<keyof NetworkFindWhere> {
+    const failed: Array<keyof NetworkFindWhere> = [];
+    if (where.urlIncludes != null && !entry.url.toLowerCase().includes(where.urlIncludes.toLowerCase())) failed.push('urlIncludes');
     if (where.urlRegex != null) {
       try {
         const re = new RegExp(where.urlRegex);
-        if (!re.test(entry.url)) return false;
+        if (!re.test(entry.url)) failed.push('urlRegex');
       } catch {
-        return false;
+        failed.push('urlRegex');
       }
     }
-    if (where.method != null && entry.method !== where.method) return false;
-    if (where.status != null && entry.status !== where.status) return false;
+    if (where.method != null && entry.method !== where.method) failed.push('method');
+    if (where.status != null && entry.status !== where.status) failed.push('status');
     if (
       where.contentTypeIncludes != null &&
       (!entry.contentType || !entry.contentType.toLowerCase().includes(where.contentTypeIncludes.toLowerCase()))
     )
-      return false;
+      failed.push('contentTypeIncludes');
     if (where.responseContains != null) {
       let bodyText: string | null = entry.responseBodyText ?? null;
       if (bodyText == null && entry.responseBodyBase64 != null) {
@@ -248,10 +276,35 @@ export function attachNetworkCapture(page: Page): NetworkCaptureApi {
           bodyText = null;
         }
       }
-      if (bodyText == null) return false;
-      if (!bodyText.toLowerCase().includes(where.responseContains.toLowerCase())) return false;
+      if (bodyText == null || !bodyText.toLowerCase().includes(where.responseContains.toLowerCase())) {
+        failed.push('responseContains');
+      }
     }
-    return true;
+    return failed;
+  }
+
+  function matchesWhere(entry: NetworkEntryInternal, where: NetworkFindWhere): boolean {
+    return failedWhere(entry, where).length === 0;
+  }
+
+  /** Listeners notified once a response has been fully captured */
+  const responseListeners = new Set<(entry: NetworkEntryInternal) => void>();
+
+  /** Ranks non-matching entries by fewest failed filters, most recent first */
+  function nearMisses(entries: NetworkEntryInternal[], where: NetworkFindWhere): NetworkNearMiss[] {
+    const seen = new Set<string>();
+    return entries
+      .map((entry) => ({ entry, failed: failedWhere(entry, where) }))
+      .reverse()
+      .sort((a, b) => a.failed.length - b.failed.length)
+      .filter(({ entry }) => {
+        const key = `${entry.method} ${entry.url}`;
+        if (seen.has(key)) return false;
+        seen.add(key);
+        return true;
+      })
+      .slice(0, NEAR_MISS_LIMIT)
+      .map(({ entry, failed }) => ({ method: entry.method, url: entry.url, status: entry.status, failed }));
   }
 
   page.on('request', (request) => {
@@ -324,7 +377,11 @@ export function attachNetworkCapture(page: Page): NetworkCaptureApi {
       // ignore body read errors
     }
     requestToEntry.delete(req as object);
+    entry.respondedAt = Date.now();
     dropOldest();
+    for (const listener of responseListeners) {
+      listener(entry);
+    }
   });
 
   const api: NetworkCaptureApi = {
@@ -519,6 +576,39 @@ export function attachNetworkCapture(page: Page): NetworkCaptureApi {
       totalBytesEstimate += internal.bytesEstimate;
       dropOldest();
     },
+
+    waitForResponse(where: NetworkFindWhere, options: { timeoutMs: number; since?: number }): Promise<NetworkWaitResult> {
+      const since = options.since;
+      const missed: NetworkEntryInternal[] = [];
+
+      // Responses that arrived since `since` but before the wait started
+      if (since != null) {
+        for (const entry of buffer) {
+          if (entry.respondedAt == null || entry.respondedAt < since) continue;
+          if (matchesWhere(entry, where)) {
+            return Promise.resolve({ requestId: entry.id });
+          }
+          missed.push(entry);
+        }
+      }
+
+      return new Promise((resolve) => {
+        const listener = (entry: NetworkEntryInternal): void => {
+          if (matchesWhere(entry, where)) {
+            responseListeners.delete(listener);
+            clearTimeout(timer);
+            resolve({ requestId: entry.id });
+          } else {
+            missed.push(entry);
+          }
+        };
+        const timer = setTimeout(() => {
+          responseListeners.delete(listener);
+          resolve({ requestId: null, nearMisses: nearMisses(missed, where) });
+        }, options.timeoutMs);
+        responseListeners.add(listener);
+      });
+    },
   };
 
   return api;
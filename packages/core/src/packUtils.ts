@@ -4,8 +4,9 @@
 import { mkdirSync, writeFileSync, readFileSync, existsSync, renameSync } from 'fs';
 import { resolve, join } from 'path';
 import type { TaskPackManifest, InputSchema, CollectibleDefinition } from './types.js';
-import type { DslStep } from './dsl/types.js';
+import type { DslStep, FlowFragment } from './dsl/types.js';
 import { validateJsonTaskPack } from './jsonPackValidator.js';
+import { TaskPackLoader } from './loader.js';
 
 /**
  * Sanitize a pack ID to be safe for use as a directory name
@@ -91,7 +92,10 @@ export function writeFlowJson(
   flowData: {
     inputs?: InputSchema;
     collectibles?: CollectibleDefinition[];
+    fragments?: Record<string, FlowFragment>;
     flow: DslStep[];
+    on_failure?: DslStep[];
+    finally?: DslStep[];
   },
   skipValidation = false
 ): void {
@@ -106,6 +110,9 @@ export function writeFlowJson(
       inputs: flowData.inputs || {},
       collectibles: flowData.collectibles || [],
       flow: flowData.flow,
+      on_failure: flowData.on_failure,
+      finally: flowData.finally,
+      fragments: TaskPackLoader.loadFragments(packDir, flowData.fragments),
     };
 
     validateJsonTaskPack(taskPack);
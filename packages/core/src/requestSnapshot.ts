@@ -1,8 +1,9 @@
 /**
  * Request Snapshot types and utilities.
  *
- * Snapshots record the HTTP request/response details of `network_replay` steps
- * so they can be replayed at runtime via direct HTTP calls — no browser needed.
+ * Snapshots record the HTTP request/response details of `network_replay` and
+ * `network_paginate` steps so they can be replayed at runtime via direct HTTP
+ * calls — no browser needed.
  */
 
 import { readFileSync, writeFileSync, existsSync } from 'fs';
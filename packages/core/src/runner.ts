@@ -2,7 +2,16 @@ import { type Browser, type Page } from 'playwright';
 import { mkdirSync, writeFileSync } from 'fs';
 import { join } from 'path';
 import type { TaskPack, RunResult, RunContext } from './types.js';
-import { InputValidator, RunContextFactory, runFlow, attachNetworkCapture, TaskPackLoader } from './index.js';
+import {
+  InputValidator,
+  CollectibleValidator,
+  RunContextFactory,
+  runFlow,
+  attachNetworkCapture,
+  TaskPackLoader,
+  createRunSignal,
+  RunCancelledError,
+} from './index.js';
 import type { Logger } from './types.js';
 import { launchBrowser, type BrowserSession } from './browserLauncher.js';
 import { isFlowHttpCompatible } from './httpReplay.js';
@@ -15,6 +24,8 @@ import {
   detectSensitiveHeaders,
 } from './requestSnapshot.js';
 import type { NetworkCaptureApi } from './networkCapture.js';
+import { flattenSteps } from './dsl/blocks.js';
+import type { DebugOptions, ErrorWithPartialResult, HumanPauseHandler } from './dsl/types.js';
 
 /**
  * Options for running a task pack
@@ -56,6 +67,25 @@ export interface RunTaskPackOptions {
    * Skip HTTP-only replay mode and always use browser execution
    */
   skipHttpReplay?: boolean;
+  /**
+   * Operator prompt for pause_for_human steps. Only used in headful runs;
+   * without it (or when headless) those steps fail with HUMAN_INPUT_UNAVAILABLE.
+   */
+  onHumanPause?: HumanPauseHandler;
+  /**
+   * Debug mode (breakpoints, step-through); debug runs always use the browser
+   */
+  debug?: DebugOptions;
+  /**
+   * Cancels the run. Checked between steps; the running step is abandoned and
+   * the browser closed.
+   */
+  signal?: AbortSignal;
+  /**
+   * Time limit for the whole run in ms, browser launch included
+   * (default: the pack's maxRunDurationMs, otherwise none)
+   */
+  maxRunDurationMs?: number;
 }
 
 /**
@@ -108,6 +138,7 @@ export async function runTaskPack(
   }
 
   const startTime = Date.now();
+  const signal = createRunSignal(options.signal, options.maxRunDurationMs ?? taskPack.maxRunDurationMs);
 
   // Apply defaults and validate inputs early (needed for both HTTP and browser modes)
   const inputsWithDefaults = InputValidator.applyDefaults(inputs, taskPack.inputs);
@@ -124,7 +155,8 @@ export async function runTaskPack(
 
   // ─── HTTP-first execution ───────────────────────────────────────────
   const snapshots = taskPack.snapshots ?? null;
-  if (!options.skipHttpReplay && isFlowHttpCompatible(taskPack.flow, snapshots)) {
+  const httpOnly = !options.skipHttpReplay && !options.debug && canRunHttpOnly(taskPack, snapshots);
+  if (httpOnly) {
     logger.log({
       type: 'run_started',
       data: {
@@ -135,7 +167,7 @@ export async function runTaskPack(
     });
 
     try {
-      const httpResult = await runHttpOnly(
+      const { result: httpResult, outputFailure } = await runHttpOnly(
         taskPack,
         inputsWithDefaults,
         snapshots!,
@@ -143,12 +175,20 @@ export async function runTaskPack(
         logger,
         options,
         resolvedProxy,
+        signal,
       );
 
       const durationMs = Date.now() - startTime;
+      if (outputFailure) {
+        return { ...failOutputs(httpResult, outputFailure, logger, durationMs), runDir, eventsPath, artifactsDir };
+      }
       logger.log({ type: 'run_finished', data: { success: true, durationMs } });
       return { ...httpResult, runDir, eventsPath, artifactsDir };
     } catch (httpError) {
+      // A cancelled run must not start over in the browser
+      if (httpError instanceof RunCancelledError) {
+        return { ...failRun(taskPack, httpError, logger, Date.now() - startTime), runDir, eventsPath, artifactsDir };
+      }
       // HTTP-only execution failed — fall through to browser mode
       const reason = httpError instanceof Error ? httpError.message : String(httpError);
       console.log(`[runner] HTTP-only mode failed (${reason}), falling back to browser mode`);
@@ -162,7 +202,7 @@ export async function runTaskPack(
 
   try {
     // Log run start (only if not already logged above)
-    if (options.skipHttpReplay || !isFlowHttpCompatible(taskPack.flow, snapshots)) {
+    if (!httpOnly) {
       logger.log({
         type: 'run_started',
         data: {
@@ -214,23 +254,22 @@ export async function runTaskPack(
       profileId: options.profileId,
       cacheDir: options.cacheDir,
       secrets,
+      packDir: packPath,
+      packId: taskPack.metadata.id,
+      onHumanPause: headless ? undefined : options.onHumanPause,
+      signal,
+      debug: options.debug,
+      onFailure: taskPack.on_failure,
+      finally: taskPack.finally,
     });
 
-    // Filter collectibles to only include those defined in the pack
-    // This prevents intermediate variables from polluting the output
-    const definedCollectibleNames = new Set(
-      (taskPack.collectibles || []).map(c => c.name)
-    );
-    const filteredCollectibles: Record<string, unknown> = {};
-    for (const [key, value] of Object.entries(flowResult.collectibles)) {
-      if (definedCollectibleNames.has(key)) {
-        filteredCollectibles[key] = value;
-      }
-    }
+    // Keep declared collectibles only (intermediate variables would pollute the output),
+    // then apply coercions and check them against their declarations
+    const outputs = processOutputs(taskPack, flowResult.collectibles, flowResult._hints);
 
     // Convert RunFlowResult to RunResult format
     const result: RunResult = {
-      collectibles: filteredCollectibles,
+      collectibles: outputs.collectibles,
       meta: {
         url: flowResult.meta.url,
         durationMs: flowResult.meta.durationMs,
@@ -239,11 +278,11 @@ export async function runTaskPack(
     };
 
     // Propagate diagnostic hints if present
-    if (flowResult._hints && flowResult._hints.length > 0) {
-      result._hints = flowResult._hints;
+    if (outputs.hints.length > 0) {
+      result._hints = outputs.hints;
     }
 
-    // Capture snapshots for network_replay steps after successful browser run
+    // Capture snapshots for network_replay/network_paginate steps after successful browser run
     if (packPath && networkCapture) {
       try {
         captureSnapshots(taskPack, flowResult, networkCapture, packPath);
@@ -254,6 +293,10 @@ export async function runTaskPack(
 
     const durationMs = Date.now() - startTime;
 
+    if (outputs.failure) {
+      return { ...failOutputs(result, outputs.failure, logger, durationMs), runDir, eventsPath, artifactsDir };
+    }
+
     // Log run finish
     logger.log({
       type: 'run_finished',
@@ -271,18 +314,9 @@ export async function runTaskPack(
     };
   } catch (error) {
     const durationMs = Date.now() - startTime;
-    const errorMessage = error instanceof Error ? error.message : String(error);
 
-    // Log error
-    logger.log({
-      type: 'error',
-      data: {
-        error: errorMessage,
-      },
-    });
-
-    // Save artifacts on error
-    if (page) {
+    // Save artifacts on error (a cancelled run may be stuck on the page, so don't wait on it)
+    if (page && !(error instanceof RunCancelledError)) {
       try {
         if (runContext) {
           await runContext.artifacts.saveScreenshot('error');
@@ -302,57 +336,86 @@ export async function runTaskPack(
       }
     }
 
-    // Extract partial results from enriched error (set by interpreter)
-    const partialResult = (error as any)?.partialResult as
-      | { collectibles: Record<string, unknown>; stepsExecuted: number; failedStepId: string }
-      | undefined;
-
-    // Filter partial collectibles to only include declared ones
-    let partialCollectibles: Record<string, unknown> = {};
-    if (partialResult?.collectibles) {
-      const definedCollectibleNames = new Set(
-        (taskPack.collectibles || []).map(c => c.name)
-      );
-      for (const [key, value] of Object.entries(partialResult.collectibles)) {
-        if (definedCollectibleNames.has(key)) {
-          partialCollectibles[key] = value;
-        }
-      }
+    return { ...failRun(taskPack, error, logger, durationMs), runDir, eventsPath, artifactsDir };
+  } finally {
+    // Cleanup using unified browser session close
+    if (browserSession) {
+      await browserSession.close();
     }
+  }
+}
 
-    // Log run finish with failure
-    logger.log({
-      type: 'run_finished',
-      data: {
-        success: false,
-        durationMs,
-      },
-    });
+/**
+ * Whether the pack can run in HTTP-only mode. Packs with on_failure / finally
+ * blocks use the browser: a failed HTTP-only run falls back to the browser,
+ * which would run the blocks a second time.
+ */
+function canRunHttpOnly(taskPack: TaskPack, snapshots: SnapshotFile | null): boolean {
+  if (taskPack.on_failure?.length || taskPack.finally?.length) return false;
+  return isFlowHttpCompatible(taskPack.flow, snapshots);
+}
 
-    // Return partial result with paths even on error
-    const failResult: RunTaskPackResult = {
-      collectibles: partialCollectibles,
-      meta: {
-        durationMs,
-        notes: `Error at step "${partialResult?.failedStepId ?? 'unknown'}": ${errorMessage}`,
-      },
-      runDir,
-      eventsPath,
-      artifactsDir,
-    };
+/**
+ * Result of a run that failed with an error: logs the error and the failed
+ * run_finished event, and keeps the declared collectibles the interpreter
+ * attached as partial results
+ */
+function failRun(taskPack: TaskPack, error: unknown, logger: Logger, durationMs: number): RunResult {
+  const errorMessage = error instanceof Error ? error.message : String(error);
+
+  // Log error
+  logger.log({
+    type: 'error',
+    data: {
+      error: errorMessage,
+    },
+  });
 
-    // Include failedStepId for AI agents
-    if (partialResult?.failedStepId) {
-      (failResult as any).failedStepId = partialResult.failedStepId;
-    }
+  // Extract partial results from enriched error (set by interpreter)
+  const partialResult = (error as ErrorWithPartialResult | null)?.partialResult;
 
-    return failResult;
-  } finally {
-    // Cleanup using unified browser session close
-    if (browserSession) {
-      await browserSession.close();
+  // Filter partial collectibles to only include declared ones
+  let partialCollectibles: Record<string, unknown> = {};
+  if (partialResult?.collectibles) {
+    const definedCollectibleNames = new Set(
+      (taskPack.collectibles || []).map(c => c.name)
+    );
+    for (const [key, value] of Object.entries(partialResult.collectibles)) {
+      if (definedCollectibleNames.has(key)) {
+        partialCollectibles[key] = value;
+      }
     }
   }
+
+  // Log run finish with failure
+  logger.log({
+    type: 'run_finished',
+    data: {
+      success: false,
+      durationMs,
+    },
+  });
+
+  // Return partial result even on error
+  const failResult: RunResult = {
+    collectibles: partialCollectibles,
+    meta: {
+      durationMs,
+      notes: `Error at step "${partialResult?.failedStepId ?? 'unknown'}": ${errorMessage}`,
+    },
+  };
+
+  // Include failedStepId for AI agents
+  if (partialResult?.failedStepId) {
+    failResult.failedStepId = partialResult.failedStepId;
+  }
+  // Include the error code (e.g. HUMAN_INPUT_UNAVAILABLE, RUN_CANCELLED) when the error has one
+  const errorCode = (error as { code?: unknown })?.code;
+  if (typeof errorCode === 'string') {
+    failResult.errorCode = errorCode;
+  }
+
+  return failResult;
 }
 
 // ---------------------------------------------------------------------------
@@ -363,6 +426,8 @@ export async function runTaskPack(
  * Run a flow in HTTP-only mode using request snapshots.
  * No browser is launched; network_replay steps use Node fetch().
  * Throws if any snapshot response fails validation (caller should fall back to browser mode).
+ * Output validation failures under strictOutputs are returned rather than thrown,
+ * since falling back to the browser would not change them.
  */
 async function runHttpOnly(
   taskPack: TaskPack,
@@ -372,7 +437,8 @@ async function runHttpOnly(
   logger: Logger,
   options: RunTaskPackOptions,
   proxy: ResolvedProxy | null,
-): Promise<RunResult> {
+  signal: AbortSignal | undefined,
+): Promise<{ result: RunResult; outputFailure: string | null }> {
   console.log(`[runner] Running in HTTP-only mode (${Object.keys(snapshots.snapshots).length} snapshots)`);
 
   // Build a minimal RunContext that doesn't require a browser.
@@ -382,6 +448,7 @@ async function runHttpOnly(
   const noopArtifacts = {
     saveScreenshot: async () => '',
     saveHTML: async () => '',
+    saveDownload: async () => '',
   };
   const runContext: RunContext = {
     page: noopPage,
@@ -400,6 +467,7 @@ async function runHttpOnly(
     httpMode: true,
     snapshots,
     proxy: proxy ?? undefined,
+    signal,
   });
 
   // Validate responses: re-check each network_replay step's snapshot validation.
@@ -407,30 +475,79 @@ async function runHttpOnly(
   // validateResponse. If validation fails, the step throws and runFlow propagates
   // the error, which the caller catches and falls back to browser mode.
 
-  // Filter collectibles to only include those defined in the pack
-  const definedCollectibleNames = new Set(
-    (taskPack.collectibles || []).map((c) => c.name),
-  );
-  const filteredCollectibles: Record<string, unknown> = {};
-  for (const [key, value] of Object.entries(flowResult.collectibles)) {
-    if (definedCollectibleNames.has(key)) {
-      filteredCollectibles[key] = value;
-    }
-  }
+  // Keep declared collectibles only, coerced and checked against their declarations
+  const outputs = processOutputs(taskPack, flowResult.collectibles, flowResult._hints);
 
   const result: RunResult = {
-    collectibles: filteredCollectibles,
+    collectibles: outputs.collectibles,
     meta: {
       durationMs: flowResult.meta.durationMs,
       notes: `HTTP-only: ${flowResult.meta.stepsExecuted}/${flowResult.meta.stepsTotal} steps`,
     },
   };
 
-  if (flowResult._hints && flowResult._hints.length > 0) {
-    result._hints = flowResult._hints;
+  if (outputs.hints.length > 0) {
+    result._hints = outputs.hints;
   }
 
-  return result;
+  return { result, outputFailure: outputs.failure };
+}
+
+// ---------------------------------------------------------------------------
+// Output processing helpers
+// ---------------------------------------------------------------------------
+
+/**
+ * Post-run output stage: keeps the declared collectibles, applies their
+ * trim/regexExtract/coerce options and checks them against their declared
+ * type/schema. Problems become hints, or with strictOutputs a failure message.
+ */
+function processOutputs(
+  taskPack: TaskPack,
+  flowCollectibles: Record<string, unknown>,
+  flowHints: string[] | undefined,
+): { collectibles: Record<string, unknown>; hints: string[]; failure: string | null } {
+  const definitions = taskPack.collectibles || [];
+  const definedCollectibleNames = new Set(definitions.map((c) => c.name));
+  const declared: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(flowCollectibles)) {
+    if (definedCollectibleNames.has(key)) {
+      declared[key] = value;
+    }
+  }
+
+  const { collectibles, issues: coercionIssues } = CollectibleValidator.coerce(declared, definitions);
+  const issues = [...coercionIssues, ...CollectibleValidator.validate(collectibles, definitions)];
+
+  if (taskPack.strictOutputs && issues.length > 0) {
+    return {
+      collectibles,
+      hints: flowHints ?? [],
+      failure: `Output validation failed (strictOutputs): ${issues.join('; ')}`,
+    };
+  }
+  return {
+    collectibles,
+    hints: [...(flowHints ?? []), ...issues.map((issue) => `Collectible schema mismatch: ${issue}`)],
+    failure: null,
+  };
+}
+
+/** Error code of a run whose outputs did not pass strictOutputs validation */
+export const OUTPUT_VALIDATION_FAILED = 'OUTPUT_VALIDATION_FAILED';
+
+/**
+ * Turns a finished run into a failed one because its outputs did not pass
+ * strictOutputs validation; logs the error and the failed run_finished event
+ */
+function failOutputs(result: RunResult, failure: string, logger: Logger, durationMs: number): RunResult {
+  logger.log({ type: 'error', data: { error: failure } });
+  logger.log({ type: 'run_finished', data: { success: false, durationMs } });
+  return {
+    ...result,
+    meta: { ...result.meta, durationMs, notes: `Error: ${failure}` },
+    errorCode: OUTPUT_VALIDATION_FAILED,
+  };
 }
 
 // ---------------------------------------------------------------------------
@@ -438,7 +555,7 @@ async function runHttpOnly(
 // ---------------------------------------------------------------------------
 
 /**
- * After a successful browser run, capture snapshots for all network_replay steps.
+ * After a successful browser run, capture snapshots for all network_replay and network_paginate steps.
  * Uses the resolved vars from the flow result to look up request IDs,
  * then exports full entry data from the network capture buffer.
  * Writes snapshots.json to the pack directory.
@@ -449,14 +566,16 @@ function captureSnapshots(
   networkCapture: NetworkCaptureApi,
   packPath: string,
 ): void {
-  const replaySteps = taskPack.flow.filter((s) => s.type === 'network_replay');
+  const replaySteps = flattenSteps(taskPack.flow).filter(
+    (s) => s.type === 'network_replay' || s.type === 'network_paginate',
+  );
   if (replaySteps.length === 0) return;
 
   const vars = flowResult._vars ?? {};
   const newSnapshots: Record<string, RequestSnapshot> = {};
 
   for (const step of replaySteps) {
-    if (step.type !== 'network_replay') continue;
+    if (step.type !== 'network_replay' && step.type !== 'network_paginate') continue;
 
     // Resolve the requestId template (e.g. "{{vars.reqId}}" → actual ID)
     const rawRequestId = step.params.requestId;
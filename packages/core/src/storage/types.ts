@@ -5,6 +5,8 @@
  * know which operations are available.
  */
 
+import type { ValueSchema } from '../types.js';
+
 export type StorageCapability =
   | 'get'
   | 'store'
@@ -19,8 +21,13 @@ export type StorageCapability =
  */
 export interface CollectibleSchemaField {
   name: string;
-  type: 'string' | 'number' | 'boolean';
+  type: 'string' | 'number' | 'boolean' | 'array' | 'object';
   description?: string;
+  /** JSON Schema of array elements (type "array") */
+  items?: ValueSchema;
+  /** JSON Schemas of object properties (type "object") */
+  properties?: Record<string, ValueSchema>;
+  required?: string[];
 }
 
 /**
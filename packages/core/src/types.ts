@@ -1,5 +1,5 @@
-import type { Browser, Page } from 'playwright';
-import type { DslStep } from './dsl/types.js';
+import type { Browser, Download, Page } from 'playwright';
+import type { AssertionFailure, DebugAction, DebugPauseReason, DslStep, FlowBlockName, FlowFragment } from './dsl/types.js';
 import type { NetworkCaptureApi } from './networkCapture.js';
 import type { SnapshotFile } from './requestSnapshot.js';
 import type { ProxyConfig } from './proxy/types.js';
@@ -9,6 +9,37 @@ import type { ProxyConfig } from './proxy/types.js';
  */
 export type PrimitiveType = 'string' | 'number' | 'boolean';
 
+/**
+ * Collectible type: a primitive, or structured output such as dom_scrape rows
+ */
+export type CollectibleType = PrimitiveType | 'array' | 'object';
+
+/**
+ * Input field type: a primitive, or a list/object passed as JSON
+ */
+export type InputType = PrimitiveType | 'array' | 'object';
+
+/**
+ * Conversion applied to a scraped collectible value after the run
+ */
+export type CollectibleCoercion = 'number' | 'integer' | 'boolean' | 'date-iso';
+
+/**
+ * String formats checked for input fields
+ */
+export type InputFormat = 'date' | 'email' | 'url';
+
+/**
+ * JSON Schema subset describing structured values (collectible array items and object properties)
+ */
+export interface ValueSchema {
+  type?: 'string' | 'number' | 'integer' | 'boolean' | 'array' | 'object' | 'null';
+  description?: string;
+  items?: ValueSchema;
+  properties?: Record<string, ValueSchema>;
+  required?: string[];
+}
+
 /**
  * Secret definition for task pack secrets
  */
@@ -31,6 +62,29 @@ export type BrowserEngine = 'chromium' | 'camoufox';
  */
 export type BrowserPersistence = 'none' | 'session' | 'profile';
 
+/**
+ * Color scheme reported to pages (prefers-color-scheme)
+ */
+export type BrowserColorScheme = 'light' | 'dark' | 'no-preference';
+
+/**
+ * Geolocation reported to pages
+ */
+export interface BrowserGeolocation {
+  latitude: number;
+  longitude: number;
+  /** Accuracy in meters (default: 0) */
+  accuracy?: number;
+}
+
+/**
+ * Page viewport size in CSS pixels
+ */
+export interface BrowserViewport {
+  width: number;
+  height: number;
+}
+
 /**
  * Browser configuration for task packs
  */
@@ -51,17 +105,67 @@ export interface BrowserSettings {
    * Set by the agent's `set_proxy` tool or manually in taskpack.json.
    */
   proxy?: ProxyConfig;
+  /**
+   * Browser locale, e.g. "en-US" (navigator.language, Accept-Language, number/date formatting).
+   * Set by the agent's `set_browser_context` tool or manually in taskpack.json,
+   * like the fields below.
+   */
+  locale?: string;
+  /**
+   * IANA timezone ID, e.g. "America/New_York"
+   */
+  timezoneId?: string;
+  /**
+   * Geolocation reported to pages; the geolocation permission is granted automatically
+   */
+  geolocation?: BrowserGeolocation;
+  /**
+   * Page viewport size
+   */
+  viewport?: BrowserViewport;
+  /**
+   * Device pixel ratio (e.g. 2 for retina screens)
+   */
+  deviceScaleFactor?: number;
+  /**
+   * User-Agent string sent with requests and reported by navigator.userAgent
+   */
+  userAgent?: string;
+  /**
+   * Headers added to every request the browser sends
+   */
+  extraHTTPHeaders?: Record<string, string>;
+  /**
+   * Color scheme reported to pages
+   */
+  colorScheme?: BrowserColorScheme;
 }
 
 /**
  * Field definition in a schema
  */
 export interface FieldDefinition {
-  type: PrimitiveType;
+  type: InputType;
   required?: boolean;
   description?: string;
   /** Default value for this field when not provided */
   default?: unknown;
+  /** Allowed values (string or number fields) */
+  enum?: Array<string | number>;
+  /** Schema of the array elements (type "array") */
+  items?: ValueSchema;
+  /** Schemas of the object's properties (type "object") */
+  properties?: Record<string, ValueSchema>;
+  /** Regex the value must match (string fields) */
+  pattern?: string;
+  /** Length bounds (string fields) */
+  minLength?: number;
+  maxLength?: number;
+  /** Inclusive range (number fields) */
+  minimum?: number;
+  maximum?: number;
+  /** Well-known string format: date is YYYY-MM-DD, url is http(s) */
+  format?: InputFormat;
 }
 
 /**
@@ -74,8 +178,20 @@ export type InputSchema = Record<string, FieldDefinition>;
  */
 export interface CollectibleDefinition {
   name: string;
-  type: PrimitiveType;
+  type: CollectibleType;
   description?: string;
+  /** Schema of the array elements (type "array") */
+  items?: ValueSchema;
+  /** Schemas of the object's properties (type "object") */
+  properties?: Record<string, ValueSchema>;
+  /** Properties that must be present (type "object") */
+  required?: string[];
+  /** Trim surrounding whitespace before the other coercions */
+  trim?: boolean;
+  /** Regex applied to the value; keeps the first capture group (or the whole match) */
+  regexExtract?: string;
+  /** Convert the value (each element, for arrays of scalars) after trim/regexExtract */
+  coerce?: CollectibleCoercion;
 }
 
 /**
@@ -112,6 +228,16 @@ export interface TaskPackManifest extends TaskPackMetadata {
    * Browser configuration
    */
   browser?: BrowserSettings;
+  /**
+   * Fail the run when collectibles do not match their declarations
+   * (default: report mismatches in _hints)
+   */
+  strictOutputs?: boolean;
+  /**
+   * Default run-wide time limit in ms; runs still going after it are cancelled
+   * (overridden by RunTaskPackOptions.maxRunDurationMs)
+   */
+  maxRunDurationMs?: number;
 }
 
 /**
@@ -141,6 +267,15 @@ export interface RunResult {
    * These help AI agents understand why data extraction may have failed.
    */
   _hints?: string[];
+  /**
+   * ID of the step that failed the run, when there is one
+   */
+  failedStepId?: string;
+  /**
+   * Machine-readable code of the error that failed the run, when it has one
+   * (e.g. HUMAN_INPUT_UNAVAILABLE, OUTPUT_VALIDATION_FAILED, RUN_CANCELLED, RUN_TIMEOUT)
+   */
+  errorCode?: string;
 }
 
 /**
@@ -232,22 +367,37 @@ export interface AuthConfig {
  */
 export type LogEvent =
   | { type: 'run_started'; data: { packId: string; packVersion: string; inputs: unknown } }
-  | { type: 'step_started'; data: { stepId: string; type: string; label?: string; params?: unknown } }
-  | { type: 'step_finished'; data: { stepId: string; type: string; label?: string; durationMs: number } }
-  | { type: 'step_skipped'; data: { stepId: string; type: string; reason: 'once_already_executed' | 'condition_met'; restoredVars?: string[]; restoredCollectibles?: string[]; condition?: string } }
+  | { type: 'step_started'; data: { stepId: string; type: string; label?: string; params?: unknown; parentStepId?: string; iteration?: number; branch?: 'then' | 'else'; packId?: string } }
+  | { type: 'step_finished'; data: { stepId: string; type: string; label?: string; durationMs: number; attempts?: number; parentStepId?: string; iteration?: number; branch?: 'then' | 'else'; packId?: string } }
+  | { type: 'step_attempt'; data: { stepId: string; type: string; attempt: number; maxAttempts: number; success: boolean; durationMs: number; error?: string; retryInMs?: number; parentStepId?: string; iteration?: number; branch?: 'then' | 'else'; packId?: string } }
+  | { type: 'step_skipped'; data: { stepId: string; type: string; reason: 'once_already_executed' | 'condition_met' | 'debugger'; restoredVars?: string[]; restoredCollectibles?: string[]; condition?: string; parentStepId?: string; iteration?: number; branch?: 'then' | 'else'; packId?: string } }
+  | { type: 'dialog'; data: { dialogType: string; message: string; action: 'accept' | 'dismiss'; handledBy?: string } }
+  | { type: 'human_pause_started'; data: { stepId: string; message: string; maxWaitMs: number; resumeWhen?: string } }
+  | { type: 'human_pause_ended'; data: { stepId: string; reason: 'continued' | 'condition_met' | 'timeout'; waitedMs: number } }
+  | { type: 'flow_block_started'; data: { block: FlowBlockName; steps: number } }
+  | { type: 'flow_block_finished'; data: { block: FlowBlockName; success: boolean; error?: string; durationMs: number } }
+  | { type: 'debug_pause_started'; data: { stepId: string; reason: DebugPauseReason } }
+  | { type: 'debug_pause_ended'; data: { stepId: string; action: DebugAction; paramsEdited: boolean; waitedMs: number } }
+  | { type: 'branch_taken'; data: { stepId: string; branch: 'then' | 'else' | 'none'; condition: string; packId?: string } }
   | { type: 'auth_failure_detected'; data: { url: string; status: number; stepId?: string } }
   | { type: 'auth_recovery_started'; data: { recoveryAttempt: number; maxRecoveries: number } }
   | { type: 'auth_recovery_finished'; data: { recoveryAttempt: number; success: boolean } }
   | { type: 'auth_recovery_exhausted'; data: { url: string; status: number; maxRecoveries: number } }
+  | { type: 'run_cancelled'; data: { reason: 'cancelled' | 'timeout'; stepId?: string; durationMs: number } }
   | { type: 'run_finished'; data: { success: boolean; durationMs: number } }
-  | { type: 'error'; data: { error: string; stepId?: string; type?: string; label?: string } };
+  | { type: 'error'; data: { error: string; stepId?: string; type?: string; label?: string; parentStepId?: string; iteration?: number; branch?: 'then' | 'else'; packId?: string; failures?: AssertionFailure[]; code?: string } };
 
 /**
- * Artifact manager for saving screenshots and HTML snapshots
+ * Artifact manager for saving screenshots, HTML snapshots and downloads
  */
 export interface ArtifactManager {
   saveScreenshot(name: string): Promise<string>;
   saveHTML(name: string, html: string): Promise<string>;
+  /**
+   * Saves a browser download under artifacts/downloads and returns its path.
+   * Uses the suggested filename unless one is given; existing files are not overwritten.
+   */
+  saveDownload(download: Download, filename?: string): Promise<string>;
 }
 
 /**
@@ -267,6 +417,19 @@ export interface TaskPack {
    * Declarative flow of DSL steps
    */
   flow: DslStep[];
+  /**
+   * Fragments for include steps that have not been expanded yet (e.g. a flow.json
+   * being edited). TaskPackLoader expands includes itself and leaves this unset.
+   */
+  fragments?: Record<string, FlowFragment>;
+  /**
+   * Steps run after the flow fails or is cancelled, with vars.__error set (flow.json "on_failure")
+   */
+  on_failure?: DslStep[];
+  /**
+   * Steps run after the flow, whether it succeeded, failed or was cancelled (flow.json "finally")
+   */
+  finally?: DslStep[];
   /**
    * Auth configuration for resilience and recovery
    */
@@ -275,6 +438,14 @@ export interface TaskPack {
    * Browser configuration
    */
   browser?: BrowserSettings;
+  /**
+   * Fail the run when collectibles do not match their declarations
+   */
+  strictOutputs?: boolean;
+  /**
+   * Default run-wide time limit in ms
+   */
+  maxRunDurationMs?: number;
   /**
    * Request snapshots for HTTP-first execution (loaded from snapshots.json)
    */
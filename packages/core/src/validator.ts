@@ -1,4 +1,87 @@
-import type { InputSchema, PrimitiveType } from './types.js';
+import type {
+  InputSchema,
+  InputType,
+  FieldDefinition,
+  CollectibleDefinition,
+  CollectibleCoercion,
+  ValueSchema,
+} from './types.js';
+
+/** Maximum mismatches reported per collectible, so one bad array does not flood the output */
+const MAX_ISSUES_PER_COLLECTIBLE = 5;
+
+/**
+ * JSON type name of a value, as used in ValueSchema.type
+ */
+function jsonTypeOf(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'number') return Number.isInteger(value) ? 'integer' : 'number';
+  return typeof value;
+}
+
+/**
+ * Checks a value against a value schema, pushing "path: problem" messages
+ */
+function checkValueSchema(value: unknown, schema: ValueSchema, path: string, issues: string[]): void {
+  if (schema.type) {
+    const actual = jsonTypeOf(value);
+    if (actual !== schema.type && !(schema.type === 'number' && actual === 'integer')) {
+      issues.push(`${path}: expected ${schema.type}, got ${actual}`);
+      return;
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.items) {
+      value.forEach((item, index) => checkValueSchema(item, schema.items!, `${path}[${index}]`, issues));
+    }
+    return;
+  }
+
+  if (value !== null && typeof value === 'object') {
+    const record = value as Record<string, unknown>;
+    for (const key of schema.required ?? []) {
+      if (!(key in record)) {
+        issues.push(`${path}: missing required property "${key}"`);
+      }
+    }
+    for (const [key, propertySchema] of Object.entries(schema.properties ?? {})) {
+      if (key in record) {
+        checkValueSchema(record[key], propertySchema, `${path}.${key}`, issues);
+      }
+    }
+  }
+}
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const DATE_PATTERN = /^(\d{4})-(\d{2})-(\d{2})$/;
+
+/**
+ * Checks a string against an input format
+ */
+function matchesFormat(value: string, format: FieldDefinition['format']): boolean {
+  switch (format) {
+    case 'email':
+      return EMAIL_PATTERN.test(value);
+    case 'url':
+      try {
+        const url = new URL(value);
+        return url.protocol === 'http:' || url.protocol === 'https:';
+      } catch {
+        return false;
+      }
+    case 'date': {
+      const match = value.match(DATE_PATTERN);
+      if (!match) return false;
+      // Reject dates like 2024-02-30 that Date would roll over
+      const date = new Date(Date.UTC(Number(match[1]), Number(match[2]) - 1, Number(match[3])));
+      return date.toISOString().slice(0, 10) === value;
+    }
+    default:
+      return true;
+  }
+}
 
 /**
  * Validates inputs against a schema
@@ -42,7 +125,9 @@ export class InputValidator {
       const typeError = this.validateType(fieldName, value, fieldDef.type);
       if (typeError) {
         errors.push(typeError);
+        continue;
       }
+      errors.push(...this.validateConstraints(fieldName, value, fieldDef));
     }
 
     if (errors.length > 0) {
@@ -53,7 +138,7 @@ export class InputValidator {
   /**
    * Validate a single value against a type
    */
-  private static validateType(fieldName: string, value: unknown, expectedType: PrimitiveType): string | null {
+  private static validateType(fieldName: string, value: unknown, expectedType: InputType): string | null {
     switch (expectedType) {
       case 'string':
         if (typeof value !== 'string') {
@@ -70,7 +155,224 @@ export class InputValidator {
           return `Field ${fieldName} must be a boolean, got ${typeof value}`;
         }
         break;
+      case 'array':
+        if (!Array.isArray(value)) {
+          return `Field ${fieldName} must be an array, got ${jsonTypeOf(value)}`;
+        }
+        break;
+      case 'object':
+        if (value === null || typeof value !== 'object' || Array.isArray(value)) {
+          return `Field ${fieldName} must be an object, got ${jsonTypeOf(value)}`;
+        }
+        break;
     }
     return null;
   }
+
+  /**
+   * Validate enum, pattern, length, range, format and items/properties constraints
+   * of a value that already has the right type
+   */
+  private static validateConstraints(fieldName: string, value: unknown, fieldDef: FieldDefinition): string[] {
+    const errors: string[] = [];
+
+    if (fieldDef.enum && !fieldDef.enum.includes(value as string | number)) {
+      errors.push(`Field ${fieldName} must be one of: ${fieldDef.enum.join(', ')}`);
+    }
+
+    if (typeof value === 'string') {
+      if (fieldDef.minLength !== undefined && value.length < fieldDef.minLength) {
+        errors.push(`Field ${fieldName} must be at least ${fieldDef.minLength} characters`);
+      }
+      if (fieldDef.maxLength !== undefined && value.length > fieldDef.maxLength) {
+        errors.push(`Field ${fieldName} must be at most ${fieldDef.maxLength} characters`);
+      }
+      if (fieldDef.pattern !== undefined && !new RegExp(fieldDef.pattern).test(value)) {
+        errors.push(`Field ${fieldName} must match pattern ${fieldDef.pattern}`);
+      }
+      if (fieldDef.format && !matchesFormat(value, fieldDef.format)) {
+        errors.push(`Field ${fieldName} must be a valid ${fieldDef.format}${fieldDef.format === 'date' ? ' (YYYY-MM-DD)' : ''}`);
+      }
+    }
+
+    if (typeof value === 'number') {
+      if (fieldDef.minimum !== undefined && value < fieldDef.minimum) {
+        errors.push(`Field ${fieldName} must be >= ${fieldDef.minimum}`);
+      }
+      if (fieldDef.maximum !== undefined && value > fieldDef.maximum) {
+        errors.push(`Field ${fieldName} must be <= ${fieldDef.maximum}`);
+      }
+    }
+
+    if (fieldDef.type === 'array' || fieldDef.type === 'object') {
+      const issues: string[] = [];
+      checkValueSchema(
+        value,
+        { items: fieldDef.items, properties: fieldDef.properties },
+        fieldName,
+        issues
+      );
+      errors.push(...issues.map((issue) => `Field ${issue}`));
+    }
+
+    return errors;
+  }
+}
+
+const TRUE_WORDS = new Set(['true', 'yes', 'y', '1', 'on']);
+const FALSE_WORDS = new Set(['false', 'no', 'n', '0', 'off']);
+
+/**
+ * Parses a scraped number such as "$1,299.00", " 42 " or "15%": drops whitespace,
+ * any leading/trailing symbols or units, then thousands separators. Commas that
+ * are not thousands separators ("1,5", "1.299,00") give NaN instead of a misread value.
+ */
+function parseLooseNumber(text: string): number {
+  const cleaned = text.replace(/\s/g, '').replace(/^[^\d.+-]+|[^\d.,]+$/g, '');
+  if (cleaned.includes(',') && !/^[+-]?\d{1,3}(,\d{3})+(\.\d*)?$/.test(cleaned)) {
+    return NaN;
+  }
+  const digits = cleaned.replace(/,/g, '');
+  return digits === '' ? NaN : Number(digits);
+}
+
+/**
+ * Applies a collectible's trim/regexExtract/coerce options to one scalar value.
+ * Returns the converted value, or an error describing why it could not be converted.
+ */
+function coerceScalar(
+  value: unknown,
+  definition: CollectibleDefinition,
+  path: string
+): { value: unknown } | { error: string } {
+  let current = value;
+
+  if (definition.trim && typeof current === 'string') {
+    current = current.trim();
+  }
+
+  if (definition.regexExtract && (typeof current === 'string' || typeof current === 'number')) {
+    const match = String(current).match(new RegExp(definition.regexExtract));
+    if (!match) {
+      return { error: `${path}: ${JSON.stringify(current)} does not match regexExtract /${definition.regexExtract}/` };
+    }
+    current = match[1] ?? match[0];
+  }
+
+  if (!definition.coerce) {
+    return { value: current };
+  }
+
+  const converted = convert(current, definition.coerce);
+  if (converted === undefined) {
+    return { error: `${path}: cannot coerce ${JSON.stringify(current)} to ${definition.coerce}` };
+  }
+  return { value: converted };
+}
+
+/**
+ * Converts a value for a coercion; undefined when it cannot be converted
+ */
+function convert(value: unknown, coercion: CollectibleCoercion): unknown {
+  switch (coercion) {
+    case 'number':
+    case 'integer': {
+      const num = typeof value === 'number' ? value : typeof value === 'string' ? parseLooseNumber(value) : NaN;
+      if (!Number.isFinite(num) || (coercion === 'integer' && !Number.isInteger(num))) return undefined;
+      return num;
+    }
+    case 'boolean': {
+      if (typeof value === 'boolean') return value;
+      const word = String(value).trim().toLowerCase();
+      if (TRUE_WORDS.has(word)) return true;
+      if (FALSE_WORDS.has(word)) return false;
+      return undefined;
+    }
+    case 'date-iso': {
+      if (typeof value !== 'string' && typeof value !== 'number') return undefined;
+      const date = new Date(typeof value === 'string' ? value.trim() : value);
+      return Number.isNaN(date.getTime()) ? undefined : date.toISOString();
+    }
+  }
+}
+
+/**
+ * Validates collectible values produced by a run against their declared types and schemas
+ */
+export class CollectibleValidator {
+  /**
+   * Apply each definition's trim/regexExtract/coerce options. Arrays have the
+   * options applied to their scalar elements; objects are left as they are.
+   * Values that cannot be converted are kept unchanged and reported in `issues`.
+   */
+  static coerce(
+    collectibles: Record<string, unknown>,
+    definitions: CollectibleDefinition[]
+  ): { collectibles: Record<string, unknown>; issues: string[] } {
+    const result: Record<string, unknown> = { ...collectibles };
+    const issues: string[] = [];
+
+    for (const definition of definitions) {
+      if (!definition.trim && !definition.regexExtract && !definition.coerce) continue;
+      const value = collectibles[definition.name];
+      if (value === undefined || value === null) continue;
+
+      const found: string[] = [];
+      const apply = (item: unknown, path: string): unknown => {
+        if (item === null || typeof item === 'object') return item;
+        const outcome = coerceScalar(item, definition, path);
+        if ('error' in outcome) {
+          found.push(outcome.error);
+          return item;
+        }
+        return outcome.value;
+      };
+
+      result[definition.name] = Array.isArray(value)
+        ? value.map((item, index) => apply(item, `${definition.name}[${index}]`))
+        : apply(value, definition.name);
+
+      issues.push(...found.slice(0, MAX_ISSUES_PER_COLLECTIBLE));
+      if (found.length > MAX_ISSUES_PER_COLLECTIBLE) {
+        issues.push(`${definition.name}: ${found.length - MAX_ISSUES_PER_COLLECTIBLE} more value(s) could not be converted`);
+      }
+    }
+
+    return { collectibles: result, issues };
+  }
+
+  /**
+   * Check collectibles against their definitions. Returns one message per mismatch
+   * (e.g. "products[2].price: expected number, got string"); collectibles the run
+   * did not produce are skipped.
+   */
+  static validate(collectibles: Record<string, unknown>, definitions: CollectibleDefinition[]): string[] {
+    const issues: string[] = [];
+
+    for (const definition of definitions) {
+      const value = collectibles[definition.name];
+      if (value === undefined || value === null) continue;
+
+      const found: string[] = [];
+      checkValueSchema(value, this.toValueSchema(definition), definition.name, found);
+      issues.push(...found.slice(0, MAX_ISSUES_PER_COLLECTIBLE));
+      if (found.length > MAX_ISSUES_PER_COLLECTIBLE) {
+        issues.push(`${definition.name}: ${found.length - MAX_ISSUES_PER_COLLECTIBLE} more mismatch(es)`);
+      }
+    }
+
+    return issues;
+  }
+
+  /**
+   * The value schema of a collectible definition
+   */
+  static toValueSchema(definition: CollectibleDefinition): ValueSchema {
+    return {
+      type: definition.type,
+      items: definition.items,
+      properties: definition.properties,
+      required: definition.required,
+    };
+  }
 }
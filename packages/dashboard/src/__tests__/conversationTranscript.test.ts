@@ -92,6 +92,7 @@ function buildContext(overrides: Partial<DashboardContext>): DashboardContext {
     packMap: new Map(),
     runManager: { getAllRuns: () => [] } as any,
     concurrencyLimiter: {} as any,
+    runCancellers: new Map(),
     mcpServer: { handle: null, packIds: [], runIdMap: new Map() },
     io,
     taskPackEditor: {
@@ -105,6 +106,8 @@ function buildContext(overrides: Partial<DashboardContext>): DashboardContext {
     llmProvider: createMockLlmProvider(),
     systemPrompt: 'You are a test agent.',
     pendingSecretsRequests: new Map(),
+    pendingHumanPauses: new Map(),
+    pendingDebugPauses: new Map(),
     techniqueManager: null,
     ...overrides,
   };
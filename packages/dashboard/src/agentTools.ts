@@ -7,8 +7,8 @@ import type { TaskPackEditorWrapper } from './mcpWrappers.js';
 import * as browserInspector from './browserInspector.js';
 import { isSessionAlive, startBrowserSession, closeSession } from './browserInspector.js';
 import { getSecretNamesWithValues } from './secretsUtils.js';
-import { resolveTemplates, TaskPackLoader, saveVersion, resolveProxy } from '@showrun/core';
-import type { ProxyConfig } from '@showrun/core';
+import { resolveTemplates, TaskPackLoader, saveVersion, resolveProxy, validateBrowserSettings } from '@showrun/core';
+import type { ProxyConfig, BrowserSettings } from '@showrun/core';
 import { executePlanTool } from './contextManager.js';
 import {
   updateConversation,
@@ -48,6 +48,12 @@ export function setConversationBrowserSession(conversationId: string, sessionId:
   }
 }
 
+/** BrowserSettings fields the set_browser_context tool can set or clear */
+const BROWSER_CONTEXT_FIELDS = [
+  'locale', 'timezoneId', 'geolocation', 'viewport',
+  'deviceScaleFactor', 'userAgent', 'extraHTTPHeaders', 'colorScheme',
+] as const;
+
 /** OpenAI-format tool definitions: Editor MCP + Browser MCP (always on) */
 export const MCP_AGENT_TOOL_DEFINITIONS: ToolDef[] = [
   {
@@ -78,7 +84,7 @@ export const MCP_AGENT_TOOL_DEFINITIONS: ToolDef[] = [
     type: 'function',
     function: {
       name: 'editor_validate_flow',
-      description: 'Validate flow JSON text (DSL steps and collectibles). Returns ok, errors, warnings.',
+      description: 'Validate flow JSON text (DSL steps and collectibles), then check data flow: undeclared inputs, vars used before they are set or never used, outs to undeclared collectibles. Returns ok, errors, warnings (with step IDs).',
       parameters: {
         type: 'object',
         properties: { flowJsonText: { type: 'string', description: 'Flow JSON as string' } },
@@ -112,26 +118,41 @@ export const MCP_AGENT_TOOL_DEFINITIONS: ToolDef[] = [
           },
           collectibles: {
             type: 'array',
-            description: 'Required for update_collectibles. Array of { name, type, description }.',
+            description: 'Required for update_collectibles. Array of { name, type, description, items?, properties?, required? }. type: string|number|boolean|array|object; describe array elements with items (JSON Schema, e.g. { type: "object", properties: { name: { type: "string" } } }) and object fields with properties/required. Optional post-run cleanup of scraped values (per value, or per element of an array of scalars): trim (boolean), regexExtract (regex; keeps the first capture group), coerce: number|integer|boolean|date-iso (e.g. "$1,299.00" -> 1299).',
             items: {
               type: 'object',
               properties: {
                 name: { type: 'string' },
-                type: { type: 'string' },
+                type: { type: 'string', enum: ['string', 'number', 'boolean', 'array', 'object'] },
                 description: { type: 'string' },
+                items: { type: 'object' },
+                properties: { type: 'object' },
+                required: { type: 'array', items: { type: 'string' } },
+                trim: { type: 'boolean' },
+                regexExtract: { type: 'string' },
+                coerce: { type: 'string', enum: ['number', 'integer', 'boolean', 'date-iso'] },
               },
             },
           },
           inputs: {
             type: 'object',
-            description: 'Required for update_inputs. Object of { fieldName: { type, description?, required?, default? } }. Merges with existing inputs.',
+            description: 'Required for update_inputs. Object of { fieldName: { type, description?, required?, default?, enum?, items?, properties?, pattern?, minLength?, maxLength?, minimum?, maximum?, format? } }. Merges with existing inputs.',
             additionalProperties: {
               type: 'object',
               properties: {
-                type: { type: 'string', description: 'Field type: string, number, boolean, etc.' },
+                type: { type: 'string', enum: ['string', 'number', 'boolean', 'array', 'object'] },
                 description: { type: 'string' },
                 required: { type: 'boolean' },
                 default: {},
+                enum: { type: 'array', description: 'Allowed values (string or number fields)' },
+                items: { type: 'object', description: 'JSON Schema of one element (array fields)' },
+                properties: { type: 'object', description: 'JSON Schema per property (object fields)' },
+                pattern: { type: 'string', description: 'Regex the value must match (string fields)' },
+                minLength: { type: 'number' },
+                maxLength: { type: 'number' },
+                minimum: { type: 'number' },
+                maximum: { type: 'number' },
+                format: { type: 'string', enum: ['date', 'email', 'url'] },
               },
             },
           },
@@ -466,6 +487,72 @@ export const MCP_AGENT_TOOL_DEFINITIONS: ToolDef[] = [
       },
     },
   },
+  {
+    type: 'function',
+    function: {
+      name: 'set_browser_context',
+      description: 'Set browser context options for the current flow: locale, timezone, geolocation, viewport, device scale factor, user agent, extra HTTP headers, color scheme. Saved to taskpack.json browser settings and applied to every run. Use when: the site renders differently by region/language, shows a mobile or geo-blocked version, or the user asks for a specific locale/location. Only the given fields change; list fields in "clear" to remove them. Closes current browser session; it will restart with the new options on next browser tool call. Persistent profile (cookies) is preserved.',
+      parameters: {
+        type: 'object',
+        properties: {
+          locale: {
+            type: 'string',
+            description: 'BCP 47 locale, e.g. "de-DE" (navigator.language, Accept-Language)',
+          },
+          timezoneId: {
+            type: 'string',
+            description: 'IANA timezone ID, e.g. "Europe/Berlin"',
+          },
+          geolocation: {
+            type: 'object',
+            properties: {
+              latitude: { type: 'number' },
+              longitude: { type: 'number' },
+              accuracy: { type: 'number', description: 'Accuracy in meters' },
+            },
+            required: ['latitude', 'longitude'],
+            description: 'Location reported to pages; the geolocation permission is granted automatically',
+          },
+          viewport: {
+            type: 'object',
+            properties: {
+              width: { type: 'number' },
+              height: { type: 'number' },
+            },
+            required: ['width', 'height'],
+            description: 'Viewport size in CSS pixels',
+          },
+          deviceScaleFactor: {
+            type: 'number',
+            description: 'Device pixel ratio, e.g. 2 for retina screens',
+          },
+          userAgent: {
+            type: 'string',
+            description: 'User-Agent string',
+          },
+          extraHTTPHeaders: {
+            type: 'object',
+            additionalProperties: { type: 'string' },
+            description: 'Headers added to every request, e.g. {"Accept-Language": "de-DE"}',
+          },
+          colorScheme: {
+            type: 'string',
+            enum: ['light', 'dark', 'no-preference'],
+            description: 'Color scheme reported to pages',
+          },
+          clear: {
+            type: 'array',
+            items: {
+              type: 'string',
+              enum: [...BROWSER_CONTEXT_FIELDS],
+            },
+            description: 'Fields to remove from the browser settings',
+          },
+        },
+        required: [],
+      },
+    },
+  },
   // Context management tools
   {
     type: 'function',
@@ -988,8 +1075,8 @@ const EXPLORATION_ONLY_TOOL_NAMES = new Set([
   'conversation_update_title', 'conversation_update_description', 'conversation_set_status',
   // Secrets
   'request_secrets',
-  // Proxy
-  'set_proxy',
+  // Proxy and browser context options
+  'set_proxy', 'set_browser_context',
   // Read-only pack inspection
   'editor_read_pack',
   // Techniques DB
@@ -1069,6 +1156,7 @@ async function ensureBrowserSession(ctx: AgentToolContext): Promise<string> {
       // Determine persistent context directory and proxy based on linked pack
       let persistentContextDir: string | undefined;
       let resolvedProxy: import('@showrun/core').ResolvedProxy | undefined;
+      let browserSettings: BrowserSettings | undefined;
 
       if (ctx.packId) {
         const packs = await ctx.taskPackEditor.listPacks();
@@ -1078,17 +1166,18 @@ async function ensureBrowserSession(ctx: AgentToolContext): Promise<string> {
           mkdirSync(persistentContextDir, { recursive: true });
           console.log(`[BrowserAuto] Using persistent profile for pack ${ctx.packId}: ${persistentContextDir}`);
 
-          // Resolve proxy from pack's browser.proxy config
+          // Resolve proxy and context options (locale, timezone, ...) from pack's browser config
           try {
             const manifestJson = readFileSync(join(pack.path, 'taskpack.json'), 'utf-8');
             const manifest = JSON.parse(manifestJson);
+            browserSettings = manifest.browser;
             const proxyResult = resolveProxy(manifest.browser?.proxy);
             if (proxyResult) {
               resolvedProxy = proxyResult;
               console.log(`[BrowserAuto] Proxy enabled for pack ${ctx.packId}`);
             }
           } catch {
-            // Ignore errors reading manifest for proxy
+            // Ignore errors reading manifest for browser settings
           }
         }
       }
@@ -1098,6 +1187,7 @@ async function ensureBrowserSession(ctx: AgentToolContext): Promise<string> {
         persistentContextDir,
         packId: ctx.packId ?? undefined,
         proxy: resolvedProxy,
+        browserSettings,
       });
 
       // Store session in memory map
@@ -1166,7 +1256,7 @@ export async function executeAgentTool(
       case 'validate_flow': {
         const flowJsonText = args.flowJsonText as string;
         if (typeof flowJsonText !== 'string') throw new Error('flowJsonText required');
-        const result = await taskPackEditor.validateFlow(flowJsonText);
+        const result = await taskPackEditor.validateFlow(flowJsonText, ctx.packId ?? undefined);
         return wrap(JSON.stringify(result, null, 2));
       }
       case 'apply_flow_patch': {
@@ -1289,6 +1379,54 @@ export async function executeAgentTool(
 
         return wrap(JSON.stringify({ success: true, message: statusMsg }, null, 2));
       }
+      case 'set_browser_context': {
+        const packId = ctx.packId;
+        if (!packId) throw new Error('No pack linked to this conversation');
+        const packs = await ctx.taskPackEditor.listPacks();
+        const pack = packs.find((p: { id: string; path?: string }) => p.id === packId);
+        if (!pack?.path) throw new Error(`Pack ${packId} not found or path not available`);
+
+        const manifestPath = join(pack.path, 'taskpack.json');
+        const manifest = JSON.parse(readFileSync(manifestPath, 'utf-8'));
+        const browser: BrowserSettings = { ...manifest.browser };
+
+        const cleared = Array.isArray(args.clear) ? (args.clear as string[]) : [];
+        for (const field of BROWSER_CONTEXT_FIELDS) {
+          if (cleared.includes(field)) {
+            delete browser[field];
+          } else if (args[field] !== undefined) {
+            (browser as Record<string, unknown>)[field] = args[field];
+          }
+        }
+
+        const errors: string[] = [];
+        validateBrowserSettings(browser, errors);
+        if (errors.length > 0) {
+          return wrap(JSON.stringify({ error: 'Invalid browser settings', details: errors }, null, 2));
+        }
+
+        // Persist to taskpack.json
+        manifest.browser = browser;
+        writeFileSync(manifestPath, JSON.stringify(manifest, null, 2) + '\n', 'utf-8');
+
+        // Close existing browser session if open
+        if (ctx.conversationId) {
+          const existingSessionId = getConversationBrowserSession(ctx.conversationId);
+          if (existingSessionId && isSessionAlive(existingSessionId)) {
+            await closeSession(existingSessionId);
+            setConversationBrowserSession(ctx.conversationId, null);
+          }
+        }
+
+        const contextSettings = Object.fromEntries(
+          BROWSER_CONTEXT_FIELDS.filter((field) => browser[field] !== undefined).map((field) => [field, browser[field]])
+        );
+        return wrap(JSON.stringify({
+          success: true,
+          browser: contextSettings,
+          message: 'Browser context options saved. Browser session closed and will restart with them on next browser tool call. Persistent profile (cookies) preserved.',
+        }, null, 2));
+      }
       case 'close_session': {
         const sessionId = effectiveArgs.sessionId as string;
         await closeSession(sessionId);
@@ -46,6 +46,12 @@ describe('Tool Definitions Split', () => {
     expect(names).toContain('request_secrets');
   });
 
+  it('EXPLORATION_AGENT_TOOLS contains set_proxy and set_browser_context', () => {
+    const names = EXPLORATION_AGENT_TOOLS.map(t => t.function.name);
+    expect(names).toContain('set_proxy');
+    expect(names).toContain('set_browser_context');
+  });
+
   it('EXPLORATION_AGENT_TOOLS does NOT contain editor write tools', () => {
     const names = EXPLORATION_AGENT_TOOLS.map(t => t.function.name);
     expect(names).not.toContain('editor_apply_flow_patch');
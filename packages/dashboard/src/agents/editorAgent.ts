@@ -47,22 +47,47 @@ Only use DOM steps when the exploration context explicitly says "no API found" o
 | \`navigate\` | \`url\` | \`waitUntil\` |
 | \`wait_for\` | ONE OF: \`target\`, \`selector\`, \`url\`, \`loadState\` | \`visible\`, \`timeoutMs\` |
 | \`click\` | \`target\` OR \`selector\` | \`first\`, \`scope\`, \`near\` |
+| \`hover\` | \`target\` | \`hint\`, \`scope\`, \`near\` |
+| \`check\` | \`target\` (checkbox or radio) | \`checked\` (default true; false unchecks) |
+| \`dblclick\` | \`target\` | \`waitForVisible\` |
+| \`drag_to\` | \`source\` + \`destination\` (targets) | \`scope\` |
 | \`fill\` | (\`target\` OR \`selector\`) + \`value\` | \`first\`, \`clear\` |
 | \`extract_text\` | (\`target\` OR \`selector\`) + \`out\` | \`first\`, \`trim\`, \`default\` |
 | \`extract_attribute\` | (\`target\` OR \`selector\`) + \`attribute\` + \`out\` | \`first\`, \`default\` |
 | \`extract_title\` | \`out\` | — |
 | \`select_option\` | \`target\` + \`value\` | \`first\` |
 | \`press_key\` | \`key\` | \`target\`, \`times\`, \`delayMs\` |
-| \`assert\` | \`target\` OR \`urlIncludes\` | \`visible\`, \`textIncludes\` |
+| \`assert\` | \`target\`, \`urlIncludes\`, \`notEmpty\` (var/collectible key), \`arrayLength\` ({of, min?, max?}) OR \`predicate\` (JMESPath over {vars, collectibles, inputs}) | With a target: \`visible\`, \`textIncludes\`, \`textMatches\` (regex), \`attributeEquals\` ({name, value}), \`count\` ({eq?, min?, max?}); \`message\`. Use after scraping, e.g. \`arrayLength: { of: "rows", min: 1 }\`, so an empty scrape fails the run |
 | \`set_var\` | \`name\` + \`value\` (string/number/boolean only) | — |
 | \`sleep\` | \`durationMs\` | — |
 | \`upload_file\` | \`target\` + \`files\` | — |
 | \`frame\` | \`frame\` + \`action\` (\`enter\`/\`exit\`) | — |
 | \`new_tab\` | \`url\` | \`saveTabIndexAs\` |
 | \`switch_tab\` | \`tab\` | \`closeCurrentTab\` |
+| \`extract_table\` | \`target\` (\`<table>\` or role=grid) + \`out\` | \`rename\` (header text → key), \`skipRows\`, \`skipFooterRows\`, \`skip_empty\`, \`next\` (next-page target), \`maxPages\` (default 10), \`waitMs\` |
+| \`scroll\` | — (scrolls the page to the bottom) | \`container\` (target), \`by\` (pixels or "bottom"), \`items\` (target; stops when the count stops growing), \`maxScrolls\` (default 20), \`maxItems\`, \`waitMs\` (default 1000), \`saveAs\` |
+| \`download_file\` | — (takes the download started by the previous step) | \`target\` (click to start the download), \`filename\`, \`parseAs\` (\`csv\`/\`json\`/\`text\`) + \`contentOut\`, \`out\`/\`saveAs\` (path, filename, size, sha256) |
+| \`handle_dialog\` | \`action\` (\`accept\`/\`dismiss\`) | \`promptText\` (accept only), \`expectMessageIncludes\`, \`dialogType\`, \`persistent\` (default: next dialog only), \`saveAs\` (dialog message). Add it BEFORE the step that opens an alert/confirm/prompt; dialogs nothing handles are dismissed and logged |
+| \`set_cookies\` | \`cookies\` ([{name, value}]) | per cookie: \`url\` or \`domain\` (default: current page URL), \`path\`, \`expires\`, \`httpOnly\`, \`secure\`, \`sameSite\`. Values may use \`{{secret.NAME}}\` (redacted in logs). Use to inject a known consent cookie instead of clicking a banner |
+| \`get_cookies\` | \`saveAs\` | \`name\`, \`domain\` (includes subdomains) |
+| \`clear_cookies\` | — (clears all cookies) | \`name\`, \`domain\` |
+| \`get_storage\` | \`saveAs\` | \`storage\` (\`local\`/\`session\`, default \`local\`), \`key\` (without it, all entries). E.g. read a CSRF token for \`network_replay\` overrides |
+| \`set_storage\` | \`values\` ({key: value}) | \`storage\` |
+| \`pause_for_human\` | \`message\` | \`resumeWhen\` (condition, e.g. \`{ "url_includes": "/dashboard" }\`), \`maxWaitMs\` (default 300000). Last resort for CAPTCHAs or device approval: only headful dashboard runs can pause, so \`editor_run_pack\` fails it with HUMAN_INPUT_UNAVAILABLE |
 | \`network_find\` | \`where\` + \`saveAs\` | \`pick\`, \`waitForMs\` |
+| \`wait_for_response\` | \`where\` (same filters as network_find) | \`saveAs\` (matched requestId), \`waitForMs\` (default 30000). Use instead of \`sleep\` after an action that fires a request |
 | \`network_replay\` | \`requestId\` + \`auth\` ("browser_context") + \`out\` + \`response\` ({as: "json"\\|"text"}) | \`overrides\`, \`saveAs\`, \`response.path\` |
+| \`network_paginate\` | \`requestId\` + \`auth\` ("browser_context") + \`pagination\` ({type: "cursor"\\|"page"\\|"offset", param, cursorPath for cursor}) + \`itemsPath\` (JMESPath) + \`out\` | \`overrides\`, \`pagination.in\` ("query"\\|"body"), \`pagination.start\`, \`pagination.pageSize\`, \`maxPages\` (default 20), \`saveAs\` |
 | \`network_extract\` | \`fromVar\` + \`as\` ("json"\\|"text") + \`out\` | \`path\` |
+| \`transform\` | \`sources\` (name → var/collectible key) + \`expression\` (JMESPath over the named sources) + \`out\` OR \`saveAs\` | — |
+| \`for_each\` | \`items\` (\`{{vars.x}}\`, \`{{inputs.x}}\` or a collectible name) + \`steps\` (nested steps) | \`as\` (default "item"), \`indexAs\` (default "index"), \`collect\`, \`out\`, \`maxIterations\` |
+| \`if\` | \`condition\` (same format as skip_if) + \`then\` (nested steps) | \`else\` (nested steps) |
+| \`call_pack\` | \`pack\` (ID of a pack in the same packs directory) | \`version\` (exact pin), \`inputs\` (templated; a lone \`{{vars.x}}\` keeps its raw value), \`out\` ({childCollectible: collectible}), \`saveAs\` ({childCollectible: var}). Runs on the same page; browser mode only |
+| \`include\` | \`fragment\` (name in flow.json \`fragments\` or \`fragments/<name>.json\`) | \`with\` (values for the fragment's \`{{params.x}}\`). Expanded at load time; steps get IDs like \`<includeId>.<stepId>\` |
+
+Any step can also take \`retry\` (next to \`id\`/\`type\`, not in params) for flaky clicks or transient API errors: \`{ "attempts": 3, "backoffMs": 1000, "backoffFactor": 2, "retryOn": { "status": [429, 503] } }\`. \`retryOn\` accepts \`errorMatches\` (regex), \`status\` (network_replay only) and \`timeout: true\`; omit it to retry any error.
+
+Steps repeated across packs (consent banners, search boxes) can live in a fragment: \`"fragments": { "dismiss_consent": { "params": { "buttonText": { "default": "Accept" } }, "steps": [...] } }\` at the top level of flow.json (or \`fragments/dismiss_consent.json\`), used with \`{ "id": "consent", "type": "include", "params": { "fragment": "dismiss_consent" } }\`. An \`include\` step takes only \`id\`, \`label\` and \`params\`.
 
 ### Target format (NEVER use a plain string):
 ✅ \`{ "kind": "css", "selector": ".my-class" }\`
@@ -112,7 +137,7 @@ For API-based flows (the most common case), follow this exact sequence:
 \`\`\`
 Call 1: editor_read_pack
 Call 2: editor_apply_flow_patch({ op: "update_inputs", inputs: { "batch": { "type": "string", "required": true } } })
-Call 3: editor_apply_flow_patch({ op: "update_collectibles", collectibles: [{ "name": "items", "type": "array", "description": "..." }] })
+Call 3: editor_apply_flow_patch({ op: "update_collectibles", collectibles: [{ "name": "items", "type": "array", "description": "...", "items": { "type": "object", "properties": { "name": { "type": "string" }, "id": { "type": "string" } } } }] })
 Call 4: editor_apply_flow_patch({ op: "batch_append", steps: [
   { "id": "nav", "type": "navigate", "params": { "url": "https://example.com/items?filter=test+value" } },
   { "id": "find_api", "type": "network_find", "params": { "where": { "urlIncludes": "api.example", "method": "POST" }, "pick": "last", "saveAs": "reqId", "waitForMs": 10000 } },
@@ -158,14 +183,26 @@ Every step object MUST have \`id\`, \`type\`, and \`params\`. Missing any of the
 |------|-----------|-----------|
 | \`set_var\` | \`name\` | **vars** (internal, not returned) |
 | \`network_find\` | \`saveAs\` | **vars** (internal, not returned) |
+| \`wait_for_response\` | \`saveAs\` | **vars** (internal, not returned) |
 | \`network_replay\` | \`saveAs\` | **vars** (raw response object) |
 | \`network_replay\` | \`out\` | **collectibles** (extracted/processed value) |
 | \`extract_text\` | \`out\` | **collectibles** |
 | \`extract_attribute\` | \`out\` | **collectibles** |
 | \`network_extract\` | \`out\` | **collectibles** |
+| \`extract_table\` | \`out\` | **collectibles** |
+| \`transform\` | \`out\` | **collectibles** |
+| \`transform\` | \`saveAs\` | **vars** |
+| \`call_pack\` | \`out\` | **collectibles** (one per mapped child collectible) |
+| \`call_pack\` | \`saveAs\` | **vars** |
 
 **CRITICAL: Only collectibles whose \`out\` name matches a declared entry in the \`collectibles\` array are returned in the output.** If \`out\` writes to \`"companyData"\` but only \`"companies"\` is declared, the output will be empty. Always ensure \`out\` names match declared collectible names exactly.
 
+Declare the real shape of each collectible: \`type\` is \`string\`, \`number\`, \`boolean\`, \`array\` or \`object\`. For arrays (dom_scrape, extract_table, network_extract lists) add \`items\` with a JSON Schema of one element; for objects add \`properties\` (and \`required\`). Values are checked after the run and mismatches are reported in \`_hints\` as "Collectible schema mismatch: ...".
+
+Scraped text rarely has the declared type as-is. Clean it up on the collectible instead of adding steps: \`trim: true\`, \`regexExtract\` (keeps the first capture group, e.g. \`"SKU:\\\\s*(\\\\w+)"\`) and \`coerce\` (\`number\`, \`integer\`, \`boolean\`, \`date-iso\`) — e.g. \`{ "name": "price", "type": "number", "coerce": "number" }\` turns "$1,299.00" into 1299. These apply to a scalar value or to each element of an array of scalars. If taskpack.json sets \`"strictOutputs": true\`, mismatches fail the run instead of becoming hints.
+
+Inputs are validated before the run. Besides \`string\`, \`number\` and \`boolean\`, an input may be an \`array\` (with \`items\`) or an \`object\` (with \`properties\`). Constrain values where the site does: \`enum\` for fixed choices (sort orders, categories), \`pattern\`/\`minLength\`/\`maxLength\`/\`format\` (\`date\`, \`email\`, \`url\`) for strings, \`minimum\`/\`maximum\` for numbers.
+
 ## Network Step Pattern
 
 \`\`\`json
@@ -259,8 +296,14 @@ When no URL-based filtering is available, use bodyReplace to swap specific value
 
 Steps can be conditionally skipped using \`skip_if\`:
 - \`url_includes\`, \`url_matches\`, \`element_visible\`, \`element_exists\`
+- \`response_seen\` — a captured response matches network_find \`where\` filters, e.g. \`{ "response_seen": { "urlIncludes": "/api/cart", "status": 200 } }\`
 - \`var_equals\`, \`var_truthy\`, \`var_falsy\`
-- \`all\` (AND), \`any\` (OR) for compound conditions
+- \`var_gt\` / \`var_lt\` — \`{ "var_gt": { "name": "total", "value": 20 } }\` (numeric strings are compared as numbers)
+- \`var_matches\` — \`{ "var_matches": { "name": "region", "pattern": "^eu-" } }\`
+- \`array_length\` — \`{ "array_length": { "name": "items", "eq": 0 } }\` (also \`min\`/\`max\`)
+- \`not\` to negate, \`all\` (AND), \`any\` (OR) for compound conditions
+
+The same conditions work in \`if\` steps. Only var-based conditions (\`var_*\`, \`array_length\` and \`not\`/\`all\`/\`any\` of them) can be evaluated in HTTP-only mode; a page or network condition keeps the pack on the browser path.
 
 ## Testing
 
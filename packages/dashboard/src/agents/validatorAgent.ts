@@ -51,7 +51,7 @@ Call \`editor_read_pack\` to see the flow structure. Note:
 - Whether network steps or DOM steps are used
 
 ### Step 2: Structural Validation
-Call \`editor_validate_flow\` with the flow JSON to check for structural errors (missing fields, invalid step types, etc.).
+Call \`editor_validate_flow\` with the flow JSON to check for structural errors (missing fields, invalid step types, etc.) and data-flow problems (undeclared inputs, vars used before they are set, outs to undeclared collectibles). Data-flow warnings (e.g. a var that may be unset after a skipped step) are worth a note but are not failures on their own.
 
 ### Step 3: Run Provided Scenarios
 For each test scenario provided, call \`editor_run_pack\` with the scenario's inputs and analyze:
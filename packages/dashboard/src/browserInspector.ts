@@ -5,7 +5,7 @@
 
 import { type Browser, type BrowserContext, type Page } from 'playwright';
 import { launchBrowser, type BrowserEngine } from '@showrun/core';
-import type { ResolvedProxy } from '@showrun/core';
+import type { ResolvedProxy, BrowserSettings } from '@showrun/core';
 import type { Target } from '@showrun/core';
 
 export type { BrowserEngine };
@@ -165,6 +165,8 @@ export interface StartSessionOptions {
   packId?: string;
   /** Resolved proxy for routing traffic */
   proxy?: ResolvedProxy;
+  /** Pack browser settings (locale, timezone, viewport, ...); the engine argument wins */
+  browserSettings?: BrowserSettings;
 }
 
 const POST_DATA_REPLAY_CAP = 64 * 1024; // 64KB for replay
@@ -265,11 +267,11 @@ export async function startBrowserSession(
   engine: BrowserEngine = 'camoufox',
   options?: StartSessionOptions
 ): Promise<string> {
-  const { persistentContextDir, packId, proxy } = options ?? {};
+  const { persistentContextDir, packId, proxy, browserSettings } = options ?? {};
 
   // Delegate browser launching to core's unified launcher
   const coreSession = await launchBrowser({
-    browserSettings: { engine },
+    browserSettings: { ...browserSettings, engine },
     headless: !headful,
     userDataDir: persistentContextDir,
     proxy,
@@ -35,7 +35,7 @@ export interface DbRunInfo {
   packName: string;
   conversationId: string | null;
   source: 'dashboard' | 'mcp' | 'cli' | 'agent';
-  status: 'queued' | 'running' | 'success' | 'failed';
+  status: 'queued' | 'running' | 'success' | 'failed' | 'cancelled';
   createdAt: number;
   startedAt: number | null;
   finishedAt: number | null;
@@ -839,7 +839,7 @@ export interface LegacyRunInfo {
   runId: string;
   packId: string;
   packName: string;
-  status: 'queued' | 'running' | 'success' | 'failed';
+  status: 'queued' | 'running' | 'success' | 'failed' | 'cancelled';
   createdAt: number;
   startedAt?: number;
   finishedAt?: number;
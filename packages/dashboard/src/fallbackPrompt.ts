@@ -144,6 +144,7 @@ Include: API endpoints, body format, extraction paths, auth patterns.
 | \`browser_last_actions()\` | Recent browser actions |
 | \`browser_close_session()\` | Close browser |
 | \`set_proxy(enabled, mode?, country?)\` | Enable/disable proxy for flow (restarts browser) |
+| \`set_browser_context(locale?, timezoneId?, geolocation?, viewport?, ...)\` | Set locale/timezone/location/viewport/user agent for flow (restarts browser) |
 
 ### Network Tools
 | Tool | Purpose |
@@ -194,6 +195,7 @@ Include: API endpoints, body format, extraction paths, auth patterns.
 - \`country\` param for geo-targeting (e.g., "US")
 - Browser restarts when toggled; persistent profile preserved
 - Proxy also applies to HTTP-only request replays
+- Geo-sensitive sites: pair the proxy \`country\` with \`set_browser_context(locale: "de-DE", timezoneId: "Europe/Berlin", geolocation: {...})\` so the page sees a consistent region
 
 ## CRITICAL REMINDERS
 
@@ -4,10 +4,12 @@
  * These can be called directly without MCP protocol overhead
  */
 
-import type { DslStep, CollectibleDefinition, TaskPackManifest } from '@showrun/core';
+import type { DslStep, CollectibleDefinition, TaskPackManifest, FlowFragment, FieldDefinition } from '@showrun/core';
 import {
   TaskPackLoader,
   validateJsonTaskPack,
+  analyzePackDataFlow,
+  formatDataFlowIssue,
   runTaskPack,
   readJsonFile,
   writeFlowJson,
@@ -17,8 +19,8 @@ import {
   sanitizePackId,
   generateResultKey,
 } from '@showrun/core';
-import type { ResultStoreProvider, CollectibleSchemaField } from '@showrun/core';
-import { discoverPacks } from '@showrun/mcp-server';
+import type { ResultStoreProvider, CollectibleSchemaField, ErrorWithPartialResult } from '@showrun/core';
+import { discoverPacks, packToSchema } from '@showrun/mcp-server';
 import { JSONLLogger } from '@showrun/harness';
 import { randomBytes } from 'crypto';
 import { resolve } from 'path';
@@ -34,7 +36,7 @@ export type FlowPatchOp =
   | { op: 'replace'; index: number; step: DslStep }
   | { op: 'delete'; index: number }
   | { op: 'update_collectibles'; collectibles: CollectibleDefinition[] }
-  | { op: 'update_inputs'; inputs: Record<string, { type: string; description?: string; required?: boolean; default?: unknown }> };
+  | { op: 'update_inputs'; inputs: Record<string, FieldDefinition> };
 
 /**
  * Result of running a task pack
@@ -64,9 +66,23 @@ function getStepParamsHint(stepType: string): string {
     extract_text: 'Required: target (object with kind) OR selector (string), out (string). Optional: first, trim, default.',
     extract_attribute: 'Required: target OR selector, attribute (string), out (string). Optional: first, default.',
     extract_title: 'Required: out (string).',
+    extract_table: 'Required: target (<table> or role=grid element), out (string). Optional: rename ({header text: key}), skipRows, skipFooterRows, skip_empty, next (target), maxPages, waitMs.',
     network_find: 'Required: where ({urlIncludes?, method?, ...}), saveAs (string). Optional: pick, waitForMs. Note: "url" is NOT valid in where — use "urlIncludes".',
+    wait_for_response: 'Required: where ({urlIncludes?, method?, status?, ...}, same as network_find). Optional: saveAs (requestId), waitForMs.',
     network_replay: 'Required: requestId, auth ("browser_context"), out (string), response ({as: "json"|"text"}). Optional: overrides, saveAs, response.path.',
+    network_paginate: 'Required: requestId, auth ("browser_context"), pagination ({type: "cursor"|"page"|"offset", param, cursorPath (cursor only)}), itemsPath (JMESPath), out (string). Optional: overrides, pagination.in ("query"|"body"), pagination.start, pagination.pageSize, maxPages, saveAs.',
     network_extract: 'Required: fromVar (string), as ("json"|"text"), out (string). Optional: path (JMESPath).',
+    transform: 'Required: sources ({name: var or collectible key}), expression (JMESPath over the named sources), out OR saveAs (string).',
+    call_pack: 'Required: pack (pack ID in the same packs directory). Optional: version (exact), inputs (templated), out ({childCollectible: collectible}), saveAs ({childCollectible: var}).',
+    include: 'Required: fragment (name from flow.json "fragments" or fragments/<name>.json). Optional: with ({param: value}). Only id, label and params on the step.',
+    assert: 'Required: at least ONE of target/selector, urlIncludes, notEmpty (var/collectible key), arrayLength ({of, min?, max?}), predicate (JMESPath over {vars, collectibles, inputs}). With a target: visible, textIncludes, textMatches (regex), attributeEquals ({name, value}), count ({eq?, min?, max?}). Optional: message.',
+    handle_dialog: 'Required: action ("accept"|"dismiss"). Optional: promptText (accept only, templated), expectMessageIncludes, dialogType ("alert"|"confirm"|"prompt"|"beforeunload"), persistent, saveAs (message). Put it BEFORE the step that opens the dialog.',
+    set_cookies: 'Required: cookies ([{name, value}] — value may use {{secret.NAME}}). Optional per cookie: url or domain (default: current page URL), path, expires (Unix seconds), httpOnly, secure, sameSite ("Strict"|"Lax"|"None").',
+    get_cookies: 'Required: saveAs (var for [{name, value, domain, path, ...}]). Optional: name, domain (includes subdomains).',
+    clear_cookies: 'Optional: name, domain (includes subdomains). Without filters, clears all cookies.',
+    get_storage: 'Required: saveAs. Optional: storage ("local"|"session", default "local"), key (saves its value; without key, saves all entries as an object).',
+    set_storage: 'Required: values ({key: string value}, templated). Optional: storage ("local"|"session", default "local").',
+    pause_for_human: 'Required: message (what the operator should do). Optional: resumeWhen (skip_if-style condition that resumes without the operator), maxWaitMs (default 300000). Headful dashboard runs only; headless and MCP runs fail with HUMAN_INPUT_UNAVAILABLE.',
     wait_for: 'Required: at least ONE of target, selector, url, or loadState. Optional: visible, timeoutMs. Note: "waitForMs" is NOT valid.',
     set_var: 'Required: name (string), value (string|number|boolean). Arrays/objects not allowed.',
     click: 'Required: target (object with kind) OR selector. Optional: first.',
@@ -192,12 +208,19 @@ export class TaskPackEditorWrapper {
     };
   }
 
-  async validateFlow(flowJsonText: string) {
+  /**
+   * Validate flow.json text. With a packId, fragments/*.json of that pack are
+   * available to include steps; otherwise only the inline "fragments" map is.
+   */
+  async validateFlow(flowJsonText: string, packId?: string) {
     try {
       const flowData = JSON.parse(flowJsonText) as {
         inputs?: any;
         collectibles?: CollectibleDefinition[];
+        fragments?: Record<string, FlowFragment>;
         flow: DslStep[];
+        on_failure?: DslStep[];
+        finally?: DslStep[];
       };
 
       if (!flowData.flow || !Array.isArray(flowData.flow)) {
@@ -208,22 +231,38 @@ export class TaskPackEditorWrapper {
         };
       }
 
-      const tempPack = {
-        metadata: {
-          id: 'temp',
-          name: 'temp',
-          version: '0.0.0',
-        },
-        inputs: flowData.inputs || {},
-        collectibles: flowData.collectibles || [],
-        flow: flowData.flow,
-      };
+      const packInfo = packId
+        ? (await discoverPacks({ directories: this.packDirs })).find(({ pack }) => pack.metadata.id === packId)
+        : undefined;
 
       const errors: string[] = [];
       const warnings: string[] = [];
 
       try {
+        const tempPack = {
+          metadata: {
+            id: 'temp',
+            name: 'temp',
+            version: '0.0.0',
+          },
+          inputs: flowData.inputs || {},
+          collectibles: flowData.collectibles || [],
+          flow: flowData.flow,
+          on_failure: flowData.on_failure,
+          finally: flowData.finally,
+          fragments: packInfo
+            ? TaskPackLoader.loadFragments(packInfo.path, flowData.fragments)
+            : flowData.fragments,
+        };
         validateJsonTaskPack(tempPack);
+
+        const issues = analyzePackDataFlow(
+          tempPack,
+          packInfo ? TaskPackLoader.loadManifest(packInfo.path).secrets?.map((s) => s.name) : undefined
+        );
+        for (const issue of issues) {
+          (issue.severity === 'error' ? errors : warnings).push(formatDataFlowIssue(issue));
+        }
       } catch (error) {
         errors.push(error instanceof Error ? error.message : String(error));
       }
@@ -265,7 +304,10 @@ export class TaskPackEditorWrapper {
     const flowData = readJsonFile<{
       inputs?: any;
       collectibles?: CollectibleDefinition[];
+      fragments?: Record<string, FlowFragment>;
       flow: DslStep[];
+      on_failure?: DslStep[];
+      finally?: DslStep[];
     }>(flowPath);
 
     const newFlow = [...flowData.flow];
@@ -363,14 +405,16 @@ export class TaskPackEditorWrapper {
         break;
     }
 
-    const tempPack = {
-      metadata: manifest,
-      inputs: newInputs,
-      collectibles: newCollectibles,
-      flow: newFlow,
-    };
-
     try {
+      const tempPack = {
+        metadata: manifest,
+        inputs: newInputs,
+        collectibles: newCollectibles,
+        flow: newFlow,
+        on_failure: flowData.on_failure,
+        finally: flowData.finally,
+        fragments: TaskPackLoader.loadFragments(packInfo.path, flowData.fragments),
+      };
       validateJsonTaskPack(tempPack);
     } catch (error) {
       const msg = error instanceof Error ? error.message : String(error);
@@ -396,7 +440,10 @@ export class TaskPackEditorWrapper {
     writeFlowJson(packInfo.path, {
       inputs: newInputs,
       collectibles: newCollectibles,
+      fragments: flowData.fragments,
       flow: newFlow,
+      on_failure: flowData.on_failure,
+      finally: flowData.finally,
     });
 
     return {
@@ -438,11 +485,7 @@ export class TaskPackEditorWrapper {
       const store = this.resultStores?.get(packId);
       const resultKey = store ? generateResultKey(packId, inputs) : undefined;
       if (store && resultKey) {
-        const schema: CollectibleSchemaField[] = pack.collectibles.map((c) => ({
-          name: c.name,
-          type: c.type,
-          description: c.description,
-        }));
+        const schema: CollectibleSchemaField[] = packToSchema(pack);
         try {
           await store.store({
             key: resultKey,
@@ -462,7 +505,7 @@ export class TaskPackEditorWrapper {
       }
 
       // Detect failure from runner result (runner catches errors and returns partial results)
-      const hasError = !!(result as any).failedStepId || result.meta.notes?.startsWith('Error');
+      const hasError = !!result.failedStepId || result.meta.notes?.startsWith('Error');
       const packResult: RunPackResult = {
         success: !hasError,
         collectibles: result.collectibles,
@@ -470,8 +513,8 @@ export class TaskPackEditorWrapper {
       };
 
       // Surface failedStepId and error info from runner
-      if ((result as any).failedStepId) {
-        packResult.failedStepId = (result as any).failedStepId;
+      if (result.failedStepId) {
+        packResult.failedStepId = result.failedStepId;
         packResult.error = result.meta.notes;
       }
 
@@ -489,9 +532,7 @@ export class TaskPackEditorWrapper {
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : String(error);
       // Extract partial results from enriched error (set by interpreter via runner)
-      const partialResult = (error as any)?.partialResult as
-        | { collectibles: Record<string, unknown>; stepsExecuted: number; failedStepId: string }
-        | undefined;
+      const partialResult = (error as ErrorWithPartialResult | null)?.partialResult;
 
       const failResult: RunPackResult = {
         success: false,
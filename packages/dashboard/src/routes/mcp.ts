@@ -77,6 +77,7 @@ export function createMcpRouter(ctx: DashboardContext): Router {
           const run = ctx.runManager.addRunAndGet(info.packId, info.packName, 'mcp');
           // Store the mapping from MCP runId to DB runId for later lookup
           ctx.mcpServer.runIdMap.set(info.runId, run.runId);
+          ctx.runCancellers.set(run.runId, info.cancel);
           ctx.runManager.updateRun(run.runId, {
             status: 'running',
             startedAt: Date.now(),
@@ -89,7 +90,7 @@ export function createMcpRouter(ctx: DashboardContext): Router {
           const dbRunId = ctx.mcpServer.runIdMap.get(info.runId);
           if (dbRunId) {
             const updates: Partial<RunInfo> = {
-              status: info.success ? 'success' : 'failed',
+              status: info.cancelled ? 'cancelled' : info.success ? 'success' : 'failed',
               finishedAt: Date.now(),
             };
             if (info.error) {
@@ -103,6 +104,7 @@ export function createMcpRouter(ctx: DashboardContext): Router {
             }
             ctx.runManager.updateRun(dbRunId, updates);
             ctx.mcpServer.runIdMap.delete(info.runId);
+            ctx.runCancellers.delete(dbRunId);
             ctx.io.emit('runs:list', ctx.runManager.getAllRuns());
             console.log(`[MCP] Run completed: ${info.runId} (success: ${info.success})`);
           }
@@ -7,6 +7,8 @@ import { discoverPacks } from '@showrun/mcp-server';
 import {
   TaskPackLoader,
   validateJsonTaskPack,
+  analyzePackDataFlow,
+  formatDataFlowIssue,
   sanitizePackId,
   ensureDir,
   writeTaskPackManifest,
@@ -17,7 +19,7 @@ import {
   listVersions,
   restoreVersion,
 } from '@showrun/core';
-import type { TaskPackManifest, InputSchema, CollectibleDefinition, DslStep } from '@showrun/core';
+import type { TaskPackManifest, InputSchema, CollectibleDefinition, DslStep, FlowFragment } from '@showrun/core';
 
 export function createPacksRouter(ctx: DashboardContext): Router {
   const router = Router();
@@ -313,7 +315,10 @@ export function createPacksRouter(ctx: DashboardContext): Router {
       const flowData = JSON.parse(flowJsonText) as {
         inputs?: InputSchema;
         collectibles?: CollectibleDefinition[];
+        fragments?: Record<string, FlowFragment>;
         flow: DslStep[];
+        on_failure?: DslStep[];
+        finally?: DslStep[];
       };
 
       if (!flowData.flow || !Array.isArray(flowData.flow)) {
@@ -322,15 +327,18 @@ export function createPacksRouter(ctx: DashboardContext): Router {
 
       // Validate before writing
       const manifest = TaskPackLoader.loadManifest(packInfo.path);
-      const tempPack = {
-        metadata: manifest,
-        inputs: flowData.inputs || {},
-        collectibles: flowData.collectibles || [],
-        flow: flowData.flow,
-      };
 
       const warnings: string[] = [];
       try {
+        const tempPack = {
+          metadata: manifest,
+          inputs: flowData.inputs || {},
+          collectibles: flowData.collectibles || [],
+          flow: flowData.flow,
+          on_failure: flowData.on_failure,
+          finally: flowData.finally,
+          fragments: TaskPackLoader.loadFragments(packInfo.path, flowData.fragments),
+        };
         validateJsonTaskPack(tempPack);
       } catch (error) {
         return res.status(400).json({
@@ -381,7 +389,10 @@ export function createPacksRouter(ctx: DashboardContext): Router {
       let flowData: {
         inputs?: InputSchema;
         collectibles?: CollectibleDefinition[];
+        fragments?: Record<string, FlowFragment>;
         flow: DslStep[];
+        on_failure?: DslStep[];
+        finally?: DslStep[];
       };
 
       if (flowJsonText) {
@@ -394,18 +405,25 @@ export function createPacksRouter(ctx: DashboardContext): Router {
         flowData = readJsonFile(flowPath);
       }
 
-      const tempPack = {
-        metadata: finalMeta,
-        inputs: flowData.inputs || {},
-        collectibles: flowData.collectibles || [],
-        flow: flowData.flow || [],
-      };
-
       const errors: string[] = [];
       const warnings: string[] = [];
 
       try {
+        const tempPack = {
+          metadata: finalMeta,
+          inputs: flowData.inputs || {},
+          collectibles: flowData.collectibles || [],
+          flow: flowData.flow || [],
+          on_failure: flowData.on_failure,
+          finally: flowData.finally,
+          fragments: TaskPackLoader.loadFragments(packInfo.path, flowData.fragments),
+        };
         validateJsonTaskPack(tempPack);
+
+        const issues = analyzePackDataFlow(tempPack, finalMeta.secrets?.map((s: { name: string }) => s.name));
+        for (const issue of issues) {
+          (issue.severity === 'error' ? errors : warnings).push(formatDataFlowIssue(issue));
+        }
       } catch (error) {
         errors.push(error instanceof Error ? error.message : String(error));
       }
@@ -2,20 +2,93 @@ import { Router, type Request, type Response } from 'express';
 import { resolve } from 'path';
 import type { DashboardContext } from '../types/context.js';
 import { createTokenChecker } from '../helpers/auth.js';
-import { runTaskPack, TaskPackLoader } from '@showrun/core';
+import {
+  runTaskPack,
+  TaskPackLoader,
+  type HumanPauseRequest,
+  type DebugAction,
+  type DebugCommand,
+  type DebugOptions,
+  type DebugPause,
+} from '@showrun/core';
 import { SocketLogger } from '../logger.js';
 
+const DEBUG_ACTIONS: DebugAction[] = ['continue', 'step', 'skip', 'rerun'];
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every((item) => typeof item === 'string');
+}
+
 export function createRunsRouter(ctx: DashboardContext): Router {
   const router = Router();
   const requireToken = createTokenChecker(ctx.sessionToken);
 
+  /**
+   * Prompts the operator for a pause_for_human step and waits for them to
+   * continue. The prompt is withdrawn when the pause ends without them.
+   */
+  function waitForOperator(
+    runId: string,
+    packId: string,
+    request: HumanPauseRequest,
+    signal: AbortSignal
+  ): Promise<void> {
+    return new Promise((resolve) => {
+      const end = () => {
+        ctx.pendingHumanPauses.delete(runId);
+        ctx.io.emit('runs:pause-ended', { runId });
+      };
+      ctx.pendingHumanPauses.set(runId, {
+        runId,
+        packId,
+        request,
+        resolve: () => {
+          end();
+          resolve();
+        },
+      });
+      signal.addEventListener('abort', end, { once: true });
+      ctx.io.emit('runs:paused', { runId, packId, ...request });
+    });
+  }
+
+  /**
+   * Shows a paused debug run in the debugger and waits for its command.
+   * The pause is withdrawn when the run is cancelled.
+   */
+  function waitForDebugger(
+    runId: string,
+    packId: string,
+    pause: DebugPause,
+    signal: AbortSignal
+  ): Promise<DebugCommand> {
+    return new Promise((resolve) => {
+      const end = () => {
+        ctx.pendingDebugPauses.delete(runId);
+        ctx.io.emit('runs:debug-resumed', { runId });
+      };
+      ctx.pendingDebugPauses.set(runId, {
+        runId,
+        packId,
+        pause,
+        resolve: (command) => {
+          signal.removeEventListener('abort', end);
+          end();
+          resolve(command);
+        },
+      });
+      signal.addEventListener('abort', end, { once: true });
+      ctx.io.emit('runs:debug-paused', { runId, packId, ...pause });
+    });
+  }
+
   // REST API: Create run (requires token)
   router.post('/api/runs', (req: Request, res: Response) => {
     if (!requireToken(req)) {
       return res.status(401).json({ error: 'Unauthorized' });
     }
 
-    const { packId, inputs, conversationId, source } = req.body;
+    const { packId, inputs, conversationId, source, debug } = req.body;
 
     if (!packId || typeof packId !== 'string') {
       return res.status(400).json({ error: 'packId is required' });
@@ -25,6 +98,14 @@ export function createRunsRouter(ctx: DashboardContext): Router {
       return res.status(400).json({ error: 'inputs must be an object' });
     }
 
+    if (debug !== undefined && (
+      typeof debug !== 'object' || debug === null ||
+      (debug.breakpoints !== undefined && !isStringArray(debug.breakpoints)) ||
+      (debug.pauseOnEveryStep !== undefined && typeof debug.pauseOnEveryStep !== 'boolean')
+    )) {
+      return res.status(400).json({ error: 'debug must be { breakpoints?: string[], pauseOnEveryStep?: boolean }' });
+    }
+
     // Verify pack exists
     const packInfo = ctx.packMap.get(packId);
     if (!packInfo) {
@@ -43,6 +124,10 @@ export function createRunsRouter(ctx: DashboardContext): Router {
     // Emit run list update
     ctx.io.emit('runs:list', ctx.runManager.getAllRuns());
 
+    // DELETE /api/runs/:runId aborts the run, or drops it from the queue
+    const controller = new AbortController();
+    ctx.runCancellers.set(runId, () => controller.abort());
+
     // Queue execution
     ctx.concurrencyLimiter.execute(async () => {
       ctx.runManager.updateRun(runId, {
@@ -58,6 +143,15 @@ export function createRunsRouter(ctx: DashboardContext): Router {
       // Create socket logger that emits events
       const logger = new SocketLogger(runDir, ctx.io, runId);
 
+      // Debug runs pause in the debugger panel (POST /api/runs/:runId/debug resumes them)
+      const debugOptions: DebugOptions | undefined = debug
+        ? {
+            breakpoints: debug.breakpoints,
+            pauseOnEveryStep: debug.pauseOnEveryStep,
+            onPause: (pause, signal) => waitForDebugger(runId, packId, pause, signal),
+          }
+        : undefined;
+
       try {
         // Reload pack from disk to get the latest flow.json
         const freshPack = await TaskPackLoader.loadTaskPack(packInfo.path);
@@ -67,10 +161,13 @@ export function createRunsRouter(ctx: DashboardContext): Router {
           headless: !ctx.headful,
           profileId: packId,
           packPath: packInfo.path,
+          onHumanPause: (request, signal) => waitForOperator(runId, packId, request, signal),
+          signal: controller.signal,
+          debug: debugOptions,
         });
 
         ctx.runManager.updateRun(runId, {
-          status: 'success',
+          status: controller.signal.aborted ? 'cancelled' : 'success',
           finishedAt: Date.now(),
           durationMs: result.meta.durationMs,
           runDir: result.runDir,
@@ -90,12 +187,14 @@ export function createRunsRouter(ctx: DashboardContext): Router {
           artifactsDir: resolve(runDir, 'artifacts'),
         });
       } finally {
+        ctx.runCancellers.delete(runId);
         ctx.io.emit('runs:list', ctx.runManager.getAllRuns());
       }
-    }).catch((error) => {
-      // Handle execution errors
+    }, controller.signal).catch((error) => {
+      // Handle execution errors (including runs cancelled while queued)
+      ctx.runCancellers.delete(runId);
       ctx.runManager.updateRun(runId, {
-        status: 'failed',
+        status: controller.signal.aborted ? 'cancelled' : 'failed',
         finishedAt: Date.now(),
         error: error instanceof Error ? error.message : String(error),
       });
@@ -114,6 +213,69 @@ export function createRunsRouter(ctx: DashboardContext): Router {
     res.json(ctx.runManager.getAllRuns({ source, conversationId, limit }));
   });
 
+  // REST API: Continue a run paused by pause_for_human (requires token)
+  router.post('/api/runs/:runId/continue', (req: Request, res: Response) => {
+    if (!requireToken(req)) {
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+
+    const { runId } = req.params;
+    const pending = ctx.pendingHumanPauses.get(runId);
+    if (!pending) {
+      return res.status(404).json({ error: 'Run is not waiting for the operator' });
+    }
+    pending.resolve();
+    res.json({ success: true });
+  });
+
+  // REST API: Resume a debug run paused in the debugger (requires token)
+  router.post('/api/runs/:runId/debug', (req: Request, res: Response) => {
+    if (!requireToken(req)) {
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+
+    const { runId } = req.params;
+    const { action, params, breakpoints } = req.body;
+    if (!DEBUG_ACTIONS.includes(action)) {
+      return res.status(400).json({ error: `action must be one of: ${DEBUG_ACTIONS.join(', ')}` });
+    }
+    if (params !== undefined && (typeof params !== 'object' || params === null || Array.isArray(params))) {
+      return res.status(400).json({ error: 'params must be an object' });
+    }
+    if (breakpoints !== undefined && !isStringArray(breakpoints)) {
+      return res.status(400).json({ error: 'breakpoints must be an array of step IDs' });
+    }
+
+    const pending = ctx.pendingDebugPauses.get(runId);
+    if (!pending) {
+      return res.status(404).json({ error: 'Run is not paused in the debugger' });
+    }
+    pending.resolve({
+      action,
+      ...(params !== undefined ? { params } : {}),
+      ...(breakpoints !== undefined ? { breakpoints } : {}),
+    });
+    res.json({ success: true });
+  });
+
+  // REST API: Cancel a queued or running run (requires token)
+  router.delete('/api/runs/:runId', (req: Request, res: Response) => {
+    if (!requireToken(req)) {
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+
+    const { runId } = req.params;
+    const cancel = ctx.runCancellers.get(runId);
+    if (!cancel) {
+      if (!ctx.runManager.getRun(runId)) {
+        return res.status(404).json({ error: 'Run not found' });
+      }
+      return res.status(409).json({ error: 'Run is not queued or running' });
+    }
+    cancel();
+    res.json({ success: true });
+  });
+
   // REST API: Get run details
   router.get('/api/runs/:runId', (req: Request, res: Response) => {
     const { runId } = req.params;
@@ -770,7 +770,7 @@ export function createTeachRouter(ctx: DashboardContext): Router {
                       try {
                         const { flowJson } = await ctx.taskPackEditor.readPack(effectivePackId);
                         updatedFlow = flowJson;
-                        const val = await ctx.taskPackEditor.validateFlow(JSON.stringify(flowJson));
+                        const val = await ctx.taskPackEditor.validateFlow(JSON.stringify(flowJson), effectivePackId);
                         validation = { ok: val.ok, errors: val.errors, warnings: val.warnings };
                         writeStreamLine({ type: 'flow_updated', flow: flowJson, validation: val });
                       } catch {
@@ -838,7 +838,7 @@ export function createTeachRouter(ctx: DashboardContext): Router {
                 try {
                   const { flowJson } = await ctx.taskPackEditor.readPack(effectivePackId);
                   updatedFlow = flowJson;
-                  const val = await ctx.taskPackEditor.validateFlow(JSON.stringify(flowJson));
+                  const val = await ctx.taskPackEditor.validateFlow(JSON.stringify(flowJson), effectivePackId);
                   validation = { ok: val.ok, errors: val.errors, warnings: val.warnings };
                   writeStreamLine({ type: 'flow_updated', flow: flowJson, validation: val });
                 } catch {
@@ -1018,7 +1018,7 @@ export function createTeachRouter(ctx: DashboardContext): Router {
               try {
                 const { flowJson } = await ctx.taskPackEditor.readPack(effectivePackId);
                 updatedFlow = flowJson;
-                const val = await ctx.taskPackEditor.validateFlow(JSON.stringify(flowJson));
+                const val = await ctx.taskPackEditor.validateFlow(JSON.stringify(flowJson), effectivePackId);
                 validation = { ok: val.ok, errors: val.errors, warnings: val.warnings };
                 writeStreamLine({ type: 'flow_updated', flow: flowJson, validation: val });
               } catch {
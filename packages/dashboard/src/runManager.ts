@@ -18,7 +18,7 @@ export interface RunInfo {
   runId: string;
   packId: string;
   packName: string;
-  status: 'queued' | 'running' | 'success' | 'failed';
+  status: 'queued' | 'running' | 'success' | 'failed' | 'cancelled';
   createdAt: number;
   startedAt?: number;
   finishedAt?: number;
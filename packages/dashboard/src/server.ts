@@ -36,7 +36,7 @@ import { FALLBACK_SYSTEM_PROMPT } from './fallbackPrompt.js';
 import { initDatabase } from './db.js';
 import { createLlmProvider } from './llm/index.js';
 import { TaskPackEditorWrapper } from './mcpWrappers.js';
-import type { DashboardContext, PendingSecretsRequest } from './types/context.js';
+import type { DashboardContext, PendingSecretsRequest, PendingHumanPause, PendingDebugPause } from './types/context.js';
 import {
   createConfigRouter,
   createRunsRouter,
@@ -268,6 +268,12 @@ export async function startDashboard(options: DashboardOptions): Promise<void> {
   // Pending secrets requests - maps conversationId to resolve function
   const pendingSecretsRequests = new Map<string, PendingSecretsRequest>();
 
+  // Runs paused by pause_for_human steps - maps runId to the pending pause
+  const pendingHumanPauses = new Map<string, PendingHumanPause>();
+
+  // Debug runs paused in the debugger - maps runId to the pending pause
+  const pendingDebugPauses = new Map<string, PendingDebugPause>();
+
   // Create shared dashboard context
   const ctx: DashboardContext = {
     sessionToken,
@@ -280,6 +286,7 @@ export async function startDashboard(options: DashboardOptions): Promise<void> {
     packMap,
     runManager,
     concurrencyLimiter,
+    runCancellers: new Map(),
     mcpServer: {
       handle: null,
       packIds: [],
@@ -291,6 +298,8 @@ export async function startDashboard(options: DashboardOptions): Promise<void> {
     llmProvider,
     systemPrompt,
     pendingSecretsRequests,
+    pendingHumanPauses,
+    pendingDebugPauses,
     techniqueManager,
   };
 
@@ -311,6 +320,13 @@ export async function startDashboard(options: DashboardOptions): Promise<void> {
 
     // Send initial runs list
     socket.emit('runs:list', runManager.getAllRuns());
+    // Re-send prompts for runs still waiting on the operator (e.g. after a reload)
+    for (const { runId, packId, request } of pendingHumanPauses.values()) {
+      socket.emit('runs:paused', { runId, packId, ...request });
+    }
+    for (const { runId, packId, pause } of pendingDebugPauses.values()) {
+      socket.emit('runs:debug-paused', { runId, packId, ...pause });
+    }
 
     socket.on('disconnect', () => {
       console.log(`[Dashboard] Client disconnected: ${socket.id}`);
@@ -1,5 +1,5 @@
 import type { Server as SocketIOServer } from 'socket.io';
-import type { TaskPack, ResultStoreProvider } from '@showrun/core';
+import type { TaskPack, ResultStoreProvider, HumanPauseRequest, DebugPause, DebugCommand } from '@showrun/core';
 import type { MCPServerHTTPHandle, ConcurrencyLimiter } from '@showrun/mcp-server';
 import type { RunManager } from '../runManager.js';
 import type { TaskPackEditorWrapper } from '../mcpWrappers.js';
@@ -18,6 +18,22 @@ export interface PendingSecretsRequest {
   reject: (error: Error) => void;
 }
 
+/** Run paused by a pause_for_human step, waiting for the operator to continue */
+export interface PendingHumanPause {
+  runId: string;
+  packId: string;
+  request: HumanPauseRequest;
+  resolve: () => void;
+}
+
+/** Debug run paused in the debugger, waiting for a command */
+export interface PendingDebugPause {
+  runId: string;
+  packId: string;
+  pause: DebugPause;
+  resolve: (command: DebugCommand) => void;
+}
+
 /** MCP server runtime state */
 export interface MCPServerState {
   handle: MCPServerHTTPHandle | null;
@@ -44,6 +60,7 @@ export interface DashboardContext {
   // Run management
   runManager: RunManager;
   concurrencyLimiter: ConcurrencyLimiter;
+  runCancellers: Map<string, () => void>; // DB runId -> cancels the queued or running run
 
   // MCP server
   mcpServer: MCPServerState;
@@ -59,6 +76,8 @@ export interface DashboardContext {
   llmProvider: LlmProvider | null;
   systemPrompt: string;
   pendingSecretsRequests: Map<string, PendingSecretsRequest>;
+  pendingHumanPauses: Map<string, PendingHumanPause>;
+  pendingDebugPauses: Map<string, PendingDebugPause>;
 
   // Techniques DB (optional — null when vector store not configured)
   techniqueManager: TechniqueManager | null;
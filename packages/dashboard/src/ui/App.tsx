@@ -6,6 +6,7 @@ import BottomNav, { type NavView } from './BottomNav.js';
 import RunsView from './RunsView.js';
 import MCPServerView from './MCPServerView.js';
 import PacksView from './PacksView.js';
+import HumanPauseModal, { type HumanPause } from './HumanPauseModal.js';
 import { ShowRunLogo } from './ShowRunLogo.js';
 
 interface Pack {
@@ -23,7 +24,7 @@ interface Run {
   runId: string;
   packId: string;
   packName: string;
-  status: 'queued' | 'running' | 'success' | 'failed';
+  status: 'queued' | 'running' | 'success' | 'failed' | 'cancelled';
   createdAt: number;
   startedAt?: number;
   finishedAt?: number;
@@ -62,6 +63,7 @@ function App() {
   const [activeView, setActiveView] = useState<NavView>('chat');
   const [error, setError] = useState<string | null>(null);
   const [loading, setLoading] = useState(true);
+  const [humanPause, setHumanPause] = useState<HumanPause | null>(null);
 
   // Fetch config and initialize
   useEffect(() => {
@@ -93,6 +95,15 @@ function App() {
           setRuns(runsList);
         });
 
+        // Headful runs paused by pause_for_human wait for the operator
+        newSocket.on('runs:paused', (pause: HumanPause) => {
+          setHumanPause(pause);
+        });
+
+        newSocket.on('runs:pause-ended', ({ runId }: { runId: string }) => {
+          setHumanPause((current) => (current?.runId === runId ? null : current));
+        });
+
         newSocket.on('conversations:updated', (convList: Conversation[]) => {
           setConversations(convList);
         });
@@ -351,7 +362,7 @@ function App() {
       case 'runs':
         return (
           <div style={{ flex: 1, overflow: 'auto', padding: '24px' }}>
-            <RunsView runs={runs} socket={socket} />
+            <RunsView runs={runs} socket={socket} token={config.token} />
           </div>
         );
       case 'mcp':
@@ -431,6 +442,15 @@ function App() {
           runsCount={runs.filter((r) => r.status === 'running').length}
         />
       </div>
+
+      {humanPause && (
+        <HumanPauseModal
+          pause={humanPause}
+          token={config.token}
+          onContinued={() => setHumanPause(null)}
+          onClose={() => setHumanPause(null)}
+        />
+      )}
     </div>
   );
 }
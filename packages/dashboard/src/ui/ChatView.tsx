@@ -5,6 +5,7 @@ import SecretsPanel from './SecretsPanel.js';
 import SecretsRequestModal from './SecretsRequestModal.js';
 import VersionPanel from './VersionPanel.js';
 import McpUsageModal from './McpUsageModal.js';
+import RunInputField, { parseRunInputValue, toRunInputFormValue, type RunInputSchema, type RunInputFormValue } from './RunInputField.js';
 import { parseCommand, findCommand, COMMAND_REGISTRY, type CommandContext } from './chatCommands.js';
 import { ShowRunLogo } from './ShowRunLogo.js';
 
@@ -91,8 +92,8 @@ export default function ChatView({
   const [panelAutoCollapsed, setPanelAutoCollapsed] = useState(false);
 
   // Flow input schema + run form state
-  const [flowInputSchema, setFlowInputSchema] = useState<Record<string, { type: string; required?: boolean; description?: string; default?: unknown }> | null>(null);
-  const [runInputValues, setRunInputValues] = useState<Record<string, string | number | boolean>>({});
+  const [flowInputSchema, setFlowInputSchema] = useState<Record<string, RunInputSchema> | null>(null);
+  const [runInputValues, setRunInputValues] = useState<Record<string, RunInputFormValue>>({});
 
   // Secrets request modal state (AI-triggered)
   const [secretsRequest, setSecretsRequest] = useState<{
@@ -150,10 +151,10 @@ export default function ChatView({
         setFlowInputSchema(inputs);
         // Pre-fill default values
         if (inputs) {
-          const defaults: Record<string, string | number | boolean> = {};
-          for (const [key, schema] of Object.entries(inputs) as [string, { type: string; default?: unknown }][]) {
+          const defaults: Record<string, RunInputFormValue> = {};
+          for (const [key, schema] of Object.entries(inputs) as [string, RunInputSchema][]) {
             if (schema.default !== undefined) {
-              defaults[key] = schema.default as string | number | boolean;
+              defaults[key] = toRunInputFormValue(schema, schema.default);
             }
           }
           setRunInputValues(defaults);
@@ -956,61 +957,30 @@ export default function ChatView({
               ) : (
                 <div style={{ display: 'flex', flexDirection: 'column', gap: '12px' }}>
                   {Object.entries(flowInputSchema).map(([key, schema]) => (
-                    <div key={key} style={{ display: 'flex', flexDirection: 'column', gap: '4px' }}>
-                      <label style={{ fontSize: '12px', fontWeight: 500, color: 'var(--text-primary)' }}>
-                        {key}{schema.required ? ' *' : ''}
-                      </label>
-                      {schema.type === 'boolean' ? (
-                        <label style={{ display: 'flex', alignItems: 'center', gap: '8px', fontSize: '13px' }}>
-                          <input
-                            type="checkbox"
-                            checked={!!runInputValues[key]}
-                            onChange={(e) => setRunInputValues(prev => ({ ...prev, [key]: e.target.checked }))}
-                          />
-                          {runInputValues[key] ? 'true' : 'false'}
-                        </label>
-                      ) : (
-                        <input
-                          type={schema.type === 'number' ? 'number' : 'text'}
-                          value={runInputValues[key] !== undefined ? String(runInputValues[key]) : ''}
-                          placeholder={schema.default !== undefined ? String(schema.default) : ''}
-                          onChange={(e) => setRunInputValues(prev => ({
-                            ...prev,
-                            [key]: schema.type === 'number' ? (e.target.value === '' ? '' as unknown as number : Number(e.target.value)) : e.target.value,
-                          }))}
-                          style={{
-                            padding: '6px 10px',
-                            fontSize: '13px',
-                            borderRadius: '6px',
-                            border: '1px solid var(--border-subtle)',
-                            backgroundColor: 'var(--bg-primary)',
-                            color: 'var(--text-primary)',
-                            outline: 'none',
-                          }}
-                        />
-                      )}
-                      {schema.description && (
-                        <div style={{ fontSize: '11px', color: 'var(--text-muted)' }}>
-                          {schema.description}
-                        </div>
-                      )}
-                    </div>
+                    <RunInputField
+                      key={key}
+                      name={key}
+                      schema={schema}
+                      value={runInputValues[key]}
+                      onChange={(value) => setRunInputValues(prev => ({ ...prev, [key]: value }))}
+                    />
                   ))}
                   <button
                     className="btn-primary"
                     onClick={() => {
                       const inputs: Record<string, unknown> = {};
                       for (const [key, schema] of Object.entries(flowInputSchema)) {
-                        const val = runInputValues[key];
-                        if (val !== undefined && val !== '') {
-                          inputs[key] = schema.type === 'number' ? Number(val) : val;
+                        const { value } = parseRunInputValue(schema, runInputValues[key]);
+                        if (value !== undefined) {
+                          inputs[key] = value;
                         }
                       }
                       handleRunPack(inputs);
                     }}
-                    disabled={Object.entries(flowInputSchema).some(([key, schema]) =>
-                      schema.required && (runInputValues[key] === undefined || runInputValues[key] === '')
-                    )}
+                    disabled={Object.entries(flowInputSchema).some(([key, schema]) => {
+                      const { value, error } = parseRunInputValue(schema, runInputValues[key]);
+                      return !!error || (schema.required && value === undefined);
+                    })}
                     style={{ padding: '8px 16px', fontSize: '13px', marginTop: '4px' }}
                   >
                     Run
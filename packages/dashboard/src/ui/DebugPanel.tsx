@@ -0,0 +1,301 @@
+import React, { useState, useEffect } from 'react';
+import type { Socket } from 'socket.io-client';
+
+type DebugAction = 'continue' | 'step' | 'skip' | 'rerun';
+
+/** A debug run paused before a step or after it failed (sent as `runs:debug-paused`) */
+interface DebugPause {
+  runId: string;
+  packId: string;
+  stepId: string;
+  stepIndex: number;
+  type: string;
+  reason: 'breakpoint' | 'step' | 'error';
+  error?: string;
+  params: Record<string, unknown>;
+  vars: Record<string, unknown>;
+  collectibles: Record<string, unknown>;
+  screenshot?: string;
+}
+
+interface RunSummary {
+  runId: string;
+  status: string;
+  error?: string;
+}
+
+interface DebugPanelProps {
+  packId: string;
+  /** Flow JSON from the editor; its top-level steps can get breakpoints */
+  flowJsonText: string;
+  socket: Socket;
+  token: string;
+}
+
+function topLevelSteps(flowJsonText: string): Array<{ id: string; type: string; label?: string }> {
+  try {
+    const parsed = JSON.parse(flowJsonText);
+    return Array.isArray(parsed.flow) ? parsed.flow : [];
+  } catch {
+    return [];
+  }
+}
+
+const REASON_LABELS: Record<DebugPause['reason'], string> = {
+  breakpoint: 'Breakpoint',
+  step: 'Step',
+  error: 'Step failed',
+};
+
+export default function DebugPanel({ packId, flowJsonText, socket, token }: DebugPanelProps) {
+  const [breakpoints, setBreakpoints] = useState<Set<string>>(new Set());
+  const [pauseOnEveryStep, setPauseOnEveryStep] = useState(false);
+  const [runId, setRunId] = useState<string | null>(null);
+  const [runStatus, setRunStatus] = useState<string | null>(null);
+  const [pause, setPause] = useState<DebugPause | null>(null);
+  const [paramsText, setParamsText] = useState('');
+  const [sending, setSending] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const steps = topLevelSteps(flowJsonText);
+  const running = runStatus === 'queued' || runStatus === 'running';
+
+  useEffect(() => {
+    if (!runId) return;
+
+    const onPaused = (next: DebugPause) => {
+      if (next.runId !== runId) return;
+      setPause(next);
+      setParamsText(JSON.stringify(next.params, null, 2));
+    };
+    const onResumed = ({ runId: resumedRunId }: { runId: string }) => {
+      if (resumedRunId === runId) setPause(null);
+    };
+    const onRunsList = (runs: RunSummary[]) => {
+      const run = runs.find((r) => r.runId === runId);
+      if (!run) return;
+      setRunStatus(run.status);
+      if (run.status !== 'queued' && run.status !== 'running') {
+        setPause(null);
+        if (run.error) setError(run.error);
+      }
+    };
+
+    socket.on('runs:debug-paused', onPaused);
+    socket.on('runs:debug-resumed', onResumed);
+    socket.on('runs:list', onRunsList);
+    return () => {
+      socket.off('runs:debug-paused', onPaused);
+      socket.off('runs:debug-resumed', onResumed);
+      socket.off('runs:list', onRunsList);
+    };
+  }, [runId, socket]);
+
+  const toggleBreakpoint = (stepId: string) => {
+    setBreakpoints((prev) => {
+      const next = new Set(prev);
+      if (next.has(stepId)) {
+        next.delete(stepId);
+      } else {
+        next.add(stepId);
+      }
+      return next;
+    });
+  };
+
+  const handleStart = async () => {
+    setError(null);
+    setPause(null);
+    try {
+      const res = await fetch('/api/runs', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'x-showrun-token': token,
+        },
+        body: JSON.stringify({
+          packId,
+          inputs: {},
+          debug: { breakpoints: [...breakpoints], pauseOnEveryStep },
+        }),
+      });
+      if (!res.ok) {
+        const data = await res.json().catch(() => ({ error: 'Unknown error' }));
+        throw new Error(data.error || 'Failed to start debug run');
+      }
+      const data = await res.json();
+      setRunId(data.runId);
+      setRunStatus('queued');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  const handleStop = async () => {
+    if (!runId) return;
+    setError(null);
+    try {
+      const res = await fetch(`/api/runs/${encodeURIComponent(runId)}`, {
+        method: 'DELETE',
+        headers: { 'x-showrun-token': token },
+      });
+      if (!res.ok) {
+        const data = await res.json().catch(() => ({ error: 'Unknown error' }));
+        throw new Error(data.error || 'Failed to stop the run');
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  const sendCommand = async (action: DebugAction) => {
+    if (!runId || !pause) return;
+
+    // Edited params are sent only when they differ from the paused step's
+    let params: Record<string, unknown> | undefined;
+    try {
+      const parsed = JSON.parse(paramsText);
+      if (JSON.stringify(parsed) !== JSON.stringify(pause.params)) {
+        params = parsed;
+      }
+    } catch (err) {
+      setError(`Invalid params JSON: ${err instanceof Error ? err.message : String(err)}`);
+      return;
+    }
+
+    setSending(true);
+    setError(null);
+    try {
+      const res = await fetch(`/api/runs/${encodeURIComponent(runId)}/debug`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'x-showrun-token': token,
+        },
+        body: JSON.stringify({ action, params, breakpoints: [...breakpoints] }),
+      });
+      if (!res.ok) {
+        const data = await res.json().catch(() => ({ error: 'Unknown error' }));
+        throw new Error(data.error || 'Failed to resume the run');
+      }
+      setPause(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setSending(false);
+    }
+  };
+
+  return (
+    <div>
+      {error && <div className="error" style={{ marginBottom: '12px' }}>{error}</div>}
+
+      <div style={{ display: 'flex', gap: '10px', alignItems: 'center', marginBottom: '12px' }}>
+        <button onClick={handleStart} disabled={running || steps.length === 0}>
+          Start Debug Run
+        </button>
+        {running && (
+          <button className="btn-secondary" onClick={handleStop}>
+            Stop
+          </button>
+        )}
+        <label style={{ fontSize: '13px' }}>
+          <input
+            type="checkbox"
+            checked={pauseOnEveryStep}
+            onChange={(e) => setPauseOnEveryStep(e.target.checked)}
+            disabled={running}
+          />{' '}
+          Pause on every step
+        </label>
+        {runStatus && (
+          <span className={`status-badge ${runStatus}`} style={{ marginLeft: 'auto' }}>{runStatus}</span>
+        )}
+      </div>
+
+      <div style={{ display: 'grid', gridTemplateColumns: '1fr 2fr', gap: '20px' }}>
+        {/* Steps with breakpoints */}
+        <div>
+          <div style={{ fontWeight: 600, fontSize: '13px', marginBottom: '8px' }}>Breakpoints</div>
+          {steps.length === 0 && (
+            <div style={{ fontSize: '13px', color: 'var(--text-muted)' }}>The flow has no steps.</div>
+          )}
+          {steps.map((step, index) => (
+            <label
+              key={step.id}
+              style={{
+                display: 'flex',
+                gap: '8px',
+                alignItems: 'center',
+                padding: '4px 6px',
+                fontSize: '13px',
+                fontFamily: 'monospace',
+                borderRadius: '4px',
+                background: pause?.stepIndex === index ? 'rgba(255, 103, 26, 0.15)' : 'transparent',
+              }}
+            >
+              <input type="checkbox" checked={breakpoints.has(step.id)} onChange={() => toggleBreakpoint(step.id)} />
+              {step.id}
+              <span style={{ color: 'var(--text-muted)' }}>{step.type}</span>
+            </label>
+          ))}
+          <div style={{ fontSize: '11px', color: 'var(--text-muted)', marginTop: '8px' }}>
+            Steps inside for_each and if run without pausing.
+          </div>
+        </div>
+
+        {/* Paused step */}
+        <div>
+          {!pause && (
+            <div style={{ fontSize: '13px', color: 'var(--text-muted)' }}>
+              {running ? 'Running...' : 'Start a debug run to pause at breakpoints.'}
+            </div>
+          )}
+          {pause && (
+            <div>
+              <div style={{ marginBottom: '8px' }}>
+                <strong>{REASON_LABELS[pause.reason]}:</strong> <code>{pause.stepId}</code> ({pause.type})
+              </div>
+              {pause.error && <div className="error" style={{ marginBottom: '8px' }}>{pause.error}</div>}
+
+              {pause.screenshot && (
+                <img
+                  src={`data:image/jpeg;base64,${pause.screenshot}`}
+                  alt="Page at the paused step"
+                  style={{ width: '100%', border: '1px solid var(--border-subtle)', borderRadius: '4px', marginBottom: '12px' }}
+                />
+              )}
+
+              <div style={{ fontWeight: 600, fontSize: '13px', marginBottom: '4px' }}>Params</div>
+              <textarea
+                value={paramsText}
+                onChange={(e) => setParamsText(e.target.value)}
+                style={{ width: '100%', minHeight: '120px', fontFamily: 'monospace', fontSize: '12px', padding: '8px' }}
+              />
+
+              <div style={{ display: 'flex', gap: '10px', margin: '12px 0' }}>
+                <button onClick={() => sendCommand('continue')} disabled={sending}>Continue</button>
+                <button onClick={() => sendCommand('step')} disabled={sending}>Step</button>
+                <button onClick={() => sendCommand('skip')} disabled={sending}>Skip</button>
+                <button onClick={() => sendCommand('rerun')} disabled={sending}>
+                  {pause.reason === 'error' ? 'Retry Step' : 'Re-run Previous Step'}
+                </button>
+              </div>
+
+              <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '12px' }}>
+                <div>
+                  <div style={{ fontWeight: 600, fontSize: '13px', marginBottom: '4px' }}>Vars</div>
+                  <pre style={{ fontSize: '11px', maxHeight: '240px', overflow: 'auto' }}>{JSON.stringify(pause.vars, null, 2)}</pre>
+                </div>
+                <div>
+                  <div style={{ fontWeight: 600, fontSize: '13px', marginBottom: '4px' }}>Collectibles</div>
+                  <pre style={{ fontSize: '11px', maxHeight: '240px', overflow: 'auto' }}>{JSON.stringify(pause.collectibles, null, 2)}</pre>
+                </div>
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
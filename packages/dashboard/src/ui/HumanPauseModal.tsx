@@ -0,0 +1,110 @@
+import React, { useState } from 'react';
+
+/** Prompt for a run paused by a pause_for_human step (sent as `runs:paused`) */
+export interface HumanPause {
+  runId: string;
+  packId: string;
+  stepId: string;
+  message: string;
+  maxWaitMs: number;
+  resumeWhen?: string;
+}
+
+interface HumanPauseModalProps {
+  pause: HumanPause;
+  token: string;
+  onContinued: () => void;
+  onClose: () => void;
+}
+
+export default function HumanPauseModal({ pause, token, onContinued, onClose }: HumanPauseModalProps) {
+  const [sending, setSending] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleContinue = async () => {
+    setSending(true);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/runs/${encodeURIComponent(pause.runId)}/continue`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'x-showrun-token': token,
+        },
+      });
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({ error: 'Unknown error' }));
+        throw new Error(errorData.error || 'Failed to continue the run');
+      }
+      onContinued();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setSending(false);
+    }
+  };
+
+  return (
+    <div
+      style={{
+        position: 'fixed',
+        top: 0,
+        left: 0,
+        right: 0,
+        bottom: 0,
+        background: 'rgba(0,0,0,0.7)',
+        display: 'flex',
+        alignItems: 'center',
+        justifyContent: 'center',
+        zIndex: 1000,
+      }}
+      onClick={onClose}
+    >
+      <div
+        className="card"
+        style={{ maxWidth: '500px', width: '90%', maxHeight: '80vh', overflow: 'auto' }}
+        onClick={(e) => e.stopPropagation()}
+      >
+        <h2 style={{ marginTop: 0 }}>Action Required in the Browser</h2>
+
+        <div style={{ fontSize: '12px', color: 'var(--text-muted)', marginBottom: '12px' }}>
+          Run of <strong>{pause.packId}</strong> is paused at step <code>{pause.stepId}</code>
+        </div>
+
+        <div style={{
+          padding: '12px 16px',
+          backgroundColor: 'rgba(255, 103, 26, 0.1)',
+          border: '1px solid rgba(255, 103, 26, 0.2)',
+          borderRadius: '8px',
+          marginBottom: '20px',
+          fontSize: '14px',
+          color: 'var(--text-primary)',
+        }}>
+          {pause.message}
+        </div>
+
+        {error && <div className="error" style={{ marginBottom: '16px' }}>{error}</div>}
+
+        <div style={{ display: 'flex', gap: '10px', justifyContent: 'flex-end' }}>
+          <button className="btn-secondary" type="button" onClick={onClose} disabled={sending}>
+            Hide
+          </button>
+          <button className="btn-primary" type="button" onClick={handleContinue} disabled={sending}>
+            {sending ? 'Continuing...' : 'Continue Run'}
+          </button>
+        </div>
+
+        <div style={{
+          marginTop: '16px',
+          fontSize: '11px',
+          color: 'var(--text-muted)',
+          textAlign: 'center',
+        }}>
+          {pause.resumeWhen ? `Resumes on its own when ${pause.resumeWhen}. ` : ''}
+          The step fails if the run is not continued within {Math.round(pause.maxWaitMs / 1000)}s.
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -2,6 +2,7 @@ import React, { useState, useEffect } from 'react';
 import type { Socket } from 'socket.io-client';
 import TeachMode from './TeachMode.js';
 import SecretsEditor from './SecretsEditor.js';
+import DebugPanel from './DebugPanel.js';
 
 interface Pack {
   id: string;
@@ -339,6 +340,15 @@ function PackEditor({ packId, packs, socket, token, onBack, onRun }: PackEditorP
         </div>
       </div>
 
+      {/* Debugger: breakpoints and step-through for runs of the saved flow */}
+      <div className="card" style={{ marginTop: '24px' }}>
+        <h3>Debugger</h3>
+        <p style={{ color: '#666', fontSize: '14px', marginBottom: '12px' }}>
+          Run the saved flow with breakpoints. A paused run shows the page, vars and collectibles; edit the step's params before running or retrying it.
+        </p>
+        <DebugPanel packId={packId} flowJsonText={flowJsonText} socket={socket} token={token} />
+      </div>
+
       {/* Secrets Management */}
       <div className="card" style={{ marginTop: '24px' }}>
         <h3>Secrets</h3>
@@ -0,0 +1,178 @@
+import React from 'react';
+
+interface RunInputValueSchema {
+  type?: string;
+  items?: RunInputValueSchema;
+  properties?: Record<string, RunInputValueSchema>;
+}
+
+/** Input field definition from flow.json (mirrors FieldDefinition in @showrun/core) */
+export interface RunInputSchema {
+  type: string;
+  required?: boolean;
+  description?: string;
+  default?: unknown;
+  enum?: Array<string | number>;
+  items?: RunInputValueSchema;
+  properties?: Record<string, RunInputValueSchema>;
+  pattern?: string;
+  minLength?: number;
+  maxLength?: number;
+  minimum?: number;
+  maximum?: number;
+  format?: 'date' | 'email' | 'url';
+}
+
+/** Raw form value: text for everything except booleans */
+export type RunInputFormValue = string | boolean;
+
+/**
+ * Arrays of scalars are edited one item per line; arrays of objects and
+ * objects are edited as JSON.
+ */
+function editsAsLines(schema: RunInputSchema): boolean {
+  return schema.type === 'array' && schema.items?.type !== 'object' && schema.items?.type !== 'array';
+}
+
+/**
+ * Converts an input value (e.g. a default from flow.json) to its form representation
+ */
+export function toRunInputFormValue(schema: RunInputSchema, value: unknown): RunInputFormValue {
+  if (schema.type === 'boolean') return !!value;
+  if (value === undefined || value === null) return '';
+  if (editsAsLines(schema) && Array.isArray(value)) return value.map(String).join('\n');
+  if (schema.type === 'array' || schema.type === 'object') return JSON.stringify(value, null, 2);
+  return String(value);
+}
+
+/**
+ * Converts a form value to the input value sent to the run. Returns
+ * `value: undefined` for an empty field, or an error for unparseable text.
+ */
+export function parseRunInputValue(
+  schema: RunInputSchema,
+  raw: RunInputFormValue | undefined
+): { value?: unknown; error?: string } {
+  if (typeof raw === 'boolean') return { value: raw };
+  if (raw === undefined || raw.trim() === '') return {};
+
+  if (schema.type === 'number') {
+    const num = Number(raw);
+    return Number.isNaN(num) ? { error: 'Must be a number' } : { value: num };
+  }
+  if (editsAsLines(schema)) {
+    const lines = raw.split('\n').map((line) => line.trim()).filter((line) => line !== '');
+    if (schema.items?.type === 'number' || schema.items?.type === 'integer') {
+      const nums = lines.map(Number);
+      return nums.some(Number.isNaN) ? { error: 'Each line must be a number' } : { value: nums };
+    }
+    if (schema.items?.type === 'boolean') {
+      if (lines.some((line) => line !== 'true' && line !== 'false')) {
+        return { error: 'Each line must be true or false' };
+      }
+      return { value: lines.map((line) => line === 'true') };
+    }
+    return { value: lines };
+  }
+  if (schema.type === 'array' || schema.type === 'object') {
+    try {
+      return { value: JSON.parse(raw) };
+    } catch {
+      return { error: 'Must be valid JSON' };
+    }
+  }
+  return { value: raw };
+}
+
+const fieldStyle: React.CSSProperties = {
+  padding: '6px 10px',
+  fontSize: '13px',
+  borderRadius: '6px',
+  border: '1px solid var(--border-subtle)',
+  backgroundColor: 'var(--bg-primary)',
+  color: 'var(--text-primary)',
+  outline: 'none',
+};
+
+const TEXT_INPUT_TYPES: Record<string, string> = { date: 'date', email: 'email', url: 'url' };
+
+interface RunInputFieldProps {
+  name: string;
+  schema: RunInputSchema;
+  value: RunInputFormValue | undefined;
+  onChange: (value: RunInputFormValue) => void;
+}
+
+/**
+ * One field of the Run tab form, picking the control from the input definition
+ */
+function RunInputField({ name, schema, value, onChange }: RunInputFieldProps) {
+  const { error } = parseRunInputValue(schema, value);
+  const placeholder = schema.default !== undefined ? String(toRunInputFormValue(schema, schema.default)) : '';
+
+  let control: React.ReactNode;
+  if (schema.type === 'boolean') {
+    control = (
+      <label style={{ display: 'flex', alignItems: 'center', gap: '8px', fontSize: '13px' }}>
+        <input type="checkbox" checked={!!value} onChange={(e) => onChange(e.target.checked)} />
+        {value ? 'true' : 'false'}
+      </label>
+    );
+  } else if (schema.enum) {
+    control = (
+      <select id={`run-input-${name}`} value={String(value ?? '')} onChange={(e) => onChange(e.target.value)} style={fieldStyle}>
+        {!schema.required && <option value="">(none)</option>}
+        {schema.required && value === undefined && <option value="" disabled>Select…</option>}
+        {schema.enum.map((option) => (
+          <option key={String(option)} value={String(option)}>{String(option)}</option>
+        ))}
+      </select>
+    );
+  } else if (schema.type === 'array' || schema.type === 'object') {
+    control = (
+      <textarea
+        id={`run-input-${name}`}
+        value={String(value ?? '')}
+        placeholder={placeholder || (editsAsLines(schema) ? 'One item per line' : 'JSON')}
+        onChange={(e) => onChange(e.target.value)}
+        rows={4}
+        style={{ ...fieldStyle, fontFamily: 'var(--font-mono)', resize: 'vertical' }}
+      />
+    );
+  } else {
+    control = (
+      <input
+        id={`run-input-${name}`}
+        type={schema.type === 'number' ? 'number' : (schema.format && TEXT_INPUT_TYPES[schema.format]) || 'text'}
+        value={String(value ?? '')}
+        placeholder={placeholder}
+        min={schema.minimum}
+        max={schema.maximum}
+        minLength={schema.minLength}
+        maxLength={schema.maxLength}
+        pattern={schema.pattern}
+        onChange={(e) => onChange(e.target.value)}
+        style={fieldStyle}
+      />
+    );
+  }
+
+  return (
+    <div style={{ display: 'flex', flexDirection: 'column', gap: '4px' }}>
+      <label htmlFor={`run-input-${name}`} style={{ fontSize: '12px', fontWeight: 500, color: 'var(--text-primary)' }}>
+        {name}{schema.required ? ' *' : ''}
+      </label>
+      {control}
+      {error && (
+        <div style={{ fontSize: '11px', color: 'var(--status-error)' }}>{error}</div>
+      )}
+      {schema.description && (
+        <div style={{ fontSize: '11px', color: 'var(--text-muted)' }}>
+          {schema.description}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default RunInputField;
@@ -5,7 +5,7 @@ interface Run {
   runId: string;
   packId: string;
   packName: string;
-  status: 'queued' | 'running' | 'success' | 'failed';
+  status: 'queued' | 'running' | 'success' | 'failed' | 'cancelled';
   createdAt: number;
   startedAt?: number;
   finishedAt?: number;
@@ -33,12 +33,15 @@ interface RunEvent {
 interface RunsViewProps {
   runs: Run[];
   socket: Socket;
+  token: string;
 }
 
-function RunsView({ runs, socket }: RunsViewProps) {
+function RunsView({ runs, socket, token }: RunsViewProps) {
   const [selectedRun, setSelectedRun] = useState<Run | null>(null);
   const [events, setEvents] = useState<RunEvent[]>([]);
   const [sourceFilter, setSourceFilter] = useState<string>('all');
+  const [cancelling, setCancelling] = useState(false);
+  const [cancelError, setCancelError] = useState<string | null>(null);
 
   useEffect(() => {
     if (!selectedRun) {
@@ -56,6 +59,29 @@ function RunsView({ runs, socket }: RunsViewProps) {
     };
   }, [selectedRun, socket]);
 
+  // The selected run is a snapshot; its status follows the live runs list
+  const selectedStatus = runs.find((r) => r.runId === selectedRun?.runId)?.status ?? selectedRun?.status;
+
+  const handleCancel = async (runId: string) => {
+    setCancelling(true);
+    setCancelError(null);
+
+    try {
+      const response = await fetch(`/api/runs/${encodeURIComponent(runId)}`, {
+        method: 'DELETE',
+        headers: { 'x-showrun-token': token },
+      });
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({ error: 'Unknown error' }));
+        throw new Error(errorData.error || 'Failed to cancel the run');
+      }
+    } catch (err) {
+      setCancelError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setCancelling(false);
+    }
+  };
+
   const formatDate = (timestamp: number) => {
     return new Date(timestamp).toLocaleString();
   };
@@ -81,6 +107,19 @@ function RunsView({ runs, socket }: RunsViewProps) {
     }
   };
 
+  // Tries per step, from step_attempt events (only logged for steps with a retry policy)
+  const stepAttempts = new Map<string, { attempts: number; maxAttempts: number; success: boolean }>();
+  for (const event of events) {
+    if (event.type !== 'step_attempt') continue;
+    const key = event.data.iteration !== undefined ? `${event.data.stepId} [${event.data.iteration}]` : event.data.stepId;
+    stepAttempts.set(key, {
+      attempts: event.data.attempt,
+      maxAttempts: event.data.maxAttempts,
+      success: event.data.success,
+    });
+  }
+  const retriedSteps = [...stepAttempts.entries()].filter(([, info]) => info.attempts > 1 || !info.success);
+
   // Filter runs by source
   const filteredRuns =
     sourceFilter === 'all' ? runs : runs.filter((r) => r.source === sourceFilter);
@@ -148,8 +187,20 @@ function RunsView({ runs, socket }: RunsViewProps) {
             <div className="run-detail-info">
               <p>
                 <strong>Status:</strong>{' '}
-                <span className={`status-badge ${selectedRun.status}`}>{selectedRun.status}</span>
+                <span className={`status-badge ${selectedStatus}`}>{selectedStatus}</span>
+                {(selectedStatus === 'queued' || selectedStatus === 'running') && (
+                  <button
+                    className="btn-secondary"
+                    type="button"
+                    onClick={() => handleCancel(selectedRun.runId)}
+                    disabled={cancelling}
+                    style={{ marginLeft: '12px', padding: '2px 10px', fontSize: '12px' }}
+                  >
+                    {cancelling ? 'Cancelling...' : 'Cancel Run'}
+                  </button>
+                )}
               </p>
+              {cancelError && <div className="error">{cancelError}</div>}
               <p>
                 <strong>Source:</strong> {getSourceLabel(selectedRun.source)}
               </p>
@@ -229,6 +280,22 @@ function RunsView({ runs, socket }: RunsViewProps) {
             </div>
           )}
 
+          {retriedSteps.length > 0 && (
+            <div className="run-detail-section">
+              <h3>Step Retries</h3>
+              <div className="run-detail-info">
+                {retriedSteps.map(([stepId, info]) => (
+                  <p key={stepId}>
+                    <strong>{stepId}:</strong> {info.attempts} of {info.maxAttempts} tries{' '}
+                    <span className={`status-badge ${info.success ? 'success' : 'failed'}`}>
+                      {info.success ? 'succeeded' : 'failed'}
+                    </span>
+                  </p>
+                ))}
+              </div>
+            </div>
+          )}
+
           <div className="run-detail-section">
             <h3>Live Events</h3>
             <div className="events-stream">
@@ -243,7 +310,7 @@ function RunsView({ runs, socket }: RunsViewProps) {
                   <div
                     key={idx}
                     className={`event-line ${
-                      event.type === 'error'
+                      event.type === 'error' || event.type === 'run_cancelled'
                         ? 'error'
                         : event.type === 'run_finished' && event.data.success
                         ? 'success'
@@ -1,4 +1,4 @@
-import { describe, it, expect } from 'vitest';
+import { describe, it, expect, vi } from 'vitest';
 import { ConcurrencyLimiter } from '../concurrency.js';
 
 describe('ConcurrencyLimiter', () => {
@@ -121,4 +121,47 @@ describe('ConcurrencyLimiter', () => {
     await Promise.all([task1, task2, task3]);
     expect(limiter.getQueueLength()).toBe(0);
   });
+
+  it('drops a cancelled task from the queue', async () => {
+    const limiter = new ConcurrencyLimiter(1);
+    const controller = new AbortController();
+    const queuedFn = vi.fn(async () => 'never');
+
+    const task1 = limiter.execute(() => new Promise(r => setTimeout(r, 50)));
+    const task2 = limiter.execute(queuedFn, controller.signal);
+    controller.abort();
+
+    await expect(task2).rejects.toThrow('Task cancelled');
+    expect(limiter.getQueueLength()).toBe(0);
+    await task1;
+    expect(queuedFn).not.toHaveBeenCalled();
+  });
+
+  it('keeps the slot of a cancelled running task until it settles', async () => {
+    const limiter = new ConcurrencyLimiter(1);
+    const controller = new AbortController();
+    let finish!: () => void;
+    const nextFn = vi.fn(async () => 'next');
+
+    const running = limiter.execute(() => new Promise<void>((r) => { finish = r; }), controller.signal);
+    const next = limiter.execute(nextFn);
+    controller.abort();
+
+    await expect(running).rejects.toThrow('Task cancelled');
+    expect(limiter.getRunningCount()).toBe(1);
+    expect(nextFn).not.toHaveBeenCalled();
+
+    finish();
+    await expect(next).resolves.toBe('next');
+    expect(limiter.getRunningCount()).toBe(0);
+  });
+
+  it('rejects without running when the signal is already aborted', async () => {
+    const limiter = new ConcurrencyLimiter(1);
+    const fn = vi.fn(async () => 'result');
+
+    await expect(limiter.execute(fn, AbortSignal.abort())).rejects.toThrow('Task cancelled');
+    expect(fn).not.toHaveBeenCalled();
+    expect(limiter.getRunningCount()).toBe(0);
+  });
 });
@@ -19,7 +19,7 @@ import { generateResultKey } from '@showrun/core';
 import type { ResultStoreProvider } from '@showrun/core';
 import { InMemoryResultStore } from '@showrun/harness';
 import { discoverPacks } from '../packDiscovery.js';
-import { registerPackTools } from '../toolRegistration.js';
+import { registerPackTools, type MCPRunCompleteInfo } from '../toolRegistration.js';
 import { ConcurrencyLimiter } from '../concurrency.js';
 
 // ---------------------------------------------------------------------------
@@ -106,7 +106,9 @@ describe('MCP tool result store e2e', () => {
    * Helper: set up an MCP server+client pair with the test pack and an InMemoryResultStore.
    * Uses the shared registerPackTools() — same logic as production server.ts / httpServer.ts.
    */
-  async function setupServerAndClient(): Promise<{ store: InMemoryResultStore; toolName: string }> {
+  async function setupServerAndClient(
+    onRunComplete?: (info: MCPRunCompleteInfo) => void,
+  ): Promise<{ store: InMemoryResultStore; toolName: string }> {
     const discovered = await discoverPacks({ directories: [join(testDir, 'taskpacks')] });
     expect(discovered.length).toBe(1);
     const pack = discovered[0];
@@ -125,6 +127,7 @@ describe('MCP tool result store e2e', () => {
       headful: false,
       sessionId: 'test-session',
       resultStores,
+      onRunComplete,
     });
 
     [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
@@ -282,4 +285,41 @@ describe('MCP tool result store e2e', () => {
     const expectedKey = generateResultKey(PACK_ID, {});
     expect(parsed1._resultKey).toBe(expectedKey);
   });
+
+  it('pause_for_human without an operator returns isError with HUMAN_INPUT_UNAVAILABLE', async () => {
+    writeFileSync(
+      join(packDir, 'flow.json'),
+      JSON.stringify({
+        inputs: {},
+        collectibles: [{ name: 'items', type: 'string' }],
+        flow: [
+          { id: 'solve_captcha', type: 'pause_for_human', params: { message: 'Solve the CAPTCHA' } },
+        ],
+      }),
+    );
+    // What runTaskPack returns when pause_for_human has no operator prompt
+    mockRunTaskPack.mockResolvedValueOnce({
+      collectibles: {},
+      meta: {
+        durationMs: 5,
+        notes: 'Error at step "solve_captcha": pause_for_human: [HUMAN_INPUT_UNAVAILABLE] step "solve_captcha" needs an operator',
+      },
+      failedStepId: 'solve_captcha',
+      errorCode: 'HUMAN_INPUT_UNAVAILABLE',
+    });
+    const onRunComplete = vi.fn();
+    const { store, toolName } = await setupServerAndClient(onRunComplete);
+
+    const result = await client.callTool({ name: toolName, arguments: {} });
+    const parsed = JSON.parse((result.content as Array<{ type: string; text: string }>)[0].text);
+
+    expect(result.isError).toBe(true);
+    expect(parsed.errorCode).toBe('HUMAN_INPUT_UNAVAILABLE');
+    expect(parsed.failedStepId).toBe('solve_captcha');
+    expect(parsed.error).toContain('needs an operator');
+    expect(onRunComplete).toHaveBeenCalledWith(expect.objectContaining({ success: false }));
+
+    await new Promise((r) => setTimeout(r, 50));
+    expect((await store.list()).total).toBe(0);
+  });
 });
@@ -1,7 +1,7 @@
 import { describe, it, expect } from 'vitest';
 import { z } from 'zod';
-import { inputSchemaToZodSchema } from '../toolRegistration.js';
-import type { InputSchema } from '@showrun/core';
+import { inputSchemaToZodSchema, buildToolDescription, packToSchema } from '../toolRegistration.js';
+import type { InputSchema, TaskPack } from '@showrun/core';
 
 describe('inputSchemaToZodSchema', () => {
   describe('string fields', () => {
@@ -130,4 +130,87 @@ describe('inputSchemaToZodSchema', () => {
       expect(zodSchema.parse({})).toEqual({});
     });
   });
+
+  describe('constraints', () => {
+    it('maps enums to the allowed values', () => {
+      const zodSchema = z.object(inputSchemaToZodSchema({
+        sort: { type: 'string', required: true, enum: ['relevance', 'price', 'newest'] },
+        pageSize: { type: 'number', enum: [10, 50] },
+      }));
+
+      expect(zodSchema.parse({ sort: 'price', pageSize: 50 })).toEqual({ sort: 'price', pageSize: 50 });
+      expect(() => zodSchema.parse({ sort: 'oldest' })).toThrow();
+      expect(() => zodSchema.parse({ sort: 'price', pageSize: 20 })).toThrow();
+    });
+
+    it('maps arrays with items and objects with properties', () => {
+      const zodSchema = z.object(inputSchemaToZodSchema({
+        ids: { type: 'array', required: true, items: { type: 'integer' } },
+        filters: { type: 'object', properties: { brand: { type: 'string' } } },
+      }));
+
+      expect(zodSchema.parse({ ids: [1, 2], filters: { brand: 'acme', extra: true } }))
+        .toEqual({ ids: [1, 2], filters: { brand: 'acme', extra: true } });
+      expect(() => zodSchema.parse({ ids: ['1'] })).toThrow();
+      expect(() => zodSchema.parse({ ids: [], filters: { brand: 3 } })).toThrow();
+    });
+
+    it('applies string length, pattern and format and number ranges', () => {
+      const zodSchema = z.object(inputSchemaToZodSchema({
+        code: { type: 'string', pattern: '^[A-Z]{3}$' },
+        query: { type: 'string', minLength: 2, maxLength: 5 },
+        since: { type: 'string', format: 'date' },
+        contact: { type: 'string', format: 'email' },
+        page: { type: 'number', minimum: 1, maximum: 10 },
+      }));
+
+      expect(() => zodSchema.parse({ code: 'ABC', query: 'shoe', since: '2024-05-01', contact: 'a@b.co', page: 3 })).not.toThrow();
+      expect(() => zodSchema.parse({ code: 'abc' })).toThrow();
+      expect(() => zodSchema.parse({ query: 'x' })).toThrow();
+      expect(() => zodSchema.parse({ since: '05/01/2024' })).toThrow();
+      expect(() => zodSchema.parse({ contact: 'nobody' })).toThrow();
+      expect(() => zodSchema.parse({ page: 11 })).toThrow();
+    });
+  });
+});
+
+describe('collectible schemas', () => {
+  const pack: TaskPack = {
+    metadata: { id: 'shop', name: 'Shop', version: '1.0.0', description: 'Search products' },
+    inputs: {},
+    collectibles: [
+      {
+        name: 'products',
+        type: 'array',
+        description: 'Matching products',
+        items: {
+          type: 'object',
+          properties: { name: { type: 'string' }, price: { type: 'number' } },
+          required: ['name'],
+        },
+      },
+      { name: 'total', type: 'number' },
+    ],
+    flow: [],
+  };
+
+  it('describes structured collectibles in the tool description', () => {
+    expect(buildToolDescription(pack)).toBe(
+      'Search products (v1.0.0)\n\nCollectibles:\n' +
+        '  - products (array of {name: string, price?: number}): Matching products\n' +
+        '  - total (number)'
+    );
+  });
+
+  it('keeps items/properties in the result store schema', () => {
+    expect(packToSchema(pack)).toEqual([
+      {
+        name: 'products',
+        type: 'array',
+        description: 'Matching products',
+        items: pack.collectibles[0].items,
+      },
+      { name: 'total', type: 'number', description: undefined },
+    ]);
+  });
 });
@@ -12,10 +12,22 @@ export class ConcurrencyLimiter {
   }
 
   /**
-   * Execute a function with concurrency control
+   * Execute a function with concurrency control.
+   * Aborting the signal drops the task from the queue, or rejects the returned
+   * promise right away if it is already running; a running task keeps its slot
+   * until the function settles, so cancelled work still tearing down counts
+   * against the limit.
    */
-  async execute<T>(fn: () => Promise<T>): Promise<T> {
+  async execute<T>(fn: () => Promise<T>, signal?: AbortSignal): Promise<T> {
     return new Promise<T>((resolve, reject) => {
+      const release = () => {
+        this.running--;
+        if (this.queue.length > 0) {
+          const next = this.queue.shift()!;
+          next();
+        }
+      };
+
       const run = async () => {
         this.running++;
         try {
@@ -24,14 +36,25 @@ export class ConcurrencyLimiter {
         } catch (error) {
           reject(error);
         } finally {
-          this.running--;
-          if (this.queue.length > 0) {
-            const next = this.queue.shift()!;
-            next();
-          }
+          signal?.removeEventListener('abort', onAbort);
+          release();
+        }
+      };
+
+      const onAbort = () => {
+        const queued = this.queue.indexOf(run);
+        if (queued !== -1) {
+          this.queue.splice(queued, 1);
         }
+        reject(new Error('Task cancelled'));
       };
 
+      if (signal?.aborted) {
+        reject(new Error('Task cancelled'));
+        return;
+      }
+      signal?.addEventListener('abort', onAbort, { once: true });
+
       if (this.running < this.maxConcurrency) {
         run();
       } else {
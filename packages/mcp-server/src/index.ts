@@ -11,7 +11,7 @@ export type { DiscoveredPack, PackDiscoveryOptions } from './packDiscovery.js';
 export { ConcurrencyLimiter } from './concurrency.js';
 
 // Shared tool registration
-export { registerPackTools, inputSchemaToZodSchema, buildToolDescription, packToSchema, LARGE_RESULT_THRESHOLD } from './toolRegistration.js';
+export { registerPackTools, inputSchemaToZodSchema, buildToolDescription, describeValueSchema, packToSchema, LARGE_RESULT_THRESHOLD } from './toolRegistration.js';
 export type { RegisterPackToolsOptions, MCPRunStartInfo, MCPRunCompleteInfo } from './toolRegistration.js';
 
 // Stdio server
@@ -9,8 +9,9 @@ import { join } from 'path';
 import { randomUUID } from 'crypto';
 import * as z from 'zod';
 import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
-import type { TaskPack, InputSchema, ResultStoreProvider, CollectibleSchemaField } from '@showrun/core';
-import { runTaskPack, generateResultKey } from '@showrun/core';
+import type { TaskPack, InputSchema, FieldDefinition, ResultStoreProvider, CollectibleSchemaField, ValueSchema } from '@showrun/core';
+import { CollectibleValidator } from '@showrun/core';
+import { runTaskPack, generateResultKey, RunCancelledError } from '@showrun/core';
 import { JSONLLogger } from '@showrun/harness';
 import type { DiscoveredPack } from './packDiscovery.js';
 import type { ConcurrencyLimiter } from './concurrency.js';
@@ -23,6 +24,108 @@ export const LARGE_RESULT_THRESHOLD = 10_000;
 // Helpers
 // ---------------------------------------------------------------------------
 
+/**
+ * Converts a value schema (array items, object properties) to a Zod type.
+ */
+function valueSchemaToZod(schema: ValueSchema | undefined): z.ZodTypeAny {
+  let zodType: z.ZodTypeAny;
+
+  switch (schema?.type) {
+    case 'string':
+      zodType = z.string();
+      break;
+    case 'number':
+      zodType = z.number();
+      break;
+    case 'integer':
+      zodType = z.number().int();
+      break;
+    case 'boolean':
+      zodType = z.boolean();
+      break;
+    case 'null':
+      zodType = z.null();
+      break;
+    case 'array':
+      zodType = z.array(valueSchemaToZod(schema.items));
+      break;
+    case 'object':
+      zodType = objectSchemaToZod(schema.properties, schema.required);
+      break;
+    default:
+      zodType = z.any();
+  }
+
+  return schema?.description ? zodType.describe(schema.description) : zodType;
+}
+
+/**
+ * Converts object properties to a Zod object; unlisted properties are kept.
+ */
+function objectSchemaToZod(
+  properties: Record<string, ValueSchema> | undefined,
+  required: string[] | undefined,
+): z.ZodTypeAny {
+  if (!properties) {
+    return z.record(z.any());
+  }
+  const shape: z.ZodRawShape = {};
+  for (const [key, propertySchema] of Object.entries(properties)) {
+    const zodType = valueSchemaToZod(propertySchema);
+    shape[key] = required?.includes(key) ? zodType : zodType.optional();
+  }
+  return z.object(shape).passthrough();
+}
+
+/**
+ * Converts an enum list to a Zod type (z.enum for strings, literals for numbers).
+ */
+function enumToZod(values: Array<string | number>): z.ZodTypeAny {
+  if (values.every((v) => typeof v === 'string')) {
+    return z.enum(values as [string, ...string[]]);
+  }
+  const literals = values.map((v) => z.literal(v));
+  return literals.length === 1
+    ? literals[0]
+    : z.union(literals as unknown as [z.ZodTypeAny, z.ZodTypeAny, ...z.ZodTypeAny[]]);
+}
+
+/**
+ * Converts one input field definition to a Zod type, including its constraints.
+ */
+function fieldToZod(fieldDef: FieldDefinition): z.ZodTypeAny {
+  if (fieldDef.enum && fieldDef.enum.length > 0) {
+    return enumToZod(fieldDef.enum);
+  }
+
+  switch (fieldDef.type) {
+    case 'string': {
+      let zodType = z.string();
+      if (fieldDef.minLength !== undefined) zodType = zodType.min(fieldDef.minLength);
+      if (fieldDef.maxLength !== undefined) zodType = zodType.max(fieldDef.maxLength);
+      if (fieldDef.pattern !== undefined) zodType = zodType.regex(new RegExp(fieldDef.pattern));
+      if (fieldDef.format === 'email') zodType = zodType.email();
+      if (fieldDef.format === 'url') zodType = zodType.url();
+      if (fieldDef.format === 'date') zodType = zodType.date();
+      return zodType;
+    }
+    case 'number': {
+      let zodType = z.number();
+      if (fieldDef.minimum !== undefined) zodType = zodType.min(fieldDef.minimum);
+      if (fieldDef.maximum !== undefined) zodType = zodType.max(fieldDef.maximum);
+      return zodType;
+    }
+    case 'boolean':
+      return z.boolean();
+    case 'array':
+      return z.array(valueSchemaToZod(fieldDef.items));
+    case 'object':
+      return objectSchemaToZod(fieldDef.properties, undefined);
+    default:
+      return z.string();
+  }
+}
+
 /**
  * Converts Task Pack input schema to Zod schema for McpServer.
  */
@@ -30,21 +133,7 @@ export function inputSchemaToZodSchema(inputs: InputSchema): z.ZodRawShape {
   const shape: z.ZodRawShape = {};
 
   for (const [fieldName, fieldDef] of Object.entries(inputs)) {
-    let zodType: z.ZodTypeAny;
-
-    switch (fieldDef.type) {
-      case 'string':
-        zodType = z.string();
-        break;
-      case 'number':
-        zodType = z.number();
-        break;
-      case 'boolean':
-        zodType = z.boolean();
-        break;
-      default:
-        zodType = z.string();
-    }
+    let zodType = fieldToZod(fieldDef);
 
     if (fieldDef.description) {
       zodType = zodType.describe(fieldDef.description);
@@ -60,6 +149,24 @@ export function inputSchemaToZodSchema(inputs: InputSchema): z.ZodRawShape {
   return shape;
 }
 
+/**
+ * Compact type notation for a value schema, e.g. "array of {name: string, price?: number}".
+ * Properties are marked optional with "?" when the schema lists required ones.
+ */
+export function describeValueSchema(schema: ValueSchema): string {
+  if (schema.type === 'array' || (!schema.type && schema.items)) {
+    return schema.items ? `array of ${describeValueSchema(schema.items)}` : 'array';
+  }
+  if (schema.properties && Object.keys(schema.properties).length > 0) {
+    const fields = Object.entries(schema.properties).map(([key, propertySchema]) => {
+      const optional = schema.required && !schema.required.includes(key) ? '?' : '';
+      return `${key}${optional}: ${describeValueSchema(propertySchema)}`;
+    });
+    return `{${fields.join(', ')}}`;
+  }
+  return schema.type ?? 'any';
+}
+
 /**
  * Build an enhanced tool description that includes collectible schema info.
  */
@@ -68,7 +175,7 @@ export function buildToolDescription(pack: TaskPack): string {
 
   if (pack.collectibles.length > 0) {
     const fields = pack.collectibles
-      .map((c) => `  - ${c.name} (${c.type})${c.description ? ': ' + c.description : ''}`)
+      .map((c) => `  - ${c.name} (${describeValueSchema(CollectibleValidator.toValueSchema(c))})${c.description ? ': ' + c.description : ''}`)
       .join('\n');
     desc += `\n\nCollectibles:\n${fields}`;
   }
@@ -84,6 +191,9 @@ export function packToSchema(pack: TaskPack): CollectibleSchemaField[] {
     name: c.name,
     type: c.type,
     description: c.description,
+    ...(c.items ? { items: c.items } : {}),
+    ...(c.properties ? { properties: c.properties } : {}),
+    ...(c.required ? { required: c.required } : {}),
   }));
 }
 
@@ -97,12 +207,16 @@ export interface MCPRunStartInfo {
   runId: string;
   inputs: Record<string, unknown>;
   runDir: string;
+  /** Cancels the run (MCP clients cancel through the request instead) */
+  cancel: () => void;
 }
 
 export interface MCPRunCompleteInfo {
   packId: string;
   runId: string;
   success: boolean;
+  /** The run was cancelled or ran past its maxRunDurationMs */
+  cancelled?: boolean;
   error?: string;
   collectibles?: Record<string, unknown>;
   durationMs?: number;
@@ -144,11 +258,14 @@ export function registerPackTools(
         description: buildToolDescription(pack),
         inputSchema,
       },
-      async (inputs: Record<string, unknown>) => {
+      async (inputs: Record<string, unknown>, extra) => {
         const runId = randomUUID();
         const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
         const runDir = join(baseRunDir, `${toolName}-${timestamp}-${runId.slice(0, 8)}`);
         const ranAt = new Date().toISOString();
+        // Cancelled by the client (notifications/cancelled) or through onRunStart's cancel
+        const controller = new AbortController();
+        const signal = AbortSignal.any([extra.signal, controller.signal]);
 
         return await limiter.execute(async () => {
           const logger = new JSONLLogger(runDir);
@@ -161,6 +278,7 @@ export function registerPackTools(
             runId,
             inputs,
             runDir,
+            cancel: () => controller.abort(),
           });
 
           try {
@@ -172,9 +290,37 @@ export function registerPackTools(
               profileId: pack.metadata.id,
               packPath: packDir,
               cacheDir: packDir,
+              signal,
             });
             const durationMs = Date.now() - startTime;
 
+            const errorCode = runResult.errorCode;
+            if (errorCode === 'RUN_CANCELLED' || errorCode === 'RUN_TIMEOUT') {
+              throw new RunCancelledError(errorCode === 'RUN_TIMEOUT' ? 'timeout' : 'cancelled');
+            }
+            // Failed with a known cause (e.g. HUMAN_INPUT_UNAVAILABLE): report it to the
+            // client and keep the partial collectibles out of the result store
+            if (errorCode) {
+              const errorMessage = runResult.meta.notes ?? `Run failed with ${errorCode}`;
+              console.error(
+                `[MCP Server] Tool failed: ${toolName} (runId: ${runId}) - ${errorMessage}`,
+              );
+              onRunComplete?.({
+                packId: pack.metadata.id,
+                runId,
+                success: false,
+                error: errorMessage,
+                durationMs,
+              });
+              const failure = { error: errorMessage, errorCode, failedStepId: runResult.failedStepId };
+              return {
+                content: [
+                  { type: 'text' as const, text: JSON.stringify(failure, null, 2) },
+                ],
+                isError: true,
+              };
+            }
+
             console.error(
               `[MCP Server] Tool completed: ${toolName} (runId: ${runId}) - Success`,
             );
@@ -249,6 +395,7 @@ export function registerPackTools(
               packId: pack.metadata.id,
               runId,
               success: false,
+              cancelled: error instanceof RunCancelledError || undefined,
               error: errorMessage,
               durationMs,
             });
@@ -260,7 +407,7 @@ export function registerPackTools(
               isError: true,
             };
           }
-        });
+        }, signal);
       },
     );
 
@@ -8,6 +8,8 @@ import { cwd } from 'process';
 import {
   TaskPackLoader,
   validateJsonTaskPack,
+  analyzePackDataFlow,
+  formatDataFlowIssue,
   sanitizePackId,
   ensureDir,
   writeTaskPackManifest,
@@ -180,6 +182,17 @@ export async function cmdPackValidate(args: string[]): Promise<void> {
   try {
     const pack = await TaskPackLoader.loadTaskPack(packPath);
     validateJsonTaskPack(pack);
+
+    const manifest = TaskPackLoader.loadManifest(packPath);
+    const issues = analyzePackDataFlow(pack, manifest.secrets?.map((s) => s.name));
+    const errors = issues.filter((issue) => issue.severity === 'error');
+    for (const issue of issues) {
+      if (issue.severity === 'warning') console.warn(`⚠ ${formatDataFlowIssue(issue)}`);
+    }
+    if (errors.length > 0) {
+      throw new Error(`Data flow errors:\n${errors.map((issue) => `  - ${formatDataFlowIssue(issue)}`).join('\n')}`);
+    }
+
     console.log(`✓ Task pack is valid: ${pack.metadata.id} v${pack.metadata.version}`);
   } catch (error) {
     console.error(`✗ Validation failed: ${error instanceof Error ? error.message : String(error)}`);
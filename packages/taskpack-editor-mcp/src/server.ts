@@ -8,8 +8,13 @@ import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js'
 import { resolve, join } from 'path';
 import * as z from 'zod';
 import { readFileSync, existsSync, writeFileSync, renameSync } from 'fs';
-import type { TaskPackManifest, DslStep, CollectibleDefinition, InputSchema, SecretDefinition } from '@showrun/core';
-import { TaskPackLoader, validateJsonTaskPack } from '@showrun/core';
+import type { TaskPackManifest, DslStep, CollectibleDefinition, InputSchema, SecretDefinition, FlowFragment } from '@showrun/core';
+import {
+  TaskPackLoader,
+  validateJsonTaskPack,
+  analyzePackDataFlow,
+  formatDataFlowIssue,
+} from '@showrun/core';
 import { discoverPacks } from '@showrun/mcp-server';
 import { runTaskPack } from '@showrun/core';
 import { JSONLLogger } from '@showrun/harness';
@@ -50,7 +55,10 @@ function writeFlowJson(
   flowData: {
     inputs?: InputSchema;
     collectibles?: CollectibleDefinition[];
+    fragments?: Record<string, FlowFragment>;
     flow: DslStep[];
+    on_failure?: DslStep[];
+    finally?: DslStep[];
   }
 ): void {
   const tempPack = {
@@ -62,6 +70,9 @@ function writeFlowJson(
     inputs: flowData.inputs || {},
     collectibles: flowData.collectibles || [],
     flow: flowData.flow,
+    on_failure: flowData.on_failure,
+    finally: flowData.finally,
+    fragments: TaskPackLoader.loadFragments(packDir, flowData.fragments),
   };
   
   validateJsonTaskPack(tempPack);
@@ -88,9 +99,23 @@ function getStepParamsHint(stepType: string): string {
     extract_text: 'Required: target (object with kind) OR selector (string), out (string). Optional: first, trim, default.',
     extract_attribute: 'Required: target OR selector, attribute (string), out (string). Optional: first, default.',
     extract_title: 'Required: out (string).',
+    extract_table: 'Required: target (<table> or role=grid element), out (string). Optional: rename ({header text: key}), skipRows, skipFooterRows, skip_empty, next (target), maxPages, waitMs.',
     network_find: 'Required: where ({urlIncludes?, method?, ...}), saveAs (string). Optional: pick, waitForMs. Note: "url" is NOT valid in where — use "urlIncludes".',
+    wait_for_response: 'Required: where ({urlIncludes?, method?, status?, ...}, same as network_find). Optional: saveAs (requestId), waitForMs.',
     network_replay: 'Required: requestId, auth ("browser_context"), out (string), response ({as: "json"|"text"}). Optional: overrides, saveAs, response.path.',
+    network_paginate: 'Required: requestId, auth ("browser_context"), pagination ({type: "cursor"|"page"|"offset", param, cursorPath (cursor only)}), itemsPath (JMESPath), out (string). Optional: overrides, pagination.in ("query"|"body"), pagination.start, pagination.pageSize, maxPages, saveAs.',
     network_extract: 'Required: fromVar (string), as ("json"|"text"), out (string). Optional: path (JMESPath).',
+    transform: 'Required: sources ({name: var or collectible key}), expression (JMESPath over the named sources), out OR saveAs (string).',
+    call_pack: 'Required: pack (pack ID in the same packs directory). Optional: version (exact), inputs (templated), out ({childCollectible: collectible}), saveAs ({childCollectible: var}).',
+    include: 'Required: fragment (name from flow.json "fragments" or fragments/<name>.json). Optional: with ({param: value}). Only id, label and params on the step.',
+    assert: 'Required: at least ONE of target/selector, urlIncludes, notEmpty (var/collectible key), arrayLength ({of, min?, max?}), predicate (JMESPath over {vars, collectibles, inputs}). With a target: visible, textIncludes, textMatches (regex), attributeEquals ({name, value}), count ({eq?, min?, max?}). Optional: message.',
+    handle_dialog: 'Required: action ("accept"|"dismiss"). Optional: promptText (accept only, templated), expectMessageIncludes, dialogType ("alert"|"confirm"|"prompt"|"beforeunload"), persistent, saveAs (message). Put it BEFORE the step that opens the dialog.',
+    set_cookies: 'Required: cookies ([{name, value}] — value may use {{secret.NAME}}). Optional per cookie: url or domain (default: current page URL), path, expires (Unix seconds), httpOnly, secure, sameSite ("Strict"|"Lax"|"None").',
+    get_cookies: 'Required: saveAs (var for [{name, value, domain, path, ...}]). Optional: name, domain (includes subdomains).',
+    clear_cookies: 'Optional: name, domain (includes subdomains). Without filters, clears all cookies.',
+    get_storage: 'Required: saveAs. Optional: storage ("local"|"session", default "local"), key (saves its value; without key, saves all entries as an object).',
+    set_storage: 'Required: values ({key: string value}, templated). Optional: storage ("local"|"session", default "local").',
+    pause_for_human: 'Required: message (what the operator should do). Optional: resumeWhen (skip_if-style condition that resumes without the operator), maxWaitMs (default 300000). Headful dashboard runs only; headless and MCP runs fail with HUMAN_INPUT_UNAVAILABLE.',
     wait_for: 'Required: at least ONE of target, selector, url, or loadState. Optional: visible, timeoutMs. Note: "waitForMs" is NOT valid.',
     set_var: 'Required: name (string), value (string|number|boolean). Arrays/objects not allowed.',
     click: 'Required: target (object with kind) OR selector. Optional: first.',
@@ -315,7 +340,7 @@ export async function createTaskPackEditorServer(
     'validate_flow',
     {
       title: 'Validate Flow',
-      description: 'Validates DSL steps and collectible outputs',
+      description: 'Validates DSL steps and collectible outputs, then checks data flow (undeclared inputs, vars used before they are set, unused outputs)',
       inputSchema: z.object({
         flowJsonText: z.string().describe('Flow JSON as string'),
       }),
@@ -325,7 +350,10 @@ export async function createTaskPackEditorServer(
         const flowData = JSON.parse(flowJsonText) as {
           inputs?: InputSchema;
           collectibles?: CollectibleDefinition[];
+          fragments?: Record<string, FlowFragment>;
           flow: DslStep[];
+          on_failure?: DslStep[];
+          finally?: DslStep[];
         };
 
         if (!flowData.flow || !Array.isArray(flowData.flow)) {
@@ -357,6 +385,9 @@ export async function createTaskPackEditorServer(
           inputs: flowData.inputs || {},
           collectibles: flowData.collectibles || [],
           flow: flowData.flow,
+          on_failure: flowData.on_failure,
+          finally: flowData.finally,
+          fragments: flowData.fragments,
         };
 
         const errors: string[] = [];
@@ -364,6 +395,11 @@ export async function createTaskPackEditorServer(
 
         try {
           validateJsonTaskPack(tempPack);
+
+          const issues = analyzePackDataFlow(tempPack);
+          for (const issue of issues) {
+            (issue.severity === 'error' ? errors : warnings).push(formatDataFlowIssue(issue));
+          }
         } catch (error) {
           errors.push(error instanceof Error ? error.message : String(error));
         }
@@ -446,7 +482,10 @@ export async function createTaskPackEditorServer(
       const flowData = readJsonFile<{
         inputs?: InputSchema;
         collectibles?: CollectibleDefinition[];
+        fragments?: Record<string, FlowFragment>;
         flow: DslStep[];
+        on_failure?: DslStep[];
+        finally?: DslStep[];
       }>(flowPath);
 
       // Apply patch (accept step from patch.step or patch.proposal.step)
@@ -522,14 +561,16 @@ export async function createTaskPackEditorServer(
       }
 
       // Validate after applying
-      const tempPack = {
-        metadata: manifest,
-        inputs: flowData.inputs || {},
-        collectibles: newCollectibles,
-        flow: newFlow,
-      };
-
       try {
+        const tempPack = {
+          metadata: manifest,
+          inputs: flowData.inputs || {},
+          collectibles: newCollectibles,
+          flow: newFlow,
+          on_failure: flowData.on_failure,
+          finally: flowData.finally,
+          fragments: TaskPackLoader.loadFragments(packInfo.packPath, flowData.fragments),
+        };
         validateJsonTaskPack(tempPack);
       } catch (error) {
         const msg = error instanceof Error ? error.message : String(error);
@@ -544,7 +585,10 @@ export async function createTaskPackEditorServer(
       writeFlowJson(packInfo.packPath, {
         inputs: flowData.inputs,
         collectibles: newCollectibles,
+        fragments: flowData.fragments,
         flow: newFlow,
+        on_failure: flowData.on_failure,
+        finally: flowData.finally,
       });
 
       // Reload pack to get updated state
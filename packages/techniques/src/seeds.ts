@@ -101,7 +101,7 @@ export const SEED_TECHNIQUES: ProposedTechnique[] = [
   {
     title: 'Pagination Detection Pattern',
     content:
-      'After loading a page with list data, always check if pagination exists: (1) Look for page/offset/cursor parameters in API URLs via `browser_network_list`, (2) Check DOM for pagination controls (next buttons, page numbers), (3) Check response headers for total count. For API pagination, use `network_replay` with `overrides.setQuery` to modify page/offset parameters. For URL-based pagination, use `overrides.urlReplace` with regex to swap page numbers.',
+      'After loading a page with list data, always check if pagination exists: (1) Look for page/offset/cursor parameters in API URLs via `browser_network_list`, (2) Check DOM for pagination controls (next buttons, page numbers), (3) Check response headers for total count. For API pagination, use `network_paginate` (cursor, page or offset strategy; items concatenated into one collectible) instead of chaining `network_replay` steps by hand. For URL-based pagination, use `overrides.urlReplace` with regex to swap page numbers.',
     type: 'generic',
     priority: 2,
     domain: null,